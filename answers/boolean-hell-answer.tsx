@@ -8,7 +8,7 @@ import React, { useState, useCallback } from 'react';
 // WHY: Loading states are mutually exclusive - you can't be loading AND successful simultaneously
 type DataStatus = 'idle' | 'loading' | 'success' | 'error';
 
-function DataFetcher() {
+export function DataFetcher() {
   const [status, setStatus] = useState<DataStatus>('idle');
   const [data, setData] = useState(null);
 
@@ -42,7 +42,7 @@ function DataFetcher() {
 type FieldValidation = 'pending' | 'valid' | 'invalid';
 type SubmissionStatus = 'idle' | 'submitting' | 'success' | 'error' | 'retrying';
 
-function PaymentForm() {
+export function PaymentForm() {
   const [cardNumber, setCardNumber] = useState('');
   const [expiryDate, setExpiryDate] = useState('');
   const [cvv, setCvv] = useState('');
@@ -173,7 +173,7 @@ interface WizardState {
   status: WizardStatus;
 }
 
-function MultiStepWizard() {
+export function MultiStepWizard() {
   const [wizardState, setWizardState] = useState<WizardState>({
     currentStep: 1,
     stepValidation: { 1: 'pending', 2: 'pending', 3: 'pending', 4: 'pending' },
@@ -339,7 +339,7 @@ function asyncReducer<T>(state: AsyncState<T>, action: AsyncAction<T>): AsyncSta
   }
 }
 
-function AdvancedAsyncComponent() {
+export function AdvancedAsyncComponent() {
   const [state, dispatch] = React.useReducer(asyncReducer, { status: 'idle' });
 
   const fetchData = async () => {
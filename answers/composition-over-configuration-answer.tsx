@@ -1,7 +1,7 @@
 // COMPOSITION OVER CONFIGURATION - CORRECT IMPLEMENTATIONS
 // This file shows how to use JSX composition instead of prop configuration
 
-import React, { ReactNode, createContext, useContext } from 'react';
+import React, { ReactNode, createContext, useContext, useState } from 'react';
 
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Use children and composition instead of content props
@@ -13,7 +13,7 @@ interface AlertProps {
   onClose?: () => void;
 }
 
-function Alert({ type, children, onClose }: AlertProps) {
+export function Alert({ type, children, onClose }: AlertProps) {
   return (
     <div className={`alert alert-${type}`}>
       {children}
@@ -38,7 +38,7 @@ Alert.Message = function AlertMessage({ children }: { children: ReactNode }) {
 };
 
 // Clean, flexible usage with composition
-function AlertExamples() {
+export function AlertExamples() {
   return (
     <div>
       <Alert type="success" onClose={() => {}}>
@@ -80,7 +80,7 @@ interface ModalProps {
   children: ReactNode;
 }
 
-function Modal({ isOpen, onClose, size = 'medium', children }: ModalProps) {
+export function Modal({ isOpen, onClose, size = 'medium', children }: ModalProps) {
   if (!isOpen) return null;
 
   return (
@@ -138,7 +138,7 @@ Modal.Footer = function ModalFooter({
 };
 
 // Clean, flexible usage examples
-function ModalExamples() {
+export function ModalExamples() {
   const [showDeleteModal, setShowDeleteModal] = useState(false);
   const [showFormModal, setShowFormModal] = useState(false);
 
@@ -221,7 +221,7 @@ interface FormProps {
   className?: string;
 }
 
-function Form({ onSubmit, children, className }: FormProps) {
+export function Form({ onSubmit, children, className }: FormProps) {
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const formData = new FormData(e.target as HTMLFormElement);
@@ -290,7 +290,7 @@ interface InputProps extends React.InputHTMLAttributes<HTMLInputElement> {
   suffix?: ReactNode;
 }
 
-function Input({ prefix, suffix, className = '', ...props }: InputProps) {
+export function Input({ prefix, suffix, className = '', ...props }: InputProps) {
   return (
     <div className="input-wrapper">
       {prefix && <span className="input-prefix">{prefix}</span>}
@@ -300,11 +300,11 @@ function Input({ prefix, suffix, className = '', ...props }: InputProps) {
   );
 }
 
-function TextArea({ className = '', ...props }: React.TextareaHTMLAttributes<HTMLTextAreaElement>) {
+export function TextArea({ className = '', ...props }: React.TextareaHTMLAttributes<HTMLTextAreaElement>) {
   return <textarea className={`textarea ${className}`} {...props} />;
 }
 
-function Select({ children, className = '', ...props }: React.SelectHTMLAttributes<HTMLSelectElement>) {
+export function Select({ children, className = '', ...props }: React.SelectHTMLAttributes<HTMLSelectElement>) {
   return (
     <select className={`select ${className}`} {...props}>
       {children}
@@ -313,7 +313,7 @@ function Select({ children, className = '', ...props }: React.SelectHTMLAttribut
 }
 
 // Flexible, composable form usage
-function FormExamples() {
+export function FormExamples() {
   const [errors, setErrors] = useState<Record<string, string>>({});
 
   const handleSubmit = (formData: FormData) => {
@@ -412,7 +412,7 @@ interface CardProps {
   className?: string;
 }
 
-function Card({ size = 'medium', variant = 'default', children, className = '' }: CardProps) {
+export function Card({ size = 'medium', variant = 'default', children, className = '' }: CardProps) {
   return (
     <CardContext.Provider value={{ size, variant }}>
       <div className={`card card-${size} card-${variant} ${className}`}>
@@ -438,7 +438,7 @@ Card.Footer = function CardFooter({ children }: { children: ReactNode }) {
 };
 
 // Usage with automatic context sharing
-function CardExamples() {
+export function CardExamples() {
   return (
     <div>
       <Card size="large" variant="elevated">
@@ -7,7 +7,7 @@ import React, { useState } from 'react';
 // ✅ SOLUTION: Copy similar components instead of forcing them into one abstraction
 // WHY: Each verification type has unique behavior, styling, and requirements
 
-function EmailVerificationItem({ email, isVerified, onVerify, onEdit }) {
+export function EmailVerificationItem({ email, isVerified, onVerify, onEdit }) {
   return (
     <div className="email-verification-item">
       <div className="status-header">
@@ -33,7 +33,7 @@ function EmailVerificationItem({ email, isVerified, onVerify, onEdit }) {
   );
 }
 
-function PhoneVerificationItem({ phone, isVerified, onVerify, onEdit }) {
+export function PhoneVerificationItem({ phone, isVerified, onVerify, onEdit }) {
   return (
     <div className="phone-verification-item">
       <div className="status-header">
@@ -64,7 +64,7 @@ function PhoneVerificationItem({ phone, isVerified, onVerify, onEdit }) {
   );
 }
 
-function AddressVerificationItem({ address, isVerified, onVerify, onEdit }) {
+export function AddressVerificationItem({ address, isVerified, onVerify, onEdit }) {
   return (
     <div className="address-verification-item">
       <div className="status-header">
@@ -97,7 +97,7 @@ function AddressVerificationItem({ address, isVerified, onVerify, onEdit }) {
 }
 
 // Clean, simple usage with specific components
-function UserVerificationStatus() {
+export function UserVerificationStatus() {
   return (
     <div className="verification-status">
       <EmailVerificationItem 
@@ -126,7 +126,7 @@ function UserVerificationStatus() {
 // ✅ SOLUTION: Simple, inline form fields instead of over-engineered abstraction
 // WHY: This form is only used in one place and has specific validation rules
 
-function ContactForm() {
+export function ContactForm() {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -248,7 +248,7 @@ function ContactForm() {
 // ✅ SOLUTION: Simple, specific components instead of universal abstraction
 // WHY: Each widget has unique requirements - copying is clearer and more maintainable
 
-function SalesChart({ data, onRefresh }) {
+export function SalesChart({ data, onRefresh }) {
   const [isLoading, setIsLoading] = useState(false);
 
   const handleRefresh = async () => {
@@ -288,7 +288,7 @@ function SalesChart({ data, onRefresh }) {
   );
 }
 
-function UserCountWidget({ data, onRefresh }) {
+export function UserCountWidget({ data, onRefresh }) {
   const [isLoading, setIsLoading] = useState(false);
 
   const handleRefresh = async () => {
@@ -334,7 +334,7 @@ function UserCountWidget({ data, onRefresh }) {
   );
 }
 
-function RecentOrdersWidget({ data, onExport }) {
+export function RecentOrdersWidget({ data, onExport }) {
   const [sortBy, setSortBy] = useState<'id' | 'customer' | 'amount'>('id');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
 
@@ -434,7 +434,7 @@ function RecentOrdersWidget({ data, onExport }) {
 }
 
 // Simple, clear dashboard without over-abstraction
-function Dashboard() {
+export function Dashboard() {
   const handleRefreshSales = async () => {
     console.log('Refreshing sales data...');
     // Specific sales refresh logic
@@ -483,12 +483,12 @@ function Dashboard() {
 // ===== BONUS: When to Extract vs When to Copy =====
 
 // ✅ GOOD: Extract when you have genuine reuse (3+ places)
-function LoadingSpinner({ size = 'medium' }: { size?: 'small' | 'medium' | 'large' }) {
+export function LoadingSpinner({ size = 'medium' }: { size?: 'small' | 'medium' | 'large' }) {
   return <div className={`spinner spinner-${size}`}>⟳</div>;
 }
 
 // ✅ GOOD: Copy when components are similar but have different purposes
-function PrimaryButton({ onClick, children, disabled = false }) {
+export function PrimaryButton({ onClick, children, disabled = false }) {
   return (
     <button 
       onClick={onClick}
@@ -500,7 +500,7 @@ function PrimaryButton({ onClick, children, disabled = false }) {
   );
 }
 
-function DangerButton({ onClick, children, disabled = false, confirmText }) {
+export function DangerButton({ onClick, children, disabled = false, confirmText }) {
   const [showConfirm, setShowConfirm] = useState(false);
 
   const handleClick = () => {
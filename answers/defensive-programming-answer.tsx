@@ -7,7 +7,7 @@ import type { User, Product } from '../src/types';
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Add comprehensive validation and error handling
 // WHY: Prevents crashes and provides better user experience
-function UserProfile({ user }: { user?: User | null }) {
+export function UserProfile({ user }: { user?: User | null }) {
   // Guard against null/undefined user
   if (!user) {
     return (
@@ -95,7 +95,7 @@ function UserProfile({ user }: { user?: User | null }) {
 }
 
 // Usage with proper error boundaries
-function App() {
+export function App() {
   const [user, setUser] = useState<User | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -140,7 +140,7 @@ function App() {
 // ===== MEDIUM - FIXED =====
 // ✅ SOLUTION: Comprehensive error handling for API calls and data processing
 // WHY: Network requests and data processing are common failure points
-function ProductSearch() {
+export function ProductSearch() {
   const [searchTerm, setSearchTerm] = useState('');
   const [products, setProducts] = useState<Product[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -354,6 +354,277 @@ function ProductSearch() {
   );
 }
 
+// ===== HARD - FIXED =====
+// ✅ SOLUTION: Validate every step, show errors next to their fields and guard the submission
+// WHY: A multi-step form fails in many places - each one needs a clear message instead of a silent stop or a crash
+type RegistrationSection = 'personalInfo' | 'address' | 'preferences' | 'businessInfo';
+type FieldErrors = Record<string, string>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function ComplexRegistrationForm() {
+  const [formData, setFormData] = useState({
+    personalInfo: { firstName: '', lastName: '', email: '', phone: '', dateOfBirth: '' },
+    address: { street: '', city: '', state: '', zipCode: '', country: '' },
+    preferences: { newsletter: false, notifications: false, theme: 'light' },
+    businessInfo: { companyName: '', taxId: '', industry: '', employees: '' }
+  });
+  const [currentStep, setCurrentStep] = useState(1);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [submitError, setSubmitError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [registeredName, setRegisteredName] = useState<string | null>(null);
+
+  const updateNestedField = (section: RegistrationSection, field: string, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [section]: { ...prev[section], [field]: value } }));
+    // Clear the field's error as soon as the user corrects it
+    setErrors(prev => {
+      if (!prev[field]) return prev;
+      const { [field]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const validateStep = (step: number): FieldErrors => {
+    const stepErrors: FieldErrors = {};
+    const { personalInfo, address, businessInfo } = formData;
+
+    if (step === 1) {
+      if (!personalInfo.firstName.trim()) stepErrors.firstName = 'First name is required';
+      if (!personalInfo.lastName.trim()) stepErrors.lastName = 'Last name is required';
+      if (!personalInfo.email.trim()) stepErrors.email = 'Email is required';
+      else if (!EMAIL_PATTERN.test(personalInfo.email.trim())) stepErrors.email = 'Enter a valid email address';
+      if (personalInfo.phone && personalInfo.phone.replace(/\D/g, '').length < 7) {
+        stepErrors.phone = 'Enter a valid phone number';
+      }
+      if (personalInfo.dateOfBirth) {
+        const birthDate = new Date(personalInfo.dateOfBirth);
+        if (Number.isNaN(birthDate.getTime()) || birthDate > new Date()) {
+          stepErrors.dateOfBirth = 'Enter a valid date of birth';
+        }
+      }
+    }
+
+    if (step === 2) {
+      if (!address.street.trim()) stepErrors.street = 'Street address is required';
+      if (!address.city.trim()) stepErrors.city = 'City is required';
+      if (!address.country.trim()) stepErrors.country = 'Country is required';
+      if (address.zipCode && !/^[A-Za-z0-9 -]{3,10}$/.test(address.zipCode.trim())) {
+        stepErrors.zipCode = 'Enter a valid ZIP code';
+      }
+    }
+
+    // Business information is optional - only check what was filled in
+    if (step === 4 && businessInfo.employees) {
+      const employees = Number(businessInfo.employees);
+      if (!Number.isInteger(employees) || employees < 1) stepErrors.employees = 'Number of employees must be a whole number';
+    }
+
+    return stepErrors;
+  };
+
+  const handleNext = () => {
+    const stepErrors = validateStep(currentStep);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length === 0) {
+      setCurrentStep(prev => Math.min(prev + 1, 4));
+    }
+  };
+
+  const handlePrevious = () => {
+    setErrors({});
+    setCurrentStep(prev => Math.max(prev - 1, 1));
+  };
+
+  const handleSubmit = async () => {
+    // Block double submission
+    if (isSubmitting) return;
+
+    const stepErrors = validateStep(currentStep);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length > 0) return;
+
+    setIsSubmitting(true);
+    setSubmitError(null);
+
+    try {
+      const response = await fetch('/api/register', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      });
+
+      let result;
+      try {
+        result = await response.json();
+      } catch {
+        throw new Error('Invalid response from server');
+      }
+
+      if (!response.ok) {
+        throw new Error(result?.error || `Registration failed (${response.status})`);
+      }
+
+      // Validate the response before trusting it
+      const user = result?.user;
+      if (!user || typeof user.id !== 'string' || typeof result.token !== 'string') {
+        throw new Error('Registration response was incomplete');
+      }
+
+      try {
+        localStorage.setItem('userId', user.id);
+        localStorage.setItem('token', result.token);
+      } catch (storageError) {
+        // The account exists even if this browser cannot remember the session
+        console.warn('ComplexRegistrationForm: Could not store the session:', storageError);
+      }
+
+      setRegisteredName(`${formData.personalInfo.firstName} ${formData.personalInfo.lastName}`.trim());
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Registration failed';
+      setSubmitError(`${message}. Please try again.`);
+      console.error('ComplexRegistrationForm: Registration failed:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const renderInput = (section: RegistrationSection, field: string, placeholder: string, type = 'text') => {
+    const value = (formData[section] as Record<string, string | boolean>)[field];
+    const errorId = `${field}-error`;
+
+    return (
+      <div className="form-field">
+        <input
+          type={type}
+          placeholder={placeholder}
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => updateNestedField(section, field, e.target.value)}
+          aria-invalid={Boolean(errors[field])}
+          aria-describedby={errors[field] ? errorId : undefined}
+        />
+        {errors[field] && <span id={errorId} className="field-error">{errors[field]}</span>}
+      </div>
+    );
+  };
+
+  const getCurrentStepContent = () => {
+    switch (currentStep) {
+      case 1:
+        return (
+          <div>
+            <h3>Personal Information</h3>
+            {renderInput('personalInfo', 'firstName', 'First Name')}
+            {renderInput('personalInfo', 'lastName', 'Last Name')}
+            {renderInput('personalInfo', 'email', 'Email', 'email')}
+            {renderInput('personalInfo', 'phone', 'Phone', 'tel')}
+            {renderInput('personalInfo', 'dateOfBirth', 'Date of Birth', 'date')}
+          </div>
+        );
+      case 2:
+        return (
+          <div>
+            <h3>Address Information</h3>
+            {renderInput('address', 'street', 'Street Address')}
+            {renderInput('address', 'city', 'City')}
+            {renderInput('address', 'state', 'State')}
+            {renderInput('address', 'zipCode', 'ZIP Code')}
+            {renderInput('address', 'country', 'Country')}
+          </div>
+        );
+      case 3:
+        return (
+          <div>
+            <h3>Preferences</h3>
+            <label>
+              <input
+                type="checkbox"
+                checked={formData.preferences.newsletter}
+                onChange={(e) => updateNestedField('preferences', 'newsletter', e.target.checked)}
+              />
+              Subscribe to newsletter
+            </label>
+            <label>
+              <input
+                type="checkbox"
+                checked={formData.preferences.notifications}
+                onChange={(e) => updateNestedField('preferences', 'notifications', e.target.checked)}
+              />
+              Enable notifications
+            </label>
+            <select
+              value={formData.preferences.theme}
+              onChange={(e) => updateNestedField('preferences', 'theme', e.target.value)}
+            >
+              <option value="light">Light</option>
+              <option value="dark">Dark</option>
+              <option value="auto">Auto</option>
+            </select>
+          </div>
+        );
+      case 4:
+        return (
+          <div>
+            <h3>Business Information (Optional)</h3>
+            {renderInput('businessInfo', 'companyName', 'Company Name')}
+            {renderInput('businessInfo', 'taxId', 'Tax ID')}
+            <select
+              value={formData.businessInfo.industry}
+              onChange={(e) => updateNestedField('businessInfo', 'industry', e.target.value)}
+            >
+              <option value="">Select Industry</option>
+              <option value="tech">Technology</option>
+              <option value="finance">Finance</option>
+              <option value="healthcare">Healthcare</option>
+              <option value="retail">Retail</option>
+              <option value="other">Other</option>
+            </select>
+            {renderInput('businessInfo', 'employees', 'Number of Employees', 'number')}
+          </div>
+        );
+      default:
+        return null;
+    }
+  };
+
+  if (registeredName !== null) {
+    return (
+      <div className="registration-form">
+        <h2>Registration complete</h2>
+        <p>Welcome, {registeredName || 'new user'}!</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="registration-form">
+      <h2>Registration - Step {currentStep} of 4</h2>
+
+      {submitError && (
+        <div className="error-message" role="alert">
+          {submitError}
+        </div>
+      )}
+
+      {getCurrentStepContent()}
+
+      <div className="form-navigation">
+        {currentStep > 1 && (
+          <button onClick={handlePrevious} disabled={isSubmitting}>Previous</button>
+        )}
+
+        {currentStep < 4 ? (
+          <button onClick={handleNext}>Next</button>
+        ) : (
+          <button onClick={handleSubmit} disabled={isSubmitting}>
+            {isSubmitting ? 'Submitting...' : 'Complete Registration'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // ===== BONUS: Error Boundary Component =====
 // 🔥 Advanced pattern for catching React errors
 interface ErrorBoundaryState {
@@ -362,7 +633,7 @@ interface ErrorBoundaryState {
   errorInfo?: React.ErrorInfo;
 }
 
-class ErrorBoundary extends React.Component<
+export class ErrorBoundary extends React.Component<
   { children: React.ReactNode; fallback?: React.ComponentType<{ error: Error }> },
   ErrorBoundaryState
 > {
@@ -416,7 +687,7 @@ class ErrorBoundary extends React.Component<
 }
 
 // Usage with error boundary
-function AppWithErrorBoundary() {
+export function AppWithErrorBoundary() {
   return (
     <ErrorBoundary fallback={({ error }) => (
       <div className="custom-error">
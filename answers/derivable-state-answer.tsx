@@ -6,7 +6,7 @@ import React, { useState, useMemo } from 'react';
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Store only the source data, derive computed values
 // WHY: itemCount and totalPrice are completely determined by cartItems
-function ShoppingCart({ items }) {
+export function ShoppingCart({ items }) {
   const [cartItems, setCartItems] = useState(items);
 
   // Derived values - no useState needed!
@@ -31,7 +31,7 @@ function ShoppingCart({ items }) {
 // ===== MEDIUM - FIXED =====
 // ✅ SOLUTION: Store only user data, derive all display values during render
 // WHY: All the computed values depend entirely on userData properties
-function UserProfile({ user }) {
+export function UserProfile({ user }) {
   const [userData, setUserData] = useState(user);
 
   // All derived values computed during render - no useEffect needed!
@@ -71,7 +71,7 @@ function UserProfile({ user }) {
 // ===== HARD - FIXED =====
 // ✅ SOLUTION: Store only source data, derive all computed values with useMemo for performance
 // WHY: All statistics can be calculated from the three source arrays
-function ProjectDashboard({ projects, users, tasks }) {
+export function ProjectDashboard({ projects, users, tasks }) {
   const [projectData, setProjectData] = useState(projects);
   const [userData, setUserData] = useState(users);
   const [taskData, setTaskData] = useState(tasks);
@@ -175,7 +175,7 @@ function ProjectDashboard({ projects, users, tasks }) {
 
 // ===== BONUS: Advanced Pattern - Derived State with Memoization =====
 // 🔥 For expensive calculations, use useMemo to prevent unnecessary recalculations
-function AdvancedAnalyticsDashboard({ rawData }) {
+export function AdvancedAnalyticsDashboard({ rawData }) {
   const [data, setData] = useState(rawData);
   const [timeRange, setTimeRange] = useState('7days');
   const [selectedMetric, setSelectedMetric] = useState('revenue');
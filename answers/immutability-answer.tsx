@@ -6,7 +6,7 @@ import React, { useState, useEffect } from 'react';
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Use immutable patterns for all state updates
 // WHY: Prevents bugs, enables proper re-rendering, and makes state changes predictable
-function TodoList() {
+export function TodoList() {
   const [todos, setTodos] = useState([
     { id: 1, text: 'Learn React', completed: false },
     { id: 2, text: 'Build an app', completed: false }
@@ -132,7 +132,7 @@ interface CartState {
   };
 }
 
-function ShoppingCart() {
+export function ShoppingCart() {
   const [cart, setCart] = useState<CartState>({
     items: [],
     customer: {
@@ -476,7 +476,7 @@ interface UserWithTasks extends User {
   projects: Project[];
 }
 
-function ProjectManager() {
+export function ProjectManager() {
   // ✅ Store only the base data - no derived properties
   const [projects, setProjects] = useState<Project[]>([]);
   const [users, setUsers] = useState<User[]>([]);
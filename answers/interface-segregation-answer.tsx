@@ -20,7 +20,7 @@ interface UserCardProps {
   className?: string;
 }
 
-function UserCard({ 
+export function UserCard({ 
   id,
   firstName,
   lastName,
@@ -61,7 +61,7 @@ function extractUserCardProps(user: any): Omit<UserCardProps, 'onEdit' | 'onDele
 }
 
 // Usage demonstrating the solution
-function UserManagement() {
+export function UserManagement() {
   const [users, setUsers] = useState<any[]>([]);
   
   return (
@@ -120,7 +120,7 @@ interface OrdersWidgetProps extends BaseWidgetProps {
 }
 
 // ✅ Stats widget with focused interface
-function StatsWidget({ 
+export function StatsWidget({ 
   title, 
   stats, 
   onRefresh, 
@@ -143,7 +143,7 @@ function StatsWidget({
 }
 
 // ✅ Chart widget with focused interface
-function ChartWidget({ 
+export function ChartWidget({ 
   title, 
   chartData, 
   chartType = 'line',
@@ -168,7 +168,7 @@ function ChartWidget({
 }
 
 // ✅ Orders widget with focused interface
-function RecentOrdersWidget({ 
+export function RecentOrdersWidget({ 
   title, 
   orders, 
   userPermissions,
@@ -197,7 +197,7 @@ function RecentOrdersWidget({
 }
 
 // Usage with properly segregated props
-function Dashboard() {
+export function Dashboard() {
   // Sample data that would come from API/state
   const dashboardData = {
     stats: {
@@ -307,7 +307,7 @@ interface PaymentFormProps extends BaseFormProps {
 }
 
 // ✅ Focused contact form
-function ContactForm({ 
+export function ContactForm({ 
   title, 
   initialData, 
   onSubmit, 
@@ -374,7 +374,7 @@ function ContactForm({
 }
 
 // ✅ Focused business registration form
-function BusinessRegistrationForm({ 
+export function BusinessRegistrationForm({ 
   title, 
   initialData, 
   onSubmit,
@@ -519,7 +519,7 @@ function BusinessRegistrationForm({
 }
 
 // ✅ Focused payment form
-function PaymentForm({ 
+export function PaymentForm({ 
   title, 
   initialData, 
   onSubmit,
@@ -622,7 +622,7 @@ function PaymentForm({
 }
 
 // Usage with properly segregated form props
-function FormExamples() {
+export function FormExamples() {
   return (
     <div className="form-examples">
       {/* ✅ Each form gets exactly the props it needs */}
@@ -6,7 +6,7 @@ import React, { useState } from 'react';
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Keep simple formatting logic directly in the component
 // WHY: formatUserName was only used in one place, so extracting it created unnecessary indirection
-function UserGreeting({ user }) {
+export function UserGreeting({ user }) {
   // Simple logic that's only used here stays here
   const displayName = `${user.firstName} ${user.lastName}`;
   
@@ -16,7 +16,7 @@ function UserGreeting({ user }) {
 // ===== MEDIUM - FIXED =====
 // ✅ SOLUTION: Keep validation and error formatting logic in the component
 // WHY: This validation is specific to this form's requirements and UX patterns
-function RegistrationForm() {
+export function RegistrationForm() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [age, setAge] = useState('');
@@ -97,7 +97,7 @@ function RegistrationForm() {
 // ===== HARD - FIXED =====
 // ✅ SOLUTION: Consolidate related functionality into a single, cohesive component
 // WHY: All the filtering, sorting, and price logic is part of one user experience
-function ProductListing({ products }) {
+export function ProductListing({ products }) {
   // All related state in one place
   const [categoryFilter, setCategoryFilter] = useState('');
   const [brandFilter, setBrandFilter] = useState('');
@@ -26,7 +26,7 @@ interface Post {
   userId: string;
 }
 
-function UserDashboard() {
+export function UserDashboard() {
   // ✅ Store ONLY the essential data that can't be derived
   const [user, setUser] = useState<User | null>(null);
   const [posts, setPosts] = useState<Post[]>([]);
@@ -245,7 +245,7 @@ interface CartItem {
   taxable: boolean;
 }
 
-function ShoppingCart() {
+export function ShoppingCart() {
   // ✅ Store ONLY the essential state
   const [items, setItems] = useState<CartItem[]>([]);
   const [couponCode, setCouponCode] = useState('');
@@ -591,7 +591,7 @@ interface User {
   avatar?: string;
 }
 
-function ProjectManagementSystem() {
+export function ProjectManagementSystem() {
   // ✅ Store ONLY the base entities - no derived data
   const [projects, setProjects] = useState<Project[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
@@ -6,7 +6,7 @@ import React, { useState, useEffect } from 'react';
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Create specific, named functions instead of generic handlers
 // WHY: Makes code self-documenting, easier to understand, and safer to modify
-function UserManagement() {
+export function UserManagement() {
   const [users, setUsers] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -318,7 +318,7 @@ interface ContactFormData {
   newsletter: boolean;
 }
 
-function ContactForm() {
+export function ContactForm() {
   const [formData, setFormData] = useState<ContactFormData>({
     name: '',
     email: '',
@@ -586,7 +586,7 @@ interface LoginFormData {
   rememberMe: boolean;
 }
 
-function LoginForm() {
+export function LoginForm() {
   const [formData, setFormData] = useState<LoginFormData>({
     email: '',
     password: '',
@@ -1095,7 +1095,7 @@ class UIStateManager {
 }
 
 // ✅ Usage with explicit, focused state managers
-function AppWithExplicitStateManagement() {
+export function AppWithExplicitStateManagement() {
   const [userManager] = useState(() => new UserStateManager());
   const [productManager] = useState(() => new ProductStateManager());
   const [uiManager] = useState(() => new UIStateManager());
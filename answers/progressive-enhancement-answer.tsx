@@ -6,7 +6,7 @@ import React, { useState, useEffect } from 'react';
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Use proper HTML form that works without JavaScript
 // WHY: Ensures accessibility, works with all browsers, and provides fallback functionality
-function ContactForm() {
+export function ContactForm() {
   const [email, setEmail] = useState('');
   const [message, setMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -121,7 +121,7 @@ function ContactForm() {
 // ===== MEDIUM - FIXED =====
 // ✅ SOLUTION: Use semantic HTML elements that work without JavaScript and enhance with interactivity
 // WHY: Screen readers understand semantic elements, keyboard navigation works, and basic functionality remains
-function ProductCatalog() {
+export function ProductCatalog() {
   const [products, setProducts] = useState<any[]>([]);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [sortBy, setSortBy] = useState('name');
@@ -359,7 +359,7 @@ function ProductCatalog() {
 // ===== HARD - FIXED =====
 // ✅ SOLUTION: Create semantic HTML structure that works server-side and enhances client-side
 // WHY: Admin functionality must be accessible even if JavaScript fails or is disabled
-function AdminDashboard() {
+export function AdminDashboard() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState<any>(null);
   const [activeTab, setActiveTab] = useState('users');
@@ -6,7 +6,7 @@ import React, { useState, useEffect, useMemo, useCallback } from 'react';
 // ===== EASY - FIXED =====
 // ✅ SOLUTION: Store random value in state instead of generating it during render
 // WHY: Math.random() creates different values on every render, making the UI non-deterministic
-function RandomQuote({ quotes }) {
+export function RandomQuote({ quotes }) {
   // Generate random index once and store it in state
   const [selectedIndex, setSelectedIndex] = useState(() => 
     Math.floor(Math.random() * quotes.length)
@@ -32,7 +32,7 @@ function RandomQuote({ quotes }) {
 // ===== MEDIUM - FIXED =====
 // ✅ SOLUTION: Move time-based calculations to state and effects
 // WHY: Using new Date() in render makes the component non-deterministic
-function TimeBasedGreeting({ userName }) {
+export function TimeBasedGreeting({ userName }) {
   // Store time-based values in state
   const [currentTime, setCurrentTime] = useState(() => new Date());
   const [sessionId] = useState(() => Math.random().toString(36).substr(2, 9));
@@ -83,7 +83,7 @@ function TimeBasedGreeting({ userName }) {
 // ===== HARD - FIXED =====
 // ✅ SOLUTION: Move all non-deterministic values to state and side effects to useEffect
 // WHY: Render should be a pure function of props and state
-function DashboardWidget({ userId, widgetType }) {
+export function DashboardWidget({ userId, widgetType }) {
   // Store all non-deterministic values in state
   const [componentId] = useState(() => `widget-${Math.random().toString(36).substr(2, 9)}`);
   const [renderTime] = useState(() => new Date().toISOString());
@@ -220,7 +220,7 @@ function DashboardWidget({ userId, widgetType }) {
         {widgetType === 'stats' && (
           <div>
             <p>Render count: {renderCount}</p>
-            <p>Uptime: {Math.floor((Date.now() - new Date(renderTime).getTime()) / 1000)}s</p>
+            <p>Uptime: {Math.floor((currentTime.getTime() - new Date(renderTime).getTime()) / 1000)}s</p>
           </div>
         )}
         
@@ -242,7 +242,7 @@ function DashboardWidget({ userId, widgetType }) {
 // ===== BONUS: Correct Patterns for Common Scenarios =====
 
 // ✅ Stable object creation with useMemo
-function StableObjectComponent({ items }) {
+export function StableObjectComponent({ items }) {
   // Objects created once and memoized
   const processedItems = useMemo(() => 
     items.map((item, index) => ({
@@ -270,7 +270,7 @@ function StableObjectComponent({ items }) {
 }
 
 // ✅ Proper external state management
-function ExternalStateComponent() {
+export function ExternalStateComponent() {
   const [config, setConfig] = useState(null);
   const [currentUrl, setCurrentUrl] = useState(window.location.href);
 
@@ -298,7 +298,7 @@ function ExternalStateComponent() {
 }
 
 // ✅ Proper side effect management
-function SideEffectComponent({ data }) {
+export function SideEffectComponent({ data }) {
   // All side effects in useEffect
   useEffect(() => {
     document.body.className = data.theme;
@@ -328,7 +328,7 @@ function SideEffectComponent({ data }) {
 }
 
 // ✅ ID generation pattern
-function ComponentWithStableId({ name }) {
+export function ComponentWithStableId({ name }) {
   // Generate stable ID once
   const [id] = useState(() => `${name}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
   
@@ -336,7 +336,7 @@ function ComponentWithStableId({ name }) {
 }
 
 // ✅ Current time pattern
-function CurrentTimeComponent() {
+export function CurrentTimeComponent() {
   const [currentTime, setCurrentTime] = useState(() => new Date());
 
   useEffect(() => {
@@ -0,0 +1,106 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { transforms } from '../src';
+
+const { apply } = transforms['boolean-status-union'];
+
+const readRepoFile = (path: string) => readFileSync(new URL(`../../${path}`, import.meta.url), 'utf8');
+
+// From the status type to the end of the component
+const getDataFetcher = (source: string) => {
+  const start = source.indexOf('type DataStatus');
+  return source.slice(start, source.indexOf('\n}\n', start) + 2);
+};
+
+describe('boolean-status-union', () => {
+  it('turns DataFetcher in tests/boolean-hell-test.tsx into the answer file\'s version', () => {
+    const { output, notes } = apply(readRepoFile('tests/boolean-hell-test.tsx'), 'tests/boolean-hell-test.tsx');
+
+    expect(getDataFetcher(output)).toBe(getDataFetcher(readRepoFile('answers/boolean-hell-answer.tsx')));
+    expect(notes).toContain('DataFetcher: isLoading, isSuccess, isError -> status (DataStatus)');
+  });
+
+  it('rewrites negations, shorthand properties and partial resets', () => {
+    const { output } = apply(`
+export const Uploader = () => {
+  const [isSaving, setIsSaving] = useState(true);
+  const [isFailed, setIsFailed] = useState(false);
+
+  const retry = () => {
+    setIsFailed(false);
+    setIsSaving(true);
+  };
+  const cancel = () => setIsSaving(false);
+
+  track({ isSaving });
+  return <button disabled={!isSaving} title={String(isFailed)} onClick={isFailed ? retry : cancel} />;
+};
+`, 'uploader.tsx');
+
+    expect(output).toBe(`
+type UploaderStatus = 'idle' | 'saving' | 'failed';
+
+export const Uploader = () => {
+  const [status, setStatus] = useState<UploaderStatus>('saving');
+
+  const retry = () => {
+    setStatus('saving');
+  };
+  const cancel = () => setStatus(current => (current === 'saving' ? 'idle' : current));
+
+  track({ isSaving: status === 'saving' });
+  return <button disabled={status !== 'saving'} title={String(status === 'failed')} onClick={status === 'failed' ? retry : cancel} />;
+};
+`);
+  });
+
+  it('leaves flags alone when they can be true together or are set from computed values', () => {
+    const source = `
+export function Editor({ valid }: { valid: boolean }) {
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirtyError, setIsDirtyError] = useState(false);
+  const [isValid, setIsValid] = useState(false);
+  const [isInvalid, setIsInvalid] = useState(false);
+
+  const save = () => {
+    setIsSaving(true);
+    setIsDirtyError(true);
+    setIsValid(valid);
+    setIsInvalid(!valid);
+  };
+
+  return <form onSubmit={save}>{isSaving && isDirtyError && isValid && isInvalid}</form>;
+}
+`;
+    const { output, notes } = apply(source, 'editor.tsx');
+
+    expect(output).toBe(source);
+    expect(notes).toEqual([
+      'Editor: left isValid alone - setIsValid is called with a computed value',
+      'Editor: left isInvalid alone - setIsInvalid is called with a computed value',
+      'Editor: left isSaving, isDirtyError alone - isSaving and isDirtyError are set to true together'
+    ]);
+  });
+
+  it('picks names that do not clash with the component or the file', () => {
+    const { output } = apply(`
+type ReportStatus = 'draft' | 'published';
+
+export function ReportViewer({ status }: { status: ReportStatus }) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [isError, setIsError] = useState(false);
+
+  const load = () => {
+    setIsLoading(true);
+    setIsError(false);
+  };
+
+  return <p onClick={load}>{status} {isLoading && 'Loading'} {isError && 'Failed'}</p>;
+}
+`, 'report.tsx');
+
+    expect(output).toContain("type ReportViewerStatus = 'idle' | 'loading' | 'error';");
+    expect(output).toContain("const [reportViewerStatus, setReportViewerStatus] = useState<ReportViewerStatus>('idle');");
+    expect(output).toContain("{status} {reportViewerStatus === 'loading' && 'Loading'}");
+  });
+});
@@ -0,0 +1,118 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { transforms } from '../src';
+
+const { apply } = transforms['derived-state'];
+
+const readRepoFile = (path: string) => readFileSync(new URL(`../../${path}`, import.meta.url), 'utf8');
+
+// From `const <name> = useMemo` to the end of its dependency list
+const getMemo = (source: string, name: string) => {
+  const start = source.indexOf(`const ${name} = useMemo`);
+  const end = source.indexOf(']);', start);
+  return start === -1 ? undefined : source.slice(start, end + 3);
+};
+
+describe('derived-state', () => {
+  it('computes the derived values in tests/derivable-state-test.tsx during render, as the answer file does', () => {
+    const { output, notes } = apply(readRepoFile('tests/derivable-state-test.tsx'), 'tests/derivable-state-test.tsx');
+    const answer = readRepoFile('answers/derivable-state-answer.tsx');
+
+    expect(output).toContain(`export function ShoppingCart({ items }: {   items: ShoppingCartItem[] }) {
+  const [cartItems, setCartItems] = useState(items);
+
+  const itemCount = cartItems.length;
+  const totalPrice = useMemo(() => cartItems.reduce((sum, item) => sum + item.price, 0), [cartItems]);
+`);
+    expect(getMemo(output, 'accountAge')).toBe(getMemo(answer, 'accountAge'));
+    expect(getMemo(output, 'hasCompletedProfile')).toBe(getMemo(answer, 'hasCompletedProfile'));
+    expect(output).toContain("import React, { useState, useEffect, useMemo } from 'react';");
+    expect(notes).toContain('UserProfile: left membershipTier alone - the effect picks values in if/else branches');
+    expect(notes).toContain('ProjectDashboard: activeProjects, completedProjects, overDueProjects -> computed during render');
+  });
+
+  it('keeps the fallback of an effect guarded by an if', () => {
+    const { output } = apply(readRepoFile('tests/minimize-state-test.tsx'), 'tests/minimize-state-test.tsx');
+
+    expect(output).toContain("const userName = user ? `${user.firstName} ${user.lastName}` : '';");
+    expect(output).toContain('const postCount = posts ? posts.length : 0;');
+    expect(output).toContain(`const averagePostLength = useMemo(() => {
+    if (!posts) return 0;
+    const totalLength = posts.reduce((sum, post) => sum + post.content.length, 0);
+    return posts.length > 0 ? totalLength / posts.length : 0;
+  }, [posts]);`);
+  });
+
+  it('declares a local several values share once, under the name of the state that copies it', () => {
+    const { output, notes } = apply(`import { useState, useEffect } from 'react';
+
+export const Team = ({ members, owner }: Props) => {
+  const [byRole, setByRole] = useState({});
+  const [roleCount, setRoleCount] = useState(0);
+  const [label, setLabel] = useState('');
+
+  useEffect(() => {
+    const groups = members.reduce((acc, member) => ({ ...acc, [member.role]: member }), {});
+    setByRole(groups);
+    setRoleCount(Object.keys(groups).length);
+    setLabel(owner.name + ' (' + members.length + ')');
+  }, [members, owner.name]); // keep in sync
+
+  return <Roles groups={byRole} count={roleCount} label={label} />;
+};
+`, 'team.tsx');
+
+    expect(output).toBe(`import { useMemo } from 'react';
+
+export const Team = ({ members, owner }: Props) => {
+
+  const byRole = useMemo(() => members.reduce((acc, member) => ({ ...acc, [member.role]: member }), {}), [members]);
+  const roleCount = Object.keys(byRole).length;
+  const label = owner.name + ' (' + members.length + ')';
+
+  return <Roles groups={byRole} count={roleCount} label={label} />;
+};
+`);
+    expect(notes).toEqual(['Team: byRole, roleCount, label -> computed during render']);
+  });
+
+  it('leaves state alone when an effect is not the only thing writing it or it cannot move into render', () => {
+    const source = `export function Editor({ draft }: { draft: string }) {
+  const [length, setLength] = useState(0);
+  const [saved, setSaved] = useState('');
+  const [count, setCount] = useState(0);
+  const [ready, setReady] = useState(false);
+  const [words, setWords] = useState(0);
+
+  const preview = words > 0 ? draft : '';
+
+  useEffect(() => {
+    setLength(draft.length);
+  }, [draft]);
+
+  useEffect(() => {
+    setCount(current => current + 1);
+  }, [draft]);
+
+  useEffect(() => {
+    setReady(true);
+  }, []);
+
+  useEffect(() => {
+    setWords(draft.split(' ').length);
+  }, [draft]);
+
+  return <textarea value={preview + saved + count + ready} onChange={() => setLength(0)} onBlur={() => setSaved(draft)} />;
+}
+`;
+    const { output, notes } = apply(source, 'editor.tsx');
+
+    expect(output).toBe(source);
+    expect(notes).toEqual([
+      'Editor: left length alone - setLength is also used outside the effect',
+      'Editor: left count alone - setCount is given an updater function',
+      'Editor: left ready alone - ready is not computed from props or state',
+      'Editor: left words alone - words is read before the effect that computes it'
+    ]);
+  });
+});
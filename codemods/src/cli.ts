@@ -0,0 +1,82 @@
+#!/usr/bin/env node
+// design-codemods - run one transform over files and folders, printing a diff of every change for review
+// Usage: design-codemods <transform> <paths...> [--dry]
+
+import { readdirSync, readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { createTwoFilesPatch } from 'diff';
+import { transforms } from './index';
+
+type TransformName = keyof typeof transforms;
+
+const SOURCE_EXTENSIONS = /\.(tsx?|jsx?)$/;
+const SKIPPED_DIRECTORIES = new Set(['node_modules', 'dist', 'build', 'coverage', '.git']);
+
+const USAGE = `Usage: design-codemods <transform> <paths...> [--dry]
+
+Transforms:
+${Object.entries(transforms).map(([name, transform]) => `  ${name.padEnd(28)}${transform.description}`).join('\n')}
+
+Folders are searched for .ts, .tsx, .js and .jsx files, skipping node_modules and build output.
+--dry prints the diff without writing any file.`;
+
+const collectFiles = (path: string): string[] => {
+  if (!statSync(path).isDirectory()) return [path];
+
+  return readdirSync(path, { withFileTypes: true }).flatMap(entry => {
+    if (entry.isDirectory()) return SKIPPED_DIRECTORIES.has(entry.name) ? [] : collectFiles(join(path, entry.name));
+    return SOURCE_EXTENSIONS.test(entry.name) && !entry.name.endsWith('.d.ts') ? [join(path, entry.name)] : [];
+  });
+};
+
+const main = (argv: string[]) => {
+  const isDryRun = argv.includes('--dry');
+  const [name, ...paths] = argv.filter(argument => argument !== '--dry');
+  const transform = name && Object.keys(transforms).includes(name) ? transforms[name as TransformName] : undefined;
+
+  if (!transform || paths.length === 0) {
+    console.log(USAGE);
+    process.exitCode = name && name !== 'help' ? 1 : 0;
+    return;
+  }
+
+  const files = paths.flatMap(collectFiles);
+  let changed = 0;
+  let failed = 0;
+
+  files.forEach(file => {
+    const source = readFileSync(file, 'utf8');
+    const path = relative(process.cwd(), file);
+
+    // One file the transform trips over should not stop a run across a whole code base
+    let result;
+    try {
+      result = transform.apply(source, file);
+    } catch (error) {
+      failed++;
+      console.error(`✖ ${path}: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    const { output, notes } = result;
+
+    if (output !== source) {
+      changed++;
+      console.log(createTwoFilesPatch(path, path, source, output));
+      if (!isDryRun) writeFileSync(file, output);
+    }
+    notes.forEach(note => console.log(`  ${path}: ${note}`));
+  });
+
+  console.log(`\n${changed} of ${files.length} file(s) ${isDryRun ? 'would change (dry run - nothing written)' : 'changed'}`);
+  if (failed > 0) {
+    console.error(`✖ ${failed} file(s) could not be transformed`);
+    process.exitCode = 1;
+  }
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(`✖ ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,12 @@
+// react-design-principles-codemods - rewrite the anti-patterns the study guide exercises teach into their fixed form
+// Run them with `design-codemods <transform> <paths...>`; every run prints a diff to review
+
+import { booleanStatusUnion } from './transforms/boolean-status-union';
+import { derivedState } from './transforms/derived-state';
+
+export type { Transform, TransformResult } from './types';
+
+export const transforms = {
+  'boolean-status-union': booleanStatusUnion,
+  'derived-state': derivedState
+};
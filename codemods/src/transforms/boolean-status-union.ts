@@ -0,0 +1,320 @@
+// Boolean hell: boolean useState flags that are never true together become one status union
+// `isLoading` + `isSuccess` + `isError` -> `type DataStatus = 'idle' | 'loading' | 'success' | 'error'`, setters and reads included
+
+import * as ts from 'typescript';
+import type { Transform } from '../types';
+import { type Component, type StateDeclaration, collectNames, findComponents, getStateDeclarations } from '../utils/react';
+import {
+  type TextEdit,
+  applyEdits,
+  findReferences,
+  insertBefore,
+  parseFile,
+  removeNode,
+  replaceNode
+} from '../utils/source';
+
+// The last word of a flag name that marks it as one phase of a status, e.g. isSubmit*Error*
+const STATUS_WORDS = new Set([
+  'loading', 'fetching', 'submitting', 'saving', 'processing', 'pending', 'retrying', 'navigating',
+  'success', 'succeeded', 'successful', 'error', 'errored', 'failed', 'failure',
+  'complete', 'completed', 'done', 'idle', 'valid', 'invalid', 'active'
+]);
+
+const IDLE = 'idle';
+
+interface Flag {
+  state: StateDeclaration;
+  setter: ts.Identifier;
+  initial: boolean;
+  // Name words without the `is`/`has` prefix, e.g. ['Submit', 'Error']
+  words: string[];
+  // The union member the flag becomes, e.g. 'error'
+  status: string;
+}
+
+interface SetterCall {
+  flag: Flag;
+  value: boolean;
+  call: ts.CallExpression;
+}
+
+// Setter calls that run back to back - each run becomes a single call to the new setter
+type Transition = SetterCall[];
+
+type Analysis = { calls: SetterCall[] } | { reason: string };
+
+const getWords = (name: string): string[] => {
+  const words = name.split(/(?=[A-Z])/);
+  return words.length > 1 && ['is', 'has', 'was'].includes(words[0]) ? words.slice(1) : words;
+};
+
+const isStatusName = (name: string): boolean => {
+  const words = name.split(/(?=[A-Z])/);
+  return STATUS_WORDS.has(words[words.length - 1].toLowerCase());
+};
+
+const getBooleanInitial = ({ call }: StateDeclaration): boolean | undefined => {
+  const [initial] = call.arguments;
+  if (initial?.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (initial?.kind === ts.SyntaxKind.FalseKeyword) return false;
+  return undefined;
+};
+
+const toPascalCase = (words: string[]): string => words.map(word => word[0].toUpperCase() + word.slice(1)).join('');
+
+const toCamelCase = (words: string[]): string => {
+  const pascal = toPascalCase(words);
+  return pascal[0].toLowerCase() + pascal.slice(1);
+};
+
+// Words every flag in the group starts with, as long as each flag keeps at least one word of its own
+const getCommonPrefix = (flags: Flag[]): string[] => {
+  const prefix: string[] = [];
+  for (let index = 0; flags.every(flag => flag.words.length > index + 1); index++) {
+    const word = flags[0].words[index];
+    if (!flags.every(flag => flag.words[index] === word)) break;
+    prefix.push(word);
+  }
+  return prefix;
+};
+
+// `status === 'loading'` needs no parentheses where it is a whole operand of &&, ||, ?: or a value of its own
+const needsParentheses = (node: ts.Node): boolean => {
+  const { parent } = node;
+  if (ts.isBinaryExpression(parent)) {
+    return ![
+      ts.SyntaxKind.AmpersandAmpersandToken,
+      ts.SyntaxKind.BarBarToken,
+      ts.SyntaxKind.QuestionQuestionToken,
+      ts.SyntaxKind.EqualsToken
+    ].includes(parent.operatorToken.kind);
+  }
+  if (ts.isCallExpression(parent) || ts.isNewExpression(parent)) return parent.expression === node;
+
+  return !(
+    ts.isJsxExpression(parent)
+    || ts.isParenthesizedExpression(parent)
+    || ts.isConditionalExpression(parent)
+    || ts.isVariableDeclaration(parent)
+    || ts.isReturnStatement(parent)
+    || ts.isIfStatement(parent)
+    || ts.isWhileStatement(parent)
+    || ts.isDoStatement(parent)
+    || ts.isExpressionStatement(parent)
+    || ts.isPropertyAssignment(parent)
+    || ts.isArrayLiteralExpression(parent)
+    || ts.isArrowFunction(parent)
+  );
+};
+
+const getStatementOf = (call: ts.CallExpression): ts.ExpressionStatement | undefined => {
+  return ts.isExpressionStatement(call.parent) ? call.parent : undefined;
+};
+
+// Consecutive setter-call statements in the same block form one transition; a call as an arrow's whole body is one on its own
+const groupTransitions = (calls: SetterCall[]): Transition[] => {
+  const transitions: Transition[] = [];
+  const byStatement = new Map<ts.Statement, SetterCall>();
+
+  calls.forEach(call => {
+    const statement = getStatementOf(call.call);
+    if (statement) byStatement.set(statement, call);
+    else transitions.push([call]);
+  });
+
+  const seen = new Set<ts.Statement>();
+  byStatement.forEach((_, statement) => {
+    if (seen.has(statement)) return;
+
+    const siblings = (statement.parent as ts.Block).statements;
+    let index = siblings.indexOf(statement);
+    while (index > 0 && byStatement.has(siblings[index - 1])) index--;
+
+    const transition: Transition = [];
+    for (; index < siblings.length && byStatement.has(siblings[index]); index++) {
+      seen.add(siblings[index]);
+      transition.push(byStatement.get(siblings[index])!);
+    }
+    transitions.push(transition);
+  });
+
+  return transitions;
+};
+
+// Flags set in the same transition belong to the same status
+const groupFlags = (flags: Flag[], transitions: Transition[]): Flag[][] => {
+  const groupOf = new Map<Flag, Set<Flag>>(flags.map(flag => [flag, new Set([flag])]));
+
+  transitions.forEach(transition => {
+    const [first, ...rest] = transition.map(call => call.flag);
+    rest.forEach(flag => {
+      const target = groupOf.get(first)!;
+      const source = groupOf.get(flag)!;
+      if (target === source) return;
+      source.forEach(member => {
+        target.add(member);
+        groupOf.set(member, target);
+      });
+    });
+  });
+
+  return [...new Set(groupOf.values())]
+    .map(group => flags.filter(flag => group.has(flag)))
+    .filter(group => group.length > 1);
+};
+
+export const booleanStatusUnion: Transform = {
+  description: 'Replace mutually exclusive boolean useState flags such as isLoading/isSuccess/isError with one status union',
+  apply(source, path) {
+    const { sourceFile, checker } = parseFile(path, source);
+    const fileNames = collectNames(sourceFile);
+    const edits: TextEdit[] = [];
+    const notes: string[] = [];
+
+    // Every use of the setter must be a call with a literal true or false
+    const analyzeSetter = (component: Component, flag: Flag): Analysis => {
+      const calls: SetterCall[] = [];
+      for (const reference of findReferences(checker, flag.setter, component.body)) {
+        const call = reference.parent;
+        if (!ts.isCallExpression(call) || call.expression !== reference) {
+          return { reason: `${flag.setter.text} is passed on instead of called` };
+        }
+
+        const [argument] = call.arguments;
+        const value = argument?.kind === ts.SyntaxKind.TrueKeyword ? true : argument?.kind === ts.SyntaxKind.FalseKeyword ? false : undefined;
+        if (value === undefined || call.arguments.length !== 1) {
+          return { reason: `${flag.setter.text} is called with a computed value` };
+        }
+        if (!getStatementOf(call) && !(ts.isArrowFunction(call.parent) && call.parent.body === call)) {
+          return { reason: `${flag.setter.text}() is part of a larger expression` };
+        }
+        calls.push({ flag, value, call });
+      }
+      return { calls };
+    };
+
+    // Variable names only have to be free in the component, the type name in the whole file
+    const getNames = (component: Component, group: Flag[], taken: { variables: Set<string>; types: Set<string> }) => {
+      const prefix = getCommonPrefix(group);
+      const componentWords = component.name.split(/(?=[A-Z])/);
+      const candidates = [
+        prefix.length > 0
+          ? { variable: toCamelCase([...prefix, 'status']), type: toPascalCase([...prefix, 'status']) }
+          : { variable: 'status', type: toPascalCase([componentWords[0], 'status']) },
+        { variable: toCamelCase([...componentWords, ...prefix, 'status']), type: toPascalCase([...componentWords, ...prefix, 'status']) }
+      ];
+
+      return candidates
+        .map(names => ({ ...names, setter: `set${toPascalCase([names.variable])}` }))
+        .find(names => !taken.variables.has(names.variable) && !taken.variables.has(names.setter) && !taken.types.has(names.type));
+    };
+
+    const describe = (group: Flag[]) => group.map(flag => flag.state.value.text).join(', ');
+
+    findComponents(sourceFile).forEach(component => {
+      const flags = getStateDeclarations(component.body).flatMap((state): Flag[] => {
+        const initial = getBooleanInitial(state);
+        if (initial === undefined || !state.setter || !isStatusName(state.value.text)) return [];
+        return [{ state, setter: state.setter, initial, words: getWords(state.value.text), status: '' }];
+      });
+
+      const calls: SetterCall[] = [];
+      const convertible = flags.filter(flag => {
+        const analysis = analyzeSetter(component, flag);
+        if ('reason' in analysis) {
+          notes.push(`${component.name}: left ${flag.state.value.text} alone - ${analysis.reason}`);
+          return false;
+        }
+        calls.push(...analysis.calls);
+        return true;
+      });
+
+      const transitions = groupTransitions(calls);
+      const aliases: string[] = [];
+      const taken = { variables: collectNames(component.node), types: fileNames };
+
+      groupFlags(convertible, transitions).forEach(group => {
+        const prefix = getCommonPrefix(group);
+        group.forEach(flag => {
+          flag.status = flag.words.slice(prefix.length).map(word => word.toLowerCase()).join('-');
+        });
+
+        const ownTransitions = transitions.filter(transition => group.includes(transition[0].flag));
+        const together = ownTransitions.find(transition => transition.filter(call => call.value).length > 1);
+        const initiallyTrue = group.filter(flag => flag.initial);
+        const statuses = group.map(flag => flag.status);
+
+        let reason: string | undefined;
+        if (together) {
+          reason = `${together.filter(call => call.value).map(call => call.flag.state.value.text).join(' and ')} are set to true together`;
+        } else if (initiallyTrue.length > 1) {
+          reason = `${initiallyTrue.map(flag => flag.state.value.text).join(' and ')} both start out true`;
+        } else if (new Set([...statuses, IDLE]).size !== statuses.length + 1) {
+          reason = 'their names do not give distinct status values';
+        }
+
+        const names = reason ? undefined : getNames(component, group, taken);
+        if (!names) {
+          notes.push(`${component.name}: left ${describe(group)} alone - ${reason ?? 'no free name for the status'}`);
+          return;
+        }
+        taken.variables.add(names.variable).add(names.setter);
+        taken.types.add(names.type);
+
+        const needsIdle = initiallyTrue.length === 0 || ownTransitions.some(transition => transition.every(call => !call.value));
+        const members = [...(needsIdle ? [IDLE] : []), ...statuses].map(status => `'${status}'`);
+        aliases.push(`type ${names.type} = ${members.join(' | ')};\n`);
+
+        const [first, ...rest] = group;
+        const useState = first.state.call.expression.getText();
+        const initial = initiallyTrue[0]?.status ?? IDLE;
+        edits.push(replaceNode(first.state.statement, `const [${names.variable}, ${names.setter}] = ${useState}<${names.type}>('${initial}');`));
+        rest.forEach(flag => edits.push(removeNode(flag.state.statement)));
+
+        ownTransitions.forEach(transition => {
+          const set = transition.find(call => call.value);
+          const cleared = transition.map(call => call.flag);
+          const argument = set
+            ? `'${set.flag.status}'`
+            : group.every(flag => cleared.includes(flag))
+              ? `'${IDLE}'`
+              : `current => (${cleared.map(flag => `current === '${flag.status}'`).join(' || ')} ? '${IDLE}' : current)`;
+          const text = `${names.setter}(${argument})`;
+
+          const [head, ...tail] = transition;
+          const statement = getStatementOf(head.call);
+          if (!statement) {
+            edits.push(replaceNode(head.call, text));
+            return;
+          }
+          edits.push(replaceNode(statement, `${text};`));
+          tail.forEach(call => edits.push(removeNode(getStatementOf(call.call)!)));
+        });
+
+        group.forEach(flag => {
+          findReferences(checker, flag.state.value, component.body).forEach(reference => {
+            const { parent } = reference;
+            if (ts.isShorthandPropertyAssignment(parent)) {
+              edits.push(replaceNode(reference, `${reference.text}: ${names.variable} === '${flag.status}'`));
+              return;
+            }
+
+            const isNegated = ts.isPrefixUnaryExpression(parent) && parent.operator === ts.SyntaxKind.ExclamationToken;
+            const target = isNegated ? parent : reference;
+            const comparison = `${names.variable} ${isNegated ? '!==' : '==='} '${flag.status}'`;
+            edits.push(replaceNode(target, needsParentheses(target) ? `(${comparison})` : comparison));
+          });
+        });
+
+        notes.push(`${component.name}: ${describe(group)} -> ${names.variable} (${names.type})`);
+      });
+
+      if (aliases.length > 0) {
+        edits.push(insertBefore(component.statement, `${aliases.join('')}\n`));
+      }
+    });
+
+    return { output: applyEdits(source, edits), notes };
+  }
+};
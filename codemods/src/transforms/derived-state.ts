@@ -0,0 +1,463 @@
+// Derived state: a useState value that an effect only ever copies from props or other state is computed during render instead
+// The effect's `const` locals and `if (...)` guard come along; values built with loops or array callbacks go in useMemo
+
+import * as ts from 'typescript';
+import type { Transform } from '../types';
+import {
+  type Component,
+  type StateDeclaration,
+  collectNames,
+  editReactImport,
+  findComponents,
+  getStateDeclarations,
+  isHookCall
+} from '../utils/react';
+import { type TextEdit, applyEdits, findReferences, getIndentation, parseFile, removeNode } from '../utils/source';
+
+const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect'];
+
+// Array methods that run a callback per element - worth memoising, unlike `.length` or `.includes()`
+const ITERATING_METHODS = new Set([
+  'map', 'filter', 'reduce', 'reduceRight', 'some', 'every', 'find', 'findIndex', 'findLast', 'findLastIndex',
+  'flatMap', 'forEach', 'sort', 'toSorted'
+]);
+
+interface Effect {
+  statement: ts.ExpressionStatement;
+  call: ts.CallExpression;
+  callback: ts.ArrowFunction | ts.FunctionExpression;
+  // States whose setter appears anywhere in the callback
+  states: StateDeclaration[];
+}
+
+// `const name = initializer;` in the effect body, or in the body of its `if (guard)`
+interface Local {
+  name: ts.Identifier;
+  statement: ts.VariableStatement;
+  initializer: ts.Expression;
+  guard?: ts.Expression;
+}
+
+// `setValue(value);` in the effect body, or in the body of its `if (guard)`
+interface Write {
+  state: StateDeclaration;
+  value: ts.Expression;
+  statement: ts.Node;
+  guard?: ts.Expression;
+}
+
+interface Declaration {
+  name: string;
+  // The state this declaration replaces - undefined for a local shared by several states
+  state?: StateDeclaration;
+  text: string;
+  // Where the value is computed in the effect - reads of it earlier in the same effect would now hit an undeclared name
+  position: number;
+}
+
+interface Plan {
+  effect: Effect;
+  declarations: Declaration[];
+  usesMemo: boolean;
+}
+
+type Analysis = Plan | { reason: string };
+
+const isFunction = (node: ts.Node): node is ts.FunctionLikeDeclaration => ts.isFunctionLike(node) && 'body' in node;
+
+const getEffectBody = (callback: Effect['callback']): readonly ts.Node[] => {
+  return ts.isBlock(callback.body) ? callback.body.statements : [callback.body];
+};
+
+const getLocal = (node: ts.Node): Omit<Local, 'guard'> | undefined => {
+  if (!ts.isVariableStatement(node) || !(node.declarationList.flags & ts.NodeFlags.Const)) return undefined;
+  if (node.declarationList.declarations.length !== 1) return undefined;
+
+  const [{ name, initializer }] = node.declarationList.declarations;
+  return ts.isIdentifier(name) && initializer ? { name, statement: node, initializer } : undefined;
+};
+
+const isHeavy = (node: ts.Node): boolean => {
+  if (ts.isIterationStatement(node, false)) return true;
+  if (
+    ts.isCallExpression(node)
+    && ts.isPropertyAccessExpression(node.expression)
+    && ITERATING_METHODS.has(node.expression.name.text)
+  ) {
+    return true;
+  }
+  return ts.forEachChild(node, isHeavy) ?? false;
+};
+
+// Continuation lines of moved code keep their indentation relative to the line the code now starts on
+const reindent = (text: string, from: string, to: string): string => {
+  return text.split('\n').map((line, index) => (index > 0 && line.startsWith(from) ? to + line.slice(from.length) : line)).join('\n');
+};
+
+const getUnsupportedReason = (node: ts.Node): string => {
+  if (ts.isIfStatement(node)) return 'the effect picks values in if/else branches';
+  if (ts.isReturnStatement(node)) return 'the effect returns early or cleans up';
+  if (ts.isVariableStatement(node)) return 'the effect uses `let` or destructured locals';
+  return 'the effect does more than set state';
+};
+
+const isSimpleOperand = (node: ts.Expression): boolean => {
+  return ts.isIdentifier(node)
+    || ts.isPropertyAccessExpression(node)
+    || ts.isElementAccessExpression(node)
+    || ts.isCallExpression(node)
+    || ts.isParenthesizedExpression(node);
+};
+
+export const derivedState: Transform = {
+  description: 'Replace useState values that an effect only copies from props or other state with values computed during render',
+  apply(source, path) {
+    const { sourceFile, checker } = parseFile(path, source);
+    const edits: TextEdit[] = [];
+    const notes: string[] = [];
+    const removed: ts.Node[] = [];
+    let importsMemo = false;
+
+    const getSymbol = (node: ts.Identifier): ts.Symbol | undefined => {
+      return ts.isShorthandPropertyAssignment(node.parent)
+        ? checker.getShorthandAssignmentValueSymbol(node.parent)
+        : checker.getSymbolAtLocation(node);
+    };
+
+    const forEachIdentifier = (nodes: ts.Node[], callback: (identifier: ts.Identifier, symbol: ts.Symbol) => void) => {
+      const visit = (node: ts.Node) => {
+        const isPropertyName = ts.isPropertyAccessExpression(node.parent) && node.parent.name === node;
+        const symbol = ts.isIdentifier(node) && !isPropertyName ? getSymbol(node) : undefined;
+        if (symbol) callback(node as ts.Identifier, symbol);
+        ts.forEachChild(node, visit);
+      };
+      nodes.forEach(visit);
+    };
+
+    const findEffects = (component: Component, states: StateDeclaration[]): Effect[] => {
+      return component.body.statements.flatMap(statement => {
+        if (!ts.isExpressionStatement(statement) || !isHookCall(statement.expression, EFFECT_HOOKS)) return [];
+
+        const call = statement.expression;
+        const [callback] = call.arguments;
+        if (!callback || (!ts.isArrowFunction(callback) && !ts.isFunctionExpression(callback))) return [];
+
+        const effectStates = states.filter(state =>
+          findReferences(checker, state.setter!, callback).length > 0
+        );
+        return effectStates.length > 0 ? [{ statement, call, callback, states: effectStates }] : [];
+      });
+    };
+
+    const analyzeEffect = (component: Component, effect: Effect, states: StateDeclaration[], taken: Set<string>): Analysis => {
+      const { callback } = effect;
+      if (callback.parameters.length > 0 || callback.asteriskToken || ts.getCombinedModifierFlags(callback) & ts.ModifierFlags.Async) {
+        return { reason: 'the effect is not a plain synchronous callback' };
+      }
+
+      const locals: Local[] = [];
+      const writes: Write[] = [];
+      // Returns the first statement that is not a `const`, a setter call or an `if` around them
+      const collect = (nodes: readonly ts.Node[], guard?: ts.Expression): ts.Node | undefined => nodes.find(node => {
+        if (ts.isEmptyStatement(node)) return false;
+        if (ts.isIfStatement(node) && !guard && !node.elseStatement) {
+          const { thenStatement } = node;
+          return collect(ts.isBlock(thenStatement) ? thenStatement.statements : [thenStatement], node.expression) !== undefined;
+        }
+
+        const local = getLocal(node);
+        if (local) {
+          locals.push({ ...local, guard });
+          return false;
+        }
+
+        const call = ts.isExpressionStatement(node) ? node.expression : node;
+        const state = ts.isCallExpression(call) && ts.isIdentifier(call.expression) && call.arguments.length === 1
+          ? states.find(candidate => getSymbol(candidate.setter!) === getSymbol(call.expression as ts.Identifier))
+          : undefined;
+        if (!state || ts.isSpreadElement((call as ts.CallExpression).arguments[0])) return true;
+
+        writes.push({ state, value: (call as ts.CallExpression).arguments[0], statement: node, guard });
+        return false;
+      });
+
+      const unsupported = collect(getEffectBody(callback));
+      if (unsupported) return { reason: getUnsupportedReason(unsupported) };
+
+      for (const state of effect.states) {
+        const setter = state.setter!;
+        const references = findReferences(checker, setter, component.node);
+        const write = writes.find(candidate => candidate.state === state);
+
+        if (references.some(reference => reference.pos < callback.pos || reference.end > callback.end)) {
+          return { reason: `${setter.text} is also used outside the effect` };
+        }
+        if (references.length > 1) return { reason: `${setter.text} is called more than once` };
+        if (!write) return { reason: `${setter.text} is not called directly in the effect` };
+        if (ts.isArrowFunction(write.value) || ts.isFunctionExpression(write.value)) {
+          return { reason: `${setter.text} is given an updater function` };
+        }
+      }
+
+      // The locals each write reads, directly or through other locals
+      const localBySymbol = new Map(locals.map(local => [getSymbol(local.name)!, local]));
+      const getNeeded = (nodes: ts.Node[]): Set<Local> => {
+        const needed = new Set<Local>();
+        const visit = (node: ts.Node) => forEachIdentifier([node], (_, symbol) => {
+          const local = localBySymbol.get(symbol);
+          if (!local || needed.has(local)) return;
+          needed.add(local);
+          visit(local.initializer);
+        });
+        nodes.forEach(visit);
+        return needed;
+      };
+
+      const neededBy = new Map(writes.map(write => [write, getNeeded([write.value, ...(write.guard ? [write.guard] : [])])]));
+      const users = new Map(locals.map(local => [local, writes.filter(write => neededBy.get(write)!.has(local))]));
+
+      // A local more than one state needs is declared once, next to them - under a state's name when that state is just a copy of it
+      const names = new Map<Local, string>();
+      for (const local of locals) {
+        const localUsers = users.get(local)!;
+        if (localUsers.length === 0) return { reason: `${local.name.text} is computed but not stored` };
+        if (localUsers.length === 1) continue;
+        if (local.guard) return { reason: `${local.name.text} is shared by several values inside an if` };
+
+        const copy = writes.find(write =>
+          !write.guard && ts.isIdentifier(write.value) && getSymbol(write.value) === getSymbol(local.name) && ![...names.values()].includes(write.state.value.text)
+        );
+        const name = copy?.state.value.text ?? local.name.text;
+        if (!copy && taken.has(name)) return { reason: `${name} would clash with another name in ${component.name}` };
+        names.set(local, name);
+      }
+
+      const excludedSymbols = new Set(states.map(state => getSymbol(state.setter!)));
+      const isComponentScope = (symbol: ts.Symbol): boolean => {
+        const declaration = symbol.valueDeclaration ?? symbol.declarations?.[0];
+        if (!declaration || declaration.pos < component.node.pos || declaration.end > component.node.end) return false;
+
+        let current = declaration.parent;
+        while (current && !isFunction(current)) current = current.parent;
+        return current === component.node;
+      };
+
+      // Component-scope values read by `nodes`, as the longest property path read - `userData.createdAt` rather than `userData`
+      const getDependencies = (nodes: ts.Node[], ownLocals: Set<Local>): string[] => {
+        const paths: string[] = [];
+        forEachIdentifier(nodes, (identifier, symbol) => {
+          const local = localBySymbol.get(symbol);
+          if ((local && ownLocals.has(local)) || excludedSymbols.has(symbol)) return;
+          if (!local && !isComponentScope(symbol)) return;
+
+          let path: ts.Node = identifier;
+          while (
+            ts.isPropertyAccessExpression(path.parent)
+            && path.parent.expression === path
+            && !(ts.isCallExpression(path.parent.parent) && path.parent.parent.expression === path.parent)
+          ) {
+            path = path.parent;
+          }
+          const root = local ? names.get(local)! : identifier.text;
+          paths.push(root + path.getText().slice(identifier.getText().length));
+        });
+
+        const unique = [...new Set(paths)];
+        return unique.filter(path => !unique.some(other => path.startsWith(`${other}.`) || path.startsWith(`${other}?.`)));
+      };
+
+      const statementOf = (node: ts.Node): ts.Node => {
+        return locals.find(local => local.initializer === node)?.statement ?? writes.find(write => write.value === node || write.guard === node)?.statement ?? node;
+      };
+
+      // The node's text, with shared locals under their new names, moved from its own line's indentation to `indentation`
+      const render = (node: ts.Node, indentation: string): string => {
+        const start = node.getStart();
+        const renames: TextEdit[] = [];
+        forEachIdentifier([node], (identifier, symbol) => {
+          const local = localBySymbol.get(symbol);
+          const name = local && names.get(local);
+          if (!name || name === identifier.text) return;
+
+          const text = ts.isShorthandPropertyAssignment(identifier.parent) ? `${identifier.text}: ${name}` : name;
+          renames.push({ start: identifier.getStart() - start, end: identifier.end - start, text });
+        });
+
+        return reindent(applyEdits(node.getText(), renames), getIndentation(statementOf(node)), indentation);
+      };
+
+      const indentation = getIndentation(effect.statement);
+      const memo = ts.isPropertyAccessExpression(effect.call.expression) ? `${effect.call.expression.expression.getText()}.useMemo` : 'useMemo';
+      const declarations: Declaration[] = [];
+      let usesMemo = false;
+
+      const declare = (name: string, body: string, dependencies: string[] | undefined, position: number, state?: StateDeclaration) => {
+        if (dependencies) usesMemo = true;
+        const value = dependencies ? `${memo}(() => ${body}, [${dependencies.join(', ')}])` : body;
+        declarations.push({ name, state, text: `const ${name} = ${value};`, position });
+      };
+
+      const items = [...locals, ...writes].sort((a, b) => a.statement.pos - b.statement.pos);
+      for (const item of items) {
+        if ('name' in item) {
+          const name = names.get(item);
+          if (name === undefined) continue;
+
+          const dependencies = getDependencies([item.initializer], new Set());
+          const body = render(item.initializer, indentation);
+          const state = writes.find(write => write.state.value.text === name && name !== item.name.text)?.state;
+          declare(name, body, isHeavy(item.initializer) ? dependencies : undefined, item.statement.end, state);
+          continue;
+        }
+
+        const { state, guard } = item;
+        const name = state.value.text;
+        if ([...names.values()].includes(name)) continue;
+
+        // A state that only copies a local no other state needs takes over the local's initializer
+        let value: ts.Expression = item.value;
+        const needed = neededBy.get(item)!;
+        const copied = ts.isIdentifier(value) ? localBySymbol.get(getSymbol(value)!) : undefined;
+        if (copied && !names.has(copied)) {
+          needed.delete(copied);
+          value = copied.initializer;
+        }
+
+        const ownLocals = new Set([...needed].filter(local => !names.has(local)));
+        const [initial] = state.call.arguments;
+        if (guard && initial && (ts.isArrowFunction(initial) || ts.isFunctionExpression(initial))) {
+          return { reason: `${name} has a lazy initial value` };
+        }
+        const initialText = initial ? initial.getText() : 'undefined';
+
+        const nodes = [value, ...[...ownLocals].map(local => local.initializer), ...(guard ? [guard, ...(initial ? [initial] : [])] : [])];
+        const selfSymbol = getSymbol(state.value);
+        let readsItself = false;
+        forEachIdentifier(nodes, (_, symbol) => {
+          readsItself ||= symbol === selfSymbol;
+        });
+        if (readsItself) return { reason: `${name} reads its own previous value` };
+
+        const dependencies = getDependencies(nodes, ownLocals);
+        if (dependencies.length === 0) return { reason: `${name} is not computed from props or state` };
+
+        if (ownLocals.size > 0) {
+          const inner = `${indentation}  `;
+          const lines = [
+            ...(guard ? [`if (${isSimpleOperand(guard) ? `!${guard.getText()}` : `!(${guard.getText()})`}) return ${initialText};`] : []),
+            ...[...ownLocals].sort((a, b) => a.statement.pos - b.statement.pos).map(local => render(local.statement, inner)),
+            `return ${render(value, inner)};`
+          ];
+          declare(name, `{\n${lines.map(line => `${inner}${line}`).join('\n')}\n${indentation}}`, dependencies, item.statement.end, state);
+          continue;
+        }
+
+        const rendered = render(value, indentation);
+        const isMemoised = nodes.some(isHeavy);
+        const body = guard
+          ? `${ts.isConditionalExpression(guard) ? `(${guard.getText()})` : guard.getText()} ? ${ts.isConditionalExpression(value) ? `(${rendered})` : rendered} : ${initialText}`
+          : isMemoised && ts.isObjectLiteralExpression(value) ? `(${rendered})` : rendered;
+        declare(name, body, isMemoised ? dependencies : undefined, item.statement.end, state);
+      }
+
+      return { effect, declarations, usesMemo };
+    };
+
+    // Derived values are declared where their effect was - so every read during render must come after that point
+    const findEarlyRead = (component: Component, plans: Plan[]): Plan | undefined => {
+      const effectOf = new Map(plans.map(plan => [plan.effect.callback as ts.Node, plan]));
+      const isDeferred = (node: ts.Node): boolean => {
+        const { parent } = node;
+        return ts.isFunctionDeclaration(node)
+          || ts.isVariableDeclaration(parent)
+          || ts.isJsxExpression(parent)
+          || ts.isPropertyAssignment(parent)
+          || (isHookCall(parent, [...EFFECT_HOOKS, 'useCallback']) && !effectOf.has(node));
+      };
+
+      return plans.find(plan => plan.declarations.some(declaration => {
+        if (!declaration.state) return false;
+
+        return findReferences(checker, declaration.state.value, component.body).some(reference => {
+          // Dependency arrays of converted effects go away with them
+          const isRemoved = plans.some(({ effect }) =>
+            reference.pos >= effect.statement.pos && reference.end <= effect.statement.end
+            && (reference.pos < effect.callback.pos || reference.end > effect.callback.end)
+          );
+          if (isRemoved) return false;
+
+          for (let current: ts.Node = reference.parent; current !== component.node; current = current.parent) {
+            if (!isFunction(current)) continue;
+            if (isDeferred(current)) return false;
+
+            const reader = effectOf.get(current);
+            if (reader === plan) return reference.pos < declaration.position;
+            if (reader) return reader.effect.statement.pos < plan.effect.statement.pos;
+          }
+          return reference.pos < plan.effect.statement.end;
+        });
+      }));
+    };
+
+    findComponents(sourceFile).forEach(component => {
+      const states = getStateDeclarations(component.body).filter(state => state.setter);
+      const effects = findEffects(component, states);
+      const taken = new Set<string>();
+      component.body.statements.forEach(statement => {
+        if (!effects.some(effect => effect.statement === statement)) collectNames(statement).forEach(name => taken.add(name));
+      });
+      component.node.parameters.forEach(parameter => collectNames(parameter).forEach(name => taken.add(name)));
+
+      const describe = (effect: Effect) => effect.states.map(state => state.value.text).join(', ');
+      const plans: Plan[] = [];
+      effects.forEach(effect => {
+        const analysis = analyzeEffect(component, effect, states, taken);
+        if ('reason' in analysis) {
+          notes.push(`${component.name}: left ${describe(effect)} alone - ${analysis.reason}`);
+          return;
+        }
+        analysis.declarations.forEach(declaration => taken.add(declaration.name));
+        plans.push(analysis);
+      });
+
+      for (let early = findEarlyRead(component, plans); early; early = findEarlyRead(component, plans)) {
+        const read = early.declarations.find(declaration => declaration.state)!.state!;
+        notes.push(`${component.name}: left ${describe(early.effect)} alone - ${read.value.text} is read before the effect that computes it`);
+        plans.splice(plans.indexOf(early), 1);
+      }
+
+      plans.forEach(({ effect, declarations, usesMemo }) => {
+        const indentation = getIndentation(effect.statement);
+        // A comment after the effect on the same line is about the effect, e.g. `}, [items]); // runs on every change`
+        const lineEnd = source.indexOf('\n', effect.statement.end);
+        const rest = source.slice(effect.statement.end, lineEnd === -1 ? source.length : lineEnd);
+        const end = /^\s*\/\/.*$/.test(rest) ? effect.statement.end + rest.length : effect.statement.end;
+        const text = declarations.map(declaration => declaration.text).join(`\n${indentation}`);
+        edits.push({ start: effect.statement.getStart(), end, text });
+        effect.states.forEach(state => edits.push(removeNode(state.statement)));
+        removed.push(effect.statement, ...effect.states.map(state => state.statement));
+
+        importsMemo ||= usesMemo && ts.isIdentifier(effect.call.expression);
+        notes.push(`${component.name}: ${describe(effect)} -> computed during render`);
+      });
+    });
+
+    if (removed.length === 0) return { output: source, notes };
+
+    // Hooks nothing calls any more leave the import
+    const unused = [...EFFECT_HOOKS, 'useState'].filter(hook => {
+      let isUsed = false;
+      const visit = (node: ts.Node) => {
+        if (isUsed || ts.isImportDeclaration(node) || removed.includes(node)) return;
+        isUsed = ts.isIdentifier(node) && node.text === hook;
+        ts.forEachChild(node, visit);
+      };
+      visit(sourceFile);
+      return !isUsed;
+    });
+    const importEdit = editReactImport(sourceFile, importsMemo ? ['useMemo'] : [], unused);
+    if (importEdit) edits.push(importEdit);
+
+    return { output: applyEdits(source, edits), notes };
+  }
+};
@@ -0,0 +1,12 @@
+// Shape every transform shares, so the CLI and the specs can run any of them the same way
+
+export interface TransformResult {
+  output: string;
+  // One line per change made or candidate left alone, printed next to the diff for review
+  notes: string[];
+}
+
+export interface Transform {
+  description: string;
+  apply: (source: string, path: string) => TransformResult;
+}
@@ -0,0 +1,131 @@
+// Recognising components, hook calls and useState declarations in the TypeScript AST
+
+import * as ts from 'typescript';
+import { type TextEdit, getIndentation, insertBefore, removeNode, replaceNode } from './source';
+
+export type FunctionNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+export interface Component {
+  name: string;
+  node: FunctionNode;
+  body: ts.Block;
+  // The top-level statement that declares the component - new declarations go right above it
+  statement: ts.Statement;
+}
+
+export interface StateDeclaration {
+  // `const [value, setValue] = useState(...)` - only statements declaring a single state are recognised
+  statement: ts.VariableStatement;
+  call: ts.CallExpression;
+  value: ts.Identifier;
+  setter?: ts.Identifier;
+}
+
+const isComponentName = (name: string): boolean => /^[A-Z]/.test(name);
+
+// `useState(...)` and `React.useState(...)` alike
+export const isHookCall = (node: ts.Node | undefined, names: readonly string[]): node is ts.CallExpression => {
+  if (!node || !ts.isCallExpression(node)) return false;
+
+  const { expression } = node;
+  if (ts.isIdentifier(expression)) return names.includes(expression.text);
+  return ts.isPropertyAccessExpression(expression) && names.includes(expression.name.text);
+};
+
+const getTopLevelStatement = (node: ts.Node): ts.Statement | undefined => {
+  let current: ts.Node = node;
+  while (current.parent && !ts.isSourceFile(current.parent)) current = current.parent;
+  return ts.isSourceFile(current.parent) ? (current as ts.Statement) : undefined;
+};
+
+const unwrapCalls = (node: ts.Expression): ts.Expression => {
+  // memo(() => ...), forwardRef(function Foo() {...})
+  return ts.isCallExpression(node) && node.arguments.length > 0 ? unwrapCalls(node.arguments[0]) : node;
+};
+
+// `function Foo() {}`, `const Foo = () => {}` and wrapped forms such as `const Foo = memo(() => {})`, with block bodies
+export const findComponents = (sourceFile: ts.SourceFile): Component[] => {
+  const components: Component[] = [];
+
+  const add = (name: string, node: ts.Node | undefined) => {
+    if (!node || !isComponentName(name)) return;
+    if (!ts.isFunctionDeclaration(node) && !ts.isFunctionExpression(node) && !ts.isArrowFunction(node)) return;
+
+    const statement = getTopLevelStatement(node);
+    if (node.body && ts.isBlock(node.body) && statement) {
+      components.push({ name, node, body: node.body, statement });
+    }
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isFunctionDeclaration(node) && node.name) {
+      add(node.name.text, node);
+    } else if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && node.initializer) {
+      add(node.name.text, unwrapCalls(node.initializer));
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(sourceFile);
+
+  return components;
+};
+
+export const getStateDeclarations = (body: ts.Block): StateDeclaration[] => {
+  return body.statements.flatMap(statement => {
+    if (!ts.isVariableStatement(statement) || statement.declarationList.declarations.length !== 1) return [];
+
+    const [declaration] = statement.declarationList.declarations;
+    const { name, initializer } = declaration;
+    if (!ts.isArrayBindingPattern(name) || !isHookCall(initializer, ['useState'])) return [];
+
+    const [value, setter] = name.elements.map(element =>
+      ts.isBindingElement(element) && ts.isIdentifier(element.name) ? element.name : undefined
+    );
+    return value ? [{ statement, call: initializer, value, setter }] : [];
+  });
+};
+
+// Every name declared or referenced under `root`, so generated names never clash with existing ones
+export const collectNames = (root: ts.Node): Set<string> => {
+  const names = new Set<string>();
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node)) names.add(node.text);
+    ts.forEachChild(node, visit);
+  };
+  visit(root);
+  return names;
+};
+
+// Adds and drops named imports from 'react', keeping the rest of the import as it is written
+export const editReactImport = (sourceFile: ts.SourceFile, add: string[], remove: string[]): TextEdit | undefined => {
+  const declaration = sourceFile.statements.find((statement): statement is ts.ImportDeclaration =>
+    ts.isImportDeclaration(statement)
+    && ts.isStringLiteral(statement.moduleSpecifier)
+    && statement.moduleSpecifier.text === 'react'
+    && !statement.importClause?.isTypeOnly
+  );
+  const clause = declaration?.importClause;
+  const { namedBindings } = clause ?? {};
+
+  if (!declaration || !clause || !namedBindings) {
+    if (add.length === 0) return undefined;
+    if (clause?.name) return { start: clause.name.end, end: clause.name.end, text: `, { ${add.join(', ')} }` };
+    return insertBefore(sourceFile.statements[0], `import { ${add.join(', ')} } from 'react';\n`);
+  }
+  if (!ts.isNamedImports(namedBindings)) return undefined;
+
+  const { elements } = namedBindings;
+  const added = add.filter(name => !elements.some(element => element.name.text === name));
+  const remaining = elements.filter(element => element.propertyName || !remove.includes(element.name.text));
+  if (added.length === 0 && remaining.length === elements.length) return undefined;
+
+  const kept = [...remaining.map(element => element.getText()), ...added];
+
+  if (kept.length === 0) {
+    return clause.name ? { start: clause.name.end, end: namedBindings.end, text: '' } : removeNode(declaration);
+  }
+  if (!namedBindings.getText().includes('\n')) return replaceNode(namedBindings, `{ ${kept.join(', ')} }`);
+
+  const indentation = getIndentation(elements[0]);
+  return replaceNode(namedBindings, `{\n${indentation}${kept.join(`,\n${indentation}`)}\n}`);
+};
@@ -0,0 +1,102 @@
+// Parsing and text-editing helpers shared by the transforms
+// Transforms never print the AST back - they replace spans of the original text, so untouched code keeps its formatting
+
+import * as ts from 'typescript';
+
+export interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ParsedFile {
+  sourceFile: ts.SourceFile;
+  checker: ts.TypeChecker;
+}
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.Latest,
+  jsx: ts.JsxEmit.Preserve,
+  allowJs: true,
+  noLib: true,
+  noResolve: true
+};
+
+const getScriptKind = (path: string): ts.ScriptKind => {
+  if (path.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (path.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  return path.endsWith('.js') ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+};
+
+// A program of just this file: imports stay unresolved, but the checker still binds every local name to its declaration
+export const parseFile = (path: string, source: string): ParsedFile => {
+  const sourceFile = ts.createSourceFile(path, source, ts.ScriptTarget.Latest, true, getScriptKind(path));
+  const host = ts.createCompilerHost(COMPILER_OPTIONS);
+  host.getSourceFile = fileName => (fileName === path ? sourceFile : undefined);
+  host.fileExists = fileName => fileName === path;
+  host.readFile = fileName => (fileName === path ? source : undefined);
+
+  const program = ts.createProgram({ rootNames: [path], options: COMPILER_OPTIONS, host });
+  return { sourceFile, checker: program.getTypeChecker() };
+};
+
+export const applyEdits = (source: string, edits: TextEdit[]): string => {
+  const sorted = [...edits].sort((a, b) => b.start - a.start);
+  sorted.forEach((edit, index) => {
+    const next = sorted[index - 1];
+    if (next && edit.end > next.start) {
+      throw new Error(`Overlapping edits at ${edit.start}-${edit.end} and ${next.start}-${next.end}`);
+    }
+  });
+
+  return sorted.reduce((output, edit) => output.slice(0, edit.start) + edit.text + output.slice(edit.end), source);
+};
+
+// The whole lines a node sits on, newline included, when nothing else shares them - otherwise just the node
+export const getLineSpan = (node: ts.Node): Pick<TextEdit, 'start' | 'end'> => {
+  const text = node.getSourceFile().text;
+  const start = node.getStart();
+  const lineStart = text.lastIndexOf('\n', start - 1) + 1;
+  const newline = text.indexOf('\n', node.end);
+  const lineEnd = newline === -1 ? text.length : newline + 1;
+
+  const isAlone = text.slice(lineStart, start).trim() === '' && text.slice(node.end, lineEnd).trim() === '';
+  return isAlone ? { start: lineStart, end: lineEnd } : { start, end: node.end };
+};
+
+export const removeNode = (node: ts.Node): TextEdit => ({ ...getLineSpan(node), text: '' });
+
+export const replaceNode = (node: ts.Node, text: string): TextEdit => ({ start: node.getStart(), end: node.end, text });
+
+// Text inserted on its own line(s) right before the line `node` starts on, after any comments above it
+export const insertBefore = (node: ts.Node, text: string): TextEdit => {
+  const source = node.getSourceFile().text;
+  const start = source.lastIndexOf('\n', node.getStart() - 1) + 1;
+  return { start, end: start, text };
+};
+
+export const getIndentation = (node: ts.Node): string => {
+  const text = node.getSourceFile().text;
+  const start = node.getStart();
+  return text.slice(text.lastIndexOf('\n', start - 1) + 1, start).match(/^\s*/)?.[0] ?? '';
+};
+
+// Every identifier in `container` that refers to the same declaration as `name`, the declaration itself excluded
+export const findReferences = (checker: ts.TypeChecker, name: ts.Identifier, container: ts.Node): ts.Identifier[] => {
+  const symbol = checker.getSymbolAtLocation(name);
+  const references: ts.Identifier[] = [];
+  if (!symbol) return references;
+
+  const visit = (node: ts.Node) => {
+    if (ts.isIdentifier(node) && node !== name && node.text === name.text) {
+      const target = ts.isShorthandPropertyAssignment(node.parent)
+        ? checker.getShorthandAssignmentValueSymbol(node.parent)
+        : checker.getSymbolAtLocation(node);
+      if (target === symbol) references.push(node);
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(container);
+
+  return references;
+};
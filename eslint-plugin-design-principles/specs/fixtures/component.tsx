@@ -0,0 +1,2 @@
+// Stand-in file for snippet specs - the linted code replaces its contents, so the snippets get full type information
+export {};
@@ -0,0 +1,57 @@
+import { readdirSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { lintCode, lintFile } from './support/lint';
+
+describe('no-boolean-status-flags', () => {
+  it('reports every boolean-hell component in tests/', async () => {
+    const messages = await lintFile('no-boolean-status-flags', 'tests/boolean-hell-test.tsx');
+
+    expect(messages.map(message => message.message)).toEqual([
+      expect.stringContaining('DataFetcher tracks one status with 3 booleans (isLoading, isSuccess, isError)'),
+      expect.stringContaining('PaymentForm tracks one status'),
+      expect.stringContaining('MultiStepWizard tracks one status')
+    ]);
+  });
+
+  it.each(readdirSync(new URL('../../answers/', import.meta.url)))('runs clean on answers/%s', async file => {
+    expect(await lintFile('no-boolean-status-flags', `answers/${file}`)).toEqual([]);
+  });
+
+  it('reports status flags declared with an explicit boolean type', async () => {
+    const messages = await lintCode('no-boolean-status-flags', `
+      const Upload = () => {
+        const [isSaving, setIsSaving] = React.useState<boolean>(initial);
+        const [hasFailed, setHasFailed] = React.useState<boolean>(initial);
+        return null;
+      };
+    `);
+
+    expect(messages).toHaveLength(1);
+    expect(messages[0].line).toBe(3);
+  });
+
+  it('allows independent booleans and a single status flag', async () => {
+    const messages = await lintCode('no-boolean-status-flags', `
+      function Page() {
+        const [isLoading, setIsLoading] = useState(false);
+        const [isMenuOpen, setIsMenuOpen] = useState(false);
+        const [showModal, setShowModal] = useState(false);
+        return null;
+      }
+    `);
+
+    expect(messages).toEqual([]);
+  });
+
+  it('ignores flags in functions that are not components', async () => {
+    const messages = await lintCode('no-boolean-status-flags', `
+      function useRequest() {
+        const [isLoading, setIsLoading] = useState(false);
+        const [isError, setIsError] = useState(false);
+        return { isLoading, isError };
+      }
+    `);
+
+    expect(messages).toEqual([]);
+  });
+});
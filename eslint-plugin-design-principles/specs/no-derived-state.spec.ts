@@ -0,0 +1,80 @@
+import { readdirSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { lintCode, lintFile } from './support/lint';
+
+describe('no-derived-state', () => {
+  it('reports every state copied from other state or props in tests/', async () => {
+    const messages = await lintFile('no-derived-state', 'tests/derivable-state-test.tsx');
+
+    expect(messages.map(message => message.message.split(' ')[0])).toEqual([
+      'itemCount',
+      'totalPrice',
+      'displayName',
+      'isVerified',
+      'accountAge',
+      'membershipTier',
+      'hasCompletedProfile',
+      'activeProjects',
+      'completedProjects',
+      'overDueProjects',
+      'projectStats',
+      'userWorkload',
+      'totalProgress',
+      'criticalTasks',
+      'teamEfficiency'
+    ]);
+  });
+
+  it.each(readdirSync(new URL('../../answers/', import.meta.url)))('runs clean on answers/%s', async file => {
+    expect(await lintFile('no-derived-state', `answers/${file}`)).toEqual([]);
+  });
+
+  it('follows effect locals and branches back to props', async () => {
+    const messages = await lintCode('no-derived-state', `
+      const Badge = ({ user }) => {
+        const [label, setLabel] = useState('');
+        const [tier, setTier] = useState('basic');
+
+        useEffect(() => {
+          const name = user.firstName;
+          const upper = name.toUpperCase();
+          setLabel(upper);
+
+          if (user.plan === 'pro') {
+            setTier('pro');
+          }
+        }, [user]);
+
+        return label + tier;
+      };
+    `);
+
+    expect(messages.map(message => message.message.split(' ')[0])).toEqual(['label', 'tier']);
+  });
+
+  it('allows state set from async results, subscriptions, globals and event handlers', async () => {
+    const messages = await lintCode('no-derived-state', `
+      function Profile({ userId }) {
+        const [user, setUser] = useState(null);
+        const [width, setWidth] = useState(0);
+        const [config, setConfig] = useState(null);
+        const [draft, setDraft] = useState(userId);
+
+        useEffect(() => {
+          fetch('/api/users/' + userId).then(response => response.json()).then(data => setUser(data));
+        }, [userId]);
+
+        useEffect(() => {
+          const handleResize = () => setWidth(window.innerWidth);
+          window.addEventListener('resize', handleResize);
+          setConfig(window.APP_CONFIG);
+          setDraft(userId);
+        }, [userId]);
+
+        return <input value={draft} onChange={event => setDraft(event.target.value)} />;
+      }
+    `);
+
+    expect(messages).toEqual([]);
+  });
+});
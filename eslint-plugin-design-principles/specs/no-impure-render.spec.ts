@@ -0,0 +1,87 @@
+import { readdirSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { lintCode, lintFile } from './support/lint';
+
+describe('no-impure-render', () => {
+  it('reports every impure call in the render of tests/ui-pure-function-test.tsx', async () => {
+    const messages = await lintFile('no-impure-render', 'tests/ui-pure-function-test.tsx');
+
+    expect(messages.map(message => message.line)).toEqual([
+      10,
+      34, 35, 36, 36, 37, 62,
+      79, 80, 81, 81, 87, 90, 102, 103, 108, 114, 118, 129, 129, 158, 172, 173, 179, 180, 185, 186,
+      212, 213, 214, 217, 230, 231, 236, 237, 238
+    ]);
+  });
+
+  it.each(readdirSync(new URL('../../answers/', import.meta.url)))('runs clean on answers/%s', async file => {
+    expect(await lintFile('no-impure-render', `answers/${file}`)).toEqual([]);
+  });
+
+  it('follows local functions and array callbacks called during render', async () => {
+    const messages = await lintCode('no-impure-render', `
+      const useSessionId = () => crypto.randomUUID();
+
+      export function Feed({ items }) {
+        const stamp = () => new Date().toISOString();
+        const rows = items.map(item => ({ ...item, seenAt: stamp() }));
+        const element = document.querySelector('#feed');
+        element.classList.add('ready');
+
+        return <ul data-session={useSessionId()}>{rows.map(row => <li key={row.id}>{row.seenAt}</li>)}</ul>;
+      }
+    `);
+
+    expect(messages.map(message => message.message.split(' render')[0])).toEqual([
+      'crypto.randomUUID() gives a different value on every',
+      'new Date() gives a different value on every',
+      'Calling add() is a side effect in the'
+    ]);
+  });
+
+  it('allows effects, event handlers, initializers, refs and memoized values', async () => {
+    const messages = await lintCode('no-impure-render', `
+      import { useEffect, useMemo, useRef, useState } from 'react';
+
+      export function Clock({ userId }) {
+        const [now, setNow] = useState(() => new Date());
+        const [theme] = useState(() => localStorage.getItem('theme'));
+        const [session] = useState({ startedAt: Date.now() });
+        const mountedAt = useRef(Date.now());
+        const seed = useRef<number | null>(null);
+        if (seed.current === null) {
+          seed.current = Math.random();
+        }
+        const cutoff = useMemo(() => new Date(Date.now() - 86400000), []);
+
+        useEffect(() => {
+          document.title = 'User ' + userId;
+          const timer = setInterval(() => setNow(new Date()), 1000);
+          fetch('/api/seen').then(() => document.body.setAttribute('data-seen', String(Date.now())));
+          return () => clearInterval(timer);
+        }, [userId]);
+
+        const save = () => localStorage.setItem('theme', theme ?? 'light');
+
+        return (
+          <button onClick={() => { save(); window.location.reload(); }} data-at={new Date(session.startedAt).toISOString()}>
+            {now.toLocaleTimeString()} {cutoff.getDay()} {mountedAt.current} {seed.current}
+          </button>
+        );
+      }
+    `);
+
+    expect(messages).toEqual([]);
+  });
+
+  it('ignores local variables that shadow browser globals', async () => {
+    const messages = await lintCode('no-impure-render', `
+      export function Router({ history, Math }) {
+        history.pushState({}, '', '/home');
+        return <p>{Math.random()}</p>;
+      }
+    `);
+
+    expect(messages).toEqual([]);
+  });
+});
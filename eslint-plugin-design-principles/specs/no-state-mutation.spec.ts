@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { fixCode, lintCode, lintFile } from './support/lint';
+
+describe('no-state-mutation', () => {
+  it('reports every mutation in tests/immutability-test.tsx', async () => {
+    const messages = await lintFile('no-state-mutation', 'tests/immutability-test.tsx');
+
+    expect(messages.map(message => message.line)).toEqual([
+      17, 23, 29, 36,
+      111, 112, 115, 125, 126, 137, 140, 141, 145, 153, 155, 158, 166, 168, 175, 182, 185,
+      301, 302, 303, 307, 308, 309, 317, 318, 332, 333, 334, 340, 344, 345, 365, 374, 377,
+      391, 395, 399, 411, 412, 417, 418, 423, 424, 442, 446, 447, 451, 456, 457, 472, 477, 482
+    ]);
+  });
+
+  it('runs clean on answers/immutability-answer.tsx', async () => {
+    expect(await lintFile('no-state-mutation', 'answers/immutability-answer.tsx')).toEqual([]);
+  });
+
+  it('follows aliases, destructuring, callbacks, updaters and reducers', async () => {
+    const messages = await lintCode('no-state-mutation', `
+      import { useReducer, useState } from 'react';
+
+      type Todo = { id: number; done: boolean; tags: string[] };
+
+      const reducer = (state: Todo[], id: number) => {
+        state.reverse();
+        return state;
+      };
+
+      export function Todos() {
+        const [todos, setTodos] = useState<Todo[]>([]);
+        const [history] = useReducer(reducer, []);
+        const first = todos.at(0);
+        const { tags } = todos[0];
+
+        const rename = () => {
+          first!.done = true;
+          tags.sort();
+          delete todos[1].tags;
+          todos.forEach(todo => { todo.done = !todo.done; });
+          setTodos(previous => { previous.pop(); return previous; });
+          Object.assign(todos[0], { done: true });
+          history[0].id++;
+        };
+
+        return <button onClick={rename}>{todos.length}</button>;
+      }
+    `);
+
+    expect(messages.map(message => message.message.split(' changes')[0])).toEqual([
+      'state.reverse()',
+      'Assigning to first!.done',
+      'tags.sort()',
+      'Deleting todos[1].tags',
+      'Assigning to todo.done',
+      'previous.pop()',
+      'Object.assign() on todos[0]',
+      'Assigning to history[0].id'
+    ]);
+  });
+
+  it('allows changing copies and values that only look like arrays', async () => {
+    const messages = await lintCode('no-state-mutation', `
+      import { useState } from 'react';
+
+      class Queue { push(item: string) { return item; } }
+
+      export function Inbox() {
+        const [messages, setMessages] = useState<string[]>([]);
+        const [queue] = useState(() => new Queue());
+        let visible = messages;
+
+        const add = (text: string) => {
+          const next = [...messages];
+          next.push(text);
+          next.sort();
+          queue.push(text);
+          visible = next;
+          visible.reverse();
+          setMessages(next);
+        };
+
+        return <button onClick={() => add('hi')}>{visible.length}</button>;
+      }
+    `);
+
+    expect(messages).toEqual([]);
+  });
+
+  it('fixes push and splice followed by a call to the setter', async () => {
+    const output = await fixCode('no-state-mutation', `
+      import { useState } from 'react';
+
+      export function Todos() {
+        const [todos, setTodos] = useState<string[]>([]);
+
+        const add = (text: string) => {
+          todos.push(text);
+          setTodos(todos);
+        };
+
+        const remove = (index: number) => {
+          todos.splice(index, 1);
+          setTodos(todos);
+        };
+
+        const insert = (text: string) => {
+          todos.splice(0, 0, text);
+          setTodos(todos);
+        };
+
+        return <button onClick={() => { add('a'); remove(0); insert('b'); }}>{todos.length}</button>;
+      }
+    `);
+
+    expect(output).toContain(`
+        const add = (text: string) => {
+          setTodos([...todos, text]);
+        };`);
+    expect(output).toContain(`
+        const remove = (index: number) => {
+          setTodos(todos.filter((_, i) => i !== index));
+        };`);
+    expect(output).toContain(`
+        const insert = (text: string) => {
+          todos.splice(0, 0, text);
+          setTodos(todos);
+        };`);
+  });
+});
@@ -0,0 +1,101 @@
+import { readdirSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { lintCode, lintFile } from './support/lint';
+
+describe('no-unused-props', () => {
+  it('reports every over-wide props type in tests/interface-segregation-test.tsx', async () => {
+    const messages = await lintFile('no-unused-props', 'tests/interface-segregation-test.tsx');
+
+    expect(messages.map(message => message.line)).toEqual([19, 133, 153, 171, 341, 378, 425]);
+    expect(messages[0].message).toBe(
+      'UserCard never reads user.phone, user.address, user.badges, user.displayName, user.createdAt, user.subscriptionLevel'
+      + " - declare only what it uses: Pick<UserCardProps, 'showEditButton' | 'showDeleteButton' | 'onEdit' | 'onDelete' | 'className'>"
+      + " & { user: Pick<User, 'id' | 'firstName' | 'lastName' | 'email'> }"
+    );
+    expect(messages[1].message).toMatch(/: Pick<DashboardWidgetProps, 'title' \| 'analytics' \| 'onRefresh'>$/);
+    expect(messages[3].message).toMatch(/: Pick<DashboardWidgetProps, 'title' \| 'orders'> & \{ user: Pick<User, 'subscriptionLevel'> \}$/);
+    expect(messages[4].message).toMatch(
+      /: Pick<MegaFormProps, 'title' \| 'onSave'> & \{ personalInfo\?: Pick<NonNullable<MegaFormProps\['personalInfo'\]>, 'firstName' \| 'email'> \}$/
+    );
+  });
+
+  it.each(readdirSync(new URL('../../answers/', import.meta.url)))('runs clean on answers/%s', async file => {
+    expect(await lintFile('no-unused-props', `answers/${file}`)).toEqual([]);
+  });
+
+  it('follows destructuring, aliases and optional chaining into nested fields', async () => {
+    const messages = await lintCode('no-unused-props', `
+      interface Address { street: string; city: string; country: string }
+      interface Customer { name: string; email: string; address: Address }
+
+      interface CustomerCardProps {
+        customer: Customer;
+        compact?: boolean;
+        onSelect?: (email: string) => void;
+      }
+
+      export function CustomerCard({ customer, compact }: CustomerCardProps) {
+        const { address: { city } } = customer;
+        const label = customer?.name;
+        return <p className={compact ? 'compact' : ''}>{label} ({city})</p>;
+      }
+    `);
+
+    expect(messages.map(message => message.message)).toEqual([
+      'CustomerCard never reads customer.email, customer.address.street, customer.address.country, onSelect'
+      + " - declare only what it uses: Pick<CustomerCardProps, 'compact'>"
+      + " & { customer: Pick<Customer, 'name'> & { address: Pick<Address, 'city'> } }"
+    ]);
+    expect(messages[0].suggestions?.[0].desc).toBe(
+      "Narrow the props type to Pick<CustomerCardProps, 'compact'> & { customer: Pick<Customer, 'name'> & { address: Pick<Address, 'city'> } }"
+    );
+  });
+
+  it('treats values handed on whole, arrays and any as fully used', async () => {
+    const messages = await lintCode('no-unused-props', `
+      interface Order { id: string; total: number; notes: string }
+      interface Settings { theme: string; locale: string }
+
+      interface OrdersProps {
+        orders: Order[];
+        settings: Settings;
+        meta: any;
+        filter: { status: string; from: string };
+      }
+
+      const describeFilter = (filter: OrdersProps['filter']) => filter.status;
+
+      export function Orders({ orders, meta, ...rest }: OrdersProps) {
+        return <ul title={describeFilter(rest.filter)}>{orders.map(order => <li key={order.id}>{meta.label}</li>)}</ul>;
+      }
+
+      export function OrdersPage(props: OrdersProps) {
+        return <Orders {...props} />;
+      }
+    `);
+
+    expect(messages).toEqual([]);
+  });
+
+  it('leaves props inherited from a shared base interface alone', async () => {
+    const messages = await lintCode('no-unused-props', `
+      interface BaseWidgetProps {
+        widgetId: string;
+        description?: string;
+      }
+
+      interface ClockWidgetProps extends BaseWidgetProps {
+        time: string;
+        timezone?: string;
+      }
+
+      export function ClockWidget({ time }: ClockWidgetProps) {
+        return <time>{time}</time>;
+      }
+    `);
+
+    expect(messages.map(message => message.message)).toEqual([
+      "ClockWidget never reads timezone - declare only what it uses: Pick<ClockWidgetProps, 'time' | 'widgetId' | 'description'>"
+    ]);
+  });
+});
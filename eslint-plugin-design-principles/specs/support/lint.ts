@@ -0,0 +1,47 @@
+// Runs one rule of the plugin through ESLint, on a code snippet or on a file from the study guide
+// Both get full type information: the repository's tsconfig covers tests/ and answers/, the fixture's covers snippets
+
+import { fileURLToPath } from 'node:url';
+import { TSESLint } from '@typescript-eslint/utils';
+import { rules } from '../../src';
+
+type RuleName = keyof typeof rules;
+
+const REPO_ROOT = fileURLToPath(new URL('../../../', import.meta.url));
+const SNIPPET_PATH = fileURLToPath(new URL('../fixtures/component.tsx', import.meta.url));
+
+const createLinter = (rule: RuleName, fix = false) => new TSESLint.ESLint({
+  cwd: REPO_ROOT,
+  fix,
+  useEslintrc: false,
+  plugins: { 'design-principles': { rules } },
+  baseConfig: {
+    parser: '@typescript-eslint/parser',
+    parserOptions: {
+      ecmaVersion: 'latest',
+      sourceType: 'module',
+      ecmaFeatures: { jsx: true },
+      tsconfigRootDir: REPO_ROOT,
+      project: ['./tsconfig.json', './eslint-plugin-design-principles/specs/fixtures/tsconfig.json']
+    },
+    plugins: ['design-principles'],
+    rules: { [`design-principles/${rule}`]: 'error' }
+  }
+});
+
+export const lintCode = async (rule: RuleName, code: string) => {
+  const [result] = await createLinter(rule).lintText(code, { filePath: SNIPPET_PATH });
+  return result.messages;
+};
+
+// The snippet after applying every autofix, or undefined when nothing was fixed
+export const fixCode = async (rule: RuleName, code: string) => {
+  const [result] = await createLinter(rule, true).lintText(code, { filePath: SNIPPET_PATH });
+  return result.output;
+};
+
+// `path` is relative to the repository root, e.g. 'tests/boolean-hell-test.tsx'
+export const lintFile = async (rule: RuleName, path: string) => {
+  const [result] = await createLinter(rule).lintFiles(path);
+  return result.messages;
+};
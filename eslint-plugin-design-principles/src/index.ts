@@ -0,0 +1,29 @@
+// eslint-plugin-design-principles - lint rules for the anti-patterns the study guide exercises teach
+// Enable them all with `"extends": ["plugin:design-principles/recommended"]`
+
+import { noBooleanStatusFlags } from './rules/no-boolean-status-flags';
+import { noDerivedState } from './rules/no-derived-state';
+import { noImpureRender } from './rules/no-impure-render';
+import { noStateMutation } from './rules/no-state-mutation';
+import { noUnusedProps } from './rules/no-unused-props';
+
+export const rules = {
+  'no-boolean-status-flags': noBooleanStatusFlags,
+  'no-derived-state': noDerivedState,
+  'no-impure-render': noImpureRender,
+  'no-state-mutation': noStateMutation,
+  'no-unused-props': noUnusedProps
+};
+
+export const configs = {
+  recommended: {
+    plugins: ['design-principles'],
+    rules: {
+      'design-principles/no-boolean-status-flags': 'error',
+      'design-principles/no-derived-state': 'error',
+      'design-principles/no-impure-render': 'error',
+      'design-principles/no-state-mutation': 'error',
+      'design-principles/no-unused-props': 'error'
+    }
+  }
+};
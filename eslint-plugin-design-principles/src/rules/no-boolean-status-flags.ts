@@ -0,0 +1,70 @@
+// Boolean hell: one status tracked with several booleans that must never be true together
+// `isLoading` + `isSuccess` + `isError` allows impossible combinations a single status union rules out
+
+import { AST_NODE_TYPES, ESLintUtils, type TSESTree } from '@typescript-eslint/utils';
+import { type FunctionNode, type StateDeclaration, getComponentName, getEnclosingFunction, getStateDeclaration } from '../utils/react';
+
+// The last word of a flag name that marks it as one phase of a status, e.g. isSubmit*Error*
+const STATUS_WORDS = new Set([
+  'loading', 'fetching', 'submitting', 'saving', 'processing', 'pending', 'retrying', 'navigating',
+  'success', 'succeeded', 'successful', 'error', 'errored', 'failed', 'failure',
+  'complete', 'completed', 'done', 'idle', 'valid', 'invalid', 'active'
+]);
+
+const isStatusName = (name: string): boolean => {
+  const words = name.split(/(?=[A-Z])/);
+  return STATUS_WORDS.has(words[words.length - 1].toLowerCase());
+};
+
+const isBooleanState = ({ call }: StateDeclaration): boolean => {
+  const [initial] = call.arguments;
+  if (initial?.type === AST_NODE_TYPES.Literal && typeof initial.value === 'boolean') return true;
+
+  const typeArgument = call.typeArguments?.params[0];
+  return typeArgument?.type === AST_NODE_TYPES.TSBooleanKeyword;
+};
+
+export const noBooleanStatusFlags = ESLintUtils.RuleCreator.withoutDocs({
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description: 'Disallow components tracking one status with several boolean useState flags'
+    },
+    messages: {
+      statusFlags: '{{component}} tracks one status with {{count}} booleans ({{names}}) - use a single status union such as useState<\'idle\' | \'loading\' | \'success\' | \'error\'>'
+    },
+    schema: []
+  },
+  defaultOptions: [],
+  create(context) {
+    const flagsByComponent = new Map<FunctionNode, StateDeclaration[]>();
+
+    return {
+      VariableDeclarator(node: TSESTree.VariableDeclarator) {
+        const state = getStateDeclaration(node);
+        if (!state || !isBooleanState(state) || !isStatusName(state.value.name)) return;
+
+        const component = getEnclosingFunction(node);
+        if (!component || !getComponentName(component)) return;
+
+        flagsByComponent.set(component, [...(flagsByComponent.get(component) ?? []), state]);
+      },
+
+      'Program:exit'() {
+        flagsByComponent.forEach((flags, component) => {
+          if (flags.length < 2) return;
+
+          context.report({
+            node: flags[0].node,
+            messageId: 'statusFlags',
+            data: {
+              component: getComponentName(component),
+              count: flags.length,
+              names: flags.map(flag => flag.value.name).join(', ')
+            }
+          });
+        });
+      }
+    };
+  }
+});
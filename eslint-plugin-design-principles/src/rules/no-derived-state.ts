@@ -0,0 +1,137 @@
+// Derivable state: a useState whose only writes are useEffect copies of other state or props
+// Such state is stale for one render after every change - compute the value during render instead
+
+import { AST_NODE_TYPES, ESLintUtils, type TSESLint, type TSESTree } from '@typescript-eslint/utils';
+import {
+  type FunctionNode,
+  type StateDeclaration,
+  getComponentName,
+  getDeclaredVariables,
+  getEnclosingFunction,
+  getStateDeclaration,
+  isHookCall,
+  isWithin
+} from '../utils/react';
+
+type Variable = TSESLint.Scope.Variable;
+
+const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect'];
+
+const isEffectCallback = (node: FunctionNode): boolean => {
+  return isHookCall(node.parent, EFFECT_HOOKS) && node.parent.arguments[0] === node;
+};
+
+const referencesAny = (node: TSESTree.Node, variables: Set<Variable>): boolean => {
+  return [...variables].some(variable =>
+    variable.references.some(reference => !reference.init && isWithin(reference.identifier, node))
+  );
+};
+
+// Branches taken because of props or state make even a literal argument derived: if (plan === 'pro') setTier('pro')
+const isGuardedBy = (call: TSESTree.CallExpression, effect: FunctionNode, sources: Set<Variable>): boolean => {
+  let current: TSESTree.Node | undefined = call.parent;
+
+  while (current && current !== effect) {
+    const test = current.type === AST_NODE_TYPES.IfStatement || current.type === AST_NODE_TYPES.ConditionalExpression
+      ? current.test
+      : current.type === AST_NODE_TYPES.SwitchStatement
+        ? current.discriminant
+        : undefined;
+    if (test && referencesAny(test, sources)) return true;
+    current = current.parent;
+  }
+  return false;
+};
+
+export const noDerivedState = ESLintUtils.RuleCreator.withoutDocs({
+  meta: {
+    type: 'suggestion',
+    docs: {
+      description: 'Disallow state that is only ever set inside useEffect from other state or props'
+    },
+    messages: {
+      derivedState: '{{name}} is only set inside useEffect from other state or props - compute it during render (or with useMemo) instead'
+    },
+    schema: []
+  },
+  defaultOptions: [],
+  create(context) {
+    const statesByComponent = new Map<FunctionNode, StateDeclaration[]>();
+    // Declarations inside each effect callback, in source order, so chains like a -> b -> setX(b) resolve
+    const effectLocals = new Map<FunctionNode, TSESTree.VariableDeclarator[]>();
+
+    const getVariable = (declarator: TSESTree.VariableDeclarator, name: string): Variable | undefined => {
+      return getDeclaredVariables(context, declarator).find(variable => variable.name === name);
+    };
+
+    // Props, every state value except the one being written, and effect locals computed from them
+    const getSources = (component: FunctionNode, effect: FunctionNode, states: StateDeclaration[], target: StateDeclaration) => {
+      const sources = new Set<Variable>(
+        getDeclaredVariables(context, component).filter(variable =>
+          variable.defs.some(definition => definition.type === 'Parameter')
+        )
+      );
+
+      states
+        .filter(state => state !== target)
+        .forEach(state => {
+          const variable = getVariable(state.node, state.value.name);
+          if (variable) sources.add(variable);
+        });
+
+      effectLocals.get(effect)?.forEach(declarator => {
+        if (declarator.init && referencesAny(declarator.init, sources)) {
+          getDeclaredVariables(context, declarator).forEach(variable => sources.add(variable));
+        }
+      });
+
+      return sources;
+    };
+
+    const isDerived = (component: FunctionNode, states: StateDeclaration[], state: StateDeclaration): boolean => {
+      const setter = state.setter && getVariable(state.node, state.setter.name);
+      const writes = setter?.references.filter(reference => !reference.init) ?? [];
+      if (writes.length === 0) return false;
+
+      return writes.every(({ identifier }) => {
+        const call = identifier.parent;
+        if (call?.type !== AST_NODE_TYPES.CallExpression || call.callee !== identifier) return false;
+
+        // Only synchronous writes in the effect body - a fetch callback or subscription is real state
+        const effect = getEnclosingFunction(call);
+        if (!effect || !isEffectCallback(effect) || getEnclosingFunction(effect) !== component) return false;
+
+        const sources = getSources(component, effect, states, state);
+        const [argument] = call.arguments;
+        return (argument !== undefined && referencesAny(argument, sources)) || isGuardedBy(call, effect, sources);
+      });
+    };
+
+    return {
+      VariableDeclarator(node: TSESTree.VariableDeclarator) {
+        const enclosing = getEnclosingFunction(node);
+        if (!enclosing) return;
+
+        if (isEffectCallback(enclosing)) {
+          effectLocals.set(enclosing, [...(effectLocals.get(enclosing) ?? []), node]);
+          return;
+        }
+
+        const state = getStateDeclaration(node);
+        if (state && getComponentName(enclosing)) {
+          statesByComponent.set(enclosing, [...(statesByComponent.get(enclosing) ?? []), state]);
+        }
+      },
+
+      'Program:exit'() {
+        statesByComponent.forEach((states, component) => {
+          states
+            .filter(state => isDerived(component, states, state))
+            .forEach(state => {
+              context.report({ node: state.node, messageId: 'derivedState', data: { name: state.value.name } });
+            });
+        });
+      }
+    };
+  }
+});
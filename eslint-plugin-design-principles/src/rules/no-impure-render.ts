@@ -0,0 +1,257 @@
+// UI as a pure function of state: rendering must not read the clock or randomness, or touch the outside world
+// Follows local functions and callbacks called while rendering; effects, event handlers and lazy initializers are fine
+
+import { AST_NODE_TYPES, ESLintUtils, type TSESTree } from '@typescript-eslint/utils';
+import {
+  type FunctionNode,
+  getComponentName,
+  getDeclaredVariables,
+  getEnclosingFunction,
+  getScope,
+  isHookCall
+} from '../utils/react';
+
+type MessageIds = 'nonDeterministic' | 'sideEffect';
+
+// Hooks whose function arguments React calls after rendering, on dispatch, or only once on mount
+const DEFERRED_HOOKS = ['useEffect', 'useLayoutEffect', 'useInsertionEffect', 'useCallback', 'useImperativeHandle', 'useState', 'useReducer'];
+
+// Calls that keep their callback for later instead of calling it right away
+const DEFERRED_CALLS = new Set([
+  'then', 'catch', 'finally', 'setTimeout', 'setInterval', 'requestAnimationFrame', 'requestIdleCallback',
+  'queueMicrotask', 'addEventListener', 'subscribe'
+]);
+
+const NON_DETERMINISTIC_CALLS = new Set(['Math.random', 'Date.now', 'performance.now', 'crypto.randomUUID', 'crypto.getRandomValues']);
+const STORAGE_GLOBALS = new Set(['localStorage', 'sessionStorage']);
+// Globals whose properties and methods belong to the page rather than to React
+const BROWSER_GLOBALS = new Set(['document', 'window', 'globalThis', 'history', 'location']);
+
+const DOM_WRITE_METHODS = new Set([
+  'setAttribute', 'removeAttribute', 'toggleAttribute', 'appendChild', 'removeChild', 'replaceChild', 'insertBefore',
+  'append', 'prepend', 'remove', 'replaceWith', 'before', 'after', 'insertAdjacentHTML', 'insertAdjacentElement',
+  'insertAdjacentText', 'setProperty', 'removeProperty', 'add', 'toggle', 'pushState', 'replaceState', 'reload',
+  'scrollTo', 'scrollBy', 'scrollIntoView', 'focus', 'blur', 'click', 'write', 'writeln', 'dispatchEvent',
+  'addEventListener', 'removeEventListener'
+]);
+
+const INITIAL_VALUE_HOOKS = ['useState', 'useReducer', 'useRef'];
+
+const isHookName = (name: string): boolean => /^use[A-Z0-9]/.test(name);
+
+const getFunctionName = (node: FunctionNode): string | undefined => {
+  if (node.type === AST_NODE_TYPES.FunctionDeclaration) return node.id?.name;
+  return node.parent?.type === AST_NODE_TYPES.VariableDeclarator && node.parent.id.type === AST_NODE_TYPES.Identifier
+    ? node.parent.id.name
+    : undefined;
+};
+
+// Components and custom hooks - the functions React itself calls while rendering
+const getRenderName = (node: FunctionNode): string | undefined => {
+  const name = getComponentName(node) ?? getFunctionName(node);
+  return name && (getComponentName(node) || isHookName(name)) ? name : undefined;
+};
+
+const getCalleeName = (callee: TSESTree.Node): string | undefined => {
+  if (callee.type === AST_NODE_TYPES.Identifier) return callee.name;
+  return callee.type === AST_NODE_TYPES.MemberExpression && !callee.computed && callee.property.type === AST_NODE_TYPES.Identifier
+    ? callee.property.name
+    : undefined;
+};
+
+// useMemo keeps its result until the dependencies change, so `useMemo(() => Date.now(), [])` is a stable value
+const isWithinMemo = (node: TSESTree.Node): boolean => {
+  for (let fn = getEnclosingFunction(node); fn; fn = getEnclosingFunction(fn)) {
+    if (isHookCall(fn.parent, ['useMemo']) && fn.parent.arguments[0] === fn) return true;
+  }
+  return false;
+};
+
+// document.getElementById(id)?.style.color -> document
+const getRootIdentifier = (node: TSESTree.Node): TSESTree.Identifier | undefined => {
+  switch (node.type) {
+    case AST_NODE_TYPES.Identifier:
+      return node;
+    case AST_NODE_TYPES.MemberExpression:
+      return getRootIdentifier(node.object);
+    case AST_NODE_TYPES.CallExpression:
+      return getRootIdentifier(node.callee);
+    case AST_NODE_TYPES.ChainExpression:
+    case AST_NODE_TYPES.TSNonNullExpression:
+    case AST_NODE_TYPES.TSAsExpression:
+      return getRootIdentifier(node.expression);
+    default:
+      return undefined;
+  }
+};
+
+export const noImpureRender = ESLintUtils.RuleCreator.withoutDocs<[], MessageIds>({
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Disallow non-deterministic values and side effects while a component renders'
+    },
+    messages: {
+      nonDeterministic: '{{action}} gives a different value on every render of {{name}} - keep it in state with a lazy initializer (useState(() => ...)) or set it from an effect or event handler',
+      sideEffect: '{{action}} is a side effect in the render of {{name}} - move it into useEffect or an event handler'
+    },
+    schema: []
+  },
+  defaultOptions: [],
+  create(context) {
+    const { sourceCode } = context;
+
+    // Unshadowed globals only - a local `history` from a router is not window.history
+    const isGlobal = (identifier: TSESTree.Identifier): boolean => {
+      for (let scope: ReturnType<typeof getScope> | null = getScope(context, identifier); scope; scope = scope.upper) {
+        const variable = scope.set.get(identifier.name);
+        if (variable) return variable.defs.length === 0;
+      }
+      return true;
+    };
+
+    const getLocalInit = (identifier: TSESTree.Identifier): TSESTree.Expression | undefined => {
+      for (let scope: ReturnType<typeof getScope> | null = getScope(context, identifier); scope; scope = scope.upper) {
+        const variable = scope.set.get(identifier.name);
+        if (!variable) continue;
+        const [definition] = variable.defs;
+        return definition?.node.type === AST_NODE_TYPES.VariableDeclarator ? definition.node.init ?? undefined : undefined;
+      }
+      return undefined;
+    };
+
+    // The page itself, or an element looked up from it: `const el = document.getElementById(id)`
+    const isBrowserObject = (node: TSESTree.Node, seen = new Set<TSESTree.Node>()): boolean => {
+      const root = getRootIdentifier(node);
+      if (!root || seen.has(root)) return false;
+      if (isGlobal(root)) return BROWSER_GLOBALS.has(root.name);
+
+      seen.add(root);
+      const init = getLocalInit(root);
+      return init !== undefined && isBrowserObject(init, seen);
+    };
+
+    // Math.random() and window.Math.random() alike
+    const isGlobalCall = (node: TSESTree.CallExpression, names: Set<string>): boolean => {
+      const root = getRootIdentifier(node.callee);
+      return root !== undefined && isGlobal(root) && names.has(sourceCode.getText(node.callee).replace(/^window\./, ''));
+    };
+
+    // Initial values are only used on mount: `useRef(Date.now())`, `useState({ createdAt: new Date() })`
+    // and the lazy `if (!ref.current) ref.current = ...` all run once as far as the UI is concerned
+    const isInitialValue = (node: TSESTree.Node, fn: FunctionNode): boolean => {
+      for (let current = node.parent; current && current !== fn; current = current.parent) {
+        if (isHookCall(current, INITIAL_VALUE_HOOKS)) return true;
+
+        if (current.type === AST_NODE_TYPES.AssignmentExpression
+          && current.left.type === AST_NODE_TYPES.MemberExpression
+          && current.left.object.type === AST_NODE_TYPES.Identifier
+          && sourceCode.getText(current.left.property) === 'current'
+          && isHookCall(getLocalInit(current.left.object), ['useRef'])) {
+          const ref = sourceCode.getText(current.left);
+          for (let guard: TSESTree.Node | undefined = current.parent; guard && guard !== fn; guard = guard.parent) {
+            if (guard.type === AST_NODE_TYPES.IfStatement && sourceCode.getText(guard.test).includes(ref)) return true;
+          }
+        }
+      }
+      return false;
+    };
+
+    // A function called during render of `call`'s enclosing function: array callbacks, useMemo, IIFEs, but not .then()
+    const isCallRunDuringRender = (call: TSESTree.CallExpression | TSESTree.NewExpression, fn: TSESTree.Node): boolean => {
+      if (call.type === AST_NODE_TYPES.NewExpression) return false;
+      if (call.callee === fn) return true;
+      return !DEFERRED_CALLS.has(getCalleeName(call.callee) ?? '') && !isHookCall(call, DEFERRED_HOOKS);
+    };
+
+    // The component or hook whose render runs `fn`, if any
+    const getRenderOwner = (fn: FunctionNode, seen = new Set<FunctionNode>()): FunctionNode | undefined => {
+      if (seen.has(fn)) return undefined;
+      seen.add(fn);
+
+      if (getRenderName(fn)) return fn;
+
+      const { parent } = fn;
+      if (parent?.type === AST_NODE_TYPES.CallExpression || parent?.type === AST_NODE_TYPES.NewExpression) {
+        if (!isCallRunDuringRender(parent, fn)) return undefined;
+        const outer = getEnclosingFunction(parent);
+        return outer && getRenderOwner(outer, seen);
+      }
+
+      // Named local functions run during render wherever render calls them or hands them to a call that does
+      const declaration = fn.type === AST_NODE_TYPES.FunctionDeclaration
+        ? fn
+        : parent?.type === AST_NODE_TYPES.VariableDeclarator ? parent : undefined;
+      if (!declaration) return undefined;
+
+      for (const variable of getDeclaredVariables(context, declaration)) {
+        for (const reference of variable.references) {
+          const { identifier } = reference;
+          const call = identifier.parent;
+          if (reference.init || call?.type !== AST_NODE_TYPES.CallExpression) continue;
+          if (call.callee !== identifier && !isCallRunDuringRender(call, identifier)) continue;
+
+          const outer = getEnclosingFunction(call);
+          const owner = outer && getRenderOwner(outer, seen);
+          if (owner) return owner;
+        }
+      }
+      return undefined;
+    };
+
+    const check = (node: TSESTree.Node, messageId: MessageIds, action: string) => {
+      const fn = getEnclosingFunction(node);
+      const owner = fn && getRenderOwner(fn);
+      if (!owner || isInitialValue(node, fn)) return;
+      if (messageId === 'nonDeterministic' && isWithinMemo(node)) return;
+
+      context.report({ node, messageId, data: { action, name: getRenderName(owner) } });
+    };
+
+    const checkWrite = (node: TSESTree.AssignmentExpression | TSESTree.UpdateExpression, target: TSESTree.Node) => {
+      if (target.type !== AST_NODE_TYPES.MemberExpression || !isBrowserObject(target)) return;
+      check(node, 'sideEffect', `Assigning ${sourceCode.getText(target)}`);
+    };
+
+    return {
+      CallExpression(node: TSESTree.CallExpression) {
+        if (isGlobalCall(node, NON_DETERMINISTIC_CALLS)) {
+          check(node, 'nonDeterministic', `${sourceCode.getText(node.callee)}()`);
+        } else if (isGlobalCall(node, new Set(['fetch']))) {
+          check(node, 'sideEffect', `${sourceCode.getText(node.callee)}()`);
+        } else if (node.callee.type === AST_NODE_TYPES.MemberExpression
+          && DOM_WRITE_METHODS.has(getCalleeName(node.callee) ?? '')
+          && isBrowserObject(node.callee.object)) {
+          check(node, 'sideEffect', `Calling ${getCalleeName(node.callee)}()`);
+        }
+      },
+
+      NewExpression(node: TSESTree.NewExpression) {
+        if (node.callee.type === AST_NODE_TYPES.Identifier && node.callee.name === 'Date'
+          && node.arguments.length === 0 && isGlobal(node.callee)) {
+          check(node, 'nonDeterministic', 'new Date()');
+        }
+      },
+
+      // localStorage.getItem(...) and window.sessionStorage.theme alike - reads can change between renders too
+      MemberExpression(node: TSESTree.MemberExpression) {
+        const storage = node.object.type === AST_NODE_TYPES.MemberExpression && getRootIdentifier(node.object)?.name === 'window'
+          ? node.object.property
+          : node.object;
+        const root = getRootIdentifier(node.object);
+        if (storage.type !== AST_NODE_TYPES.Identifier || !STORAGE_GLOBALS.has(storage.name) || !root || !isGlobal(root)) return;
+
+        const isCall = node.parent?.type === AST_NODE_TYPES.CallExpression && node.parent.callee === node;
+        check(node, 'sideEffect', `${isCall ? 'Calling' : 'Accessing'} ${sourceCode.getText(node)}${isCall ? '()' : ''}`);
+      },
+
+      AssignmentExpression(node: TSESTree.AssignmentExpression) {
+        checkWrite(node, node.left);
+      },
+
+      UpdateExpression(node: TSESTree.UpdateExpression) {
+        checkWrite(node, node.argument);
+      }
+    };
+  }
+});
@@ -0,0 +1,351 @@
+// Immutability: values that came from useState/useReducer must never be changed in place
+// Follows the state through local aliases (`const todo = todos.find(...)`) and iteration callbacks (`todos.forEach(todo => ...)`)
+
+import { ASTUtils, AST_NODE_TYPES, ESLintUtils, type TSESLint, type TSESTree } from '@typescript-eslint/utils';
+import * as ts from 'typescript';
+import { getDeclaredVariables, getScope, isHookCall } from '../utils/react';
+
+type Variable = TSESLint.Scope.Variable;
+type MessageIds = 'mutation';
+
+interface TrackedState {
+  // The state value the variable points into, for the report message
+  source: string;
+  // Only set on the useState value itself - aliases and nested values cannot be fixed automatically
+  setter?: Variable;
+}
+
+const MUTATING_METHODS = new Set(['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin']);
+
+// Methods that hand back (or pass to their callback) an element of the array itself rather than a copy
+const ELEMENT_METHODS = new Set(['find', 'findLast', 'at']);
+const CALLBACK_METHODS = new Set(['forEach', 'map', 'filter', 'find', 'findLast', 'findIndex', 'findLastIndex', 'some', 'every', 'flatMap', 'reduce', 'reduceRight']);
+
+const isFunction = (node: TSESTree.Node | undefined): node is TSESTree.ArrowFunctionExpression | TSESTree.FunctionExpression => {
+  return node?.type === AST_NODE_TYPES.ArrowFunctionExpression || node?.type === AST_NODE_TYPES.FunctionExpression;
+};
+
+const getMethodName = (node: TSESTree.CallExpression): string | undefined => {
+  const { callee } = node;
+  if (callee.type !== AST_NODE_TYPES.MemberExpression || callee.computed || callee.property.type !== AST_NODE_TYPES.Identifier) {
+    return undefined;
+  }
+  return callee.property.name;
+};
+
+// cart.items[0]!.name -> cart, projects.find(...).tasks -> projects
+const getRootIdentifier = (node: TSESTree.Node): TSESTree.Identifier | undefined => {
+  switch (node.type) {
+    case AST_NODE_TYPES.Identifier:
+      return node;
+    case AST_NODE_TYPES.MemberExpression:
+      return getRootIdentifier(node.object);
+    case AST_NODE_TYPES.ChainExpression:
+    case AST_NODE_TYPES.TSNonNullExpression:
+    case AST_NODE_TYPES.TSAsExpression:
+      return getRootIdentifier(node.expression);
+    case AST_NODE_TYPES.CallExpression:
+      return ELEMENT_METHODS.has(getMethodName(node) ?? '') && node.callee.type === AST_NODE_TYPES.MemberExpression
+        ? getRootIdentifier(node.callee.object)
+        : undefined;
+    default:
+      return undefined;
+  }
+};
+
+const getPatternIdentifiers = (pattern: TSESTree.Node): TSESTree.Identifier[] => {
+  switch (pattern.type) {
+    case AST_NODE_TYPES.Identifier:
+      return [pattern];
+    case AST_NODE_TYPES.ObjectPattern:
+      return pattern.properties.flatMap(property =>
+        property.type === AST_NODE_TYPES.Property ? getPatternIdentifiers(property.value) : []
+      );
+    case AST_NODE_TYPES.ArrayPattern:
+      return pattern.elements.flatMap(element => (element ? getPatternIdentifiers(element) : []));
+    case AST_NODE_TYPES.AssignmentPattern:
+      return getPatternIdentifiers(pattern.left);
+    default:
+      return [];
+  }
+};
+
+export const noStateMutation = ESLintUtils.RuleCreator.withoutDocs<[], MessageIds>({
+  meta: {
+    type: 'problem',
+    docs: {
+      description: 'Disallow changing values that came from useState or useReducer in place'
+    },
+    fixable: 'code',
+    messages: {
+      mutation: '{{action}} changes React state ({{source}}) in place - create a new {{kind}} and pass it to the setter instead'
+    },
+    schema: []
+  },
+  defaultOptions: [],
+  create(context) {
+    const { sourceCode } = context;
+    const services = ESLintUtils.getParserServices(context, true);
+    const tracked = new Map<Variable, TrackedState>();
+
+    const stateDeclarators: TSESTree.VariableDeclarator[] = [];
+    const declarators: TSESTree.VariableDeclarator[] = [];
+    const calls: TSESTree.CallExpression[] = [];
+    const writes: Array<TSESTree.AssignmentExpression | TSESTree.UpdateExpression | TSESTree.UnaryExpression> = [];
+
+    const resolve = (identifier: TSESTree.Identifier): Variable | null => {
+      return ASTUtils.findVariable(getScope(context, identifier), identifier);
+    };
+
+    const getTrackedState = (node: TSESTree.Node): TrackedState | undefined => {
+      const root = getRootIdentifier(node);
+      const variable = root && resolve(root);
+      return variable ? tracked.get(variable) : undefined;
+    };
+
+    // Reassigned variables may point anywhere afterwards, so only single-assignment aliases are followed
+    const track = (variable: Variable | undefined, state: TrackedState): boolean => {
+      if (!variable || tracked.has(variable)) return false;
+      if (variable.references.some(reference => reference.isWrite() && !reference.init)) return false;
+
+      tracked.set(variable, state);
+      return true;
+    };
+
+    const trackParameter = (fn: TSESTree.Node | undefined, index: number, state: TrackedState): boolean => {
+      if (!isFunction(fn) && fn?.type !== AST_NODE_TYPES.FunctionDeclaration) return false;
+
+      const parameter = fn.params[index];
+      if (parameter?.type !== AST_NODE_TYPES.Identifier) return false;
+      return track(getDeclaredVariables(context, fn).find(variable => variable.name === parameter.name), { source: state.source });
+    };
+
+    // `useReducer(reducer, ...)` - the reducer's first parameter is the current state
+    const getReducer = (call: TSESTree.CallExpression): TSESTree.Node | undefined => {
+      const [reducer] = call.arguments;
+      if (isFunction(reducer)) return reducer;
+      if (reducer?.type !== AST_NODE_TYPES.Identifier) return undefined;
+
+      const definition = resolve(reducer)?.defs[0]?.node;
+      if (definition?.type === AST_NODE_TYPES.FunctionDeclaration) return definition;
+      return definition?.type === AST_NODE_TYPES.VariableDeclarator ? definition.init ?? undefined : undefined;
+    };
+
+    const seedStates = () => {
+      stateDeclarators.forEach(declarator => {
+        const call = declarator.init as TSESTree.CallExpression;
+        const [value, setter] = (declarator.id as TSESTree.ArrayPattern).elements;
+        if (value?.type !== AST_NODE_TYPES.Identifier) return;
+
+        const variables = getDeclaredVariables(context, declarator);
+        const isReducer = isHookCall(call, ['useReducer']);
+        const state: TrackedState = {
+          source: value.name,
+          setter: !isReducer && setter?.type === AST_NODE_TYPES.Identifier
+            ? variables.find(variable => variable.name === setter.name)
+            : undefined
+        };
+
+        track(variables.find(variable => variable.name === value.name), state);
+        if (isReducer) trackParameter(getReducer(call), 0, state);
+      });
+    };
+
+    // One pass over the collected nodes; repeated until no new alias is found
+    const followAliases = (): boolean => {
+      let changed = false;
+
+      declarators.forEach(declarator => {
+        const state = declarator.init && getTrackedState(declarator.init);
+        if (!state) return;
+
+        getPatternIdentifiers(declarator.id).forEach(identifier => {
+          const variable = getDeclaredVariables(context, declarator).find(candidate => candidate.name === identifier.name);
+          changed = track(variable, { source: state.source }) || changed;
+        });
+      });
+
+      calls.forEach(call => {
+        const method = getMethodName(call);
+        const { callee } = call;
+
+        if (method && CALLBACK_METHODS.has(method) && callee.type === AST_NODE_TYPES.MemberExpression) {
+          const state = getTrackedState(callee.object);
+          const elementIndex = method === 'reduce' || method === 'reduceRight' ? 1 : 0;
+          if (state) changed = trackParameter(call.arguments[0], elementIndex, state) || changed;
+        }
+
+        // setTodos(previous => ...) - the updater receives the current state
+        if (callee.type === AST_NODE_TYPES.Identifier) {
+          const setter = resolve(callee);
+          const state = [...tracked.values()].find(candidate => candidate.setter && candidate.setter === setter);
+          if (state) changed = trackParameter(call.arguments[0], 0, state) || changed;
+        }
+      });
+
+      return changed;
+    };
+
+    // Without type information every tracked receiver is assumed to be an array
+    const mayBeArray = (node: TSESTree.Node): boolean => {
+      if (!services.program) return true;
+
+      const checker = services.program.getTypeChecker();
+      const type = services.getTypeAtLocation(node);
+      const parts = type.isUnion() ? type.types : [type];
+
+      return parts.some(part => {
+        const constraint = checker.getBaseConstraintOfType(part) ?? part;
+        return (constraint.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown | ts.TypeFlags.Never)) !== 0
+          || checker.isArrayType(constraint)
+          || checker.isTupleType(constraint);
+      });
+    };
+
+    const getNextStatement = (statement: TSESTree.Node): TSESTree.Node | undefined => {
+      const { parent } = statement;
+      if (parent?.type !== AST_NODE_TYPES.BlockStatement && parent?.type !== AST_NODE_TYPES.Program) return undefined;
+
+      const body: TSESTree.Node[] = parent.body;
+      return body[body.indexOf(statement) + 1];
+    };
+
+    // The statement including the indentation and line break in front of it, so no blank line is left behind
+    const removeStatement = (fixer: TSESLint.RuleFixer, statement: TSESTree.Node) => {
+      const text = sourceCode.getText();
+      const lineStart = text.lastIndexOf('\n', statement.range[0] - 1);
+      const isAloneOnLine = lineStart >= 0 && text.slice(lineStart + 1, statement.range[0]).trim() === '';
+      return fixer.removeRange([isAloneOnLine ? lineStart : statement.range[0], statement.range[1]]);
+    };
+
+    // todos.push(item); setTodos(todos);  ->  setTodos([...todos, item]);
+    // todos.splice(index, 1); setTodos(todos);  ->  setTodos(todos.filter((_, i) => i !== index));
+    const getFix = (call: TSESTree.CallExpression, method: string, state: TrackedState): TSESLint.ReportFixFunction | null => {
+      const { callee } = call;
+      const statement = call.parent;
+      if (
+        !state.setter
+        || callee.type !== AST_NODE_TYPES.MemberExpression
+        || callee.object.type !== AST_NODE_TYPES.Identifier
+        || statement?.type !== AST_NODE_TYPES.ExpressionStatement
+      ) {
+        return null;
+      }
+
+      const next = getNextStatement(statement);
+      const setterCall = next?.type === AST_NODE_TYPES.ExpressionStatement ? next.expression : undefined;
+      const [setterArgument] = setterCall?.type === AST_NODE_TYPES.CallExpression ? setterCall.arguments : [];
+      if (
+        !next
+        || setterCall?.type !== AST_NODE_TYPES.CallExpression
+        || setterCall.callee.type !== AST_NODE_TYPES.Identifier
+        || resolve(setterCall.callee) !== state.setter
+        || setterCall.arguments.length !== 1
+        || setterArgument.type !== AST_NODE_TYPES.Identifier
+        || resolve(setterArgument) !== resolve(callee.object)
+      ) {
+        return null;
+      }
+
+      const name = callee.object.name;
+      const setterName = setterCall.callee.name;
+      const argumentsText = call.arguments.map(argument => sourceCode.getText(argument));
+
+      let replacement: string;
+      if (method === 'push' && call.arguments.length > 0) {
+        replacement = `${setterName}([...${name}, ${argumentsText.join(', ')}]);`;
+      } else {
+        const [start, deleteCount] = call.arguments;
+        const isSingleRemoval = method === 'splice'
+          && call.arguments.length === 2
+          && (start.type === AST_NODE_TYPES.Identifier || (start.type === AST_NODE_TYPES.Literal && typeof start.value === 'number'))
+          && deleteCount.type === AST_NODE_TYPES.Literal
+          && deleteCount.value === 1;
+        if (!isSingleRemoval) return null;
+
+        const position = argumentsText[0] === 'i' ? 'index' : 'i';
+        replacement = `${setterName}(${name}.filter((_, ${position}) => ${position} !== ${argumentsText[0]}));`;
+      }
+
+      return fixer => [fixer.replaceText(statement, replacement), removeStatement(fixer, next)];
+    };
+
+    const reportCall = (call: TSESTree.CallExpression) => {
+      const method = getMethodName(call);
+      const { callee } = call;
+
+      if (method && MUTATING_METHODS.has(method) && callee.type === AST_NODE_TYPES.MemberExpression) {
+        const state = getTrackedState(callee.object);
+        if (!state || !mayBeArray(callee.object)) return;
+
+        context.report({
+          node: call,
+          messageId: 'mutation',
+          data: { action: `${sourceCode.getText(callee.object)}.${method}()`, source: state.source, kind: 'array' },
+          fix: getFix(call, method, state)
+        });
+        return;
+      }
+
+      // Object.assign(target, ...) writes into its first argument
+      const [target] = call.arguments;
+      const isObjectAssign = method === 'assign'
+        && callee.type === AST_NODE_TYPES.MemberExpression
+        && callee.object.type === AST_NODE_TYPES.Identifier
+        && callee.object.name === 'Object';
+      const state = isObjectAssign && target ? getTrackedState(target) : undefined;
+      if (state) {
+        context.report({
+          node: call,
+          messageId: 'mutation',
+          data: { action: `Object.assign() on ${sourceCode.getText(target)}`, source: state.source, kind: 'object' }
+        });
+      }
+    };
+
+    const reportWrite = (node: TSESTree.AssignmentExpression | TSESTree.UpdateExpression | TSESTree.UnaryExpression) => {
+      const target = node.type === AST_NODE_TYPES.AssignmentExpression ? node.left : node.argument;
+      if (target.type !== AST_NODE_TYPES.MemberExpression) return;
+
+      const state = getTrackedState(target);
+      if (!state) return;
+
+      const action = node.type === AST_NODE_TYPES.UnaryExpression ? 'Deleting' : 'Assigning to';
+      context.report({
+        node,
+        messageId: 'mutation',
+        data: { action: `${action} ${sourceCode.getText(target)}`, source: state.source, kind: 'object' }
+      });
+    };
+
+    return {
+      VariableDeclarator(node) {
+        if (node.id.type === AST_NODE_TYPES.ArrayPattern && isHookCall(node.init ?? undefined, ['useState', 'useReducer'])) {
+          stateDeclarators.push(node);
+        } else if (node.init) {
+          declarators.push(node);
+        }
+      },
+      CallExpression(node) {
+        calls.push(node);
+      },
+      AssignmentExpression(node) {
+        writes.push(node);
+      },
+      UpdateExpression(node) {
+        writes.push(node);
+      },
+      'UnaryExpression[operator="delete"]'(node: TSESTree.UnaryExpression) {
+        writes.push(node);
+      },
+      'Program:exit'() {
+        seedStates();
+        let hasNewAliases = true;
+        while (hasNewAliases) hasNewAliases = followAliases();
+
+        calls.forEach(reportCall);
+        writes.forEach(reportWrite);
+      }
+    };
+  }
+});
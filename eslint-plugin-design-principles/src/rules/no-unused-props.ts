@@ -0,0 +1,245 @@
+// Interface segregation: a component should only be handed the props - and the fields of object props - it reads
+// Follows the props through destructuring and local aliases; the type checker lists what the props type declares
+
+import { AST_NODE_TYPES, ESLintUtils, type TSESLint, type TSESTree } from '@typescript-eslint/utils';
+import * as ts from 'typescript';
+import { type FunctionNode, getComponentName, getDeclaredVariables } from '../utils/react';
+
+type MessageIds = 'unusedProps' | 'narrowProps';
+
+// What a component reads from one value: all of it, or only some of its fields
+interface Usage {
+  whole: boolean;
+  fields: Map<string, Usage>;
+}
+
+interface Narrowing {
+  // Dotted paths of the declared props and fields nothing reads, e.g. 'user.phone'
+  unused: string[];
+  // The narrowed type, only set when something is unused
+  type?: string;
+}
+
+const createUsage = (): Usage => ({ whole: false, fields: new Map() });
+
+const getField = (usage: Usage, name: string): Usage => {
+  const field = usage.fields.get(name) ?? createUsage();
+  usage.fields.set(name, field);
+  return field;
+};
+
+const getPropertyName = (node: TSESTree.MemberExpression | TSESTree.Property): string | undefined => {
+  const key = node.type === AST_NODE_TYPES.MemberExpression ? node.property : node.key;
+  if (!node.computed && key.type === AST_NODE_TYPES.Identifier) return key.name;
+  return key.type === AST_NODE_TYPES.Literal && typeof key.value === 'string' ? key.value : undefined;
+};
+
+const formatPick = (typeText: string, names: string[]): string => {
+  return `Pick<${typeText}, ${names.map(name => `'${name}'`).join(' | ')}>`;
+};
+
+export const noUnusedProps = ESLintUtils.RuleCreator.withoutDocs<[], MessageIds>({
+  meta: {
+    type: 'suggestion',
+    hasSuggestions: true,
+    docs: {
+      description: 'Disallow props and fields of object props that a component never reads'
+    },
+    messages: {
+      unusedProps: '{{name}} never reads {{unused}} - declare only what it uses: {{narrowed}}',
+      narrowProps: 'Narrow the props type to {{narrowed}}'
+    },
+    schema: []
+  },
+  defaultOptions: [],
+  create(context) {
+    const { sourceCode } = context;
+    const services = ESLintUtils.getParserServices(context);
+    const { program } = services;
+    const checker = program.getTypeChecker();
+
+    // `declaration` is the function for a parameter, the declarator for `const { a } = props`
+    const getVariable = (declaration: TSESTree.Node, identifier: TSESTree.Identifier): TSESLint.Scope.Variable | undefined => {
+      return getDeclaredVariables(context, declaration).find(variable => variable.identifiers.includes(identifier));
+    };
+
+    // `const { a, b: { c }, ...rest } = value` - a rest element may hand on any remaining field, so it counts as all of them
+    const readPattern = (declaration: TSESTree.Node, pattern: TSESTree.Node, usage: Usage) => {
+      switch (pattern.type) {
+        case AST_NODE_TYPES.Identifier:
+          readVariable(getVariable(declaration, pattern), usage);
+          return;
+        case AST_NODE_TYPES.AssignmentPattern:
+          readPattern(declaration, pattern.left, usage);
+          return;
+        case AST_NODE_TYPES.ObjectPattern:
+          pattern.properties.forEach(property => {
+            const name = property.type === AST_NODE_TYPES.Property ? getPropertyName(property) : undefined;
+            if (property.type === AST_NODE_TYPES.RestElement || name === undefined) {
+              usage.whole = true;
+              return;
+            }
+            readPattern(declaration, property.value, getField(usage, name));
+          });
+          return;
+        default:
+          usage.whole = true;
+      }
+    };
+
+    // Records what one read of a value uses: `props.user?.email` reads only `user.email` of props
+    const readExpression = (node: TSESTree.Node, usage: Usage) => {
+      let current = node;
+      let target = usage;
+
+      for (;;) {
+        const { parent } = current;
+        if (parent?.type === AST_NODE_TYPES.MemberExpression && parent.object === current) {
+          const name = getPropertyName(parent);
+          if (name === undefined) break;
+          target = getField(target, name);
+        } else if (parent?.type !== AST_NODE_TYPES.ChainExpression && parent?.type !== AST_NODE_TYPES.TSNonNullExpression) {
+          break;
+        }
+        current = parent;
+      }
+
+      const { parent } = current;
+      if (parent?.type === AST_NODE_TYPES.VariableDeclarator && parent.init === current) {
+        readPattern(parent, parent.id, target);
+      } else {
+        target.whole = true;
+      }
+    };
+
+    const readVariable = (variable: TSESLint.Scope.Variable | undefined, usage: Usage) => {
+      if (!variable) {
+        usage.whole = true;
+        return;
+      }
+      // Only single-assignment bindings are followed - a reassigned one may hold anything afterwards
+      if (variable.references.some(reference => reference.isWrite() && !reference.init)) {
+        usage.whole = true;
+        return;
+      }
+
+      variable.references
+        .filter(reference => reference.isRead())
+        .forEach(reference => readExpression(reference.identifier, usage));
+    };
+
+    const isLibraryType = (type: ts.Type): boolean => {
+      const declarations = (type.aliasSymbol ?? type.getSymbol())?.getDeclarations() ?? [];
+      return declarations.some(declaration => {
+        const file = declaration.getSourceFile();
+        return program.isSourceFileDefaultLibrary(file) || program.isSourceFileFromExternalLibrary(file);
+      });
+    };
+
+    // Plain object types declared in the project; arrays, functions, unions and library types are used as a whole
+    const isNarrowable = (type: ts.Type): boolean => {
+      return (type.flags & ts.TypeFlags.Object) !== 0
+        && !checker.isArrayType(type)
+        && !checker.isTupleType(type)
+        && type.getCallSignatures().length === 0
+        && type.getConstructSignatures().length === 0
+        && checker.getIndexInfosOfType(type).length === 0
+        && checker.getPropertiesOfType(type).length > 0
+        && !isLibraryType(type);
+    };
+
+    // Props a type inherits from a base interface are a shared contract, not this component's to drop
+    const isOwnProperty = (type: ts.Type, property: ts.Symbol): boolean => {
+      const owners: ts.Node[] = (type.aliasSymbol ?? type.getSymbol())?.getDeclarations() ?? [];
+      return (property.getDeclarations() ?? []).some(({ parent }) => {
+        if (owners.includes(parent)) return true;
+        return ts.isTypeLiteralNode(parent) && !(ts.isTypeAliasDeclaration(parent.parent) && !owners.includes(parent.parent));
+      });
+    };
+
+    const isNamedType = (type: ts.Type): boolean => {
+      const name = (type.aliasSymbol ?? type.getSymbol())?.getName();
+      return name !== undefined && !name.startsWith('__');
+    };
+
+    const narrow = (type: ts.Type, usage: Usage, typeText: string, path: string, location: ts.Node): Narrowing => {
+      if (usage.whole || !isNarrowable(type)) return { unused: [] };
+
+      const unused: string[] = [];
+      const kept: string[] = [];
+      const nested: string[] = [];
+
+      checker.getPropertiesOfType(type).forEach(property => {
+        const name = property.getName();
+        const fieldPath = path ? `${path}.${name}` : name;
+        const fieldUsage = usage.fields.get(name);
+
+        if (!isOwnProperty(type, property)) {
+          kept.push(name);
+          return;
+        }
+        if (!fieldUsage) {
+          unused.push(fieldPath);
+          return;
+        }
+
+        const isOptional = (property.getFlags() & ts.SymbolFlags.Optional) !== 0;
+        const fieldType = checker.getNonNullableType(checker.getTypeOfSymbolAtLocation(property, location));
+        const fieldTypeText = isNamedType(fieldType)
+          ? checker.typeToString(fieldType)
+          : isOptional ? `NonNullable<${typeText}['${name}']>` : `${typeText}['${name}']`;
+
+        const field = narrow(fieldType, fieldUsage, fieldTypeText, fieldPath, location);
+        if (field.type) {
+          unused.push(...field.unused);
+          nested.push(`${name}${isOptional ? '?' : ''}: ${field.type}`);
+        } else {
+          kept.push(name);
+        }
+      });
+
+      if (unused.length === 0) return { unused };
+
+      const parts = [
+        ...(kept.length > 0 ? [formatPick(typeText, kept)] : []),
+        ...(nested.length > 0 ? [`{ ${nested.join('; ')} }`] : [])
+      ];
+      return { unused, type: parts.length > 0 ? parts.join(' & ') : '{}' };
+    };
+
+    const checkComponent = (fn: FunctionNode) => {
+      const name = getComponentName(fn);
+      const [param] = fn.params;
+      if (!name || !param) return;
+
+      const pattern = param.type === AST_NODE_TYPES.AssignmentPattern ? param.left : param;
+      const annotation = 'typeAnnotation' in pattern ? pattern.typeAnnotation?.typeAnnotation : undefined;
+      if (!annotation) return;
+
+      const usage = createUsage();
+      readPattern(fn, pattern, usage);
+
+      const annotationNode = services.esTreeNodeToTSNodeMap.get(annotation);
+      const type = checker.getTypeFromTypeNode(annotationNode);
+      const { unused, type: narrowed } = narrow(type, usage, sourceCode.getText(annotation), '', annotationNode);
+      if (!narrowed) return;
+
+      context.report({
+        node: param,
+        messageId: 'unusedProps',
+        data: { name, unused: unused.join(', '), narrowed },
+        suggest: [{
+          messageId: 'narrowProps',
+          data: { narrowed },
+          fix: fixer => fixer.replaceText(annotation, narrowed)
+        }]
+      });
+    };
+
+    return {
+      FunctionDeclaration: checkComponent,
+      FunctionExpression: checkComponent,
+      ArrowFunctionExpression: checkComponent
+    };
+  }
+});
@@ -0,0 +1,91 @@
+// AST helpers shared by the rules - recognising components, hook calls and useState declarations
+
+import { AST_NODE_TYPES, type TSESLint, type TSESTree } from '@typescript-eslint/utils';
+
+export type FunctionNode =
+  | TSESTree.FunctionDeclaration
+  | TSESTree.FunctionExpression
+  | TSESTree.ArrowFunctionExpression;
+
+export interface StateDeclaration {
+  node: TSESTree.VariableDeclarator;
+  call: TSESTree.CallExpression;
+  value: TSESTree.Identifier;
+  setter?: TSESTree.Identifier;
+}
+
+const isFunctionNode = (node: TSESTree.Node): node is FunctionNode => {
+  return node.type === AST_NODE_TYPES.FunctionDeclaration
+    || node.type === AST_NODE_TYPES.FunctionExpression
+    || node.type === AST_NODE_TYPES.ArrowFunctionExpression;
+};
+
+const isComponentName = (name: string): boolean => /^[A-Z]/.test(name);
+
+// `useState(...)` and `React.useState(...)` alike
+export const isHookCall = (node: TSESTree.Node | undefined, names: readonly string[]): node is TSESTree.CallExpression => {
+  if (node?.type !== AST_NODE_TYPES.CallExpression) return false;
+
+  const { callee } = node;
+  if (callee.type === AST_NODE_TYPES.Identifier) return names.includes(callee.name);
+  return callee.type === AST_NODE_TYPES.MemberExpression
+    && callee.property.type === AST_NODE_TYPES.Identifier
+    && names.includes(callee.property.name);
+};
+
+export const getEnclosingFunction = (node: TSESTree.Node): FunctionNode | undefined => {
+  let current = node.parent;
+  while (current && !isFunctionNode(current)) current = current.parent;
+  return current;
+};
+
+// `function Foo()`, `const Foo = () => ...` and wrapped forms such as `const Foo = memo(() => ...)`
+export const getComponentName = (node: FunctionNode): string | undefined => {
+  if (node.type === AST_NODE_TYPES.FunctionDeclaration) {
+    return node.id && isComponentName(node.id.name) ? node.id.name : undefined;
+  }
+
+  let parent = node.parent;
+  while (parent?.type === AST_NODE_TYPES.CallExpression) parent = parent.parent;
+
+  return parent?.type === AST_NODE_TYPES.VariableDeclarator
+    && parent.id.type === AST_NODE_TYPES.Identifier
+    && isComponentName(parent.id.name)
+    ? parent.id.name
+    : undefined;
+};
+
+// `const [value, setValue] = useState(...)` - declarations that do not name the value are ignored
+export const getStateDeclaration = (node: TSESTree.VariableDeclarator): StateDeclaration | undefined => {
+  if (node.id.type !== AST_NODE_TYPES.ArrayPattern || !isHookCall(node.init ?? undefined, ['useState'])) {
+    return undefined;
+  }
+
+  const [value, setter] = node.id.elements;
+  if (value?.type !== AST_NODE_TYPES.Identifier) return undefined;
+
+  return {
+    node,
+    call: node.init as TSESTree.CallExpression,
+    value,
+    setter: setter?.type === AST_NODE_TYPES.Identifier ? setter : undefined
+  };
+};
+
+export const isWithin = (node: TSESTree.Node, container: TSESTree.Node): boolean => {
+  return node.range[0] >= container.range[0] && node.range[1] <= container.range[1];
+};
+
+export const getDeclaredVariables = (
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  node: TSESTree.Node
+): readonly TSESLint.Scope.Variable[] => {
+  return context.sourceCode.getDeclaredVariables?.(node) ?? context.getDeclaredVariables(node);
+};
+
+export const getScope = (
+  context: Readonly<TSESLint.RuleContext<string, readonly unknown[]>>,
+  node: TSESTree.Node
+): TSESLint.Scope.Scope => {
+  return context.sourceCode.getScope?.(node) ?? context.getScope();
+};
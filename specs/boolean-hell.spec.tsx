@@ -0,0 +1,147 @@
+// Boolean hell: mutually exclusive states must never be shown together
+
+import type { ComponentType } from 'react';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+import { renderOnServer } from './support/serverRender';
+import { stateProbe } from './support/stateProbe';
+
+vi.mock('react', async importOriginal => (await import('./support/stateProbe')).withStateProbe(await importOriginal()));
+
+// Records every combination of texts that was on screen at the same time
+const watchForOverlap = (container: HTMLElement, texts: string[]) => {
+  const overlaps: string[][] = [];
+  const check = () => {
+    const visible = texts.filter(text => container.textContent?.includes(text));
+    if (visible.length > 1) overlaps.push(visible);
+  };
+
+  const observer = new MutationObserver(check);
+  observer.observe(container, { childList: true, subtree: true, characterData: true });
+  check();
+
+  return {
+    overlaps,
+    stop: () => observer.disconnect()
+  };
+};
+
+// React batches the updates that flip several flags at once, so the overlap above rarely reaches the screen -
+// the flags themselves are what the exercise removes. A server render calls every useState once, listing them all
+const booleanFlagsIn = (Component: ComponentType) =>
+  stateProbe.statesIn(() => renderOnServer(<Component />)).filter(value => typeof value === 'boolean');
+
+describeExercise('boolean-hell', exercise => {
+  beforeEach(() => stateProbe.reset());
+
+  describe('easy: DataFetcher', () => {
+    it('shows the fetched data', async () => {
+      const DataFetcher = exercise.component('DataFetcher');
+      render(<DataFetcher />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Fetch Data' }));
+
+      expect(await screen.findByText('Data loaded successfully!')).toBeInTheDocument();
+    });
+
+    it('never shows loading and error at the same time', async () => {
+      const DataFetcher = exercise.component('DataFetcher');
+      const { container } = render(<DataFetcher />);
+      const watcher = watchForOverlap(container, ['Loading...', 'Error loading data', 'Data loaded successfully!']);
+
+      vi.spyOn(globalThis, 'fetch').mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      await userEvent.click(screen.getByRole('button', { name: 'Fetch Data' }));
+      await screen.findByText('Error loading data');
+
+      await userEvent.click(screen.getByRole('button', { name: 'Fetch Data' }));
+      await screen.findByText('Data loaded successfully!');
+      watcher.stop();
+
+      expect(watcher.overlaps).toEqual([]);
+      expect(screen.queryByText('Error loading data')).not.toBeInTheDocument();
+    });
+
+    it('keeps loading, success and error as one status rather than a flag each', () => {
+      const DataFetcher = exercise.component('DataFetcher');
+
+      expect(booleanFlagsIn(DataFetcher), 'mutually exclusive states are kept as separate booleans').toEqual([]);
+    });
+  });
+
+  describe('medium: PaymentForm', () => {
+    const fillValidCard = async () => {
+      await userEvent.type(screen.getByPlaceholderText('Card Number'), '4242424242424242');
+      await userEvent.type(screen.getByPlaceholderText('MM/YY'), '12/30');
+      await userEvent.type(screen.getByPlaceholderText('CVV'), '123');
+    };
+
+    it('only enables Pay Now once every field is valid', async () => {
+      const PaymentForm = exercise.component('PaymentForm');
+      render(<PaymentForm />);
+
+      expect(screen.getByRole('button', { name: 'Pay Now' })).toBeDisabled();
+      await fillValidCard();
+      expect(screen.getByRole('button', { name: 'Pay Now' })).toBeEnabled();
+    });
+
+    it('shows exactly one outcome after paying', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.9);
+      const PaymentForm = exercise.component('PaymentForm');
+      const { container } = render(<PaymentForm />);
+      const watcher = watchForOverlap(container, ['Processing...', 'Payment successful!', 'Payment failed']);
+
+      await fillValidCard();
+      await userEvent.click(screen.getByRole('button', { name: 'Pay Now' }));
+      await screen.findByText('Payment successful!', undefined, { timeout: 3000 });
+      watcher.stop();
+
+      expect(watcher.overlaps).toEqual([]);
+    });
+
+    it('offers a retry after a failed payment', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0.1);
+      const PaymentForm = exercise.component('PaymentForm');
+      render(<PaymentForm />);
+
+      await fillValidCard();
+      await userEvent.click(screen.getByRole('button', { name: 'Pay Now' }));
+
+      expect(await screen.findByText('Payment failed', undefined, { timeout: 3000 })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Retry' })).toBeInTheDocument();
+      expect(screen.queryByText('Payment successful!')).not.toBeInTheDocument();
+    });
+
+    it('keeps each field\'s validity and the payment\'s progress as one status each', () => {
+      const PaymentForm = exercise.component('PaymentForm');
+
+      expect(booleanFlagsIn(PaymentForm), 'mutually exclusive states are kept as separate booleans').toEqual([]);
+    });
+  });
+
+  describe('hard: MultiStepWizard', () => {
+    it('shows exactly one active step with its content', async () => {
+      const MultiStepWizard = exercise.component('MultiStepWizard');
+      const { container } = render(<MultiStepWizard />);
+
+      await waitFor(() => expect(container.querySelectorAll('.step.active')).toHaveLength(1));
+      expect(container.querySelector('.step.active')).toHaveTextContent('Step 1');
+      expect(screen.getByText('Step 1 Content')).toBeInTheDocument();
+      expect(screen.queryByText(/Step [234] Content/)).not.toBeInTheDocument();
+    });
+
+    it('offers a way on from the first step', () => {
+      const MultiStepWizard = exercise.component('MultiStepWizard');
+      render(<MultiStepWizard />);
+
+      expect(screen.getByRole('button', { name: 'Next' })).toBeInTheDocument();
+    });
+
+    it('keeps the current step and the wizard\'s progress without a flag per step', () => {
+      const MultiStepWizard = exercise.component('MultiStepWizard');
+
+      expect(booleanFlagsIn(MultiStepWizard), 'mutually exclusive states are kept as separate booleans').toEqual([]);
+    });
+  });
+});
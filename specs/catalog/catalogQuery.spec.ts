@@ -0,0 +1,161 @@
+import { describe, expect, it } from 'vitest';
+import type { CatalogQuery, Product } from '../../src/types';
+import {
+  DEFAULT_CATALOG_QUERY,
+  catalogReducer,
+  getAveragePrice,
+  getCatalogFacets,
+  isInStock,
+  isSortOption,
+  runCatalogQuery,
+  sortProducts
+} from '../../src/catalog/catalogQuery';
+
+const product = (id: string, details: Partial<Product>): Product => ({
+  id,
+  name: id,
+  category: 'Kitchen',
+  brand: 'Edge',
+  price: 10,
+  rating: 4,
+  ...details
+});
+
+const products: Product[] = [
+  product('knife', { name: 'Chef Knife', price: 74.5, rating: 4.8 }),
+  product('kettle', { name: 'Kettle', brand: 'Brewly', price: 40, rating: 3.9, discount: 25, inStock: false }),
+  product('mug', { name: 'Mug', brand: 'Brewly', price: 12, rating: 4.2 }),
+  product('shoes', { name: 'Trail Shoes', category: 'Sports', brand: 'Stride', price: 89.95, rating: 4.4, discount: 20 }),
+  product('mat', { name: 'Yoga Mat', category: 'Sports', brand: 'Zenfit', price: 35, rating: 4.1, inStock: true })
+];
+
+const query = (overrides: Partial<CatalogQuery>): CatalogQuery => ({ ...DEFAULT_CATALOG_QUERY, ...overrides });
+
+const ids = (list: Product[]) => list.map(item => item.id);
+
+describe('catalogQuery', () => {
+  describe('catalogReducer', () => {
+    it('updates one field per action', () => {
+      let state = catalogReducer(DEFAULT_CATALOG_QUERY, { type: 'set-categories', categories: ['Kitchen'] });
+      state = catalogReducer(state, { type: 'set-brands', brands: ['Edge', 'Brewly'] });
+      state = catalogReducer(state, { type: 'set-min-price', minPrice: 5 });
+      state = catalogReducer(state, { type: 'set-max-price', maxPrice: 50 });
+      state = catalogReducer(state, { type: 'set-min-rating', minRating: 4 });
+      state = catalogReducer(state, { type: 'set-in-stock-only', inStockOnly: true });
+      state = catalogReducer(state, { type: 'set-on-sale-only', onSaleOnly: true });
+      state = catalogReducer(state, { type: 'set-sort', sortBy: 'rating' });
+
+      expect(state).toEqual({
+        categories: ['Kitchen'],
+        brands: ['Edge', 'Brewly'],
+        minPrice: 5,
+        maxPrice: 50,
+        minRating: 4,
+        inStockOnly: true,
+        onSaleOnly: true,
+        sortBy: 'rating'
+      });
+    });
+
+    it('clears every filter but the price range and the sort order', () => {
+      const state = query({ categories: ['Kitchen'], brands: ['Edge'], minPrice: 5, maxPrice: 50, minRating: 4, inStockOnly: true, onSaleOnly: true, sortBy: 'name' });
+
+      expect(catalogReducer(state, { type: 'clear-filters' })).toEqual(query({ minPrice: 5, maxPrice: 50, sortBy: 'name' }));
+    });
+
+    it('replaces the whole query', () => {
+      const next = query({ brands: ['Zenfit'] });
+      expect(catalogReducer(query({ categories: ['Kitchen'] }), { type: 'replace', query: next })).toBe(next);
+    });
+  });
+
+  describe('runCatalogQuery', () => {
+    it('keeps the input order when no sort is chosen', () => {
+      expect(ids(runCatalogQuery(products, DEFAULT_CATALOG_QUERY))).toEqual(['knife', 'kettle', 'mug', 'shoes', 'mat']);
+    });
+
+    it('matches any selected category and any selected brand', () => {
+      expect(ids(runCatalogQuery(products, query({ brands: ['Brewly', 'Zenfit'] })))).toEqual(['kettle', 'mug', 'mat']);
+      expect(ids(runCatalogQuery(products, query({ categories: ['Kitchen'], brands: ['Brewly', 'Zenfit'] })))).toEqual(['kettle', 'mug']);
+    });
+
+    it('filters on the price after discount, bounds included', () => {
+      // The kettle costs 30 after 25% off, the shoes 71.96 after 20% off
+      expect(ids(runCatalogQuery(products, query({ minPrice: 30, maxPrice: 72 })))).toEqual(['kettle', 'shoes', 'mat']);
+    });
+
+    it('filters on rating, stock and sale', () => {
+      expect(ids(runCatalogQuery(products, query({ minRating: 4.2 })))).toEqual(['knife', 'mug', 'shoes']);
+      expect(ids(runCatalogQuery(products, query({ inStockOnly: true })))).toEqual(['knife', 'mug', 'shoes', 'mat']);
+      expect(ids(runCatalogQuery(products, query({ onSaleOnly: true })))).toEqual(['kettle', 'shoes']);
+    });
+
+    it('treats a product that does not track stock as in stock', () => {
+      expect(isInStock(product('untracked', {}))).toBe(true);
+      expect(isInStock(product('listed', { inStock: true }))).toBe(true);
+      expect(isInStock(product('sold-out', { inStock: false }))).toBe(false);
+    });
+  });
+
+  describe('sortProducts', () => {
+    it.each([
+      ['name', ['knife', 'kettle', 'mug', 'shoes', 'mat']],
+      ['price-low', ['mug', 'kettle', 'mat', 'shoes', 'knife']],
+      ['price-high', ['knife', 'shoes', 'mat', 'kettle', 'mug']],
+      ['rating', ['knife', 'shoes', 'mug', 'mat', 'kettle']]
+    ] as const)('sorts by %s', (sortBy, expected) => {
+      expect(ids(sortProducts(products, sortBy))).toEqual(expected);
+    });
+
+    it('leaves the input untouched', () => {
+      const input = [...products];
+      sortProducts(input, 'price-low');
+      expect(input).toEqual(products);
+    });
+
+    it('only accepts known sort options', () => {
+      expect(isSortOption('price-high')).toBe(true);
+      expect(isSortOption('price')).toBe(false);
+    });
+  });
+
+  describe('getCatalogFacets', () => {
+    it('lists every category and brand with how many products each matches', () => {
+      expect(getCatalogFacets(products)).toEqual({
+        categories: [{ value: 'Kitchen', count: 3 }, { value: 'Sports', count: 2 }],
+        brands: [
+          { value: 'Edge', count: 1 },
+          { value: 'Brewly', count: 2 },
+          { value: 'Stride', count: 1 },
+          { value: 'Zenfit', count: 1 }
+        ],
+        priceRange: { min: 12, max: 74.5 }
+      });
+    });
+
+    it('counts each facet against the other filters but not its own selection', () => {
+      const facets = getCatalogFacets(products, query({ categories: ['Kitchen'], inStockOnly: true }));
+
+      // Sports stays selectable: ticking it would add the two in-stock Sports products
+      expect(facets.categories).toEqual([{ value: 'Kitchen', count: 2 }, { value: 'Sports', count: 2 }]);
+      // Brands are narrowed by the category, and options that match nothing stay listed with a zero count
+      expect(facets.brands).toEqual([
+        { value: 'Edge', count: 1 },
+        { value: 'Brewly', count: 1 },
+        { value: 'Stride', count: 0 },
+        { value: 'Zenfit', count: 0 }
+      ]);
+    });
+
+    it('falls back to a 0-1000 price range without products', () => {
+      expect(getCatalogFacets([]).priceRange).toEqual({ min: 0, max: 1000 });
+    });
+  });
+
+  describe('getAveragePrice', () => {
+    it('averages the prices after discount', () => {
+      expect(getAveragePrice(products)).toBeCloseTo((74.5 + 30 + 12 + 71.96 + 35) / 5);
+      expect(getAveragePrice([])).toBe(0);
+    });
+  });
+});
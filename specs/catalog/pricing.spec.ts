@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import type { Product } from '../../src/types';
+import { formatPrice, getEffectivePrice, getProductPricing, isOnSale, validateDiscount } from '../../src/catalog/pricing';
+
+const product = (discount?: number, price = 80): Product => ({
+  id: 'prod-1',
+  name: 'Headphones',
+  category: 'Electronics',
+  brand: 'Sonic',
+  price,
+  rating: 4.7,
+  discount
+});
+
+describe('pricing', () => {
+  describe('getProductPricing', () => {
+    it('rounds the price after discount and the savings to cents', () => {
+      // 249.99 × 0.85 = 212.4915
+      expect(getProductPricing(product(15, 249.99))).toEqual({
+        listPrice: 249.99,
+        effectivePrice: 212.49,
+        savings: 37.5,
+        savingsPercent: 15,
+        onSale: true
+      });
+    });
+
+    it.each([
+      [undefined, { effectivePrice: 80, savings: 0, savingsPercent: 0, onSale: false }],
+      [0, { effectivePrice: 80, savings: 0, savingsPercent: 0, onSale: false }],
+      [100, { effectivePrice: 0, savings: 80, savingsPercent: 100, onSale: true }]
+    ])('prices a discount of %s', (discount, expected) => {
+      expect(getProductPricing(product(discount))).toMatchObject({ listPrice: 80, ...expected });
+    });
+
+    it.each([
+      [150, 0, 100],
+      [-10, 80, 0],
+      [Number.NaN, 80, 0]
+    ])('holds an invalid discount of %s in range instead of throwing', (discount, effectivePrice, savingsPercent) => {
+      expect(getProductPricing(product(discount))).toMatchObject({ effectivePrice, savingsPercent });
+    });
+
+    it('backs the effective price and sale helpers', () => {
+      expect(getEffectivePrice(product(25))).toBe(60);
+      expect(isOnSale(product(25))).toBe(true);
+      expect(isOnSale(product())).toBe(false);
+    });
+  });
+
+  describe('validateDiscount', () => {
+    it.each([undefined, 0, 37.5, 100])('accepts a discount of %s', discount => {
+      expect(() => validateDiscount(product(discount))).not.toThrow();
+    });
+
+    it.each([150, -1, Number.NaN])('rejects a discount of %s', discount => {
+      expect(() => validateDiscount(product(discount))).toThrow(`Product "prod-1" has a discount of ${discount}`);
+    });
+  });
+
+  describe('formatPrice', () => {
+    it('always shows cents', () => {
+      expect(formatPrice(212.5)).toBe('$212.50');
+      expect(formatPrice(0, '€')).toBe('€0.00');
+    });
+  });
+});
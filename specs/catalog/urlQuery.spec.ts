@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { CatalogFacets, CatalogQuery } from '../../src/types';
+import { DEFAULT_CATALOG_QUERY } from '../../src/catalog/catalogQuery';
+import { formatCatalogQuery, keepOfferedOptions, mergeCatalogQuery, parseCatalogQuery } from '../../src/catalog/urlQuery';
+
+const query = (overrides: Partial<CatalogQuery>): CatalogQuery => ({ ...DEFAULT_CATALOG_QUERY, ...overrides });
+
+const facets: CatalogFacets = {
+  categories: [{ value: 'Kitchen', count: 3 }, { value: 'Sports', count: 2 }],
+  brands: [{ value: 'Brewly', count: 2 }, { value: 'Edge', count: 1 }],
+  priceRange: { min: 12, max: 75 }
+};
+
+describe('urlQuery', () => {
+  describe('formatCatalogQuery', () => {
+    it('writes only what differs from the base query', () => {
+      expect(formatCatalogQuery(DEFAULT_CATALOG_QUERY)).toBe('');
+      expect(formatCatalogQuery(query({ categories: ['Kitchen', 'Sports'], inStockOnly: true, sortBy: 'price-low' })))
+        .toBe('?category=Kitchen&category=Sports&in-stock=1&sort=price-low');
+    });
+
+    it('reads back what it writes', () => {
+      const filtered = query({
+        categories: ['Kitchen', 'Sports'],
+        brands: ['Brewly'],
+        minPrice: 10,
+        maxPrice: 50,
+        minRating: 4,
+        inStockOnly: true,
+        onSaleOnly: true,
+        sortBy: 'rating'
+      });
+
+      expect(parseCatalogQuery(formatCatalogQuery(filtered))).toEqual(filtered);
+    });
+
+    it('writes a cleared maximum price the base query sets as an empty parameter', () => {
+      const base = query({ maxPrice: 1000 });
+      const search = formatCatalogQuery(query({ maxPrice: undefined }), base);
+
+      expect(search).toBe('?max=');
+      expect(parseCatalogQuery(search, { base }).maxPrice).toBeUndefined();
+      expect(parseCatalogQuery('', { base }).maxPrice).toBe(1000);
+    });
+
+    it('writes categories and brands cleared from a base query that selects some as empty parameters', () => {
+      const base = query({ categories: ['Kitchen'], brands: ['Edge'] });
+      const search = formatCatalogQuery(query({}), base);
+
+      expect(search).toBe('?category=&brand=');
+      expect(parseCatalogQuery(search, { base })).toMatchObject({ categories: [], brands: [] });
+      expect(parseCatalogQuery('', { base })).toMatchObject({ categories: ['Kitchen'], brands: ['Edge'] });
+    });
+  });
+
+  describe('parseCatalogQuery', () => {
+    it.each([
+      ['?min=-5', { minPrice: 0 }],
+      ['?min=abc', { minPrice: 0 }],
+      ['?rating=9', { minRating: 4 }],
+      ['?rating=5', { minRating: 4 }],
+      ['?rating=-1', { minRating: 0 }],
+      ['?rating=3.3', { minRating: 3 }],
+      ['?rating=3.5', { minRating: 4 }],
+      ['?min=20&max=5', { minPrice: 20, maxPrice: 20 }],
+      ['?sort=cheapest', { sortBy: undefined }]
+    ])('clamps or ignores %s', (search, expected) => {
+      expect(parseCatalogQuery(search)).toMatchObject(expected);
+    });
+
+    it.each([
+      ['1', true],
+      ['true', true],
+      ['0', false],
+      ['false', false],
+      ['yes', true]
+    ])('reads in-stock=%s against a base that turns the flag on', (value, expected) => {
+      expect(parseCatalogQuery(`?in-stock=${value}`, { base: query({ inStockOnly: true }) }).inStockOnly).toBe(expected);
+    });
+
+    it('collects repeated parameters once each, in URL order', () => {
+      expect(parseCatalogQuery('?category=Sports&category=Kitchen&category=Sports').categories).toEqual(['Sports', 'Kitchen']);
+    });
+
+    it('never reads an empty parameter as an option', () => {
+      expect(parseCatalogQuery('?category=&brand=')).toMatchObject({ categories: [], brands: [] });
+      expect(parseCatalogQuery('?category=&category=Sports').categories).toEqual(['Sports']);
+    });
+
+    it('drops categories and brands no product offers', () => {
+      expect(parseCatalogQuery('?category=Kitchen&category=Garden&brand=Acme', { facets })).toMatchObject({
+        categories: ['Kitchen'],
+        brands: []
+      });
+    });
+  });
+
+  describe('keepOfferedOptions', () => {
+    it('returns the same query when every selection is on offer', () => {
+      const offered = query({ categories: ['Sports'], brands: ['Edge'] });
+      expect(keepOfferedOptions(offered, facets)).toBe(offered);
+    });
+  });
+
+  describe('mergeCatalogQuery', () => {
+    it('rewrites the changed fields and leaves every other parameter alone', () => {
+      const previous = query({ categories: ['Kitchen'], brands: ['Edge'] });
+      const next = { ...previous, brands: ['Brewly'], sortBy: 'rating' as const };
+
+      expect(mergeCatalogQuery('?tab=reviews&category=Kitchen&brand=Edge&page=2', previous, next))
+        .toBe('?tab=reviews&category=Kitchen&page=2&brand=Brewly&sort=rating');
+    });
+
+    it('leaves parameters of an unchanged field as they are, even when they differ from the query', () => {
+      const previous = query({});
+
+      expect(mergeCatalogQuery('?category=Garden', previous, { ...previous, minPrice: 20 })).toBe('?category=Garden&min=20');
+    });
+
+    it('removes a field that went back to the base value', () => {
+      const previous = query({ onSaleOnly: true });
+
+      expect(mergeCatalogQuery('?on-sale=1&tab=specs', previous, query({}))).toBe('?tab=specs');
+    });
+  });
+});
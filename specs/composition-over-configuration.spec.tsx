@@ -0,0 +1,101 @@
+// Composition over configuration: components take their content as children instead of a prop for every variation
+
+import { describe, expect, it, vi } from 'vitest';
+import type { ReactNode } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+
+interface AlertProps {
+  type: string;
+  onClose?: () => void;
+  children: ReactNode;
+}
+
+interface ModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  children: ReactNode;
+}
+
+interface FormProps {
+  onSubmit: (data: FormData) => void;
+  children: ReactNode;
+}
+
+describeExercise('composition-over-configuration', exercise => {
+  describe('easy: Alert', () => {
+    it('renders whatever content it is given', () => {
+      const Alert = exercise.component<AlertProps>('Alert');
+      render(
+        <Alert type="info">
+          <strong>Heads up:</strong> read the <a href="/docs">migration guide</a> first.
+        </Alert>
+      );
+
+      expect(screen.getByText('Heads up:')).toBeInTheDocument();
+      expect(screen.getByRole('link', { name: 'migration guide' })).toHaveAttribute('href', '/docs');
+    });
+
+    it('only offers a close button when it can be closed', async () => {
+      const Alert = exercise.component<AlertProps>('Alert');
+      const onClose = vi.fn();
+      const { rerender } = render(<Alert type="success">Saved</Alert>);
+
+      expect(screen.queryByRole('button')).not.toBeInTheDocument();
+
+      rerender(<Alert type="success" onClose={onClose}>Saved</Alert>);
+      await userEvent.click(screen.getByRole('button'));
+
+      expect(onClose).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('medium: Modal', () => {
+    it('renders its children while open', () => {
+      const Modal = exercise.component<ModalProps>('Modal');
+      render(
+        <Modal isOpen onClose={() => {}}>
+          <h2>Delete project?</h2>
+          <button>Cancel</button>
+        </Modal>
+      );
+
+      expect(screen.getByRole('heading', { name: 'Delete project?' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Cancel' })).toBeInTheDocument();
+    });
+
+    it('renders nothing while closed', () => {
+      const Modal = exercise.component<ModalProps>('Modal');
+      const { container } = render(
+        <Modal isOpen={false} onClose={() => {}}>
+          <h2>Delete project?</h2>
+        </Modal>
+      );
+
+      expect(container).toBeEmptyDOMElement();
+    });
+  });
+
+  describe('hard: Form', () => {
+    it('submits the values of the fields composed inside it', async () => {
+      const Form = exercise.component<FormProps>('Form');
+      const onSubmit = vi.fn();
+      render(
+        <Form onSubmit={onSubmit}>
+          <label>
+            Project name
+            <input name="projectName" />
+          </label>
+          <button type="submit">Create Project</button>
+        </Form>
+      );
+
+      await userEvent.type(screen.getByLabelText('Project name'), 'Apollo');
+      await userEvent.click(screen.getByRole('button', { name: 'Create Project' }));
+
+      expect(onSubmit).toHaveBeenCalledTimes(1);
+      expect((onSubmit.mock.calls[0][0] as FormData).get('projectName')).toBe('Apollo');
+    });
+  });
+});
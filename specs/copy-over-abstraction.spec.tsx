@@ -0,0 +1,82 @@
+// Copy over abstraction: specific components may repeat a little markup, but each keeps its own behavior
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+
+describeExercise('copy-over-abstraction', exercise => {
+  // The widgets and the form log their actions instead of calling a real backend
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('easy: UserVerificationStatus', () => {
+    it('shows every contact detail', () => {
+      const UserVerificationStatus = exercise.component('UserVerificationStatus');
+      render(<UserVerificationStatus />);
+
+      expect(screen.getByText('user@example.com')).toBeInTheDocument();
+      expect(screen.getByText('+1 (555) 123-4567')).toBeInTheDocument();
+      expect(screen.getByText('123 Main St, City, ST 12345')).toBeInTheDocument();
+    });
+
+    it('offers the verification step that fits each unverified detail', () => {
+      const UserVerificationStatus = exercise.component('UserVerificationStatus');
+      render(<UserVerificationStatus />);
+
+      expect(screen.getByRole('button', { name: 'Send SMS Code' })).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Mail Verification Letter' })).toBeInTheDocument();
+      expect(screen.queryByRole('button', { name: /Send Verification Email/ })).not.toBeInTheDocument();
+    });
+
+    // One generic StatusItem switching on `type` is the problem; each detail gets a component of its own instead
+    it.each([
+      ['EmailVerificationItem', 'email', 'ada@example.com', 'Send Verification Email'],
+      ['PhoneVerificationItem', 'phone', '+1 (555) 987-6543', 'Send SMS Code'],
+      ['AddressVerificationItem', 'address', '1 Analytical Way', 'Mail Verification Letter']
+    ])('has %s to verify the %s on its own', async (name, detail, value, verifyLabel) => {
+      const onVerify = vi.fn();
+      const Item = exercise.component<Record<string, unknown>>(name);
+      render(<Item {...{ [detail]: value }} isVerified={false} onVerify={onVerify} onEdit={() => {}} />);
+
+      expect(screen.getByText(value)).toBeInTheDocument();
+      await userEvent.click(screen.getByRole('button', { name: verifyLabel }));
+      expect(onVerify).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('medium: ContactForm', () => {
+    it('reports a specific error for every invalid field', async () => {
+      const ContactForm = exercise.component('ContactForm');
+      render(<ContactForm />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Send Message' }));
+
+      expect(screen.getByText('Name must be at least 2 characters')).toBeInTheDocument();
+      expect(screen.getByText('Invalid email format')).toBeInTheDocument();
+      expect(screen.getByText('Please select a subject')).toBeInTheDocument();
+      expect(screen.getByText('Message is required')).toBeInTheDocument();
+    });
+
+    it('counts the characters of the message', async () => {
+      const ContactForm = exercise.component('ContactForm');
+      render(<ContactForm />);
+
+      await userEvent.type(screen.getByPlaceholderText('Describe your inquiry...'), 'Hello');
+
+      expect(screen.getByText('5/500')).toBeInTheDocument();
+    });
+  });
+
+  describe('hard: Dashboard', () => {
+    it('renders each widget with its own title', () => {
+      const Dashboard = exercise.component('Dashboard');
+      render(<Dashboard />);
+
+      expect(screen.getByRole('heading', { name: 'Monthly Sales' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Total Users' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Recent Orders' })).toBeInTheDocument();
+    });
+  });
+});
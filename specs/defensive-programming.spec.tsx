@@ -0,0 +1,134 @@
+// Defensive programming: missing data and failing requests must degrade gracefully instead of crashing
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+
+type UserProp = Record<string, unknown> | null;
+
+describeExercise('defensive-programming', exercise => {
+  // Crashes are logged by React and the warnings are part of the answers - keep the output readable
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('easy: UserProfile', () => {
+    it('renders without a user', () => {
+      const UserProfile = exercise.component<{ user: UserProp }>('UserProfile');
+
+      expect(() => render(<UserProfile user={null} />), 'crashed on a null user').not.toThrow();
+    });
+
+    it('fills in fallbacks for a partial user', () => {
+      const UserProfile = exercise.component<{ user: UserProp }>('UserProfile');
+
+      expect(() => render(<UserProfile user={{ firstName: 'John' }} />), 'crashed on a user without badges').not.toThrow();
+      expect(screen.getByRole('heading', { level: 1 })).toHaveTextContent('John');
+    });
+
+    it('survives malformed fields', () => {
+      const UserProfile = exercise.component<{ user: UserProp }>('UserProfile');
+      const user = { firstName: 'Ada', lastName: 'Lovelace', badges: null, createdAt: 'invalid-date' };
+
+      expect(() => render(<UserProfile user={user} />), 'crashed on malformed fields').not.toThrow();
+      expect(screen.queryByText(/Invalid Date/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('medium: ProductSearch', () => {
+    // Pasting sends one change event, so debounced and undebounced searches both run exactly once
+    const search = async (term: string) => {
+      await userEvent.click(screen.getByPlaceholderText('Search products...'));
+      await userEvent.paste(term);
+    };
+
+    it('shows matching products', async () => {
+      const ProductSearch = exercise.component('ProductSearch');
+      render(<ProductSearch />);
+
+      await search('keyboard');
+
+      expect(await screen.findByText(/Mechanical Keyboard/i)).toBeInTheDocument();
+    });
+
+    it('shows an error when the server fails', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response('Service Unavailable', { status: 503 }));
+      const ProductSearch = exercise.component('ProductSearch');
+      render(<ProductSearch />);
+
+      await search('keyboard');
+
+      expect(await screen.findByRole('alert'), 'a failed search is not reported').toBeInTheDocument();
+    });
+
+    it('shows an error when the network is down', async () => {
+      vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+      const ProductSearch = exercise.component('ProductSearch');
+      render(<ProductSearch />);
+
+      await search('keyboard');
+
+      expect(await screen.findByRole('alert'), 'a failed search is not reported').toBeInTheDocument();
+    });
+  });
+
+  describe('hard: ComplexRegistrationForm', () => {
+    const fill = async (fields: Record<string, string>) => {
+      for (const [placeholder, value] of Object.entries(fields)) {
+        await userEvent.type(screen.getByPlaceholderText(placeholder), value);
+      }
+    };
+
+    // Every field filled in, so the steps move on whichever fields a form requires
+    const goToLastStep = async () => {
+      await fill({ 'First Name': 'Ada', 'Last Name': 'Lovelace', Email: 'ada@example.com', Phone: '555-0100', 'Date of Birth': '1990-12-10' });
+      await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+      await fill({ 'Street Address': '1 Analytical Way', City: 'London', State: 'Greater London', 'ZIP Code': '10001', Country: 'UK' });
+      await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+      await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+    };
+
+    it('moves through the steps once they are filled in', async () => {
+      const ComplexRegistrationForm = exercise.component('ComplexRegistrationForm');
+      render(<ComplexRegistrationForm />);
+
+      await goToLastStep();
+
+      expect(screen.getByRole('heading', { name: /Step 4 of 4/ })).toBeInTheDocument();
+    });
+
+    it('explains what is missing instead of silently staying on an incomplete step', async () => {
+      const ComplexRegistrationForm = exercise.component('ComplexRegistrationForm');
+      render(<ComplexRegistrationForm />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+      expect(screen.getByRole('heading', { name: /Step 1 of 4/ })).toBeInTheDocument();
+      expect(screen.queryAllByText(/required|valid/i), 'an incomplete step is not explained').not.toHaveLength(0);
+    });
+
+    it('shows an error when the server rejects the registration', async () => {
+      vi.spyOn(globalThis, 'fetch').mockImplementation(async () => Response.json({ error: 'Registration is closed' }, { status: 503 }));
+      const ComplexRegistrationForm = exercise.component('ComplexRegistrationForm');
+      render(<ComplexRegistrationForm />);
+
+      await goToLastStep();
+      await userEvent.click(screen.getByRole('button', { name: 'Complete Registration' }));
+
+      expect(await screen.findByRole('alert'), 'a failed registration is not reported').toBeInTheDocument();
+    });
+
+    it('shows an error when the network is down', async () => {
+      vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'));
+      const ComplexRegistrationForm = exercise.component('ComplexRegistrationForm');
+      render(<ComplexRegistrationForm />);
+
+      await goToLastStep();
+      await userEvent.click(screen.getByRole('button', { name: 'Complete Registration' }));
+
+      expect(await screen.findByRole('alert'), 'a failed registration is not reported').toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,70 @@
+// Derivable state: values computed from props must be right on the very first render
+// A server render runs no effects, so copies of derived values synced by useEffect show up stale there
+
+import { describe, expect, it } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+import { renderOnServer } from './support/serverRender';
+import { projects, tasks, users } from '../src/mockApi/fixtures';
+
+const items = [
+  { id: 1, price: 10 },
+  { id: 2, price: 15 }
+];
+
+describeExercise('derivable-state', exercise => {
+  describe('easy: ShoppingCart', () => {
+    it('shows the item count and total on the first render', () => {
+      const ShoppingCart = exercise.component<{ items: typeof items }>('ShoppingCart');
+      const container = renderOnServer(<ShoppingCart items={items} />);
+
+      expect(container).toHaveTextContent('Cart (2 items)');
+      expect(container).toHaveTextContent(/Total: \$25(\.00)?\b/);
+    });
+
+    it('updates the count and total when an item is added', async () => {
+      const ShoppingCart = exercise.component<{ items: typeof items }>('ShoppingCart');
+      render(<ShoppingCart items={items} />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Add Item' }));
+
+      expect(screen.getByRole('heading', { name: 'Cart (3 items)' })).toBeInTheDocument();
+      expect(screen.getByText(/Total: \$35(\.00)?$/)).toBeInTheDocument();
+    });
+  });
+
+  describe('medium: UserProfile', () => {
+    it('shows the display name, badge and tier on the first render', () => {
+      const UserProfile = exercise.component<{ user: typeof users[number] }>('UserProfile');
+      const container = renderOnServer(<UserProfile user={users[0]} />);
+
+      expect(container.querySelector('h1')).toHaveTextContent('Ada Lovelace');
+      expect(container).toHaveTextContent('✓ Verified');
+      expect(container).toHaveTextContent('Tier: premium');
+      expect(container).not.toHaveTextContent('Please complete your profile');
+    });
+
+    it('asks for a complete profile when a required field is blank', () => {
+      const UserProfile = exercise.component<{ user: typeof users[number] }>('UserProfile');
+      const container = renderOnServer(<UserProfile user={{ ...users[1], phone: ' ' }} />);
+
+      expect(container).toHaveTextContent('Please complete your profile');
+    });
+  });
+
+  describe('hard: ProjectDashboard', () => {
+    it('shows the project counts and progress on the first render', () => {
+      const ProjectDashboard = exercise.component<{ projects: typeof projects; users: typeof users; tasks: typeof tasks }>('ProjectDashboard');
+      const container = renderOnServer(<ProjectDashboard projects={projects} users={users} tasks={tasks} />);
+
+      const activeCount = projects.filter(project => project.status === 'active').length;
+      const completedCount = projects.filter(project => project.status === 'completed').length;
+      const progress = (tasks.filter(task => task.completed).length / tasks.length) * 100;
+
+      expect(container).toHaveTextContent(`Active: ${activeCount}`);
+      expect(container).toHaveTextContent(`Completed: ${completedCount}`);
+      expect(container).toHaveTextContent(`Progress: ${progress.toFixed(1)}%`);
+    });
+  });
+});
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import type { Exercise, LearnerProgress } from '../../src/types';
+import {
+  createProgress,
+  getPrincipleMastery,
+  getSectionStatus,
+  getStreaks,
+  parseProgress,
+  recordHintsRevealed,
+  recordProgress,
+  serializeProgress,
+  toDayKey
+} from '../../src/exercises/progress';
+
+// activeDays and streaks are local calendar days, so event times are built in local time too
+const at = (day: number, hour = 12) => new Date(2026, 9, day, hour);
+
+const exercise = { id: 'immutability', difficulties: ['easy', 'medium', 'hard'] } as Exercise;
+
+const withActiveDays = (activeDays: string[]): LearnerProgress => ({ ...createProgress(), activeDays });
+
+describe('progress', () => {
+  describe('recordProgress', () => {
+    it('keeps only the first time each event happened', () => {
+      let progress = recordProgress(createProgress(), 'immutability', 'easy', 'attempted', at(1));
+      progress = recordProgress(progress, 'immutability', 'easy', 'passed', at(2));
+      progress = recordProgress(progress, 'immutability', 'easy', 'passed', at(3));
+
+      expect(progress.sections.immutability?.easy).toEqual({
+        attemptedAt: at(1).toISOString(),
+        passedAt: at(2).toISOString()
+      });
+      expect(progress.activeDays).toEqual(['2026-10-01', '2026-10-02', '2026-10-03']);
+    });
+
+    it('derives the status from the events', () => {
+      let progress = createProgress();
+      expect(getSectionStatus(progress, 'immutability', 'easy')).toBe('not-started');
+
+      progress = recordProgress(progress, 'immutability', 'easy', 'answer-viewed', at(1));
+      expect(getSectionStatus(progress, 'immutability', 'easy')).toBe('answer-viewed');
+
+      progress = recordProgress(progress, 'immutability', 'easy', 'passed', at(2));
+      expect(getSectionStatus(progress, 'immutability', 'easy')).toBe('passed');
+    });
+
+    it('keeps the most hints ever revealed', () => {
+      let progress = recordHintsRevealed(createProgress(), 'immutability', 'easy', 2, at(1));
+      progress = recordHintsRevealed(progress, 'immutability', 'easy', 1, at(2));
+
+      expect(progress.sections.immutability?.easy?.hintsRevealed).toBe(2);
+    });
+  });
+
+  describe('getPrincipleMastery', () => {
+    it('only counts levels passed before their answer was revealed', () => {
+      let progress = recordProgress(createProgress(), 'immutability', 'easy', 'passed', at(1));
+      progress = recordProgress(progress, 'immutability', 'easy', 'answer-viewed', at(2));
+      progress = recordProgress(progress, 'immutability', 'medium', 'answer-viewed', at(3));
+      progress = recordProgress(progress, 'immutability', 'medium', 'passed', at(4));
+      progress = recordHintsRevealed(progress, 'immutability', 'hard', 1, at(5));
+
+      expect(getPrincipleMastery(progress, exercise)).toMatchObject({
+        levels: 3,
+        attempted: 3,
+        passed: 2,
+        mastered: 1,
+        answerViewed: 2,
+        neededHints: 1,
+        percent: 33
+      });
+    });
+
+    it('is zero for an exercise nobody started', () => {
+      expect(getPrincipleMastery(createProgress(), exercise)).toMatchObject({ attempted: 0, mastered: 0, percent: 0 });
+    });
+  });
+
+  describe('getStreaks', () => {
+    it('counts consecutive days and keeps the longest run', () => {
+      const progress = withActiveDays(['2026-10-01', '2026-10-02', '2026-10-03', '2026-10-07', '2026-10-08']);
+
+      expect(getStreaks(progress, at(8))).toEqual({ current: 2, longest: 3, activeDays: 5 });
+    });
+
+    it('keeps the current streak until the end of the day after the last session', () => {
+      const progress = withActiveDays(['2026-10-07', '2026-10-08']);
+
+      expect(getStreaks(progress, at(9, 23)).current).toBe(2);
+      expect(getStreaks(progress, at(10, 0)).current).toBe(0);
+    });
+
+    it('runs across month ends and ignores duplicate days', () => {
+      const progress = withActiveDays(['2026-09-30', '2026-10-01', '2026-10-01']);
+
+      expect(getStreaks(progress, at(1))).toEqual({ current: 2, longest: 2, activeDays: 2 });
+    });
+
+    it('is zero without any activity', () => {
+      expect(getStreaks(createProgress(), at(1))).toEqual({ current: 0, longest: 0, activeDays: 0 });
+    });
+
+    it('uses the local calendar day', () => {
+      expect(toDayKey(at(9, 23))).toBe('2026-10-09');
+      expect(toDayKey(at(10, 0))).toBe('2026-10-10');
+    });
+  });
+
+  describe('parseProgress', () => {
+    it('reads back what serializeProgress writes', () => {
+      let progress = recordProgress(createProgress(), 'immutability', 'easy', 'passed', at(1));
+      progress = recordHintsRevealed(progress, 'immutability', 'medium', 2, at(2));
+
+      expect(parseProgress(serializeProgress(progress))).toEqual(progress);
+    });
+
+    it.each([
+      ['{', 'Progress file is not valid JSON'],
+      ['{"version": 2, "sections": {}, "activeDays": []}', 'Not a progress file (expected "version": 1)'],
+      ['{"version": 1, "sections": {}, "activeDays": ["yesterday"]}', 'Progress file has an invalid "activeDays" list'],
+      ['{"version": 1, "activeDays": []}', 'Progress file has no "sections"'],
+      [
+        '{"version": 1, "activeDays": [], "sections": {"immutability": {"expert": {"attemptedAt": "2026-10-01T10:00:00.000Z"}}}}',
+        'Progress file has an invalid entry for immutability expert'
+      ],
+      [
+        '{"version": 1, "activeDays": [], "sections": {"immutability": {"easy": {"attemptedAt": "2026-10-01T10:00:00.000Z", "hintsRevealed": -1}}}}',
+        'Progress file has an invalid entry for immutability easy'
+      ],
+      [
+        '{"version": 1, "activeDays": [], "sections": {}, "quiz": {"q1": {"attempts": 1, "correct": 2, "lastCorrect": true, "lastAnsweredAt": "2026-10-01T10:00:00.000Z"}}}',
+        'Progress file has an invalid quiz entry for q1'
+      ]
+    ])('rejects %s', (text, message) => {
+      expect(() => parseProgress(text)).toThrow(message);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { CardReview, Flashcard } from '../../src/types';
+import {
+  NEW_CARDS_PER_DAY,
+  addDays,
+  createReviews,
+  getReviewQueue,
+  parseReviews,
+  recordReview,
+  scheduleReview,
+  serializeReviews
+} from '../../src/flashcards/scheduler';
+
+// Reviews happen at local noon, well clear of midnight, so each due day is the calendar day a test names
+const at = (day: number, hour = 12) => new Date(2026, 9, day, hour);
+
+const card = (id: string) => ({ id }) as Flashcard;
+
+const review = (overrides: Partial<CardReview>): CardReview => ({
+  repetitions: 2,
+  interval: 6,
+  easeFactor: 2.5,
+  dueDay: '2026-10-01',
+  introducedDay: '2026-09-20',
+  lastReviewedAt: at(1).toISOString(),
+  ...overrides
+});
+
+describe('scheduler', () => {
+  describe('scheduleReview', () => {
+    it('brings a new card back after 1 day, then 6, then interval × ease', () => {
+      const first = scheduleReview(undefined, 4, at(1));
+      expect(first).toMatchObject({ repetitions: 1, interval: 1, easeFactor: 2.5, dueDay: '2026-10-02', introducedDay: '2026-10-01' });
+
+      const second = scheduleReview(first, 4, at(2));
+      expect(second).toMatchObject({ repetitions: 2, interval: 6, dueDay: '2026-10-08', introducedDay: '2026-10-01' });
+
+      const third = scheduleReview(second, 4, at(8));
+      expect(third).toMatchObject({ repetitions: 3, interval: 15, dueDay: '2026-10-23' });
+    });
+
+    it('grows the interval by the ease from before this review', () => {
+      // A hard recall lowers the ease to 2.36, but this interval still uses 2.5: round(6 × 2.5) = 15, not 14
+      expect(scheduleReview(review({}), 3, at(1))).toMatchObject({ repetitions: 3, interval: 15, easeFactor: 2.36 });
+    });
+
+    it.each([
+      [5, 2.6],
+      [4, 2.5],
+      [3, 2.36],
+      [2, 2.18],
+      [1, 1.96],
+      [0, 1.7]
+    ] as const)('moves the ease by the SM-2 formula for grade %i', (grade, easeFactor) => {
+      expect(scheduleReview(review({}), grade, at(1)).easeFactor).toBe(easeFactor);
+    });
+
+    it('starts a forgotten card over and shows it again today', () => {
+      expect(scheduleReview(review({}), 1, at(1))).toMatchObject({
+        repetitions: 0,
+        interval: 0,
+        dueDay: '2026-10-01',
+        introducedDay: '2026-09-20'
+      });
+    });
+
+    it('never lets the ease drop below 1.3', () => {
+      expect(scheduleReview(review({ easeFactor: 1.4 }), 0, at(1)).easeFactor).toBe(1.3);
+    });
+  });
+
+  describe('addDays', () => {
+    it('runs across month and year ends', () => {
+      expect(addDays('2026-10-31', 1)).toBe('2026-11-01');
+      expect(addDays('2026-12-27', 6)).toBe('2027-01-02');
+    });
+  });
+
+  describe('getReviewQueue', () => {
+    it('lists due cards by due day, most recently reviewed last', () => {
+      const reviews = {
+        version: 1 as const,
+        cards: {
+          late: review({ dueDay: '2026-10-05', lastReviewedAt: at(5, 9).toISOString() }),
+          failed: review({ dueDay: '2026-10-05', lastReviewedAt: at(5, 8).toISOString() }),
+          overdue: review({ dueDay: '2026-10-03' }),
+          tomorrow: review({ dueDay: '2026-10-06' }),
+          later: review({ dueDay: '2026-10-09' })
+        }
+      };
+      const cards = ['later', 'late', 'tomorrow', 'failed', 'overdue'].map(card);
+
+      const queue = getReviewQueue(cards, reviews, '2026-10-05');
+
+      expect(queue.due.map(dueCard => dueCard.id)).toEqual(['overdue', 'failed', 'late']);
+      expect(queue.fresh).toEqual([]);
+      expect(queue.nextDueDay).toBe('2026-10-06');
+    });
+
+    it('introduces at most NEW_CARDS_PER_DAY new cards a day, in deck order', () => {
+      const cards = Array.from({ length: NEW_CARDS_PER_DAY + 5 }, (_, index) => card(`card-${index}`));
+      let reviews = createReviews();
+      reviews = recordReview(reviews, 'card-0', 4, at(1));
+      reviews = recordReview(reviews, 'card-1', 4, at(1));
+
+      const today = getReviewQueue(cards, reviews, '2026-10-01');
+      expect(today.fresh.map(freshCard => freshCard.id)).toEqual(
+        cards.slice(2, NEW_CARDS_PER_DAY).map(freshCard => freshCard.id)
+      );
+
+      const tomorrow = getReviewQueue(cards, reviews, '2026-10-02');
+      expect(tomorrow.due.map(dueCard => dueCard.id)).toEqual(['card-0', 'card-1']);
+      expect(tomorrow.fresh).toHaveLength(NEW_CARDS_PER_DAY);
+    });
+  });
+
+  describe('parseReviews', () => {
+    it('reads back what serializeReviews writes', () => {
+      const reviews = recordReview(createReviews(), 'immutability:takeaways', 5, at(1));
+
+      expect(parseReviews(serializeReviews(reviews))).toEqual(reviews);
+    });
+
+    it('rejects other files and invalid reviews', () => {
+      expect(() => parseReviews('{"version": 2, "cards": {}}')).toThrow('Not a flashcard review file');
+      expect(() => parseReviews(JSON.stringify({ version: 1, cards: { a: review({ easeFactor: 1 }) } })))
+        .toThrow('Flashcard review for a is invalid');
+      expect(() => parseReviews(JSON.stringify({ version: 1, cards: { a: review({ dueDay: 'soon' }) } })))
+        .toThrow('Flashcard review for a is invalid');
+    });
+  });
+});
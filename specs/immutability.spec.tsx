@@ -0,0 +1,90 @@
+// Immutability: every update must produce new arrays/objects and leave previous state untouched
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+import { stateProbe } from './support/stateProbe';
+
+vi.mock('react', async importOriginal => (await import('./support/stateProbe')).withStateProbe(await importOriginal()));
+
+describeExercise('immutability', exercise => {
+  beforeEach(() => stateProbe.reset());
+
+  describe('easy: TodoList', () => {
+    it('shows a todo added with Enter', async () => {
+      const TodoList = exercise.component('TodoList');
+      render(<TodoList />);
+
+      await userEvent.type(screen.getByPlaceholderText('Add a todo...'), 'Write specs{Enter}');
+
+      expect(screen.getByText('Write specs')).toBeInTheDocument();
+    });
+
+    it('removes a deleted todo from the list', async () => {
+      const TodoList = exercise.component('TodoList');
+      render(<TodoList />);
+
+      const item = screen.getByText('Learn React').closest('li')!;
+      await userEvent.click(within(item).getByRole('button', { name: 'Delete' }));
+
+      expect(screen.queryByText('Learn React')).not.toBeInTheDocument();
+    });
+
+    it('never mutates its previous state array', async () => {
+      const TodoList = exercise.component('TodoList');
+      render(<TodoList />);
+
+      await userEvent.type(screen.getByPlaceholderText('Add a todo...'), 'Write specs{Enter}');
+      await userEvent.click(screen.getAllByRole('checkbox')[0]);
+      await userEvent.click(screen.getByRole('button', { name: 'Clear Completed' }));
+      await userEvent.click(screen.getAllByRole('button', { name: 'Delete' })[0]);
+
+      expect(stateProbe.mutatedValues(), 'previous state was changed in place').toEqual([]);
+    });
+  });
+
+  describe('medium: ShoppingCart', () => {
+    it('reflects customer details as they are typed', async () => {
+      const ShoppingCart = exercise.component('ShoppingCart');
+      render(<ShoppingCart />);
+
+      await userEvent.type(screen.getByPlaceholderText('Name'), 'Ada');
+      await userEvent.type(screen.getByPlaceholderText('City'), 'London');
+
+      expect(screen.getByPlaceholderText('Name')).toHaveValue('Ada');
+      expect(screen.getByPlaceholderText('City')).toHaveValue('London');
+    });
+
+    it('never mutates the previous cart', async () => {
+      const ShoppingCart = exercise.component('ShoppingCart');
+      render(<ShoppingCart />);
+
+      await userEvent.type(screen.getByPlaceholderText('Name'), 'Ada');
+      await userEvent.type(screen.getByPlaceholderText('ZIP Code'), '12345');
+
+      expect(stateProbe.mutatedValues(), 'previous state was changed in place').toEqual([]);
+    });
+  });
+
+  describe('hard: ProjectManager', () => {
+    it('lists the tasks loaded from the API', async () => {
+      const ProjectManager = exercise.component('ProjectManager');
+      render(<ProjectManager />);
+
+      expect(await screen.findByText('Audit payment form')).toBeInTheDocument();
+    });
+
+    it('toggles a task and never mutates the previous projects, users or tasks', async () => {
+      const ProjectManager = exercise.component('ProjectManager');
+      render(<ProjectManager />);
+
+      const task = (await screen.findByText('Card form validation')).closest('.task-card') as HTMLElement;
+      const checkbox = within(task).getByRole('checkbox');
+      await userEvent.click(checkbox);
+
+      await waitFor(() => expect(checkbox).toBeChecked());
+      expect(stateProbe.mutatedValues(), 'previous state was changed in place').toEqual([]);
+    });
+  });
+});
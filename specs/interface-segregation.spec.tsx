@@ -0,0 +1,104 @@
+// Interface segregation: components work when given only the props they actually use
+
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+
+interface UserCardProps {
+  id: string;
+  firstName: string;
+  lastName: string;
+  email: string;
+  onEdit?: (userId: string) => void;
+}
+
+interface StatsWidgetProps {
+  widgetId: string;
+  title: string;
+  stats: { totalUsers: number; activeUsers: number; revenue: number };
+}
+
+interface OrdersWidgetProps {
+  widgetId: string;
+  title: string;
+  orders: Array<{ id: string; total: number; customerName: string }>;
+  userPermissions: { canViewOrders: boolean; subscriptionLevel: string };
+}
+
+interface ContactFormProps {
+  title: string;
+  onSubmit: (data: Record<string, string>) => void;
+}
+
+describeExercise('interface-segregation', exercise => {
+  describe('easy: UserCard', () => {
+    it('renders from just the fields it shows', () => {
+      const UserCard = exercise.component<UserCardProps>('UserCard');
+      render(<UserCard id="user-1" firstName="Ada" lastName="Lovelace" email="ada@example.com" />);
+
+      expect(screen.getByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument();
+      expect(screen.getByText('ada@example.com')).toBeInTheDocument();
+    });
+
+    it('reports which user to edit', async () => {
+      const UserCard = exercise.component<UserCardProps>('UserCard');
+      const onEdit = vi.fn();
+      render(<UserCard id="user-1" firstName="Ada" lastName="Lovelace" email="ada@example.com" onEdit={onEdit} />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Edit' }));
+
+      expect(onEdit).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  describe('medium: dashboard widgets', () => {
+    it('renders a stats widget from its stats alone', () => {
+      const StatsWidget = exercise.component<StatsWidgetProps>('StatsWidget');
+      render(<StatsWidget widgetId="stats" title="Statistics" stats={{ totalUsers: 1250, activeUsers: 890, revenue: 45600 }} />);
+
+      expect(screen.getByRole('heading', { name: 'Statistics' })).toBeInTheDocument();
+      expect(screen.getByText('Total Users: 1250')).toBeInTheDocument();
+    });
+
+    it('lists orders for a user allowed to see them', () => {
+      const RecentOrdersWidget = exercise.component<OrdersWidgetProps>('RecentOrdersWidget');
+      render(
+        <RecentOrdersWidget
+          widgetId="orders"
+          title="Recent Orders"
+          orders={[{ id: '001', customerName: 'John Doe', total: 99.99 }]}
+          userPermissions={{ canViewOrders: true, subscriptionLevel: 'premium' }}
+        />
+      );
+
+      expect(screen.getByText(/John Doe/)).toBeInTheDocument();
+    });
+
+    it('still renders every widget on the dashboard', () => {
+      const Dashboard = exercise.component('Dashboard');
+      render(<Dashboard />);
+
+      expect(screen.getAllByRole('heading', { level: 3 })).toHaveLength(3);
+    });
+  });
+
+  describe('hard: ContactForm', () => {
+    it('submits its fields without any of the other forms\' props', async () => {
+      const ContactForm = exercise.component<ContactFormProps>('ContactForm', 'ContactFormSimple');
+      const onSubmit = vi.fn();
+      render(<ContactForm title="Contact Us" onSubmit={onSubmit} />);
+
+      await userEvent.type(screen.getByPlaceholderText('First Name'), 'Ada');
+      await userEvent.type(screen.getByPlaceholderText('Email'), 'ada@example.com');
+      await userEvent.type(screen.getByPlaceholderText('Message'), 'Hello there');
+      await userEvent.click(screen.getByRole('button', { name: 'Send Message' }));
+
+      expect(onSubmit).toHaveBeenCalledWith(expect.objectContaining({
+        firstName: 'Ada',
+        email: 'ada@example.com',
+        message: 'Hello there'
+      }));
+    });
+  });
+});
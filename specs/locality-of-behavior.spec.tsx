@@ -0,0 +1,118 @@
+// Locality of behavior: the rules a component follows should still hold once they live inside it
+
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+import { products, users } from '../src/mockApi/fixtures';
+import { formatUserName } from '../src/utils/userHelpers';
+import { validateAge } from '../src/validators/userValidation';
+import { formatErrorMessage } from '../src/utils/errorFormatting';
+
+// The shared helpers the problem code reaches for are wrapped in spies, so a spec can change one the way another
+// feature might - a component that keeps its own rules inside it does not change with them
+vi.mock('../src/utils/userHelpers', async importOriginal => {
+  const helpers = await importOriginal<typeof import('../src/utils/userHelpers')>();
+  return { ...helpers, formatUserName: vi.fn(helpers.formatUserName) };
+});
+vi.mock('../src/validators/userValidation', async importOriginal => {
+  const validators = await importOriginal<typeof import('../src/validators/userValidation')>();
+  return { ...validators, validateAge: vi.fn(validators.validateAge) };
+});
+vi.mock('../src/utils/errorFormatting', async importOriginal => {
+  const formatting = await importOriginal<typeof import('../src/utils/errorFormatting')>();
+  return { ...formatting, formatErrorMessage: vi.fn(formatting.formatErrorMessage) };
+});
+
+const productNames = (container: HTMLElement) =>
+  Array.from(container.querySelectorAll('.products h3'), heading => heading.textContent);
+
+const namesOf = (list: typeof products) => list.map(product => product.name);
+
+describeExercise('locality-of-behavior', exercise => {
+  describe('easy: UserGreeting', () => {
+    it('greets the user by full name', () => {
+      const UserGreeting = exercise.component<{ user: typeof users[number] }>('UserGreeting');
+      render(<UserGreeting user={users[0]} />);
+
+      expect(screen.getByRole('heading', { name: 'Hello, Ada Lovelace!' })).toBeInTheDocument();
+    });
+
+    it('keeps greeting by full name when the shared name formatter changes', () => {
+      vi.mocked(formatUserName).mockReturnValue('Lovelace, Ada');
+      const UserGreeting = exercise.component<{ user: typeof users[number] }>('UserGreeting');
+      render(<UserGreeting user={users[0]} />);
+
+      expect(screen.getByRole('heading', { name: 'Hello, Ada Lovelace!' })).toBeInTheDocument();
+    });
+  });
+
+  describe('medium: RegistrationForm', () => {
+    it('shows an error for every empty field', async () => {
+      const RegistrationForm = exercise.component('RegistrationForm');
+      render(<RegistrationForm />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Register' }));
+
+      expect(screen.getByText('⚠️ Email is required')).toBeInTheDocument();
+      expect(screen.getByText('⚠️ Password is required')).toBeInTheDocument();
+      expect(screen.getByText('⚠️ Age is required')).toBeInTheDocument();
+    });
+
+    it('explains what a weak password is missing', async () => {
+      const RegistrationForm = exercise.component('RegistrationForm');
+      render(<RegistrationForm />);
+
+      await userEvent.type(screen.getByPlaceholderText('Email'), 'ada@example.com');
+      await userEvent.type(screen.getByPlaceholderText('Password'), 'lowercase1');
+      await userEvent.type(screen.getByPlaceholderText('Age'), '36');
+      await userEvent.click(screen.getByRole('button', { name: 'Register' }));
+
+      expect(screen.getByText('⚠️ Password must contain uppercase, lowercase, and numbers')).toBeInTheDocument();
+      expect(screen.queryByText(/Email is/)).not.toBeInTheDocument();
+      expect(screen.queryByText(/Age/)).not.toBeInTheDocument();
+    });
+
+    it('keeps its own rules and messages when the shared validators and formatting change', async () => {
+      vi.mocked(validateAge).mockReturnValue(null);
+      vi.mocked(formatErrorMessage).mockImplementation(error => `Error: ${error}`);
+      const RegistrationForm = exercise.component('RegistrationForm');
+      render(<RegistrationForm />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Register' }));
+
+      expect(screen.getByText('⚠️ Email is required')).toBeInTheDocument();
+      expect(screen.getByText('⚠️ Age is required')).toBeInTheDocument();
+    });
+  });
+
+  describe('hard: ProductListing', () => {
+    it('lists every product sorted by name', () => {
+      const ProductListing = exercise.component<{ products: typeof products }>('ProductListing');
+      const { container } = render(<ProductListing products={products} />);
+
+      expect(productNames(container)).toEqual(namesOf(products).sort((a, b) => a.localeCompare(b)));
+    });
+
+    it('sorts by price from high to low', async () => {
+      const ProductListing = exercise.component<{ products: typeof products }>('ProductListing');
+      const { container } = render(<ProductListing products={products} />);
+
+      await userEvent.selectOptions(screen.getByDisplayValue('Sort by Name'), 'price-high');
+
+      expect(productNames(container)).toEqual(namesOf([...products].sort((a, b) => b.price - a.price)));
+    });
+
+    it('combines the category filter with the price range', async () => {
+      const ProductListing = exercise.component<{ products: typeof products }>('ProductListing');
+      const { container } = render(<ProductListing products={products} />);
+
+      await userEvent.selectOptions(screen.getByDisplayValue('All Categories'), 'Kitchen');
+      const maxPrice = screen.getAllByRole('spinbutton')[1];
+      await userEvent.clear(maxPrice);
+      await userEvent.type(maxPrice, '50');
+
+      expect(productNames(container)).toEqual(['Pour-Over Coffee Set']);
+    });
+  });
+});
@@ -0,0 +1,59 @@
+// Minimize state: keep only the base data in state and compute everything else during render
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ComponentType } from 'react';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+import { renderOnServer } from './support/serverRender';
+import { stateProbe } from './support/stateProbe';
+
+vi.mock('react', async importOriginal => (await import('./support/stateProbe')).withStateProbe(await importOriginal()));
+
+describeExercise('minimize-state', exercise => {
+  beforeEach(() => stateProbe.reset());
+
+  // A single server render calls every useState exactly once, so this counts the state a component keeps
+  const stateHooksIn = (Component: ComponentType) =>
+    stateProbe.countStateHooks(() => renderOnServer(<Component />));
+
+  describe('easy: UserDashboard', () => {
+    it('keeps at most 4 pieces of state', () => {
+      const UserDashboard = exercise.component('UserDashboard');
+
+      expect(stateHooksIn(UserDashboard), 'derived values are stored in useState').toBeLessThanOrEqual(4);
+    });
+  });
+
+  describe('medium: ShoppingCart', () => {
+    it('keeps at most 3 pieces of state', () => {
+      const ShoppingCart = exercise.component('ShoppingCart', 'ShoppingCartComplex');
+
+      expect(stateHooksIn(ShoppingCart), 'derived values are stored in useState').toBeLessThanOrEqual(3);
+    });
+
+    it('updates the summary as soon as an item is added', async () => {
+      const ShoppingCart = exercise.component('ShoppingCart', 'ShoppingCartComplex');
+      render(<ShoppingCart />);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Add Sample Product' }));
+
+      expect(screen.getByText('Items: 1 (1 unique)')).toBeInTheDocument();
+    });
+  });
+
+  describe('hard: ProjectManagementSystem', () => {
+    it('keeps at most 6 pieces of state', () => {
+      const ProjectManagementSystem = exercise.component('ProjectManagementSystem');
+
+      expect(stateHooksIn(ProjectManagementSystem), 'derived values are stored in useState').toBeLessThanOrEqual(6);
+    });
+
+    it('still renders the dashboard', async () => {
+      const ProjectManagementSystem = exercise.component('ProjectManagementSystem');
+      render(<ProjectManagementSystem />);
+
+      expect(await screen.findByRole('heading', { name: 'Project Management Dashboard' })).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+// Prefer explicitness: each action does one clearly named thing, and each field says exactly what is wrong
+
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+
+const userCard = (name: string) => screen.getByRole('heading', { name }).closest('.user-card') as HTMLElement;
+
+describeExercise('prefer-explicitness', exercise => {
+  describe('easy: UserManagement', () => {
+    it('lists the users loaded from the API', async () => {
+      const UserManagement = exercise.component('UserManagement');
+      render(<UserManagement />);
+
+      expect(await screen.findByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument();
+      expect(screen.getByRole('heading', { name: 'Linus Torvalds' })).toBeInTheDocument();
+    });
+
+    it('adds a new user', async () => {
+      const UserManagement = exercise.component('UserManagement');
+      render(<UserManagement />);
+      await screen.findByRole('heading', { name: 'Ada Lovelace' });
+
+      await userEvent.click(screen.getByRole('button', { name: /add.*user/i }));
+
+      expect(await screen.findByRole('heading', { name: 'New User' })).toBeInTheDocument();
+    });
+
+    it('deactivates and reactivates a user', async () => {
+      const UserManagement = exercise.component('UserManagement');
+      render(<UserManagement />);
+      await screen.findByRole('heading', { name: 'Ada Lovelace' });
+
+      await userEvent.click(within(userCard('Ada Lovelace')).getByRole('button', { name: 'Deactivate' }));
+      const activate = await within(userCard('Ada Lovelace')).findByRole('button', { name: 'Activate' });
+      await userEvent.click(activate);
+
+      expect(await within(userCard('Ada Lovelace')).findByRole('button', { name: 'Deactivate' })).toBeInTheDocument();
+    });
+
+    it('deletes only the inactive users', async () => {
+      const UserManagement = exercise.component('UserManagement');
+      render(<UserManagement />);
+      vi.spyOn(window, 'confirm').mockReturnValue(true);
+      await screen.findByRole('heading', { name: 'Linus Torvalds' });
+
+      await userEvent.click(screen.getByRole('button', { name: /delete all inactive/i }));
+
+      await waitFor(() => expect(screen.queryByRole('heading', { name: 'Linus Torvalds' })).not.toBeInTheDocument());
+      expect(screen.getByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument();
+    });
+
+    // A generic handler runs every action the same way - a named deleteUser can ask first, as deleting should
+    it('asks before deleting a single user', async () => {
+      const UserManagement = exercise.component('UserManagement');
+      render(<UserManagement />);
+      const confirm = vi.spyOn(window, 'confirm').mockReturnValue(false);
+      await screen.findByRole('heading', { name: 'Ada Lovelace' });
+
+      await userEvent.click(within(userCard('Ada Lovelace')).getByRole('button', { name: 'Delete' }));
+
+      expect(confirm).toHaveBeenCalled();
+      expect(screen.getByRole('heading', { name: 'Ada Lovelace' })).toBeInTheDocument();
+    });
+
+    it('tells the user when loading the users fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.spyOn(globalThis, 'fetch').mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      const UserManagement = exercise.component('UserManagement');
+      render(<UserManagement />);
+
+      expect(await screen.findAllByText(/fail|error|could not/i)).not.toHaveLength(0);
+    });
+  });
+
+  describe('medium: ContactForm', () => {
+    it('explains exactly what is wrong with each field', async () => {
+      const ContactForm = exercise.component('ContactForm', 'ContactFormExample');
+      render(<ContactForm />);
+
+      await userEvent.type(screen.getByPlaceholderText(/Enter your full name/), 'A');
+      await userEvent.type(screen.getByPlaceholderText(/Enter your email/), 'ada@');
+      await userEvent.type(screen.getByPlaceholderText(/Enter your message/), 'Too short');
+
+      expect(screen.getByText('Name must be at least 2 characters')).toBeInTheDocument();
+      expect(screen.getByText('Please enter a valid email address')).toBeInTheDocument();
+      expect(screen.getByText('Message must be at least 10 characters')).toBeInTheDocument();
+    });
+
+    it('clears an error once the field is fixed', async () => {
+      const ContactForm = exercise.component('ContactForm', 'ContactFormExample');
+      render(<ContactForm />);
+
+      await userEvent.type(screen.getByPlaceholderText(/Enter your full name/), 'A');
+      await userEvent.type(screen.getByPlaceholderText(/Enter your full name/), 'da');
+
+      expect(screen.getByPlaceholderText(/Enter your full name/)).toHaveValue('Ada');
+      expect(screen.queryByText(/Name must be/)).not.toBeInTheDocument();
+    });
+  });
+
+  describe('hard: AppWithExplicitStateManagement', () => {
+    const App = () => exercise.component('AppWithExplicitStateManagement', 'AppWithGenericStateManager');
+
+    it('lists the users loaded from the API', async () => {
+      const AppWithExplicitStateManagement = App();
+      render(<AppWithExplicitStateManagement />);
+
+      expect(await screen.findByText(/Ada Lovelace/)).toBeInTheDocument();
+      expect(screen.getByText(/Linus Torvalds/)).toBeInTheDocument();
+    });
+
+    it('adds a user and deletes one', async () => {
+      const AppWithExplicitStateManagement = App();
+      render(<AppWithExplicitStateManagement />);
+      await screen.findByText(/Ada Lovelace/);
+
+      await userEvent.click(screen.getByRole('button', { name: 'Add User' }));
+      expect(await screen.findByText(/New User/)).toBeInTheDocument();
+
+      const ada = screen.getByText(/Ada Lovelace/).parentElement as HTMLElement;
+      await userEvent.click(within(ada).getByRole('button', { name: 'Delete' }));
+      await waitFor(() => expect(screen.queryByText(/Ada Lovelace/)).not.toBeInTheDocument());
+      expect(screen.getByText(/Linus Torvalds/)).toBeInTheDocument();
+    });
+  });
+});
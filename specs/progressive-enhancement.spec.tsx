@@ -0,0 +1,90 @@
+// Progressive enhancement: the server-rendered HTML must work on its own, and JavaScript only improves it
+
+import { beforeEach, describe, expect, it } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+import { renderOnServer } from './support/serverRender';
+
+describeExercise('progressive-enhancement', exercise => {
+  describe('easy: ContactForm', () => {
+    it('renders a real form that can be submitted without JavaScript', () => {
+      const ContactForm = exercise.component('ContactForm', 'ContactFormBroken');
+      const container = renderOnServer(<ContactForm />);
+      const form = container.querySelector('form');
+
+      expect(form, 'there is no <form> element').not.toBeNull();
+      expect(form).toHaveAttribute('action');
+      expect(form).toHaveAttribute('method', expect.stringMatching(/post/i));
+      expect(form!.querySelector('[name="email"]'), 'the email field has no name').not.toBeNull();
+      expect(form!.querySelector('[name="message"]'), 'the message field has no name').not.toBeNull();
+      expect(within(form!).getByRole('button', { name: 'Send Message' })).toHaveAttribute('type', 'submit');
+    });
+
+    it('labels every field', () => {
+      const ContactForm = exercise.component('ContactForm', 'ContactFormBroken');
+      render(<ContactForm />);
+
+      expect(screen.getByLabelText('Email:')).toBeInTheDocument();
+      expect(screen.getByLabelText('Message:')).toBeInTheDocument();
+    });
+
+    it('sends the message in place once JavaScript is running', async () => {
+      const ContactForm = exercise.component('ContactForm', 'ContactFormBroken');
+      render(<ContactForm />);
+
+      await userEvent.type(screen.getByLabelText('Email:'), 'ada@example.com');
+      await userEvent.type(screen.getByLabelText('Message:'), 'Hello there');
+      await userEvent.click(screen.getByRole('button', { name: 'Send Message' }));
+
+      expect(await screen.findByText('Message sent successfully!')).toBeInTheDocument();
+    });
+  });
+
+  describe('medium: ProductCatalog', () => {
+    it('renders categories as links and sorting as a named select', () => {
+      const ProductCatalog = exercise.component('ProductCatalog');
+      const container = renderOnServer(<ProductCatalog />);
+
+      expect(within(container).getByRole('link', { name: 'Electronics' })).toHaveAttribute('href');
+      expect(within(container).getByRole('combobox', { name: 'Sort By:' })).toHaveAttribute('name');
+      expect(within(container).getByRole('link', { name: /View Cart/ })).toHaveAttribute('href', '/cart');
+    });
+
+    it('adds products to the cart with real buttons', async () => {
+      const ProductCatalog = exercise.component('ProductCatalog');
+      render(<ProductCatalog />);
+
+      const [addToCart] = await screen.findAllByRole('button', { name: 'Add to Cart' });
+      await userEvent.click(addToCart);
+
+      expect(screen.getByRole('link', { name: /View Cart/ })).toHaveTextContent('(1 items)');
+    });
+  });
+
+  describe('hard: AdminDashboard', () => {
+    beforeEach(() => localStorage.setItem('authToken', 'spec-token'));
+
+    it('renders the sections as tabs that are also links', async () => {
+      const AdminDashboard = exercise.component('AdminDashboard');
+      render(<AdminDashboard />);
+
+      const tabs = await screen.findAllByRole('tab');
+
+      expect(tabs.map(tab => tab.textContent?.trim())).toEqual(['Users', 'Orders', 'Analytics']);
+      tabs.forEach(tab => expect(tab, `the ${tab.textContent?.trim()} tab is not a link`).toHaveAttribute('href'));
+      expect(tabs[0]).toHaveAttribute('aria-selected', 'true');
+    });
+
+    it('switches sections in place', async () => {
+      const AdminDashboard = exercise.component('AdminDashboard');
+      render(<AdminDashboard />);
+
+      await userEvent.click(await screen.findByRole('tab', { name: 'Orders' }));
+
+      expect(screen.getByRole('tab', { name: 'Orders' })).toHaveAttribute('aria-selected', 'true');
+      expect(screen.getByRole('tab', { name: 'Users' })).toHaveAttribute('aria-selected', 'false');
+      expect(screen.getByRole('heading', { name: 'Order Management' })).toBeVisible();
+    });
+  });
+});
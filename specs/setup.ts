@@ -0,0 +1,20 @@
+// Shared spec setup: jest-dom matchers, the in-process mock API and a clean DOM per spec
+
+import '@testing-library/jest-dom/vitest';
+import { cleanup } from '@testing-library/react';
+import { afterEach, beforeEach, vi } from 'vitest';
+import { installMockFetch } from '../src/mockApi/mockFetch';
+
+let uninstallMockFetch = () => {};
+
+beforeEach(() => {
+  uninstallMockFetch = installMockFetch();
+  localStorage.clear();
+});
+
+afterEach(() => {
+  cleanup();
+  uninstallMockFetch();
+  vi.restoreAllMocks();
+  vi.useRealTimers();
+});
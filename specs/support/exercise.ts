@@ -0,0 +1,90 @@
+// Loads the exercise file a spec suite grades
+// `npm test` runs the specs against answers/ so the specs themselves stay honest;
+// `npm run check` (vitest --mode learner) runs the same specs against the learner's edits in tests/,
+// and `npm run study -- check` (vitest --mode workspace) against the scratch copies in workspace/
+
+import { beforeAll, describe } from 'vitest';
+import type { ComponentType } from 'react';
+import { getExercise } from '../../src/exercises/registry';
+import { DIFFICULTY_ORDER } from '../../src/exercises/parseExercise';
+
+export type GradedSide = 'test' | 'answer' | 'workspace';
+
+type ExerciseModule = Record<string, unknown>;
+
+export interface GradedExercise {
+  // Resolves a component export, trying each name in turn (the answers sometimes rename a component)
+  component: <P = Record<string, never>>(...names: string[]) => ComponentType<P>;
+}
+
+const MODE_SIDES: Record<string, GradedSide> = {
+  learner: 'test',
+  workspace: 'workspace'
+};
+
+export const gradedSide: GradedSide = MODE_SIDES[import.meta.env.MODE] ?? 'answer';
+
+const SIDE_LABELS: Record<GradedSide, string> = {
+  test: 'tests/',
+  answer: 'answers/',
+  workspace: 'workspace/'
+};
+
+const exerciseModules = import.meta.glob<ExerciseModule>(['/tests/*-test.tsx', '/answers/*-answer.tsx', '/workspace/*.tsx']);
+
+// A workspace holds one file per started level (workspace/<id>-<level>.tsx), so their exports are combined
+const loadWorkspaceModules = async (exerciseId: string) => {
+  const pattern = new RegExp(`^/workspace/${exerciseId}-(${DIFFICULTY_ORDER.join('|')})\\.tsx$`);
+  const paths = Object.keys(exerciseModules).filter(path => pattern.test(path));
+  if (paths.length === 0) {
+    throw new Error(`No workspace copy of ${exerciseId} - run "npm run study -- start ${exerciseId} <level>"`);
+  }
+
+  const modules = await Promise.all(paths.map(path => exerciseModules[path]()));
+  return { path: `workspace/${exerciseId}-*.tsx`, module: Object.assign({}, ...modules) as ExerciseModule };
+};
+
+export const loadExerciseModule = async (exerciseId: string, side: GradedSide = gradedSide) => {
+  const exercise = getExercise(exerciseId);
+  if (!exercise) {
+    throw new Error(`Unknown exercise "${exerciseId}"`);
+  }
+
+  if (side === 'workspace') {
+    return loadWorkspaceModules(exerciseId);
+  }
+
+  const path = exercise[side].path;
+  const load = exerciseModules[`/${path}`];
+  if (!load) {
+    throw new Error(`Could not find ${path}`);
+  }
+
+  return { path, module: await load() };
+};
+
+// Wraps a spec suite so every spec inside it can pull components from the graded file
+export const describeExercise = (exerciseId: string, defineSpecs: (exercise: GradedExercise) => void) => {
+  describe(`${exerciseId} (${SIDE_LABELS[gradedSide]})`, () => {
+    let loaded: { path: string; module: ExerciseModule } | undefined;
+
+    beforeAll(async () => {
+      loaded = await loadExerciseModule(exerciseId);
+    });
+
+    defineSpecs({
+      component: <P,>(...names: string[]) => {
+        if (!loaded) {
+          throw new Error(`${exerciseId} has not been loaded yet`);
+        }
+
+        const name = names.find(candidate => typeof loaded!.module[candidate] === 'function');
+        if (!name) {
+          throw new Error(`${loaded.path} does not export ${names.join(' or ')}`);
+        }
+
+        return loaded.module[name] as ComponentType<P>;
+      }
+    });
+  });
+};
@@ -0,0 +1,11 @@
+// Renders an element the way a server would: a single pass with no effects and no event handlers
+// Shows what users see before hydration, or with JavaScript disabled
+
+import type { ReactElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+
+export const renderOnServer = (element: ReactElement): HTMLElement => {
+  const container = document.createElement('div');
+  container.innerHTML = renderToStaticMarkup(element);
+  return container;
+};
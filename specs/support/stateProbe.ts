@@ -0,0 +1,91 @@
+// Instruments React's useState so specs can observe what a component keeps in state
+// Spec files opt in by mocking react before anything imports it:
+//   vi.mock('react', async importOriginal => (await import('./support/stateProbe')).withStateProbe(await importOriginal()));
+
+import type * as React from 'react';
+
+type ReactModule = typeof React & { default?: typeof React };
+
+interface StateSnapshot {
+  value: object;
+  copy: unknown;
+}
+
+let snapshots: StateSnapshot[] = [];
+let seenValues = new WeakSet<object>();
+let stateHookCalls = 0;
+let handedOut: unknown[] = [];
+
+// Every object or array handed out by useState is copied the first time a render sees it,
+// so a later in-place change to a previous state value can be detected
+const remember = (value: unknown) => {
+  if (typeof value !== 'object' || value === null || seenValues.has(value)) return;
+  seenValues.add(value);
+
+  try {
+    snapshots.push({ value, copy: structuredClone(value) });
+  } catch {
+    // Values holding functions or DOM nodes cannot be copied - they are not tracked
+  }
+};
+
+export const withStateProbe = (react: ReactModule): ReactModule => {
+  const useState = ((initialState: unknown) => {
+    stateHookCalls += 1;
+    const [state, setState] = react.useState(initialState);
+    remember(state);
+    handedOut.push(state);
+    return [state, setState];
+  }) as typeof React.useState;
+
+  return {
+    ...react,
+    useState,
+    default: { ...(react.default ?? react), useState }
+  };
+};
+
+export const stateProbe = {
+  reset: () => {
+    snapshots = [];
+    seenValues = new WeakSet();
+    stateHookCalls = 0;
+    handedOut = [];
+  },
+
+  // State values that no longer match the copy taken when they were first rendered
+  mutatedValues: () => snapshots
+    .filter(({ value, copy }) => !isDeepEqual(value, copy))
+    .map(({ copy }) => copy),
+
+  // Number of useState calls made while `render` runs - call it with a single render pass
+  countStateHooks: (render: () => void) => {
+    const before = stateHookCalls;
+    render();
+    return stateHookCalls - before;
+  },
+
+  // The state values useState hands out while `render` runs, in hook order - also for a single render pass
+  statesIn: (render: () => void): unknown[] => {
+    const before = handedOut.length;
+    render();
+    return handedOut.slice(before);
+  }
+};
+
+const isDeepEqual = (left: unknown, right: unknown): boolean => {
+  if (Object.is(left, right)) return true;
+  if (left instanceof Date && right instanceof Date) return left.getTime() === right.getTime();
+  if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) return false;
+  if (Array.isArray(left) !== Array.isArray(right)) return false;
+
+  if (left instanceof Set && right instanceof Set) {
+    return left.size === right.size && [...left].every(item => right.has(item));
+  }
+
+  const leftKeys = Object.keys(left);
+  const rightKeys = Object.keys(right);
+  return leftKeys.length === rightKeys.length && leftKeys.every(key =>
+    isDeepEqual((left as Record<string, unknown>)[key], (right as Record<string, unknown>)[key])
+  );
+};
@@ -0,0 +1,91 @@
+// UI as a pure function: rendering the same props and state twice must give the same output,
+// and rendering must not reach outside the component
+
+import { describe, expect, it, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { describeExercise } from './support/exercise';
+import { renderOnServer } from './support/serverRender';
+
+const quotes = [
+  { text: 'Simplicity is prerequisite for reliability.', author: 'Edsger Dijkstra' },
+  { text: 'Make it work, make it right, make it fast.', author: 'Kent Beck' },
+  { text: 'Programs must be written for people to read.', author: 'Harold Abelson' }
+];
+
+// Math.random returns a different value on every call, so any call made while rendering shows up
+const mockChangingRandom = () => {
+  let calls = 0;
+  vi.spyOn(Math, 'random').mockImplementation(() => (calls++ * 0.37) % 1);
+};
+
+describeExercise('ui-pure-function', exercise => {
+  describe('easy: RandomQuote', () => {
+    it('keeps the same quote when re-rendered with the same props', () => {
+      mockChangingRandom();
+      const RandomQuote = exercise.component<{ quotes: typeof quotes }>('RandomQuote');
+      const { container, rerender } = render(<RandomQuote quotes={quotes} />);
+      const firstQuote = container.querySelector('blockquote')?.textContent;
+
+      rerender(<RandomQuote quotes={quotes} />);
+
+      expect(container.querySelector('blockquote')?.textContent, 'render picked a new random quote').toBe(firstQuote);
+    });
+
+    it('shows another quote when New Quote is clicked', async () => {
+      mockChangingRandom();
+      const RandomQuote = exercise.component<{ quotes: typeof quotes }>('RandomQuote');
+      const { container } = render(<RandomQuote quotes={quotes} />);
+      const firstQuote = container.querySelector('blockquote')?.textContent;
+
+      await userEvent.click(screen.getByRole('button', { name: 'New Quote' }));
+
+      expect(container.querySelector('blockquote')?.textContent).not.toBe(firstQuote);
+    });
+  });
+
+  describe('medium: TimeBasedGreeting', () => {
+    it('greets the user for the time of day', () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2024, 0, 10, 9, 0));
+      const TimeBasedGreeting = exercise.component<{ userName: string }>('TimeBasedGreeting');
+      render(<TimeBasedGreeting userName="Ada" />);
+
+      expect(screen.getByRole('heading', { name: 'Good morning, Ada!' })).toBeInTheDocument();
+    });
+
+    it('keeps the same session id across renders', () => {
+      mockChangingRandom();
+      const TimeBasedGreeting = exercise.component<{ userName: string }>('TimeBasedGreeting');
+      const { rerender } = render(<TimeBasedGreeting userName="Ada" />);
+      const sessionId = screen.getByText(/Session ID:/).textContent;
+
+      rerender(<TimeBasedGreeting userName="Ada" />);
+
+      expect(screen.getByText(/Session ID:/).textContent, 'render generated a new session id').toBe(sessionId);
+    });
+  });
+
+  describe('hard: DashboardWidget', () => {
+    it('does not touch the page title or storage while rendering', () => {
+      document.title = 'Specs';
+      const DashboardWidget = exercise.component<{ userId: string; widgetType: string }>('DashboardWidget');
+
+      renderOnServer(<DashboardWidget userId="user-1" widgetType="clock" />);
+
+      expect(document.title, 'render changed document.title').toBe('Specs');
+      expect(localStorage.getItem('lastViewedWidget'), 'render wrote to localStorage').toBeNull();
+    });
+
+    it('keeps the same element id across renders', () => {
+      mockChangingRandom();
+      const DashboardWidget = exercise.component<{ userId: string; widgetType: string }>('DashboardWidget');
+      const { container, rerender } = render(<DashboardWidget userId="user-1" widgetType="clock" />);
+      const widgetId = container.querySelector('.dashboard-widget')?.id;
+
+      rerender(<DashboardWidget userId="user-1" widgetType="clock" />);
+
+      expect(container.querySelector('.dashboard-widget')?.id, 'render generated a new id').toBe(widgetId);
+    });
+  });
+});
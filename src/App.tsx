@@ -1,7 +1,67 @@
-import React from 'react';
+import { useState } from 'react';
 import './App.css';
+import { exercises, getExercise } from './exercises/registry';
+import { ExerciseList, type ExerciseSelection } from './app/ExerciseList';
+import { ExerciseView } from './app/ExerciseView';
+import { FlashcardsView } from './app/FlashcardsView';
+import { PrinciplesView } from './app/PrinciplesView';
+import { ProgressDashboard } from './app/ProgressDashboard';
+import { QuizView } from './app/QuizView';
+import { SearchPalette } from './app/SearchPalette';
+import { useFlashcardReviews } from './app/useFlashcardReviews';
+import { useHashAnchor } from './app/useHashAnchor';
+import { useLearnerProgress } from './app/useLearnerProgress';
+import { getSectionProgress, getSectionStatus } from './exercises/progress';
+import { flashcards } from './flashcards/deck';
+import { isPrincipleAnchor, principlesDocument } from './principles/document';
+import { quizQuestions } from './quiz/questionBank';
+import type { Exercise, SearchTarget } from './types';
+
+type Page =
+  | { name: 'welcome' }
+  | { name: 'progress' }
+  | { name: 'quiz' }
+  | { name: 'flashcards' }
+  | { name: 'exercise'; selection: ExerciseSelection };
+
+// The 📖 Principles link opens the first category with principles in it, skipping the overview
+const PRINCIPLES_HOME = principlesDocument.categories.find(category => category.principles.length > 0)?.anchor ?? '';
 
 function App() {
+  const [page, setPage] = useState<Page>({ name: 'welcome' });
+  const { progress, record, recordQuiz, recordHints } = useLearnerProgress();
+  const { reviews, review } = useFlashcardReviews();
+  // The principles pages live in the URL hash, so principles.md anchors link straight to them
+  const { anchor: principleAnchor, clear: leavePrinciples } = useHashAnchor(isPrincipleAnchor);
+
+  const selection = page.name === 'exercise' && !principleAnchor ? page.selection : null;
+  const selectedExercise = selection ? getExercise(selection.exerciseId) : undefined;
+
+  const showPage = (next: Page) => {
+    leavePrinciples();
+    setPage(next);
+  };
+
+  // Opening a level that has problem code counts as attempting it
+  const handleSelect = (next: ExerciseSelection) => {
+    showPage({ name: 'exercise', selection: next });
+    if (getExercise(next.exerciseId)?.difficulties.includes(next.difficulty)) {
+      record(next.exerciseId, next.difficulty, 'attempted');
+    }
+  };
+
+  const handlePractice = (exercise: Exercise) => {
+    handleSelect({ exerciseId: exercise.id, difficulty: exercise.difficulties[0] ?? 'easy' });
+  };
+
+  const handleOpenResult = (target: SearchTarget) => {
+    if (target.page === 'principle') {
+      window.location.hash = target.anchor;
+    } else {
+      handleSelect({ exerciseId: target.exerciseId, difficulty: target.difficulty });
+    }
+  };
+
   return (
     <div className="App">
       <header className="App-header">
@@ -9,80 +69,152 @@ function App() {
         <p>
           Welcome to the React Design Principles Study Guide!
         </p>
+      </header>
+
+      <div className="App-layout">
+        <aside className="App-sidebar">
+          <SearchPalette onOpenResult={handleOpenResult} />
+          <button
+            type="button"
+            className={`exercise-link progress-link ${page.name === 'progress' && !principleAnchor ? 'selected' : ''}`}
+            aria-current={page.name === 'progress' && !principleAnchor ? 'page' : undefined}
+            onClick={() => showPage({ name: 'progress' })}
+          >
+            📊 Progress
+          </button>
+          <a
+            href={`#${PRINCIPLES_HOME}`}
+            className={`exercise-link progress-link principles-link ${principleAnchor ? 'selected' : ''}`}
+            aria-current={principleAnchor ? 'page' : undefined}
+          >
+            📖 Principles
+          </a>
+          <button
+            type="button"
+            className={`exercise-link progress-link ${page.name === 'quiz' && !principleAnchor ? 'selected' : ''}`}
+            aria-current={page.name === 'quiz' && !principleAnchor ? 'page' : undefined}
+            onClick={() => showPage({ name: 'quiz' })}
+          >
+            🧩 Quiz
+          </button>
+          <button
+            type="button"
+            className={`exercise-link progress-link ${page.name === 'flashcards' && !principleAnchor ? 'selected' : ''}`}
+            aria-current={page.name === 'flashcards' && !principleAnchor ? 'page' : undefined}
+            onClick={() => showPage({ name: 'flashcards' })}
+          >
+            🃏 Flashcards
+          </button>
+          <h2>📝 Exercises</h2>
+          <ExerciseList exercises={exercises} progress={progress} selection={selection} onSelect={handleSelect} />
+        </aside>
+
+        <main className="App-main">
+          {principleAnchor ? (
+            <PrinciplesView anchor={principleAnchor} onPractice={handlePractice} />
+          ) : page.name === 'progress' ? (
+            <ProgressDashboard exercises={exercises} progress={progress} />
+          ) : page.name === 'quiz' ? (
+            <QuizView questions={quizQuestions} progress={progress} onAnswer={recordQuiz} />
+          ) : page.name === 'flashcards' ? (
+            <FlashcardsView cards={flashcards} reviews={reviews} onReview={review} />
+          ) : selectedExercise && selection ? (
+            <ExerciseView
+              key={`${selection.exerciseId}-${selection.difficulty}`}
+              exercise={selectedExercise}
+              difficulty={selection.difficulty}
+              status={getSectionStatus(progress, selection.exerciseId, selection.difficulty)}
+              hintsRevealed={getSectionProgress(progress, selection.exerciseId, selection.difficulty)?.hintsRevealed ?? 0}
+              onRecord={event => record(selection.exerciseId, selection.difficulty, event)}
+              onRevealHints={count => recordHints(selection.exerciseId, selection.difficulty, count)}
+            />
+          ) : (
+            <Welcome />
+          )}
+        </main>
+      </div>
+    </div>
+  );
+}
+
+function Welcome() {
+  return (
+    <div className="App-welcome">
+      <div className="study-instructions">
+        <h2>How to Use This Study Guide</h2>
+        <ol>
+          <li>
+            <strong>Study the Principle:</strong> Read it on the 📖 Principles pages (the same text as <code>principles.md</code>)
+          </li>
+          <li>
+            <strong>Practice with Tests:</strong> Pick an exercise from the list and identify the violations in the problem code
+          </li>
+          <li>
+            <strong>Check Your Solution:</strong> Reveal the answer to compare your fix side by side with the correct implementation
+          </li>
+          <li>
+            <strong>Track Your Progress:</strong> Mark levels you fixed and watch your mastery and streak grow on the Progress page
+          </li>
+          <li>
+            <strong>Test Your Understanding:</strong> Take a 🧩 Quiz round, then try to explain the principle to someone else
+          </li>
+        </ol>
+      </div>
+
+      <div className="principles-overview">
+        <h2>📋 Principles Covered</h2>
         
-        <div className="study-instructions">
-          <h2>How to Use This Study Guide</h2>
-          <ol>
-            <li>
-              <strong>Study the Principle:</strong> Read the relevant section in <code>principles.md</code>
-            </li>
-            <li>
-              <strong>Practice with Tests:</strong> Open a test file from the <code>tests/</code> directory and identify violations
-            </li>
-            <li>
-              <strong>Check Your Solution:</strong> Compare your fixes with the answer files in <code>answers/</code>
-            </li>
-            <li>
-              <strong>Test Your Understanding:</strong> Try to explain the principle to someone else
-            </li>
-          </ol>
+        <div className="principle-category">
+          <h3>Core React Patterns</h3>
+          <ul>
+            <li>Locality of Behavior</li>
+            <li>Derivable State</li>
+            <li>Boolean Hell</li>
+            <li>UI as Pure Function</li>
+            <li>Composition over Configuration</li>
+            <li>Copy over Abstraction</li>
+          </ul>
         </div>
 
-        <div className="principles-overview">
-          <h2>📋 Principles Covered</h2>
-          
-          <div className="principle-category">
-            <h3>Core React Patterns</h3>
-            <ul>
-              <li>Locality of Behavior</li>
-              <li>Derivable State</li>
-              <li>Boolean Hell</li>
-              <li>UI as Pure Function</li>
-              <li>Composition over Configuration</li>
-              <li>Copy over Abstraction</li>
-            </ul>
-          </div>
-
-          <div className="principle-category">
-            <h3>Standard React Principles</h3>
-            <ul>
-              <li>Single Source of Truth</li>
-              <li>Lifting State Up</li>
-              <li>Controlled vs Uncontrolled</li>
-              <li>Declarative over Imperative</li>
-              <li>Keys in Lists</li>
-              <li>Effects for Side Effects</li>
-            </ul>
-          </div>
-
-          <div className="principle-category">
-            <h3>Additional Design Principles</h3>
-            <ul>
-              <li>DRY (But Do It Right)</li>
-              <li>Separation of Concerns</li>
-              <li>Fail Fast</li>
-              <li>Principle of Least Surprise</li>
-              <li>YAGNI</li>
-              <li>Open/Closed Principle</li>
-            </ul>
-          </div>
+        <div className="principle-category">
+          <h3>Standard React Principles</h3>
+          <ul>
+            <li>Single Source of Truth</li>
+            <li>Lifting State Up</li>
+            <li>Controlled vs Uncontrolled</li>
+            <li>Declarative over Imperative</li>
+            <li>Keys in Lists</li>
+            <li>Effects for Side Effects</li>
+          </ul>
         </div>
 
-        <div className="getting-started">
-          <h2>🚀 Getting Started</h2>
-          <p>
-            Start by reading the <code>README.md</code> file for detailed instructions.
-          </p>
-          <p>
-            Then explore the files in your IDE:
-          </p>
+        <div className="principle-category">
+          <h3>Additional Design Principles</h3>
           <ul>
-            <li><code>tests/</code> - Code examples with violations to fix</li>
-            <li><code>answers/</code> - Correct implementations with explanations</li>
-            <li><code>principles.md</code> - Complete reference guide</li>
+            <li>DRY (But Do It Right)</li>
+            <li>Separation of Concerns</li>
+            <li>Fail Fast</li>
+            <li>Principle of Least Surprise</li>
+            <li>YAGNI</li>
+            <li>Open/Closed Principle</li>
           </ul>
         </div>
-      </header>
+      </div>
+
+      <div className="getting-started">
+        <h2>🚀 Getting Started</h2>
+        <p>
+          Start by reading the <code>README.md</code> file for detailed instructions.
+        </p>
+        <p>
+          Every exercise in the list is read straight from the repository files:
+        </p>
+        <ul>
+          <li><code>tests/</code> - Code examples with violations to fix</li>
+          <li><code>answers/</code> - Correct implementations with explanations</li>
+          <li><code>principles.md</code> - Complete reference guide</li>
+        </ul>
+      </div>
     </div>
   );
 }
@@ -0,0 +1,28 @@
+// Syntax-highlighted, line-numbered code listing for exercise sources
+
+import { Highlight, themes } from 'prism-react-renderer';
+
+interface CodeBlockProps {
+  code: string;
+  firstLine?: number;
+  language?: string;
+}
+
+export function CodeBlock({ code, firstLine = 1, language = 'tsx' }: CodeBlockProps) {
+  return (
+    <Highlight theme={themes.vsLight} code={code.trimEnd()} language={language}>
+      {({ className, style, tokens, getLineProps, getTokenProps }) => (
+        <pre className={`code-block ${className}`} style={style}>
+          {tokens.map((line, lineIndex) => (
+            <div key={lineIndex} {...getLineProps({ line })}>
+              <span className="code-line-number">{firstLine + lineIndex}</span>
+              {line.map((token, tokenIndex) => (
+                <span key={tokenIndex} {...getTokenProps({ token })} />
+              ))}
+            </div>
+          ))}
+        </pre>
+      )}
+    </Highlight>
+  );
+}
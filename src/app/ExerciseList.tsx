@@ -0,0 +1,58 @@
+// Sidebar listing every exercise grouped by principle, then by difficulty
+
+import type { Difficulty, Exercise, LearnerProgress, SectionStatus } from '../types';
+import { DIFFICULTY_LABELS, getAvailableDifficulties, getSection } from '../exercises/registry';
+import { getSectionStatus } from '../exercises/progress';
+
+export interface ExerciseSelection {
+  exerciseId: string;
+  difficulty: Difficulty;
+}
+
+interface ExerciseListProps {
+  exercises: Exercise[];
+  progress: LearnerProgress;
+  selection: ExerciseSelection | null;
+  onSelect: (selection: ExerciseSelection) => void;
+}
+
+const STATUS_MARKS: Record<SectionStatus, string> = {
+  'not-started': '',
+  attempted: '✏️',
+  'answer-viewed': '👀',
+  passed: '✅'
+};
+
+export function ExerciseList({ exercises, progress, selection, onSelect }: ExerciseListProps) {
+  return (
+    <nav className="exercise-list" aria-label="Exercises">
+      {exercises.map(exercise => (
+        <section key={exercise.id} className="exercise-group">
+          <h3>{exercise.principle}</h3>
+          <ul>
+            {getAvailableDifficulties(exercise).map(difficulty => {
+              const section = getSection(exercise, difficulty, 'test') ?? getSection(exercise, difficulty, 'answer');
+              const isSelected = selection?.exerciseId === exercise.id && selection.difficulty === difficulty;
+
+              return (
+                <li key={difficulty}>
+                  <button
+                    type="button"
+                    className={`exercise-link ${isSelected ? 'selected' : ''}`}
+                    aria-current={isSelected ? 'true' : undefined}
+                    onClick={() => onSelect({ exerciseId: exercise.id, difficulty })}
+                  >
+                    <span className="exercise-difficulty">
+                      {DIFFICULTY_LABELS[difficulty]} {STATUS_MARKS[getSectionStatus(progress, exercise.id, difficulty)]}
+                    </span>
+                    <span className="exercise-components">{section?.components.join(', ')}</span>
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      ))}
+    </nav>
+  );
+}
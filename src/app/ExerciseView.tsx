@@ -0,0 +1,169 @@
+// Side-by-side view of one exercise level: the broken code, hints one level at a time, a structural comparison
+// with the answer and, once requested, the fix
+
+import { useState } from 'react';
+import solutionDiffs from 'virtual:solution-diffs';
+import type { Difficulty, Exercise, ProgressEvent, SectionStatus } from '../types';
+import { DIFFICULTY_LABELS, getSection, getSectionSource } from '../exercises/registry';
+import { HINT_LABELS, getSectionHints } from '../exercises/hints';
+import { DIFF_LABELS, describeComponentDiff } from '../diff/describeDiff';
+import { CodeBlock } from './CodeBlock';
+import { PreviewFrame } from './PreviewFrame';
+
+interface ExerciseViewProps {
+  exercise: Exercise;
+  difficulty: Difficulty;
+  status: SectionStatus;
+  // Kept in this browser's progress, so the hints stay revealed when you come back to the level
+  hintsRevealed: number;
+  onRecord: (event: ProgressEvent) => void;
+  onRevealHints: (count: number) => void;
+}
+
+// Mount with a key per exercise level so the answer is hidden again on every new selection
+export function ExerciseView({ exercise, difficulty, status, hintsRevealed, onRecord, onRevealHints }: ExerciseViewProps) {
+  const [isAnswerVisible, setIsAnswerVisible] = useState(false);
+  const [mode, setMode] = useState<'code' | 'preview'>('code');
+  const [isDiffVisible, setIsDiffVisible] = useState(false);
+
+  const problemSection = getSection(exercise, difficulty, 'test');
+  const answerSection = getSection(exercise, difficulty, 'answer');
+  const problemSource = getSectionSource(exercise, difficulty, 'test');
+  const answerSource = getSectionSource(exercise, difficulty, 'answer');
+  const hints = problemSource ? getSectionHints(exercise, difficulty) : [];
+  const revealedHints = hints.slice(0, hintsRevealed);
+  // Worked out from tests/ when the dev server loads it, so edits there show up on the next save
+  const diff = solutionDiffs[exercise.id]?.[difficulty];
+
+  const handleShowAnswer = () => {
+    setIsAnswerVisible(true);
+    onRecord('answer-viewed');
+  };
+
+  return (
+    <article className="exercise-view">
+      <header className="exercise-view-header">
+        <h2>{exercise.principle} · {DIFFICULTY_LABELS[difficulty]}</h2>
+        <p className="exercise-goal"><strong>Goal:</strong> {exercise.goal}</p>
+        {problemSection?.problem && (
+          <p className="exercise-problem"><strong>Problem:</strong> {problemSection.problem}</p>
+        )}
+        {hints.length > 0 && (
+          <div className="exercise-hints">
+            {revealedHints.length > 0 && (
+              <ol>
+                {revealedHints.map(hint => (
+                  <li key={hint.level}>
+                    <strong>{HINT_LABELS[hint.level]}:</strong> {hint.text}
+                    {hint.code && <CodeBlock code={hint.code} />}
+                  </li>
+                ))}
+              </ol>
+            )}
+            {revealedHints.length < hints.length && (
+              <button type="button" className="btn btn-secondary btn-small" onClick={() => onRevealHints(revealedHints.length + 1)}>
+                💡 {revealedHints.length === 0 ? 'Show a Hint' : 'Next Hint'} ({revealedHints.length + 1} of {hints.length})
+              </button>
+            )}
+          </div>
+        )}
+        {diff && problemSource && (
+          <div className="exercise-diff">
+            <button type="button" className="btn btn-secondary btn-small" onClick={() => setIsDiffVisible(!isDiffVisible)}>
+              🔍 {isDiffVisible ? 'Hide the Comparison' : 'Compare with the Answer'}
+            </button>
+            {isDiffVisible && (
+              <ul aria-label="Differences from the answer">
+                {diff.components.map(component => (
+                  <li key={component.name}>
+                    <strong>{component.identical ? '✅ ' : ''}{describeComponentDiff(component)}</strong>
+                    {component.annotations.length > 0 && (
+                      <ul>
+                        {component.annotations.map(({ kind, message, line }) => (
+                          <li key={`${kind}-${line}-${message}`}>
+                            <span className="exercise-diff-line">L{line}</span> {DIFF_LABELS[kind]}: {message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        <div className="exercise-mode" role="group" aria-label="View mode">
+          <button
+            type="button"
+            className={`btn btn-small ${mode === 'code' ? 'btn-primary' : 'btn-secondary'}`}
+            aria-pressed={mode === 'code'}
+            onClick={() => setMode('code')}
+          >
+            Code
+          </button>
+          <button
+            type="button"
+            className={`btn btn-small ${mode === 'preview' ? 'btn-primary' : 'btn-secondary'}`}
+            aria-pressed={mode === 'preview'}
+            onClick={() => setMode('preview')}
+          >
+            ▶ Live Preview
+          </button>
+          {problemSource && (status === 'passed' ? (
+            <span className="exercise-passed">✅ Passed</span>
+          ) : (
+            <button type="button" className="btn btn-small btn-secondary" onClick={() => onRecord('passed')}>
+              ✅ I Fixed It
+            </button>
+          ))}
+        </div>
+      </header>
+
+      <div className="exercise-panes">
+        <section className="exercise-pane" aria-label="Problem code">
+          <h3>❌ Problem <code>{exercise.test.path}</code></h3>
+          {problemSource && problemSection ? (
+            mode === 'code' ? (
+              <CodeBlock code={problemSource} firstLine={problemSection.startLine} />
+            ) : (
+              <PreviewFrame exerciseId={exercise.id} difficulty={difficulty} side="test" />
+            )
+          ) : (
+            <p className="exercise-empty">This level is reference material only - there is no problem version to fix.</p>
+          )}
+        </section>
+
+        <section className="exercise-pane" aria-label="Answer code">
+          <h3>✅ Answer <code>{exercise.answer.path}</code></h3>
+          {!answerSource || !answerSection ? (
+            <p className="exercise-empty">There is no reference answer for this level yet.</p>
+          ) : isAnswerVisible ? (
+            <>
+              {answerSection.solution && (
+                <p className="exercise-solution"><strong>Solution:</strong> {answerSection.solution}</p>
+              )}
+              {answerSection.why && (
+                <p className="exercise-why"><strong>Why:</strong> {answerSection.why}</p>
+              )}
+              <button type="button" className="btn btn-secondary btn-small" onClick={() => setIsAnswerVisible(false)}>
+                Hide Answer
+              </button>
+              {mode === 'code' ? (
+                <CodeBlock code={answerSource} firstLine={answerSection.startLine} />
+              ) : (
+                <PreviewFrame exerciseId={exercise.id} difficulty={difficulty} side="answer" />
+              )}
+            </>
+          ) : (
+            <div className="exercise-answer-hidden">
+              <p>Try fixing the problem yourself first.</p>
+              <button type="button" className="btn btn-primary" onClick={handleShowAnswer}>
+                Show Answer
+              </button>
+            </div>
+          )}
+        </section>
+      </div>
+    </article>
+  );
+}
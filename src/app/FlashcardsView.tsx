@@ -0,0 +1,113 @@
+// Today's flashcard queue - due reviews first, then a few new cards; each grade reschedules the card with SM-2
+
+import { useState } from 'react';
+import type { CodeExample, Flashcard, FlashcardReviews, ReviewGrade } from '../types';
+import { toDayKey } from '../exercises/progress';
+import { getReviewQueue, scheduleReview } from '../flashcards/scheduler';
+import { CodeBlock } from './CodeBlock';
+
+interface FlashcardsViewProps {
+  cards: Flashcard[];
+  reviews: FlashcardReviews;
+  onReview: (cardId: string, grade: ReviewGrade) => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 1, label: 'Again', className: 'btn-danger' },
+  { grade: 3, label: 'Hard', className: 'btn-secondary' },
+  { grade: 4, label: 'Good', className: 'btn-primary' },
+  { grade: 5, label: 'Easy', className: 'btn-primary' }
+];
+
+const formatInterval = (days: number) => (days === 0 ? 'today' : days === 1 ? '1 day' : `${days} days`);
+
+function CardCode({ example }: { example: CodeExample }) {
+  return (
+    <>
+      {example.label && <p className="flashcard-code-label">{example.label}</p>}
+      <CodeBlock code={example.code} language={example.language} />
+    </>
+  );
+}
+
+export function FlashcardsView({ cards, reviews, onReview }: FlashcardsViewProps) {
+  // Fixed when the page opens, so a session that runs past midnight does not reshuffle mid-review
+  const [openedAt] = useState(() => new Date());
+  const [category, setCategory] = useState('');
+  const [revealedCardId, setRevealedCardId] = useState<string | null>(null);
+
+  const today = toDayKey(openedAt);
+  const categories = [...new Set(cards.map(card => card.category))];
+  const deck = category ? cards.filter(card => card.category === category) : cards;
+  const queue = getReviewQueue(deck, reviews, today);
+  const card = queue.due[0] ?? queue.fresh[0];
+  const isRevealed = card !== undefined && revealedCardId === card.id;
+
+  // A card graded Again can be the next one up, so the answer is hidden again explicitly
+  const handleGrade = (cardId: string, grade: ReviewGrade) => {
+    setRevealedCardId(null);
+    onReview(cardId, grade);
+  };
+
+  return (
+    <article className="flashcards-view">
+      <header className="exercise-view-header">
+        <h2>🃏 Flashcards</h2>
+        <p>
+          One card per principle's key takeaways and one per ❌/✅ code contrast. Grade how well you remembered -
+          cards you know come back less and less often.
+        </p>
+        <p className="progress-note">
+          {queue.due.length} due today · {queue.fresh.length} new · {deck.length} cards in the deck
+        </p>
+        <select aria-label="Category" value={category} onChange={event => setCategory(event.target.value)}>
+          <option value="">All categories</option>
+          {categories.map(title => <option key={title} value={title}>{title}</option>)}
+        </select>
+      </header>
+
+      {!card ? (
+        <div className="flashcard flashcard-done" role="status">
+          <p><strong>🎉 All caught up for today.</strong></p>
+          {queue.nextDueDay && <p>The next card is due on {queue.nextDueDay}.</p>}
+        </div>
+      ) : (
+        <section className="flashcard" aria-label="Flashcard">
+          <p className="progress-note">
+            {reviews.cards[card.id] ? '🔁 Review' : '✨ New'} · {card.category}
+          </p>
+          <h3>{card.prompt}</h3>
+          {card.promptCode && <CardCode example={card.promptCode} />}
+
+          {!isRevealed ? (
+            <button type="button" className="btn btn-primary" onClick={() => setRevealedCardId(card.id)}>
+              Show Answer
+            </button>
+          ) : (
+            <>
+              <div className="flashcard-answer">
+                {card.answerItems.length > 0 && (
+                  <ul>
+                    {card.answerItems.map(item => <li key={item}>{item}</li>)}
+                  </ul>
+                )}
+                {card.answerCode && <CardCode example={card.answerCode} />}
+                <p><a href={`#${card.principleAnchor}`}>📖 {card.principle}</a></p>
+              </div>
+              <div className="flashcard-grades" role="group" aria-label="How well did you remember?">
+                {GRADES.map(({ grade, label, className }) => (
+                  <button key={grade} type="button" className={`btn ${className}`} onClick={() => handleGrade(card.id, grade)}>
+                    {label}
+                    <span className="flashcard-interval">
+                      {formatInterval(scheduleReview(reviews.cards[card.id], grade, openedAt).interval)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </>
+          )}
+        </section>
+      )}
+    </article>
+  );
+}
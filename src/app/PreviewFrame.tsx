@@ -0,0 +1,29 @@
+// Isolated iframe running one side of an exercise against the mock API
+// Exercises touch globals like document.title and history, so they never share a window with the app
+
+import { useState } from 'react';
+import type { Difficulty } from '../types';
+
+interface PreviewFrameProps {
+  exerciseId: string;
+  difficulty: Difficulty;
+  side: 'test' | 'answer';
+}
+
+export function PreviewFrame({ exerciseId, difficulty, side }: PreviewFrameProps) {
+  const [reloadCount, setReloadCount] = useState(0);
+  const params = new URLSearchParams({ exercise: exerciseId, difficulty, side });
+
+  return (
+    <div className="preview-frame">
+      <button type="button" className="btn btn-secondary btn-small" onClick={() => setReloadCount(count => count + 1)}>
+        ↻ Reload Preview
+      </button>
+      <iframe
+        key={reloadCount}
+        src={`/preview.html?${params}`}
+        title={`${side === 'test' ? 'Problem' : 'Answer'} preview for ${exerciseId} (${difficulty})`}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+// Reference pages for principles.md: a category overview or one principle, with its examples and exercise
+
+import { Fragment, useEffect } from 'react';
+import type { Exercise, InlineNode, Principle, PrincipleBlock, PrincipleCategory } from '../types';
+import { findCategory, findPrinciple, findPrincipleExercise, principlesDocument } from '../principles/document';
+import { CodeBlock } from './CodeBlock';
+
+interface PrinciplesViewProps {
+  // A category or principle anchor, as in principles.md's table of contents
+  anchor: string;
+  onPractice: (exercise: Exercise) => void;
+}
+
+const allPrinciples = principlesDocument.categories.flatMap(category => category.principles);
+
+const formatTitle = (principle: Principle): string => {
+  return principle.number === undefined ? principle.title : `${principle.number}. ${principle.title}`;
+};
+
+function InlineContent({ nodes }: { nodes: InlineNode[] }) {
+  return (
+    <>
+      {nodes.map((node, index) => {
+        switch (node.kind) {
+          case 'strong':
+            return <strong key={index}>{node.text}</strong>;
+          case 'emphasis':
+            return <em key={index}>{node.text}</em>;
+          case 'code':
+            return <code key={index}>{node.text}</code>;
+          case 'link':
+            // Anchors stay in the app; anything else is an outside reference
+            return node.href.startsWith('#') ? (
+              <a key={index} href={node.href}>{node.text}</a>
+            ) : (
+              <a key={index} href={node.href} target="_blank" rel="noreferrer">{node.text}</a>
+            );
+          default:
+            return <Fragment key={index}>{node.text}</Fragment>;
+        }
+      })}
+    </>
+  );
+}
+
+function PrincipleBlocks({ blocks }: { blocks: PrincipleBlock[] }) {
+  return (
+    <>
+      {blocks.map((block, index) => {
+        switch (block.kind) {
+          case 'label':
+            return <p key={index} className="principle-label"><strong>{block.text}</strong></p>;
+          case 'paragraph':
+            return <p key={index}><InlineContent nodes={block.content} /></p>;
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={index}>
+                {block.items.map((item, itemIndex) => (
+                  <li key={itemIndex}><InlineContent nodes={item} /></li>
+                ))}
+              </List>
+            );
+          }
+          case 'code':
+            return <CodeBlock key={index} code={block.code} language={block.language} />;
+        }
+      })}
+    </>
+  );
+}
+
+function CategoryPage({ category }: { category: PrincipleCategory }) {
+  return (
+    <>
+      <h2 id={category.anchor}>{category.icon} {category.title}</h2>
+      <PrincipleBlocks blocks={category.intro} />
+      {category.principles.length > 0 && (
+        <ul className="principles-summary">
+          {category.principles.map(principle => (
+            <li key={principle.anchor}>
+              <a href={`#${principle.anchor}`}>{formatTitle(principle)}</a>
+              {findPrincipleExercise(principle) && <span className="principles-practice-badge">🏋️ Exercise</span>}
+              {principle.meaning && <p>{principle.meaning}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+function PrinciplePage({ principle, onPractice }: { principle: Principle; onPractice: (exercise: Exercise) => void }) {
+  const category = findCategory(principle.categoryAnchor);
+  const exercise = findPrincipleExercise(principle);
+  const position = allPrinciples.indexOf(principle);
+  const previous = allPrinciples[position - 1];
+  const next = allPrinciples[position + 1];
+
+  return (
+    <>
+      {category && (
+        <a className="principles-breadcrumb" href={`#${category.anchor}`}>{category.icon} {category.title}</a>
+      )}
+      <h2 id={principle.anchor}>{formatTitle(principle)}</h2>
+      {exercise && (
+        <button type="button" className="btn btn-small btn-primary" onClick={() => onPractice(exercise)}>
+          🏋️ Practice: {exercise.principle}
+        </button>
+      )}
+      {principle.blocks.length > 0 ? (
+        <PrincipleBlocks blocks={principle.blocks} />
+      ) : (
+        <p className="exercise-empty">principles.md lists this principle but has no write-up for it yet.</p>
+      )}
+      <nav className="principles-pager" aria-label="Previous and next principle">
+        {previous ? <a href={`#${previous.anchor}`}>← {previous.title}</a> : <span />}
+        {next && <a href={`#${next.anchor}`}>{next.title} →</a>}
+      </nav>
+    </>
+  );
+}
+
+export function PrinciplesView({ anchor, onPractice }: PrinciplesViewProps) {
+  const principle = findPrinciple(anchor);
+  const category = findCategory(anchor);
+  const currentCategory = principle?.categoryAnchor ?? category?.anchor;
+
+  // The page is rendered after the hash changes, so the browser's own jump to the anchor misses it
+  useEffect(() => {
+    document.getElementById(anchor)?.scrollIntoView?.({ block: 'start' });
+  }, [anchor]);
+
+  return (
+    <div className="principles-view">
+      <nav className="principles-nav" aria-label="Principles">
+        {principlesDocument.categories.map(entry => (
+          <div key={entry.anchor} className="exercise-group">
+            <h3>
+              <a href={`#${entry.anchor}`} aria-current={entry.anchor === anchor ? 'page' : undefined}>
+                {entry.icon} {entry.title}
+              </a>
+            </h3>
+            {entry.anchor === currentCategory && entry.principles.length > 0 && (
+              <ul>
+                {entry.principles.map(item => (
+                  <li key={item.anchor}>
+                    <a href={`#${item.anchor}`} aria-current={item.anchor === anchor ? 'page' : undefined}>
+                      {item.title}
+                    </a>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+      </nav>
+
+      <article className="principles-page">
+        {principle ? (
+          <PrinciplePage principle={principle} onPractice={onPractice} />
+        ) : category ? (
+          <CategoryPage category={category} />
+        ) : null}
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,150 @@
+// Mastery per principle and the study streak - for your own progress or an imported progress file
+
+import { useState, type ChangeEvent } from 'react';
+import type { Exercise, LearnerProgress, SectionStatus } from '../types';
+import { DIFFICULTY_LABELS } from '../exercises/registry';
+import {
+  getPrincipleMastery,
+  getQuizSummary,
+  getSectionProgress,
+  getSectionStatus,
+  getStreaks,
+  parseProgress,
+  serializeProgress,
+  toDayKey
+} from '../exercises/progress';
+
+interface ProgressDashboardProps {
+  exercises: Exercise[];
+  progress: LearnerProgress;
+}
+
+interface ImportedProgress {
+  fileName: string;
+  progress: LearnerProgress;
+}
+
+const STATUS_ICONS: Record<SectionStatus, string> = {
+  'not-started': '·',
+  attempted: '✏️',
+  'answer-viewed': '👀',
+  passed: '✅'
+};
+
+const downloadProgress = (progress: LearnerProgress) => {
+  const url = URL.createObjectURL(new Blob([serializeProgress(progress)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `progress-${toDayKey(new Date())}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export function ProgressDashboard({ exercises, progress: ownProgress }: ProgressDashboardProps) {
+  // An imported file is only shown, never saved over the learner's own progress
+  const [imported, setImported] = useState<ImportedProgress | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const progress = imported?.progress ?? ownProgress;
+  const streaks = getStreaks(progress);
+  const quiz = getQuizSummary(progress);
+
+  const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setImported({ fileName: file.name, progress: parseProgress(await file.text()) });
+      setImportError(null);
+    } catch (error) {
+      setImportError(`${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return (
+    <article className="progress-dashboard">
+      <header className="exercise-view-header">
+        <h2>📊 {imported ? `Progress in ${imported.fileName}` : 'Your Progress'}</h2>
+        <div className="progress-actions">
+          {imported ? (
+            <button type="button" className="btn btn-secondary btn-small" onClick={() => setImported(null)}>
+              Back to My Progress
+            </button>
+          ) : (
+            <button type="button" className="btn btn-secondary btn-small" onClick={() => downloadProgress(ownProgress)}>
+              Export
+            </button>
+          )}
+          <label className="btn btn-secondary btn-small">
+            Import a Progress File
+            <input type="file" accept="application/json,.json" hidden onChange={handleImport} />
+          </label>
+        </div>
+        {importError && <p className="progress-error" role="alert">{importError}</p>}
+      </header>
+
+      <dl className="progress-streaks">
+        <div>
+          <dt>🔥 Current streak</dt>
+          <dd>{streaks.current} {streaks.current === 1 ? 'day' : 'days'}</dd>
+        </div>
+        <div>
+          <dt>🏆 Longest streak</dt>
+          <dd>{streaks.longest} {streaks.longest === 1 ? 'day' : 'days'}</dd>
+        </div>
+        <div>
+          <dt>📅 Active days</dt>
+          <dd>{streaks.activeDays}</dd>
+        </div>
+        <div>
+          <dt>🧩 Quiz questions right</dt>
+          <dd>{quiz.correct} / {quiz.answered}</dd>
+        </div>
+      </dl>
+
+      <table className="progress-table">
+        <thead>
+          <tr>
+            <th scope="col">Principle</th>
+            <th scope="col">Levels</th>
+            <th scope="col">Mastery</th>
+          </tr>
+        </thead>
+        <tbody>
+          {exercises.map(exercise => {
+            const mastery = getPrincipleMastery(progress, exercise);
+
+            return (
+              <tr key={exercise.id}>
+                <th scope="row">{exercise.principle}</th>
+                <td>
+                  {exercise.difficulties.map(difficulty => {
+                    const status = getSectionStatus(progress, exercise.id, difficulty);
+                    const hintsRevealed = getSectionProgress(progress, exercise.id, difficulty)?.hintsRevealed ?? 0;
+                    const title = status.replace('-', ' ') + (hintsRevealed > 0 ? `, ${hintsRevealed} hint(s) revealed` : '');
+                    return (
+                      <span key={difficulty} className="progress-level" title={title}>
+                        {DIFFICULTY_LABELS[difficulty]} {STATUS_ICONS[status]}{hintsRevealed > 0 && ` 💡${hintsRevealed}`}
+                      </span>
+                    );
+                  })}
+                </td>
+                <td>
+                  <progress value={mastery.mastered} max={mastery.levels} aria-label={`${exercise.principle} mastery`} />
+                  {' '}{mastery.percent}%
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <p className="progress-note">
+        Mastery counts levels passed before the answer was revealed. ✏️ attempted · 👀 answer viewed · ✅ passed ·
+        💡 hints revealed.
+        The quiz counts each question by its latest answer.
+      </p>
+    </article>
+  );
+}
@@ -0,0 +1,179 @@
+// Quiz rounds over the question bank - every answer is recorded, and a wrong one links back to its principle
+
+import { useReducer, useState } from 'react';
+import type { LearnerProgress, QuizQuestion, QuizQuestionKind } from '../types';
+import { getQuizSummary } from '../exercises/progress';
+import { findPrinciple } from '../principles/document';
+import { pickQuizRound } from '../quiz/generateQuestions';
+import { CodeBlock } from './CodeBlock';
+
+interface QuizViewProps {
+  questions: QuizQuestion[];
+  progress: LearnerProgress;
+  onAnswer: (questionId: string, isCorrect: boolean) => void;
+}
+
+type QuizState =
+  | { status: 'idle' }
+  | { status: 'asking'; round: QuizQuestion[]; position: number; choice: number | null; results: boolean[] }
+  | { status: 'finished'; round: QuizQuestion[]; results: boolean[] };
+
+type QuizAction =
+  | { type: 'start'; round: QuizQuestion[] }
+  | { type: 'choose'; choice: number }
+  | { type: 'next' }
+  | { type: 'reset' };
+
+const ROUND_SIZE = 10;
+
+const KIND_LABELS: Record<QuizQuestionKind, string> = {
+  'multiple-choice': '🧠 Decision',
+  'spot-the-violation': '🔍 Spot the violation',
+  'which-principle': '🛠️ Which principle?'
+};
+
+const quizReducer = (state: QuizState, action: QuizAction): QuizState => {
+  switch (action.type) {
+    case 'start':
+      return { status: 'asking', round: action.round, position: 0, choice: null, results: [] };
+    case 'choose': {
+      if (state.status !== 'asking' || state.choice !== null) return state;
+      const isCorrect = state.round[state.position].answer === action.choice;
+      return { ...state, choice: action.choice, results: [...state.results, isCorrect] };
+    }
+    case 'next': {
+      if (state.status !== 'asking' || state.choice === null) return state;
+      if (state.position + 1 === state.round.length) {
+        return { status: 'finished', round: state.round, results: state.results };
+      }
+      return { ...state, position: state.position + 1, choice: null };
+    }
+    case 'reset':
+      return { status: 'idle' };
+  }
+};
+
+function PrincipleLink({ anchor }: { anchor: string }) {
+  const principle = findPrinciple(anchor);
+  return <a href={`#${anchor}`}>📖 {principle?.title ?? anchor}</a>;
+}
+
+export function QuizView({ questions, progress, onAnswer }: QuizViewProps) {
+  const [state, dispatch] = useReducer(quizReducer, { status: 'idle' });
+  const [kind, setKind] = useState<QuizQuestionKind | ''>('');
+  const summary = getQuizSummary(progress);
+
+  const startRound = () => {
+    const pool = kind ? questions.filter(question => question.kind === kind) : questions;
+    dispatch({ type: 'start', round: pickQuizRound(pool, id => progress.quiz?.[id]?.lastCorrect, ROUND_SIZE) });
+  };
+
+  const handleChoose = (choice: number) => {
+    if (state.status !== 'asking' || state.choice !== null) return;
+    const question = state.round[state.position];
+    dispatch({ type: 'choose', choice });
+    onAnswer(question.id, question.answer === choice);
+  };
+
+  if (state.status === 'idle') {
+    return (
+      <article className="quiz-view">
+        <header className="exercise-view-header">
+          <h2>🧩 Quiz</h2>
+          <p>
+            {ROUND_SIZE} questions per round, from the decision framework and from the exercises.
+            Questions you got wrong last time come back first.
+          </p>
+          {summary.answered > 0 && (
+            <p className="progress-note">So far: {summary.correct} of {summary.answered} questions right ({summary.percent}%)</p>
+          )}
+        </header>
+        <div className="quiz-start">
+          <select aria-label="Question type" value={kind} onChange={event => setKind(event.target.value as QuizQuestionKind | '')}>
+            <option value="">All question types</option>
+            {Object.entries(KIND_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+          </select>
+          <button type="button" className="btn btn-primary" onClick={startRound}>Start a Round</button>
+        </div>
+      </article>
+    );
+  }
+
+  if (state.status === 'finished') {
+    const correct = state.results.filter(Boolean).length;
+    const missed = state.round.filter((_, index) => !state.results[index]);
+
+    return (
+      <article className="quiz-view">
+        <header className="exercise-view-header">
+          <h2>🧩 {correct} of {state.round.length} right</h2>
+        </header>
+        {missed.length > 0 && (
+          <>
+            <p>Worth another read:</p>
+            <ul className="quiz-missed">
+              {missed.map(question => (
+                <li key={question.id}>
+                  {question.prompt} <PrincipleLink anchor={question.principleAnchor} />
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+        <div className="quiz-start">
+          <button type="button" className="btn btn-primary" onClick={startRound}>Another Round</button>
+          <button type="button" className="btn btn-secondary" onClick={() => dispatch({ type: 'reset' })}>Change Question Type</button>
+        </div>
+      </article>
+    );
+  }
+
+  const question = state.round[state.position];
+  const isAnswered = state.choice !== null;
+  const isCorrect = state.choice === question.answer;
+
+  return (
+    <article className="quiz-view">
+      <header className="exercise-view-header">
+        <p className="progress-note">
+          Question {state.position + 1} of {state.round.length} · {KIND_LABELS[question.kind]}
+        </p>
+        <h2>{question.prompt}</h2>
+      </header>
+
+      {question.code && <CodeBlock code={question.code} />}
+
+      <ol className="quiz-choices">
+        {question.choices.map((choice, index) => {
+          const outcome = !isAnswered ? '' : index === question.answer ? 'correct' : index === state.choice ? 'wrong' : '';
+          return (
+            <li key={choice}>
+              <button
+                type="button"
+                className={`quiz-choice ${outcome}`}
+                aria-pressed={state.choice === index}
+                disabled={isAnswered}
+                onClick={() => handleChoose(index)}
+              >
+                {choice}
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+
+      {isAnswered && (
+        <div className={`quiz-feedback ${isCorrect ? 'correct' : 'wrong'}`} role="status">
+          <p>
+            <strong>{isCorrect ? '✅ Correct' : `❌ Not quite - the answer is "${question.choices[question.answer]}"`}</strong>
+          </p>
+          {question.explanation && <p>{question.explanation}</p>}
+          {!isCorrect && <p>Read up on it: <PrincipleLink anchor={question.principleAnchor} /></p>}
+          <button type="button" className="btn btn-primary btn-small" onClick={() => dispatch({ type: 'next' })}>
+            {state.position + 1 === state.round.length ? 'See Results' : 'Next Question'}
+          </button>
+        </div>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,160 @@
+// Search palette over principles, problems, components and answers - Ctrl+K (⌘K on macOS) opens it anywhere
+
+import { useEffect, useMemo, useState, type KeyboardEvent } from 'react';
+import siteIndex from 'virtual:search-index';
+import type { Difficulty, SearchResult, SearchSource, SearchTarget } from '../types';
+import { DIFFICULTY_ORDER } from '../exercises/parseExercise';
+import { DIFFICULTY_LABELS } from '../exercises/registry';
+import { searchIndex } from '../search/searchIndex';
+
+interface SearchPaletteProps {
+  onOpenResult: (target: SearchTarget) => void;
+}
+
+const SOURCE_LABELS: Record<SearchSource, string> = {
+  principle: '📖 Principle',
+  problem: '🐛 Problem',
+  component: '🧩 Component',
+  answer: '✅ Answer'
+};
+
+function SearchResultItem({ result }: { result: SearchResult }) {
+  const { document } = result;
+  return (
+    <>
+      <span className="search-result-title">
+        <span className="search-result-source">{SOURCE_LABELS[document.source]}</span>
+        {document.title}
+        {document.difficulty && <span className="search-result-source">{DIFFICULTY_LABELS[document.difficulty]}</span>}
+      </span>
+      <span className="search-result-snippet">
+        {result.snippet.map((part, index) => (part.highlight ? <mark key={index}>{part.text}</mark> : part.text))}
+      </span>
+    </>
+  );
+}
+
+export function SearchPalette({ onOpenResult }: SearchPaletteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [category, setCategory] = useState('');
+  const [difficulty, setDifficulty] = useState<Difficulty | ''>('');
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(
+    () => searchIndex(siteIndex, query, { category: category || undefined, difficulty: difficulty || undefined }),
+    [query, category, difficulty]
+  );
+
+  useEffect(() => {
+    const handleShortcut = (event: globalThis.KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setIsOpen(true);
+      }
+    };
+    window.addEventListener('keydown', handleShortcut);
+    return () => window.removeEventListener('keydown', handleShortcut);
+  }, []);
+
+  const close = () => {
+    setIsOpen(false);
+    setActiveIndex(0);
+  };
+
+  const open = (result: SearchResult | undefined) => {
+    if (!result) return;
+    close();
+    onOpenResult(result.document.target);
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Escape') {
+      close();
+    } else if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      setActiveIndex(current => Math.min(Math.max(current + step, 0), Math.max(results.length - 1, 0)));
+    } else if (event.key === 'Enter' && event.target instanceof HTMLInputElement) {
+      open(results[activeIndex]);
+    }
+  };
+
+  return (
+    <>
+      <button type="button" className="exercise-link progress-link search-trigger" onClick={() => setIsOpen(true)}>
+        <span>🔍 Search</span>
+        <kbd>Ctrl K</kbd>
+      </button>
+
+      {isOpen && (
+        <div className="search-backdrop" onMouseDown={close}>
+          <div
+            className="search-palette"
+            role="dialog"
+            aria-modal="true"
+            aria-label="Search the study guide"
+            onMouseDown={event => event.stopPropagation()}
+            onKeyDown={handleKeyDown}
+          >
+            <input
+              type="search"
+              className="search-input"
+              aria-label="Search"
+              placeholder="Search principles, problems, components and answers…"
+              value={query}
+              autoFocus
+              onChange={event => {
+                setQuery(event.target.value);
+                setActiveIndex(0);
+              }}
+            />
+            <div className="search-filters">
+              <select
+                aria-label="Category"
+                value={category}
+                onChange={event => {
+                  setCategory(event.target.value);
+                  setActiveIndex(0);
+                }}
+              >
+                <option value="">All categories</option>
+                {siteIndex.categories.map(title => <option key={title} value={title}>{title}</option>)}
+              </select>
+              <select
+                aria-label="Difficulty"
+                value={difficulty}
+                onChange={event => {
+                  setDifficulty(event.target.value as Difficulty | '');
+                  setActiveIndex(0);
+                }}
+              >
+                <option value="">Any difficulty</option>
+                {DIFFICULTY_ORDER.map(level => <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>)}
+              </select>
+            </div>
+
+            {query.trim() && results.length === 0 ? (
+              <p className="search-empty">No matches for “{query.trim()}”</p>
+            ) : (
+              <ul className="search-results" role="listbox" aria-label="Results">
+                {results.map((result, index) => (
+                  <li
+                    key={`${result.document.source}-${result.document.title}-${index}`}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    className={index === activeIndex ? 'active' : undefined}
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => open(result)}
+                  >
+                    <SearchResultItem result={result} />
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
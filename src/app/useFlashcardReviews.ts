@@ -0,0 +1,34 @@
+// Flashcard review state in this browser, kept in localStorage apart from exercise progress
+
+import { useCallback, useEffect, useState } from 'react';
+import type { FlashcardReviews, ReviewGrade } from '../types';
+import { createReviews, parseReviews, recordReview, serializeReviews } from '../flashcards/scheduler';
+
+const STORAGE_KEY = 'design-principles-study:flashcards';
+
+// A corrupt or outdated entry starts a fresh deck instead of breaking the app
+const loadReviews = (): FlashcardReviews => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return createReviews();
+
+  try {
+    return parseReviews(stored);
+  } catch {
+    return createReviews();
+  }
+};
+
+export const useFlashcardReviews = () => {
+  const [reviews, setReviews] = useState(loadReviews);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, serializeReviews(reviews));
+  }, [reviews]);
+
+  const review = useCallback((cardId: string, grade: ReviewGrade) => {
+    const now = new Date();
+    setReviews(previous => recordReview(previous, cardId, grade, now));
+  }, []);
+
+  return { reviews, review };
+};
@@ -0,0 +1,29 @@
+// The URL hash as an anchor the app knows, so links from principles.md (#6-keys-in-lists) open the right page
+// Back and forward walk the hash history like they do on GitHub
+
+import { useCallback, useEffect, useState } from 'react';
+
+const readAnchor = (isKnown: (anchor: string) => boolean): string | undefined => {
+  const anchor = decodeURIComponent(window.location.hash.slice(1));
+  return isKnown(anchor) ? anchor : undefined;
+};
+
+export const useHashAnchor = (isKnown: (anchor: string) => boolean) => {
+  const [anchor, setAnchor] = useState(() => readAnchor(isKnown));
+
+  useEffect(() => {
+    const handleHashChange = () => setAnchor(readAnchor(isKnown));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, [isKnown]);
+
+  // Dropping the hash on leave lets the same link open the page again
+  const clear = useCallback(() => {
+    if (window.location.hash) {
+      window.history.pushState(null, '', window.location.pathname + window.location.search);
+    }
+    setAnchor(undefined);
+  }, []);
+
+  return { anchor, clear };
+};
@@ -0,0 +1,51 @@
+// The learner's progress in this browser, kept in localStorage between visits
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Difficulty, LearnerProgress, ProgressEvent } from '../types';
+import {
+  createProgress,
+  parseProgress,
+  recordHintsRevealed,
+  recordProgress,
+  recordQuizAnswer,
+  serializeProgress
+} from '../exercises/progress';
+
+const STORAGE_KEY = 'design-principles-study:progress';
+
+// A corrupt or outdated entry starts a fresh record instead of breaking the app
+const loadProgress = (): LearnerProgress => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (!stored) return createProgress();
+
+  try {
+    return parseProgress(stored);
+  } catch {
+    return createProgress();
+  }
+};
+
+export const useLearnerProgress = () => {
+  const [progress, setProgress] = useState(loadProgress);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, serializeProgress(progress));
+  }, [progress]);
+
+  const record = useCallback((exerciseId: string, difficulty: Difficulty, event: ProgressEvent) => {
+    const now = new Date();
+    setProgress(previous => recordProgress(previous, exerciseId, difficulty, event, now));
+  }, []);
+
+  const recordQuiz = useCallback((questionId: string, isCorrect: boolean) => {
+    const now = new Date();
+    setProgress(previous => recordQuizAnswer(previous, questionId, isCorrect, now));
+  }, []);
+
+  const recordHints = useCallback((exerciseId: string, difficulty: Difficulty, count: number) => {
+    const now = new Date();
+    setProgress(previous => recordHintsRevealed(previous, exerciseId, difficulty, count, now));
+  }, []);
+
+  return { progress, record, recordQuiz, recordHints };
+};
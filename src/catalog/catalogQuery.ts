@@ -0,0 +1,127 @@
+// Catalog query: filters, price bounds and sort order as one value, updated by a reducer
+// Running a query applies every filter, then sorts - prices are always what the product costs after its discount
+
+import type { CatalogFacets, CatalogQuery, FacetOption, Product, SortOption } from '../types';
+import { getEffectivePrice, isOnSale } from './pricing';
+
+export type CatalogAction =
+  | { type: 'set-categories'; categories: string[] }
+  | { type: 'set-brands'; brands: string[] }
+  | { type: 'set-min-price'; minPrice: number }
+  | { type: 'set-max-price'; maxPrice?: number }
+  | { type: 'set-min-rating'; minRating: number }
+  | { type: 'set-in-stock-only'; inStockOnly: boolean }
+  | { type: 'set-on-sale-only'; onSaleOnly: boolean }
+  | { type: 'set-sort'; sortBy?: SortOption }
+  | { type: 'clear-filters' }
+  | { type: 'replace'; query: CatalogQuery };
+
+export const DEFAULT_CATALOG_QUERY: CatalogQuery = {
+  categories: [],
+  brands: [],
+  minPrice: 0,
+  minRating: 0,
+  inStockOnly: false,
+  onSaleOnly: false
+};
+
+type FacetField = 'categories' | 'brands';
+
+export const SORT_OPTIONS: Array<{ value: SortOption; label: string }> = [
+  { value: 'name', label: 'Sort by Name' },
+  { value: 'price-low', label: 'Price: Low to High' },
+  { value: 'price-high', label: 'Price: High to Low' },
+  { value: 'rating', label: 'Sort by Rating' }
+];
+
+// Minimum star ratings to filter by, best first; 0 (any rating) comes on top of these
+export const RATING_OPTIONS = [4, 3, 2, 1];
+
+export const isSortOption = (value: string): value is SortOption => {
+  return SORT_OPTIONS.some(option => option.value === value);
+};
+
+export const catalogReducer = (query: CatalogQuery, action: CatalogAction): CatalogQuery => {
+  switch (action.type) {
+    case 'set-categories':
+      return { ...query, categories: action.categories };
+    case 'set-brands':
+      return { ...query, brands: action.brands };
+    case 'set-min-price':
+      return { ...query, minPrice: action.minPrice };
+    case 'set-max-price':
+      return { ...query, maxPrice: action.maxPrice };
+    case 'set-min-rating':
+      return { ...query, minRating: action.minRating };
+    case 'set-in-stock-only':
+      return { ...query, inStockOnly: action.inStockOnly };
+    case 'set-on-sale-only':
+      return { ...query, onSaleOnly: action.onSaleOnly };
+    case 'set-sort':
+      return { ...query, sortBy: action.sortBy };
+    // Everything but the price range, which has its own reset
+    case 'clear-filters':
+      return { ...query, categories: [], brands: [], minRating: 0, inStockOnly: false, onSaleOnly: false };
+    case 'replace':
+      return action.query;
+  }
+};
+
+export const sortProducts = (products: Product[], sortBy: SortOption): Product[] => {
+  const sorted = [...products];
+
+  switch (sortBy) {
+    case 'price-low':
+      return sorted.sort((a, b) => getEffectivePrice(a) - getEffectivePrice(b));
+    case 'price-high':
+      return sorted.sort((a, b) => getEffectivePrice(b) - getEffectivePrice(a));
+    case 'rating':
+      return sorted.sort((a, b) => b.rating - a.rating);
+    case 'name':
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+  }
+};
+
+// Unknown stock (`inStock` left out) is treated as available rather than hidden
+export const isInStock = (product: Product): boolean => product.inStock !== false;
+
+// `except` leaves one facet's own filter out, which is what that facet's counts are measured against
+const matchesQuery = (product: Product, query: CatalogQuery, except?: FacetField): boolean => {
+  const price = getEffectivePrice(product);
+  return (except === 'categories' || query.categories.length === 0 || query.categories.includes(product.category))
+    && (except === 'brands' || query.brands.length === 0 || query.brands.includes(product.brand))
+    && price >= query.minPrice
+    && (query.maxPrice === undefined || price <= query.maxPrice)
+    && product.rating >= query.minRating
+    && (!query.inStockOnly || isInStock(product))
+    && (!query.onSaleOnly || isOnSale(product));
+};
+
+export const runCatalogQuery = (products: Product[], query: CatalogQuery): Product[] => {
+  const matches = products.filter(product => matchesQuery(product, query));
+  return query.sortBy ? sortProducts(matches, query.sortBy) : matches;
+};
+
+// Ticking "Kitchen" should not make every other category count zero, so each facet ignores its own selection
+const countFacet = (products: Product[], query: CatalogQuery, field: FacetField, valueOf: (product: Product) => string): FacetOption[] => {
+  const matching = products.filter(product => matchesQuery(product, query, field));
+  return [...new Set(products.map(valueOf))].map(value => ({
+    value,
+    count: matching.filter(product => valueOf(product) === value).length
+  }));
+};
+
+export const getCatalogFacets = (products: Product[], query: CatalogQuery = DEFAULT_CATALOG_QUERY): CatalogFacets => {
+  const prices = products.map(getEffectivePrice);
+
+  return {
+    categories: countFacet(products, query, 'categories', product => product.category),
+    brands: countFacet(products, query, 'brands', product => product.brand),
+    priceRange: prices.length > 0 ? { min: Math.min(...prices), max: Math.max(...prices) } : { min: 0, max: 1000 }
+  };
+};
+
+export const getAveragePrice = (products: Product[]): number => {
+  if (products.length === 0) return 0;
+  return products.reduce((sum, product) => sum + getEffectivePrice(product), 0) / products.length;
+};
@@ -0,0 +1,40 @@
+// Effective prices - the one place that decides what `Product.discount` means
+// A discount is a percentage off the list price, from 0 (none) to 100 (free); anything else is a data error,
+// rejected where products enter the app by validateDiscount and clamped here so one bad product can't break a render
+
+import type { Product, ProductPricing } from '../types';
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const validateDiscount = (product: Product): void => {
+  const { discount } = product;
+  if (discount === undefined) return;
+
+  if (!Number.isFinite(discount) || discount < 0 || discount > 100) {
+    throw new Error(`Product "${product.id}" has a discount of ${discount} - discounts are a percentage from 0 to 100`);
+  }
+};
+
+// A discount that is not a number counts as none; one out of range is held to 0-100
+const clampDiscount = (discount: number | undefined): number => {
+  return discount !== undefined && Number.isFinite(discount) ? Math.min(100, Math.max(0, discount)) : 0;
+};
+
+export const getProductPricing = (product: Product): ProductPricing => {
+  const discount = clampDiscount(product.discount);
+  const effectivePrice = roundToCents((product.price * (100 - discount)) / 100);
+
+  return {
+    listPrice: product.price,
+    effectivePrice,
+    savings: roundToCents(product.price - effectivePrice),
+    savingsPercent: discount,
+    onSale: discount > 0
+  };
+};
+
+export const getEffectivePrice = (product: Product): number => getProductPricing(product).effectivePrice;
+
+export const isOnSale = (product: Product): boolean => getProductPricing(product).onSale;
+
+export const formatPrice = (amount: number, currency = '$'): string => `${currency}${amount.toFixed(2)}`;
@@ -0,0 +1,126 @@
+// Catalog query <-> URL query string, so a filtered and sorted view can be shared, bookmarked and restored
+// Parsing never throws: values that make no sense fall back to the base query or are clamped into range
+
+import type { CatalogFacets, CatalogQuery, FacetOption } from '../types';
+import { DEFAULT_CATALOG_QUERY, RATING_OPTIONS, isSortOption } from './catalogQuery';
+
+// Field in the query -> its parameter in the URL; selected categories and brands repeat it (?brand=a&brand=b)
+export const CATALOG_PARAMS: Record<keyof CatalogQuery, string> = {
+  categories: 'category',
+  brands: 'brand',
+  minPrice: 'min',
+  maxPrice: 'max',
+  minRating: 'rating',
+  inStockOnly: 'in-stock',
+  onSaleOnly: 'on-sale',
+  sortBy: 'sort'
+};
+
+interface ParseOptions {
+  // What a missing or invalid parameter falls back to
+  base?: CatalogQuery;
+  // When given, categories and brands that are not on offer are dropped
+  facets?: CatalogFacets;
+}
+
+const parsePrice = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const price = Number(value);
+  return Number.isFinite(price) ? Math.max(0, price) : undefined;
+};
+
+// Whole stars from 0 up to the highest RATING_OPTIONS step, so a restored rating always has its radio in the sidebar
+const parseRating = (value: string | null): number | undefined => {
+  if (value === null || value.trim() === '') return undefined;
+  const rating = Number(value);
+  return Number.isFinite(rating) ? Math.min(Math.max(...RATING_OPTIONS), Math.max(0, Math.round(rating))) : undefined;
+};
+
+// Flags are written as `1`; `true` is accepted as well, anything else leaves the base value
+const parseFlag = (value: string | null, fallback: boolean): boolean => {
+  if (value === '1' || value === 'true') return true;
+  if (value === '0' || value === 'false') return false;
+  return fallback;
+};
+
+// A parameter that is present but empty (?category=) is a cleared list - an empty value never names an option
+const parseOptions = (values: string[], fallback: string[]): string[] => {
+  return values.length === 0 ? fallback : [...new Set(values.filter(value => value !== ''))];
+};
+
+// A field the base query sets is written empty (?max=, ?category=) once cleared, as leaving it out means the base value
+const isCleared = (params: URLSearchParams, field: keyof CatalogQuery) => params.get(CATALOG_PARAMS[field]) === '';
+
+const offeredOnly = (values: string[], options: FacetOption[]) => {
+  return values.filter(value => options.some(option => option.value === value));
+};
+
+// Drops the selected categories and brands that no product offers; returns the same query when nothing is dropped
+export const keepOfferedOptions = (query: CatalogQuery, facets: CatalogFacets): CatalogQuery => {
+  const categories = offeredOnly(query.categories, facets.categories);
+  const brands = offeredOnly(query.brands, facets.brands);
+  const isUnchanged = categories.length === query.categories.length && brands.length === query.brands.length;
+  return isUnchanged ? query : { ...query, categories, brands };
+};
+
+export const parseCatalogQuery = (search: string, { base = DEFAULT_CATALOG_QUERY, facets }: ParseOptions = {}): CatalogQuery => {
+  const params = new URLSearchParams(search);
+  const sort = params.get(CATALOG_PARAMS.sortBy);
+  const minPrice = parsePrice(params.get(CATALOG_PARAMS.minPrice)) ?? base.minPrice;
+  const maxPrice = isCleared(params, 'maxPrice') ? undefined : parsePrice(params.get(CATALOG_PARAMS.maxPrice)) ?? base.maxPrice;
+
+  const query: CatalogQuery = {
+    categories: parseOptions(params.getAll(CATALOG_PARAMS.categories), base.categories),
+    brands: parseOptions(params.getAll(CATALOG_PARAMS.brands), base.brands),
+    minPrice,
+    // A maximum below the minimum would match nothing - treat it as the minimum instead
+    maxPrice: maxPrice === undefined ? undefined : Math.max(minPrice, maxPrice),
+    minRating: parseRating(params.get(CATALOG_PARAMS.minRating)) ?? base.minRating,
+    inStockOnly: parseFlag(params.get(CATALOG_PARAMS.inStockOnly), base.inStockOnly),
+    onSaleOnly: parseFlag(params.get(CATALOG_PARAMS.onSaleOnly), base.onSaleOnly),
+    sortBy: isCleared(params, 'sortBy') ? undefined : sort !== null && isSortOption(sort) ? sort : base.sortBy
+  };
+  return facets ? keepOfferedOptions(query, facets) : query;
+};
+
+// Compares lists by their items, so a query that selects the same brands again counts as unchanged
+const isSameValue = (left: CatalogQuery[keyof CatalogQuery], right: CatalogQuery[keyof CatalogQuery]) => {
+  return Array.isArray(left) && Array.isArray(right) ? left.join('\n') === right.join('\n') : left === right;
+};
+
+const writeParam = (params: URLSearchParams, field: keyof CatalogQuery, query: CatalogQuery, base: CatalogQuery) => {
+  const value = query[field];
+  params.delete(CATALOG_PARAMS[field]);
+  if (isSameValue(value, base[field])) return;
+  if (value === undefined || (Array.isArray(value) && value.length === 0)) {
+    params.append(CATALOG_PARAMS[field], '');
+    return;
+  }
+
+  const items = Array.isArray(value) ? value : [typeof value === 'boolean' ? String(Number(value)) : String(value)];
+  items.forEach(item => params.append(CATALOG_PARAMS[field], item));
+};
+
+const FIELDS = Object.keys(CATALOG_PARAMS) as Array<keyof CatalogQuery>;
+
+// Only what differs from the base query is written, so the default view has a clean URL
+export const formatCatalogQuery = (query: CatalogQuery, base: CatalogQuery = DEFAULT_CATALOG_QUERY): string => {
+  const params = new URLSearchParams();
+  FIELDS.forEach(field => writeParam(params, field, query, base));
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+// Rewrites only the fields that changed between two queries and leaves every other parameter alone -
+// several catalog views can share one URL without undoing each other's parameters
+export const mergeCatalogQuery = (
+  search: string,
+  previous: CatalogQuery,
+  next: CatalogQuery,
+  base: CatalogQuery = DEFAULT_CATALOG_QUERY
+): string => {
+  const params = new URLSearchParams(search);
+  FIELDS.filter(field => !isSameValue(previous[field], next[field])).forEach(field => writeParam(params, field, next, base));
+  const merged = params.toString();
+  return merged ? `?${merged}` : '';
+};
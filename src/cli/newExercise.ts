@@ -0,0 +1,78 @@
+// Exercise generator - scaffold a tests/answers pair and its spec suite for a principle in principles.md
+// Usage: npm run new-exercise -- <principle> [--id <exercise-id>]
+
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { buildExerciseRegistry } from '../exercises/parseExercise';
+import { getExercise } from '../exercises/registry';
+import { addToReadmeTree, buildExerciseScaffold, findPrinciple } from '../exercises/scaffold';
+import { ROOT_DIR } from './workspace';
+
+const USAGE = `Usage: npm run new-exercise -- <principle> [--id <exercise-id>]
+
+<principle> is a "### " heading in principles.md, e.g. "Use Reducers for Complex State".
+The exercise id defaults to the title in lowercase with dashes; pass --id for a shorter one, e.g. --id use-reducers.
+
+Creates tests/<id>-test.tsx, answers/<id>-answer.tsx and specs/<id>.spec.tsx with EASY, MEDIUM and HARD
+sections (plus BONUS in the answer) and lists the pair in the README.`;
+
+const parseArguments = (argv: string[]) => {
+  const idIndex = argv.indexOf('--id');
+  const id = idIndex === -1 ? undefined : argv[idIndex + 1];
+  if (idIndex !== -1 && !id) throw new Error('--id needs a value, e.g. --id use-reducers');
+
+  const words = argv.filter((_, index) => index !== idIndex && index !== idIndex + 1);
+  return { principle: words.join(' ').trim(), id };
+};
+
+const main = (argv: string[]) => {
+  const { principle: query, id } = parseArguments(argv);
+  if (!query || query === 'help') {
+    console.log(USAGE);
+    return;
+  }
+
+  const principle = findPrinciple(readFileSync(join(ROOT_DIR, 'principles.md'), 'utf8'), query);
+  if (!principle) {
+    throw new Error(`principles.md has no "### " heading called "${query}" - copy the title from there`);
+  }
+
+  const scaffold = buildExerciseScaffold(principle, id);
+  if (getExercise(scaffold.id)) {
+    throw new Error(`There is already an exercise called "${scaffold.id}" - pass --id to choose another`);
+  }
+
+  const files = [scaffold.test, scaffold.answer, scaffold.spec];
+  const existing = files.filter(file => existsSync(join(ROOT_DIR, file.path)));
+  if (existing.length > 0) {
+    throw new Error(`${existing.map(file => file.path).join(', ')} already exist(s) - nothing was written`);
+  }
+
+  // The same parser the app and the study CLI use, so a scaffold that breaks the conventions never reaches disk
+  const [exercise] = buildExerciseRegistry({
+    [scaffold.test.path]: scaffold.test.source,
+    [scaffold.answer.path]: scaffold.answer.source
+  });
+
+  files.forEach(file => writeFileSync(join(ROOT_DIR, file.path), file.source));
+
+  const readmePath = join(ROOT_DIR, 'README.md');
+  const readme = readFileSync(readmePath, 'utf8');
+  const registered = addToReadmeTree(readme, scaffold.id);
+  if (registered !== readme) writeFileSync(readmePath, registered);
+
+  console.log(`Created "${exercise.principle}" (${principle.category}) as ${scaffold.id}:`);
+  files.forEach(file => console.log(`  ${file.path}`));
+  console.log(`
+Next:
+  1. Replace every TODO - the problem code in ${scaffold.test.path}, the fixes in ${scaffold.answer.path}
+  2. Turn the it.todo() specs into checks that fail on the problem code: npm run check -- ${scaffold.id}
+  3. Make them pass on the answers: npm test -- ${scaffold.id}`);
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(`✖ ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,315 @@
+// Study CLI - work through the exercises from the terminal
+// Usage: npm run study -- <list | start | check | hint | diff | reset | progress | export> [arguments]
+
+import { spawnSync } from 'node:child_process';
+import { existsSync, readFileSync, rmSync } from 'node:fs';
+import { join, relative, resolve } from 'node:path';
+import type { Difficulty, Exercise, LearnerProgress, SectionStatus } from '../types';
+import { DIFFICULTY_LABELS, exercises, getSection, getSectionSource } from '../exercises/registry';
+import { HINT_LABELS, getSectionHints } from '../exercises/hints';
+import {
+  getPrincipleMastery,
+  getSectionProgress,
+  getSectionStatus,
+  getStreaks,
+  recordHintsRevealed,
+  recordProgress
+} from '../exercises/progress';
+import { DIFF_LABELS, describeComponentDiff } from '../diff/describeDiff';
+import { diffSolution } from '../diff/structuralDiff';
+import {
+  PROGRESS_PATH,
+  ROOT_DIR,
+  type StudyState,
+  WORKSPACE_DIR,
+  getWorkspacePath,
+  readProgressFile,
+  readStudyState,
+  writeProgressFile,
+  writeScratchFile,
+  writeStudyState
+} from './workspace';
+
+const USAGE = `Usage: npm run study -- <command>
+
+Commands:
+  list                          Show every principle and level with your progress
+  start <principle> <level>     Copy a problem into workspace/ and make it the current exercise
+  check [principle] [level]     Run the behavioral specs against your workspace copy
+  hint [principle] [level]      Reveal the next hint: a nudge, then the concept, then the shape of the code
+  diff [principle] [level]      Compare your components with the answer's, ignoring formatting
+  reset [principle] [level]     Restore the original problem code in your workspace copy
+  progress [file]               Show mastery per principle and your streak - or those in a mentee's file
+  export <file>                 Save your progress to a file you can share
+
+<principle> is an exercise id such as "immutability"; <level> is easy, medium or hard.
+check, hint, diff and reset default to the exercise you started last.`;
+
+const STATUS_LABELS: Record<SectionStatus, string> = {
+  'not-started': '·  not started',
+  attempted: '✏️  attempted',
+  'answer-viewed': '👀 answer viewed',
+  passed: '✅ passed'
+};
+
+// Commands return only the parts they changed; main writes those back to disk
+interface StudyContext {
+  state: StudyState;
+  progress: LearnerProgress;
+}
+
+type Command = (context: StudyContext, args: string[]) => Partial<StudyContext> | void;
+
+interface Target {
+  exercise: Exercise;
+  difficulty: Difficulty;
+}
+
+const findExercise = (name: string): Exercise => {
+  const query = name.toLowerCase();
+  const exercise = exercises.find(candidate =>
+    candidate.id === query || candidate.principle.toLowerCase() === query
+  );
+
+  if (!exercise) {
+    throw new Error(`Unknown principle "${name}" - run "npm run study -- list" to see them all`);
+  }
+  return exercise;
+};
+
+const parseDifficulty = (exercise: Exercise, level: string | undefined): Difficulty => {
+  const difficulty = exercise.difficulties.find(candidate => candidate === level?.toLowerCase());
+  if (!difficulty) {
+    throw new Error(`Choose a level for ${exercise.principle}: ${exercise.difficulties.join(', ')}`);
+  }
+  return difficulty;
+};
+
+// Explicit arguments win; otherwise the command applies to the exercise started last
+const resolveTarget = (state: StudyState, args: string[]): Target => {
+  const [principle, level] = args;
+  if (principle) {
+    const exercise = findExercise(principle);
+    return { exercise, difficulty: parseDifficulty(exercise, level) };
+  }
+
+  if (!state.current) {
+    throw new Error('No exercise started yet - run "npm run study -- start <principle> <level>" first');
+  }
+  return { exercise: findExercise(state.current.exerciseId), difficulty: state.current.difficulty };
+};
+
+const ensureStarted = ({ exercise, difficulty }: Target) => {
+  if (!existsSync(getWorkspacePath(exercise.id, difficulty))) {
+    throw new Error(`${exercise.id} ${difficulty} has not been started - run "npm run study -- start ${exercise.id} ${difficulty}"`);
+  }
+};
+
+const describeTarget = ({ exercise, difficulty }: Target) => `${exercise.principle} - ${DIFFICULTY_LABELS[difficulty]}`;
+
+const list: Command = ({ progress }) => {
+  exercises.forEach(exercise => {
+    console.log(`\n${exercise.principle} (${exercise.id})`);
+    exercise.difficulties.forEach(difficulty => {
+      const status = getSectionStatus(progress, exercise.id, difficulty);
+      const hintsRevealed = getSectionProgress(progress, exercise.id, difficulty)?.hintsRevealed;
+      console.log(`  ${DIFFICULTY_LABELS[difficulty].padEnd(10)} ${STATUS_LABELS[status]}${hintsRevealed ? ` · 💡 ${hintsRevealed} hint(s)` : ''}`);
+    });
+  });
+};
+
+const start: Command = ({ state, progress }, args) => {
+  const target = resolveTarget(state, args);
+  const { exercise, difficulty } = target;
+  const path = getWorkspacePath(exercise.id, difficulty);
+
+  // Never overwrite work in progress - that is what `reset` is for
+  if (existsSync(path)) {
+    console.log(`${describeTarget(target)} is already in ${relative(ROOT_DIR, path)} - use "reset" to start over`);
+  } else {
+    writeScratchFile(exercise, difficulty);
+    console.log(`Copied ${describeTarget(target)} to ${relative(ROOT_DIR, path)}`);
+  }
+
+  const section = getSection(exercise, difficulty, 'test');
+  if (section?.problem) console.log(`Problem: ${section.problem}`);
+  if (section?.components.length) console.log(`Fix: ${section.components.join(', ')}`);
+  console.log('Run "npm run study -- check" when you are ready.');
+
+  return {
+    state: { ...state, current: { exerciseId: exercise.id, difficulty } },
+    progress: recordProgress(progress, exercise.id, difficulty, 'attempted')
+  };
+};
+
+// vitest's JSON report, next to the scratch copies; only each spec's status is read
+const CHECK_REPORT_PATH = join(WORKSPACE_DIR, 'check-report.json');
+
+interface CheckReport {
+  testResults: Array<{ assertionResults: Array<{ status: string }> }>;
+}
+
+// A run where every spec was skipped also exits 0, so a pass needs at least one spec that ran and passed -
+// counted per spec, as the report's numPassedTests includes skipped ones
+const countPassedSpecs = (): number => {
+  if (!existsSync(CHECK_REPORT_PATH)) return 0;
+  const report = JSON.parse(readFileSync(CHECK_REPORT_PATH, 'utf8')) as CheckReport;
+  return report.testResults
+    .flatMap(file => file.assertionResults)
+    .filter(spec => spec.status === 'passed').length;
+};
+
+const check: Command = ({ state, progress }, args) => {
+  const target = resolveTarget(state, args);
+  const { exercise, difficulty } = target;
+  ensureStarted(target);
+
+  console.log(`Checking ${describeTarget(target)}...`);
+  rmSync(CHECK_REPORT_PATH, { force: true });
+  const result = spawnSync(
+    process.platform === 'win32' ? 'npx.cmd' : 'npx',
+    [
+      'vitest', 'run', '--mode', 'workspace', `specs/${exercise.id}.spec.tsx`, '--testNamePattern', `${difficulty}: `,
+      '--reporter', 'default', '--reporter', 'json', '--outputFile.json', CHECK_REPORT_PATH
+    ],
+    { cwd: ROOT_DIR, stdio: 'inherit' }
+  );
+
+  if (result.error) throw result.error;
+
+  if (result.status === 0 && countPassedSpecs() === 0) {
+    console.log(`\n⚠️  ${describeTarget(target)} has no specs yet, so it cannot be checked - nothing was recorded`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const passed = result.status === 0;
+  console.log(passed ? '\n✅ All specs pass - well done!' : '\n❌ Some specs fail - try "npm run study -- hint" if you are stuck');
+  process.exitCode = passed ? 0 : 1;
+
+  return { progress: recordProgress(progress, exercise.id, difficulty, passed ? 'passed' : 'attempted') };
+};
+
+// Hints revealed are part of your progress, so a mentor reading your file sees where you needed help
+const hint: Command = ({ state, progress }, args) => {
+  const target = resolveTarget(state, args);
+  const { exercise, difficulty } = target;
+  const hints = getSectionHints(exercise, difficulty);
+  const revealed = Math.min((getSectionProgress(progress, exercise.id, difficulty)?.hintsRevealed ?? 0) + 1, hints.length);
+
+  console.log(`Hints for ${describeTarget(target)}:`);
+  hints.slice(0, revealed).forEach(({ level, text, code }, index) => {
+    console.log(`  ${index + 1}. ${HINT_LABELS[level]}: ${text}`);
+    code?.split('\n').forEach(line => console.log(`       ${line}`));
+  });
+  console.log(revealed < hints.length
+    ? `(${hints.length - revealed} more - run "hint" again)`
+    : '(That was the last hint - the answer file has the full solution)');
+
+  return { progress: recordHintsRevealed(progress, exercise.id, difficulty, revealed) };
+};
+
+// Line numbers point into your workspace copy; the answer's are left out so it stays a nudge, not a spoiler
+const diff: Command = ({ state }, args) => {
+  const target = resolveTarget(state, args);
+  const { exercise, difficulty } = target;
+  ensureStarted(target);
+
+  const path = getWorkspacePath(exercise.id, difficulty);
+  const answerSource = getSectionSource(exercise, difficulty, 'answer');
+  if (answerSource === undefined) {
+    throw new Error(`${describeTarget(target)} has no answer to compare with`);
+  }
+
+  const result = diffSolution(readFileSync(path, 'utf8'), answerSource);
+  console.log(`Comparing ${relative(ROOT_DIR, path)} with the answer for ${describeTarget(target)}:`);
+  result.components.forEach(component => {
+    const icon = component.identical ? '✅' : component.status === 'matched' && component.annotations.length === 0 ? '≈ ' : '• ';
+    console.log(`\n${icon} ${describeComponentDiff(component)}`);
+    component.annotations.forEach(({ kind, message, line }) => {
+      console.log(`   L${String(line).padEnd(4)} ${DIFF_LABELS[kind]}: ${message}`);
+    });
+  });
+};
+
+const reset: Command = ({ state, progress }, args) => {
+  const target = resolveTarget(state, args);
+  const { exercise, difficulty } = target;
+  const path = writeScratchFile(exercise, difficulty);
+
+  console.log(`Restored the original ${describeTarget(target)} in ${relative(ROOT_DIR, path)}`);
+  return { progress: recordProgress(progress, exercise.id, difficulty, 'attempted') };
+};
+
+const formatBar = (percent: number, width = 10) => {
+  const filled = Math.round((percent / 100) * width);
+  return `${'█'.repeat(filled)}${'░'.repeat(width - filled)}`;
+};
+
+// Reading someone else's file never touches your own progress
+const showProgress: Command = ({ progress: ownProgress }, [file]) => {
+  const progress = file ? readProgressFile(resolve(file)) : ownProgress;
+  const streaks = getStreaks(progress);
+  const nameWidth = Math.max(...exercises.map(exercise => exercise.principle.length)) + 2;
+
+  console.log(file ? `Progress in ${file}` : 'Your progress');
+  console.log(`🔥 Streak: ${streaks.current} day(s) - longest ${streaks.longest}, ${streaks.activeDays} active day(s)\n`);
+  console.log(`${'Principle'.padEnd(nameWidth)}${'Mastery'.padEnd(17)}Passed  Needed hints  Answer viewed`);
+
+  exercises.forEach(exercise => {
+    const mastery = getPrincipleMastery(progress, exercise);
+    console.log([
+      exercise.principle.padEnd(nameWidth),
+      `${formatBar(mastery.percent)} ${`${mastery.percent}%`.padStart(4)}  `,
+      `${mastery.passed}/${mastery.levels}`.padEnd(8),
+      String(mastery.neededHints).padEnd(14),
+      mastery.answerViewed
+    ].join(''));
+  });
+
+  console.log('\nMastery counts levels passed before the answer was revealed.');
+};
+
+const exportProgress: Command = ({ progress }, [file]) => {
+  if (!file) throw new Error('Choose a file to export to, e.g. "npm run study -- export my-progress.json"');
+
+  const path = resolve(file);
+  if (path === PROGRESS_PATH) throw new Error(`${file} is where your progress already lives - choose another file`);
+
+  writeProgressFile(progress, path);
+  console.log(`Exported your progress to ${file} - import it in the app's Progress page or run "npm run study -- progress ${file}"`);
+};
+
+const COMMANDS: Record<string, Command> = {
+  list,
+  start,
+  check,
+  hint,
+  diff,
+  reset,
+  progress: showProgress,
+  export: exportProgress
+};
+
+const main = (argv: string[]) => {
+  const [command, ...args] = argv;
+  const run = command && Object.keys(COMMANDS).includes(command) ? COMMANDS[command] : undefined;
+
+  if (!run) {
+    console.log(USAGE);
+    process.exitCode = command && command !== 'help' ? 1 : 0;
+    return;
+  }
+
+  const context: StudyContext = { state: readStudyState(), progress: readProgressFile() };
+  const changes = run(context, args);
+  if (changes?.state) writeStudyState(changes.state);
+  if (changes?.progress) writeProgressFile(changes.progress);
+};
+
+try {
+  main(process.argv.slice(2));
+} catch (error) {
+  console.error(`✖ ${error instanceof Error ? error.message : String(error)}`);
+  process.exitCode = 1;
+}
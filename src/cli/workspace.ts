@@ -0,0 +1,82 @@
+// Scratch workspace for the study CLI
+// Learners edit copies in workspace/ so the originals in tests/ stay intact for the next person
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type { Difficulty, Exercise, LearnerProgress } from '../types';
+import { getSection, getSectionSource } from '../exercises/registry';
+import { createProgress, parseProgress, serializeProgress } from '../exercises/progress';
+
+export interface StudyState {
+  // The section `check`, `hint` and `reset` act on when no principle is given
+  current?: { exerciseId: string; difficulty: Difficulty };
+}
+
+export const ROOT_DIR = fileURLToPath(new URL('../../', import.meta.url));
+export const WORKSPACE_DIR = join(ROOT_DIR, 'workspace');
+const STATE_PATH = join(WORKSPACE_DIR, 'study.json');
+export const PROGRESS_PATH = join(WORKSPACE_DIR, 'progress.json');
+
+// One level below the root, like tests/, so the copied '../src/...' imports keep resolving
+export const getWorkspacePath = (exerciseId: string, difficulty: Difficulty): string => {
+  return join(WORKSPACE_DIR, `${exerciseId}-${difficulty}.tsx`);
+};
+
+// The file header and imports followed by a single section - enough for the copy to compile on its own
+export const buildScratchSource = (exercise: Exercise, difficulty: Difficulty): string => {
+  const section = getSection(exercise, difficulty, 'test');
+  const sectionSource = getSectionSource(exercise, difficulty, 'test');
+  if (!section || sectionSource === undefined) {
+    throw new Error(`${exercise.principle} has no ${difficulty} exercise`);
+  }
+
+  const firstSection = exercise.test.sections[0];
+  const preamble = exercise.test.source
+    .split(/\r?\n/)
+    .slice(0, firstSection.startLine - 1)
+    .join('\n');
+
+  return `${preamble}\n${sectionSource}\n`;
+};
+
+export const writeScratchFile = (exercise: Exercise, difficulty: Difficulty): string => {
+  const path = getWorkspacePath(exercise.id, difficulty);
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, buildScratchSource(exercise, difficulty));
+  return path;
+};
+
+export const readStudyState = (): StudyState => {
+  if (!existsSync(STATE_PATH)) return {};
+
+  try {
+    return JSON.parse(readFileSync(STATE_PATH, 'utf8')) as StudyState;
+  } catch {
+    throw new Error(`${STATE_PATH} is not valid JSON - fix or delete it`);
+  }
+};
+
+export const writeStudyState = (state: StudyState): void => {
+  mkdirSync(WORKSPACE_DIR, { recursive: true });
+  writeFileSync(STATE_PATH, `${JSON.stringify(state, null, 2)}\n`);
+};
+
+// The same format the app exports, so a file can be handed to a mentor either way
+export const readProgressFile = (path: string = PROGRESS_PATH): LearnerProgress => {
+  if (!existsSync(path)) {
+    if (path === PROGRESS_PATH) return createProgress();
+    throw new Error(`${path} does not exist`);
+  }
+
+  try {
+    return parseProgress(readFileSync(path, 'utf8'));
+  } catch (error) {
+    throw new Error(`${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+export const writeProgressFile = (progress: LearnerProgress, path: string = PROGRESS_PATH): void => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, serializeProgress(progress));
+};
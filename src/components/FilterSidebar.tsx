@@ -1,28 +1,101 @@
 // Example component that demonstrates over-abstraction
 // This shows a component extracted too early
 
-import React from 'react';
+import React, { useState } from 'react';
+import type { FacetOption } from '../types';
+import { RATING_OPTIONS } from '../catalog/catalogQuery';
+
+interface FacetListProps {
+  name: string;
+  options: FacetOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  visibleCount: number;
+}
+
+// Collapsed, a facet still shows every ticked option so nothing filters the list out of sight
+const FacetList: React.FC<FacetListProps> = ({ name, options, selected, onChange, visibleCount }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const visibleOptions = options.filter((option, index) =>
+    isExpanded || index < visibleCount || selected.includes(option.value)
+  );
+  const hiddenCount = options.length - visibleOptions.length;
+
+  const toggle = (value: string) => {
+    onChange(selected.includes(value) ? selected.filter(item => item !== value) : [...selected, value]);
+  };
+
+  return (
+    <>
+      <ul className="facet-list">
+        {visibleOptions.map(option => {
+          const isSelected = selected.includes(option.value);
+          return (
+            <li key={option.value}>
+              <label className={`facet-option ${option.count === 0 && !isSelected ? 'facet-option-empty' : ''}`}>
+                <input
+                  type="checkbox"
+                  name={name}
+                  value={option.value}
+                  checked={isSelected}
+                  // A ticked option that matches nothing can still be unticked
+                  disabled={option.count === 0 && !isSelected}
+                  onChange={() => toggle(option.value)}
+                />
+                {option.value}
+                <span className="facet-count">({option.count})</span>
+              </label>
+            </li>
+          );
+        })}
+      </ul>
+      {options.length > visibleCount && (isExpanded || hiddenCount > 0) && (
+        <button type="button" onClick={() => setIsExpanded(!isExpanded)} className="btn btn-secondary btn-small">
+          {isExpanded ? 'Show less' : `Show ${hiddenCount} more`}
+        </button>
+      )}
+    </>
+  );
+};
 
 interface FilterSidebarProps {
-  categoryFilter: string;
-  setCategoryFilter: (category: string) => void;
-  brandFilter: string;
-  setBrandFilter: (brand: string) => void;
-  categories?: string[];
-  brands?: string[];
+  categoryFilters: string[];
+  setCategoryFilters: (categories: string[]) => void;
+  brandFilters: string[];
+  setBrandFilters: (brands: string[]) => void;
+  clearFilters: () => void;
+  categories?: FacetOption[];
+  brands?: FacetOption[];
   showCategories?: boolean;
   showBrands?: boolean;
+  // The rating, stock and sale filters are shown only when their setters are passed
+  minRating?: number;
+  setMinRating?: (rating: number) => void;
+  inStockOnly?: boolean;
+  setInStockOnly?: (inStockOnly: boolean) => void;
+  onSaleOnly?: boolean;
+  setOnSaleOnly?: (onSaleOnly: boolean) => void;
+  // Options listed before a facet collapses behind "Show more"
+  visibleCount?: number;
 }
 
 export const FilterSidebar: React.FC<FilterSidebarProps> = ({
-  categoryFilter,
-  setCategoryFilter,
-  brandFilter,
-  setBrandFilter,
+  categoryFilters,
+  setCategoryFilters,
+  brandFilters,
+  setBrandFilters,
+  clearFilters,
   categories = [],
   brands = [],
   showCategories = true,
-  showBrands = true
+  showBrands = true,
+  minRating = 0,
+  setMinRating,
+  inStockOnly = false,
+  setInStockOnly,
+  onSaleOnly = false,
+  setOnSaleOnly,
+  visibleCount = 5
 }) => {
   return (
     <div className="filter-sidebar">
@@ -31,46 +104,74 @@ export const FilterSidebar: React.FC<FilterSidebarProps> = ({
       {showCategories && (
         <div className="filter-section">
           <h4>Category</h4>
-          <select 
-            value={categoryFilter} 
-            onChange={(e) => setCategoryFilter(e.target.value)}
-            className="filter-select"
-          >
-            <option value="">All Categories</option>
-            {categories.map(category => (
-              <option key={category} value={category}>{category}</option>
-            ))}
-          </select>
+          <FacetList
+            name="category"
+            options={categories}
+            selected={categoryFilters}
+            onChange={setCategoryFilters}
+            visibleCount={visibleCount}
+          />
         </div>
       )}
 
       {showBrands && (
         <div className="filter-section">
           <h4>Brand</h4>
-          <select 
-            value={brandFilter} 
-            onChange={(e) => setBrandFilter(e.target.value)}
-            className="filter-select"
-          >
-            <option value="">All Brands</option>
-            {brands.map(brand => (
-              <option key={brand} value={brand}>{brand}</option>
+          <FacetList
+            name="brand"
+            options={brands}
+            selected={brandFilters}
+            onChange={setBrandFilters}
+            visibleCount={visibleCount}
+          />
+        </div>
+      )}
+      
+      {setMinRating && (
+        <div className="filter-section">
+          <h4>Rating</h4>
+          <ul className="facet-list">
+            {[0, ...RATING_OPTIONS].map(rating => (
+              <li key={rating}>
+                <label className="facet-option">
+                  <input
+                    type="radio"
+                    name="rating"
+                    value={rating}
+                    checked={minRating === rating}
+                    onChange={() => setMinRating(rating)}
+                  />
+                  {rating === 0 ? 'Any rating' : `${'⭐'.repeat(rating)} & up`}
+                </label>
+              </li>
             ))}
-          </select>
+          </ul>
+        </div>
+      )}
+
+      {(setInStockOnly || setOnSaleOnly) && (
+        <div className="filter-section">
+          <h4>Availability</h4>
+          {setInStockOnly && (
+            <label className="facet-option">
+              <input type="checkbox" checked={inStockOnly} onChange={(e) => setInStockOnly(e.target.checked)} />
+              In stock only
+            </label>
+          )}
+          {setOnSaleOnly && (
+            <label className="facet-option">
+              <input type="checkbox" checked={onSaleOnly} onChange={(e) => setOnSaleOnly(e.target.checked)} />
+              On sale only
+            </label>
+          )}
         </div>
       )}
       
       <div className="filter-actions">
-        <button 
-          onClick={() => {
-            setCategoryFilter('');
-            setBrandFilter('');
-          }}
-          className="btn btn-secondary btn-small"
-        >
+        <button onClick={clearFilters} className="btn btn-secondary btn-small">
           Clear Filters
         </button>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -2,15 +2,8 @@
 // This shows a component extracted too early
 
 import React from 'react';
-
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  brand: string;
-  price: number;
-  rating: number;
-}
+import type { Product } from '../types';
+import { formatPrice, getProductPricing } from '../catalog/pricing';
 
 interface ProductCardProps {
   product: Product;
@@ -29,6 +22,8 @@ export const ProductCard: React.FC<ProductCardProps> = ({
   showRating = true,
   layout = 'vertical'
 }) => {
+  const pricing = getProductPricing(product);
+
   return (
     <div className={`product-card product-card-${layout}`}>
       <div className="product-image">
@@ -39,7 +34,11 @@ export const ProductCard: React.FC<ProductCardProps> = ({
         <h3 className="product-name">{product.name}</h3>
         <p className="product-brand">{product.brand}</p>
         <p className="product-category">{product.category}</p>
-        <p className="product-price">${product.price.toFixed(2)}</p>
+        <p className="product-price">
+          {pricing.onSale && <del className="product-price-original">{formatPrice(pricing.listPrice)}</del>}
+          {formatPrice(pricing.effectivePrice)}
+          {pricing.onSale && <span className="sale-badge">Sale -{pricing.savingsPercent}%</span>}
+        </p>
         
         {showRating && (
           <div className="product-rating">
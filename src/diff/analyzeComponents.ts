@@ -0,0 +1,202 @@
+// What a function component is made of, read from the TypeScript AST: props, state, effect syncs and state mutations
+// Only the syntax is looked at, so the same component formatted differently comes out the same
+
+import * as ts from 'typescript';
+
+export interface Located {
+  name: string;
+  line: number;
+}
+
+export interface StateVariable extends Located {
+  setter?: string;
+}
+
+export interface ComponentSummary extends Located {
+  props: Located[];
+  state: StateVariable[];
+  // Setters called straight from an effect that re-runs on changes - state kept in sync instead of derived
+  effectSyncs: Located[];
+  // `todos.push()`, `item.done = true` - named after the expression that mutates state
+  mutations: Located[];
+  // The component printed without comments or formatting, to tell when it matches the answer exactly
+  fingerprint: string;
+}
+
+type FunctionNode = ts.FunctionDeclaration | ts.FunctionExpression | ts.ArrowFunction;
+
+const STATE_HOOKS = ['useState', 'useReducer'];
+const EFFECT_HOOKS = ['useEffect', 'useLayoutEffect'];
+const MUTATING_METHODS = new Set(['push', 'pop', 'shift', 'unshift', 'splice', 'sort', 'reverse', 'fill', 'copyWithin']);
+// Lookups that hand back an element of the state itself, not a copy
+const ELEMENT_LOOKUPS = new Set(['find', 'findLast', 'at']);
+
+const printer = ts.createPrinter({ removeComments: true });
+
+const isFunctionNode = (node: ts.Node): node is FunctionNode => {
+  return ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) || ts.isArrowFunction(node);
+};
+
+// `useState(...)` and `React.useState(...)` alike
+const isHookCall = (node: ts.Node | undefined, names: string[]): node is ts.CallExpression => {
+  if (!node || !ts.isCallExpression(node)) return false;
+  const { expression } = node;
+  if (ts.isIdentifier(expression)) return names.includes(expression.text);
+  return ts.isPropertyAccessExpression(expression) && names.includes(expression.name.text);
+};
+
+// memo(() => ...), forwardRef(function Foo() {...})
+const unwrapCalls = (node: ts.Expression): ts.Expression => {
+  return ts.isCallExpression(node) && node.arguments.length > 0 ? unwrapCalls(node.arguments[0]) : node;
+};
+
+// The identifier an access chain starts from: `cart.items[0].quantity` → cart
+const getRoot = (node: ts.Expression): ts.Identifier | undefined => {
+  if (ts.isIdentifier(node)) return node;
+  if (ts.isPropertyAccessExpression(node) || ts.isElementAccessExpression(node)) return getRoot(node.expression);
+  if (ts.isParenthesizedExpression(node) || ts.isNonNullExpression(node)) return getRoot(node.expression);
+  return undefined;
+};
+
+const isAssignment = (kind: ts.SyntaxKind): boolean => {
+  return kind >= ts.SyntaxKind.FirstAssignment && kind <= ts.SyntaxKind.LastAssignment;
+};
+
+// Walks a function body without entering nested functions - callbacks run later, not as part of this body
+const forEachOwnNode = (node: ts.Node, visit: (node: ts.Node) => void) => {
+  if (isFunctionNode(node)) return;
+  visit(node);
+  ts.forEachChild(node, child => forEachOwnNode(child, visit));
+};
+
+const forEachNode = (node: ts.Node, visit: (node: ts.Node) => void) => {
+  ts.forEachChild(node, child => {
+    visit(child);
+    forEachNode(child, visit);
+  });
+};
+
+const findComponents = (sourceFile: ts.SourceFile): Array<{ name: string; node: FunctionNode }> => {
+  const components: Array<{ name: string; node: FunctionNode }> = [];
+
+  sourceFile.statements.forEach(statement => {
+    if (ts.isFunctionDeclaration(statement) && statement.name && /^[A-Z]/.test(statement.name.text)) {
+      components.push({ name: statement.name.text, node: statement });
+    } else if (ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach(declaration => {
+        if (!ts.isIdentifier(declaration.name) || !/^[A-Z]/.test(declaration.name.text) || !declaration.initializer) return;
+        const initializer = unwrapCalls(declaration.initializer);
+        if (isFunctionNode(initializer)) components.push({ name: declaration.name.text, node: initializer });
+      });
+    }
+  });
+
+  return components;
+};
+
+const summarizeComponent = (name: string, node: FunctionNode, sourceFile: ts.SourceFile, firstLine: number): ComponentSummary => {
+  const lineOf = (target: ts.Node) => sourceFile.getLineAndCharacterOfPosition(target.getStart(sourceFile)).line + firstLine;
+  const state: StateVariable[] = [];
+  const props: Located[] = [];
+  const effectSyncs: Located[] = [];
+  const mutations: Located[] = [];
+
+  const [propsParameter] = node.parameters;
+  if (propsParameter && ts.isObjectBindingPattern(propsParameter.name)) {
+    propsParameter.name.elements.forEach(element => {
+      const propName = element.propertyName ?? element.name;
+      if (ts.isIdentifier(propName)) props.push({ name: propName.text, line: lineOf(element) });
+    });
+  } else if (propsParameter && ts.isIdentifier(propsParameter.name)) {
+    const propsName = propsParameter.name.text;
+    forEachNode(node, child => {
+      if (ts.isPropertyAccessExpression(child) && ts.isIdentifier(child.expression) && child.expression.text === propsName
+        && !props.some(prop => prop.name === child.name.text)) {
+        props.push({ name: child.name.text, line: lineOf(child) });
+      }
+    });
+  }
+
+  forEachNode(node, child => {
+    if (!ts.isVariableDeclaration(child) || !ts.isArrayBindingPattern(child.name) || !isHookCall(child.initializer, STATE_HOOKS)) return;
+    const [value, setter] = child.name.elements.map(element =>
+      ts.isBindingElement(element) && ts.isIdentifier(element.name) ? element.name.text : undefined
+    );
+    if (value) state.push({ name: value, setter, line: lineOf(child) });
+  });
+
+  const setters = new Set(state.map(variable => variable.setter).filter((setter): setter is string => Boolean(setter)));
+  const stateRoots = new Set(state.map(variable => variable.name));
+
+  // Aliases (`const list = todos`, `const item = items.find(...)`) and updater parameters (`setTodos(previous => ...)`)
+  // point at state too
+  forEachNode(node, child => {
+    if (ts.isVariableDeclaration(child) && ts.isIdentifier(child.name) && child.initializer) {
+      const { initializer } = child;
+      const lookup = ts.isCallExpression(initializer) && ts.isPropertyAccessExpression(initializer.expression)
+        && ELEMENT_LOOKUPS.has(initializer.expression.name.text) ? initializer.expression.expression : undefined;
+      const root = getRoot(lookup ?? initializer);
+      if (root && stateRoots.has(root.text)) stateRoots.add(child.name.text);
+    }
+    if (ts.isCallExpression(child) && ts.isIdentifier(child.expression) && setters.has(child.expression.text)) {
+      const [updater] = child.arguments;
+      if (updater && isFunctionNode(updater)) {
+        updater.parameters.forEach(parameter => {
+          if (ts.isIdentifier(parameter.name)) stateRoots.add(parameter.name.text);
+        });
+      }
+    }
+  });
+
+  const addMutation = (target: ts.Node, description: string) => {
+    if (!mutations.some(mutation => mutation.name === description)) mutations.push({ name: description, line: lineOf(target) });
+  };
+  const describe = (expression: ts.Expression) => printer.printNode(ts.EmitHint.Expression, expression, sourceFile);
+
+  forEachNode(node, child => {
+    if (ts.isCallExpression(child) && ts.isPropertyAccessExpression(child.expression)
+      && MUTATING_METHODS.has(child.expression.name.text)) {
+      const root = getRoot(child.expression.expression);
+      if (root && stateRoots.has(root.text)) addMutation(child, `${describe(child.expression)}(…)`);
+    } else if (ts.isBinaryExpression(child) && isAssignment(child.operatorToken.kind)
+      && (ts.isPropertyAccessExpression(child.left) || ts.isElementAccessExpression(child.left))) {
+      const root = getRoot(child.left);
+      if (root && stateRoots.has(root.text)) addMutation(child, `${describe(child.left)} = …`);
+    } else if (ts.isDeleteExpression(child)) {
+      const root = getRoot(child.expression);
+      if (root && stateRoots.has(root.text)) addMutation(child, `delete ${describe(child.expression)}`);
+    }
+  });
+
+  // An effect without dependencies on anything (`[]`) runs once on mount - that is setup, not syncing
+  forEachNode(node, child => {
+    if (!isHookCall(child, EFFECT_HOOKS)) return;
+    const [callback, dependencies] = child.arguments;
+    if (!callback || !isFunctionNode(callback) || !callback.body) return;
+    if (dependencies && ts.isArrayLiteralExpression(dependencies) && dependencies.elements.length === 0) return;
+
+    forEachOwnNode(callback.body, inner => {
+      if (ts.isCallExpression(inner) && ts.isIdentifier(inner.expression) && setters.has(inner.expression.text)
+        && !effectSyncs.some(sync => sync.name === (inner.expression as ts.Identifier).text)) {
+        effectSyncs.push({ name: inner.expression.text, line: lineOf(inner) });
+      }
+    });
+  });
+
+  return {
+    name,
+    line: lineOf(node),
+    props,
+    state,
+    effectSyncs,
+    mutations,
+    // The printer keeps JSX text as written, so whitespace is collapsed as well
+    fingerprint: printer.printNode(ts.EmitHint.Unspecified, node, sourceFile).replace(/\s+/g, ' ')
+  };
+};
+
+// firstLine is the line the source starts at in its file, so a section of tests/*.tsx reports the file's own line numbers
+export const analyzeComponents = (source: string, firstLine = 1): ComponentSummary[] => {
+  const sourceFile = ts.createSourceFile('component.tsx', source, ts.ScriptTarget.Latest, true, ts.ScriptKind.TSX);
+  return findComponents(sourceFile).map(({ name, node }) => summarizeComponent(name, node, sourceFile, firstLine));
+};
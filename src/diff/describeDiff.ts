@@ -0,0 +1,20 @@
+// Wording for a solution diff, shared by the study CLI and the exercise view
+// Kept apart from structuralDiff so the app can show diffs without bundling the TypeScript compiler
+
+import type { ComponentDiff, DiffAnnotationKind } from '../types';
+
+export const DIFF_LABELS: Record<DiffAnnotationKind, string> = {
+  'extra-state': '➕ Extra state',
+  'effect-sync': '🔁 Effect sync',
+  mutation: '✏️ Mutation',
+  'extra-prop': '📦 Extra prop'
+};
+
+export const describeComponentDiff = (component: ComponentDiff): string => {
+  if (component.status === 'missing') return `${component.name} is in the answer, but not here yet`;
+  if (component.status === 'unmatched') return `${component.name} has no counterpart in the answer`;
+  if (component.identical) return `${component.name} is the same as the answer`;
+  return component.annotations.length > 0
+    ? `${component.name} - ${component.annotations.length} difference(s) to look at`
+    : `${component.name} differs from the answer, but none of the usual suspects remain`;
+};
@@ -0,0 +1,112 @@
+// Structural diff between a learner's components and the reference answer's components of the same name
+// Reports what the answer no longer has: extra state, effects that sync state, state mutations and extra props
+
+import type {
+  ComponentDiff,
+  DiffAnnotation,
+  Difficulty,
+  Exercise,
+  ExerciseFile,
+  SolutionDiff,
+  SolutionDiffs
+} from '../types';
+import { type ComponentSummary, analyzeComponents } from './analyzeComponents';
+
+interface DiffOptions {
+  // Line the learner's source starts at in its file, so annotations point at the file's own lines
+  firstLine?: number;
+  referenceFirstLine?: number;
+}
+
+const diffComponent = (learner: ComponentSummary, reference: ComponentSummary): ComponentDiff => {
+  const annotations: DiffAnnotation[] = [];
+  const referenceState = new Set(reference.state.map(variable => variable.name));
+  const referenceSyncs = new Set(reference.effectSyncs.map(sync => sync.name));
+  const referenceMutations = new Set(reference.mutations.map(mutation => mutation.name));
+  const referenceProps = new Set(reference.props.map(prop => prop.name));
+
+  learner.state
+    .filter(variable => !referenceState.has(variable.name))
+    .forEach(variable => annotations.push({
+      kind: 'extra-state',
+      message: `"${variable.name}" is state here, but not in the answer - can it be derived from props or other state?`,
+      line: variable.line
+    }));
+
+  learner.effectSyncs
+    .filter(sync => !referenceSyncs.has(sync.name))
+    .forEach(sync => annotations.push({
+      kind: 'effect-sync',
+      message: `A useEffect still calls ${sync.name}() to keep state in sync - the answer computes it during render or in an event`,
+      line: sync.line
+    }));
+
+  learner.mutations
+    .filter(mutation => !referenceMutations.has(mutation.name))
+    .forEach(mutation => annotations.push({
+      kind: 'mutation',
+      message: `${mutation.name} mutates state in place - the answer creates a new value instead`,
+      line: mutation.line
+    }));
+
+  learner.props
+    .filter(prop => !referenceProps.has(prop.name))
+    .forEach(prop => annotations.push({
+      kind: 'extra-prop',
+      message: `Takes a "${prop.name}" prop the answer does without`,
+      line: prop.line
+    }));
+
+  return {
+    name: learner.name,
+    status: 'matched',
+    identical: learner.fingerprint === reference.fingerprint,
+    line: learner.line,
+    annotations: annotations.sort((left, right) => left.line - right.line)
+  };
+};
+
+export const diffSolution = (learnerSource: string, referenceSource: string, options: DiffOptions = {}): SolutionDiff => {
+  const learner = analyzeComponents(learnerSource, options.firstLine);
+  const reference = analyzeComponents(referenceSource, options.referenceFirstLine);
+  const learnerNames = new Set(learner.map(component => component.name));
+
+  const components: ComponentDiff[] = learner.map(component => {
+    const match = reference.find(candidate => candidate.name === component.name);
+    return match
+      ? diffComponent(component, match)
+      : { name: component.name, status: 'unmatched', identical: false, line: component.line, annotations: [] };
+  });
+
+  reference
+    .filter(component => !learnerNames.has(component.name))
+    .forEach(component => components.push({ name: component.name, status: 'missing', identical: false, annotations: [] }));
+
+  return { components };
+};
+
+const getSource = (file: ExerciseFile, difficulty: Difficulty) => {
+  const section = file.sections.find(candidate => candidate.difficulty === difficulty);
+  if (!section) return undefined;
+  return {
+    source: file.source.split(/\r?\n/).slice(section.startLine - 1, section.endLine).join('\n'),
+    firstLine: section.startLine
+  };
+};
+
+// Every level's problem against its answer - what the app shows before the learner has changed anything
+export const buildSolutionDiffs = (exercises: Exercise[]): SolutionDiffs => {
+  return Object.fromEntries(exercises.map(exercise => {
+    const byDifficulty: Partial<Record<Difficulty, SolutionDiff>> = {};
+    exercise.difficulties.forEach(difficulty => {
+      const problem = getSource(exercise.test, difficulty);
+      const answer = getSource(exercise.answer, difficulty);
+      if (!problem || !answer) return;
+      byDifficulty[difficulty] = diffSolution(problem.source, answer.source, {
+        firstLine: problem.firstLine,
+        referenceFirstLine: answer.firstLine
+      });
+    });
+    return [exercise.id, byDifficulty];
+  }));
+};
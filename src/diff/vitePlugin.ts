@@ -0,0 +1,47 @@
+// Vite plugin serving each level's problem-vs-answer diff as `virtual:solution-diffs`
+// The diffs need the TypeScript compiler, so they are worked out here at build time instead of in the browser
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { buildExerciseRegistry } from '../exercises/parseExercise';
+import { buildSolutionDiffs } from './structuralDiff';
+
+const MODULE_ID = 'virtual:solution-diffs';
+const RESOLVED_ID = `\0${MODULE_ID}`;
+const EXERCISE_FOLDERS: Array<[string, RegExp]> = [['tests', /-test\.tsx$/], ['answers', /-answer\.tsx$/]];
+
+export const solutionDiffPlugin = (): Plugin => {
+  let root = process.cwd();
+
+  const listSourceFiles = (): string[] => EXERCISE_FOLDERS.flatMap(([folder, pattern]) =>
+    readdirSync(resolve(root, folder)).filter(file => pattern.test(file)).map(file => resolve(root, folder, file))
+  );
+
+  // Same paths as the registry's import.meta.glob, so exercise ids come out identical
+  const buildDiffs = () => buildSolutionDiffs(buildExerciseRegistry(Object.fromEntries(
+    listSourceFiles().map(path => [relative(root, path).split('\\').join('/'), readFileSync(path, 'utf8')])
+  )));
+
+  return {
+    name: 'design-principles-solution-diffs',
+    configResolved(config) {
+      root = config.root;
+    },
+    resolveId(id) {
+      return id === MODULE_ID ? RESOLVED_ID : undefined;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return undefined;
+      listSourceFiles().forEach(path => this.addWatchFile(path));
+      return `export default ${JSON.stringify(buildDiffs())};`;
+    },
+    handleHotUpdate({ file, server, modules }) {
+      if (!listSourceFiles().includes(file)) return undefined;
+      const diffsModule = server.moduleGraph.getModuleById(RESOLVED_ID);
+      if (!diffsModule) return undefined;
+      server.moduleGraph.invalidateModule(diffsModule);
+      return [...modules, diffsModule];
+    }
+  };
+};
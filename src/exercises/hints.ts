@@ -0,0 +1,24 @@
+// Hints for one exercise section, revealed one level at a time: a nudge, the concept, then the shape of the code
+// Authored "// HINT" blocks win; sections without one fall back to the comments the exercise files already carry
+
+import type { Difficulty, Exercise, SectionHint } from '../types';
+import { getSection } from './registry';
+
+export const HINT_LABELS: Record<SectionHint['level'], string> = {
+  nudge: '👉 Nudge',
+  concept: '💡 Concept',
+  shape: '🧱 Code shape'
+};
+
+export const getSectionHints = (exercise: Exercise, difficulty: Difficulty): SectionHint[] => {
+  const problem = getSection(exercise, difficulty, 'test');
+  if (problem && problem.hints.length > 0) return problem.hints;
+
+  const answer = getSection(exercise, difficulty, 'answer');
+  const hints: (SectionHint | false | undefined)[] = [
+    problem?.problem !== undefined && { level: 'nudge', text: `Look for: ${problem.problem}` },
+    { level: 'concept', text: answer?.why ? `${exercise.goal} - ${answer.why}` : exercise.goal },
+    answer?.solution !== undefined && { level: 'shape', text: `Approach: ${answer.solution}` }
+  ];
+  return hints.filter((hint): hint is SectionHint => Boolean(hint));
+};
@@ -0,0 +1,178 @@
+// Parses the exercise files in tests/ and answers/ into registry metadata
+// Everything here is read from the file text itself, so the index cannot drift from the code
+
+import type { Difficulty, Exercise, ExerciseFile, ExerciseSection, HintLevel, SectionHint } from '../types';
+
+const BANNER_PATTERN = /^\/\/ ===== (EASY|MEDIUM|HARD|BONUS)\b(.*?)\s*=====\s*$/;
+const COMPONENT_PATTERN = /^(?:export\s+)?(?:default\s+)?(?:function\s+([A-Z]\w*)|class\s+([A-Z]\w*)\s+extends\s+(?:React\.)?(?:Pure)?Component\b)/;
+const HINT_PATTERN = /^\/\/ HINT (\w+):\s*(.*)$/;
+// Code lines of a hint are indented comments under it: "//   const [status, setStatus] = ..."
+const HINT_CODE_PATTERN = /^\/\/(?: {3}(.*)|\s*)$/;
+const TEST_FILE_PATTERN = /(?:^|\/)([a-z0-9-]+)-test\.tsx$/;
+const ANSWER_FILE_PATTERN = /(?:^|\/)([a-z0-9-]+)-answer\.tsx$/;
+
+const UPPERCASE_WORDS = new Set(['UI', 'UX', 'API', 'DRY', 'YAGNI']);
+const LOWERCASE_WORDS = new Set(['a', 'an', 'and', 'as', 'for', 'of', 'or', 'over', 'the', 'to']);
+
+export const DIFFICULTY_ORDER: Difficulty[] = ['easy', 'medium', 'hard', 'bonus'];
+export const HINT_LEVELS: HintLevel[] = ['nudge', 'concept', 'shape'];
+
+export const toTitleCase = (heading: string): string => {
+  return heading
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word, index) => {
+      if (UPPERCASE_WORDS.has(word.toUpperCase())) return word.toUpperCase();
+      if (index > 0 && LOWERCASE_WORDS.has(word)) return word;
+      return word.charAt(0).toUpperCase() + word.slice(1);
+    })
+    .join(' ');
+};
+
+const readComment = (lines: string[], prefix: string): string | undefined => {
+  const line = lines.find(candidate => candidate.startsWith(`// ${prefix}`));
+  return line?.slice(`// ${prefix}`.length).trim() || undefined;
+};
+
+const isHintBlockLine = (line: string): boolean => {
+  return HINT_PATTERN.test(line) || HINT_CODE_PATTERN.test(line) || line.trim() === '';
+};
+
+// `lines` is the hint block alone: "// HINT <level>:" lines, their indented code and blank lines
+const parseHints = (lines: string[], firstLine: number, path: string): SectionHint[] => {
+  const hints: SectionHint[] = [];
+  const codeLines: string[][] = [];
+
+  lines.forEach((line, index) => {
+    const location = `${path}:${firstLine + index}`;
+    const hintMatch = HINT_PATTERN.exec(line);
+    const codeMatch = HINT_CODE_PATTERN.exec(line);
+
+    if (hintMatch) {
+      const level = hintMatch[1] as HintLevel;
+      if (!HINT_LEVELS.includes(level)) {
+        throw new Error(`${location}: unknown hint level "${hintMatch[1]}" (expected ${HINT_LEVELS.join(', ')})`);
+      }
+
+      const previous = hints[hints.length - 1];
+      if (previous && HINT_LEVELS.indexOf(level) <= HINT_LEVELS.indexOf(previous.level)) {
+        throw new Error(`${location}: "${level}" hint after "${previous.level}" - hints go ${HINT_LEVELS.join(' → ')}, one of each`);
+      }
+
+      hints.push({ level, text: hintMatch[2].trim() });
+      codeLines.push([]);
+    } else if (codeMatch && hints.length > 0) {
+      codeLines[codeLines.length - 1].push(codeMatch[1] ?? '');
+    }
+  });
+
+  return hints.map((hint, index) => {
+    const code = codeLines[index].join('\n').trim();
+    return code ? { ...hint, code } : hint;
+  });
+};
+
+export const parseExerciseFile = (path: string, source: string): ExerciseFile => {
+  const lines = source.split(/\r?\n/);
+  const header = lines[0]?.replace(/^\/\/\s*/, '') ?? '';
+  const title = header.replace(/\s+(TEST|- CORRECT IMPLEMENTATIONS)\s*$/, '');
+
+  if (!lines[0]?.startsWith('//') || title === header) {
+    throw new Error(`${path}: expected a "// <PRINCIPLE> TEST" or "// <PRINCIPLE> - CORRECT IMPLEMENTATIONS" header`);
+  }
+
+  const bannerLines = lines
+    .map((line, index) => ({ match: BANNER_PATTERN.exec(line), index }))
+    .filter((entry): entry is { match: RegExpExecArray; index: number } => entry.match !== null);
+
+  const sections: ExerciseSection[] = bannerLines.map(({ match, index }, position) => {
+    const nextBanner = bannerLines[position + 1];
+    const lastIndex = nextBanner ? nextBanner.index - 1 : lines.length - 1;
+    const rest = lines.slice(index + 1, lastIndex + 1);
+    const hintOffset = rest.findIndex(line => HINT_PATTERN.test(line));
+    const blockLength = hintOffset === -1 ? 0 : rest.slice(hintOffset).findIndex(line => !isHintBlockLine(line));
+    const hintLines = hintOffset === -1 ? [] : rest.slice(hintOffset, blockLength === -1 ? undefined : hintOffset + blockLength);
+    // A hint block that ends the section is left out of it, so the problem code can be shown without giving anything away.
+    // Code after the block - a helper a learner added at the end of the file - keeps the whole section as its body
+    const endIndex = hintOffset === -1 || blockLength !== -1 ? lastIndex : index + hintOffset;
+    const body = lines.slice(index + 1, endIndex + 1);
+    const hints = hintOffset === -1 ? [] : parseHints(hintLines, index + hintOffset + 2, path);
+
+    const components = body
+      .map(line => COMPONENT_PATTERN.exec(line))
+      .filter((componentMatch): componentMatch is RegExpExecArray => componentMatch !== null)
+      .map(componentMatch => componentMatch[1] ?? componentMatch[2]);
+
+    return {
+      difficulty: match[1].toLowerCase() as Difficulty,
+      heading: `${match[1]}${match[2]}`.trim(),
+      startLine: index + 1,
+      endLine: endIndex + 1,
+      components,
+      problem: readComment(body, 'Problem:'),
+      solution: readComment(body, '✅ SOLUTION:'),
+      why: readComment(body, 'WHY:'),
+      hints
+    };
+  });
+
+  if (sections.length === 0) {
+    throw new Error(`${path}: no "// ===== EASY =====" style section banners found`);
+  }
+
+  return {
+    path,
+    title: toTitleCase(title),
+    summary: lines[1]?.replace(/^\/\/\s*/, '').trim() ?? '',
+    goal: readComment(lines.slice(0, sections[0].startLine), 'GOAL:'),
+    source,
+    sections
+  };
+};
+
+export const getExerciseId = (path: string): string | null => {
+  const match = TEST_FILE_PATTERN.exec(path) ?? ANSWER_FILE_PATTERN.exec(path);
+  return match ? match[1] : null;
+};
+
+export const buildExercise = (id: string, test: ExerciseFile, answer: ExerciseFile): Exercise => {
+  const difficulties = DIFFICULTY_ORDER.filter(difficulty =>
+    test.sections.some(section => section.difficulty === difficulty)
+  );
+
+  return {
+    id,
+    principle: test.title,
+    goal: test.goal ?? answer.summary,
+    test,
+    answer,
+    difficulties
+  };
+};
+
+// Pairs tests/<id>-test.tsx with answers/<id>-answer.tsx - both sides must exist
+export const buildExerciseRegistry = (files: Record<string, string>): Exercise[] => {
+  const tests = new Map<string, ExerciseFile>();
+  const answers = new Map<string, ExerciseFile>();
+
+  Object.entries(files).forEach(([path, source]) => {
+    const id = getExerciseId(path);
+    if (!id) return;
+
+    const target = TEST_FILE_PATTERN.test(path) ? tests : answers;
+    target.set(id, parseExerciseFile(path, source));
+  });
+
+  const unpaired = [
+    ...[...tests.keys()].filter(id => !answers.has(id)).map(id => `${id} has no answer file`),
+    ...[...answers.keys()].filter(id => !tests.has(id)).map(id => `${id} has no test file`)
+  ];
+  if (unpaired.length > 0) {
+    throw new Error(`Unpaired exercise files: ${unpaired.join(', ')}`);
+  }
+
+  return [...tests.entries()]
+    .map(([id, test]) => buildExercise(id, test, answers.get(id)!))
+    .sort((a, b) => a.id.localeCompare(b.id));
+};
@@ -0,0 +1,273 @@
+// Learner progress - which exercise levels were attempted, passed, needed hints or had their answer revealed, and quiz answers
+// Pure functions over a plain JSON object, so the app and the study CLI only differ in where it is stored
+
+import type {
+  Difficulty,
+  Exercise,
+  LearnerProgress,
+  ProgressEvent,
+  QuizAnswerRecord,
+  SectionProgress,
+  SectionStatus
+} from '../types';
+import { DIFFICULTY_ORDER } from './parseExercise';
+
+export interface PrincipleMastery {
+  exercise: Exercise;
+  levels: number;
+  attempted: number;
+  passed: number;
+  // Passed before the answer was revealed - the only passes that count towards mastery
+  mastered: number;
+  answerViewed: number;
+  // Levels where at least one hint was revealed
+  neededHints: number;
+  percent: number;
+}
+
+export interface QuizSummary {
+  answered: number;
+  // Questions whose latest answer was right
+  correct: number;
+  percent: number;
+}
+
+export interface Streaks {
+  current: number;
+  longest: number;
+  activeDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const createProgress = (): LearnerProgress => ({ version: 1, sections: {}, activeDays: [] });
+
+// Calendar day in the learner's own time zone, so a late-night session counts for that evening
+export const toDayKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const toDayNumber = (dayKey: string): number => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return Math.round(Date.UTC(year, month - 1, day) / DAY_MS);
+};
+
+export const getSectionProgress = (
+  progress: LearnerProgress,
+  exerciseId: string,
+  difficulty: Difficulty
+): SectionProgress | undefined => {
+  return progress.sections[exerciseId]?.[difficulty];
+};
+
+export const getSectionStatus = (
+  progress: LearnerProgress,
+  exerciseId: string,
+  difficulty: Difficulty
+): SectionStatus => {
+  const section = getSectionProgress(progress, exerciseId, difficulty);
+  if (!section) return 'not-started';
+  if (section.passedAt) return 'passed';
+  if (section.answerViewedAt) return 'answer-viewed';
+  return 'attempted';
+};
+
+const addActiveDay = (activeDays: string[], now: Date): string[] => {
+  const day = toDayKey(now);
+  return activeDays.includes(day) ? activeDays : [...activeDays, day].sort();
+};
+
+const setSectionProgress = (
+  progress: LearnerProgress,
+  exerciseId: string,
+  difficulty: Difficulty,
+  section: SectionProgress,
+  now: Date
+): LearnerProgress => ({
+  ...progress,
+  activeDays: addActiveDay(progress.activeDays, now),
+  sections: {
+    ...progress.sections,
+    [exerciseId]: {
+      ...progress.sections[exerciseId],
+      [difficulty]: section
+    }
+  }
+});
+
+// Only the first occurrence of each event is kept - passing again later does not rewrite history
+export const recordProgress = (
+  progress: LearnerProgress,
+  exerciseId: string,
+  difficulty: Difficulty,
+  event: ProgressEvent,
+  now: Date = new Date()
+): LearnerProgress => {
+  const timestamp = now.toISOString();
+  const previous = getSectionProgress(progress, exerciseId, difficulty) ?? { attemptedAt: timestamp };
+  const section: SectionProgress = {
+    ...previous,
+    ...(event === 'passed' && !previous.passedAt && { passedAt: timestamp }),
+    ...(event === 'answer-viewed' && !previous.answerViewedAt && { answerViewedAt: timestamp })
+  };
+
+  return setSectionProgress(progress, exerciseId, difficulty, section, now);
+};
+
+// Keeps the most hints ever revealed - starting a level over does not hide that help was needed
+export const recordHintsRevealed = (
+  progress: LearnerProgress,
+  exerciseId: string,
+  difficulty: Difficulty,
+  count: number,
+  now: Date = new Date()
+): LearnerProgress => {
+  const previous = getSectionProgress(progress, exerciseId, difficulty) ?? { attemptedAt: now.toISOString() };
+  const section: SectionProgress = { ...previous, hintsRevealed: Math.max(previous.hintsRevealed ?? 0, count) };
+
+  return setSectionProgress(progress, exerciseId, difficulty, section, now);
+};
+
+// Answering a quiz question counts as a day of study, like working on an exercise
+export const recordQuizAnswer = (
+  progress: LearnerProgress,
+  questionId: string,
+  isCorrect: boolean,
+  now: Date = new Date()
+): LearnerProgress => {
+  const previous = progress.quiz?.[questionId];
+  const record: QuizAnswerRecord = {
+    attempts: (previous?.attempts ?? 0) + 1,
+    correct: (previous?.correct ?? 0) + (isCorrect ? 1 : 0),
+    lastCorrect: isCorrect,
+    lastAnsweredAt: now.toISOString()
+  };
+
+  return {
+    ...progress,
+    activeDays: addActiveDay(progress.activeDays, now),
+    quiz: { ...progress.quiz, [questionId]: record }
+  };
+};
+
+export const getQuizSummary = (progress: LearnerProgress): QuizSummary => {
+  const records = Object.values(progress.quiz ?? {});
+  const correct = records.filter(record => record.lastCorrect).length;
+  return {
+    answered: records.length,
+    correct,
+    percent: records.length === 0 ? 0 : Math.round((correct / records.length) * 100)
+  };
+};
+
+const isMastered = (section: SectionProgress): boolean => {
+  if (!section.passedAt) return false;
+  return !section.answerViewedAt || section.passedAt < section.answerViewedAt;
+};
+
+// Levels come from the problem files - bonus material has nothing to pass
+export const getPrincipleMastery = (progress: LearnerProgress, exercise: Exercise): PrincipleMastery => {
+  const sections = exercise.difficulties
+    .map(difficulty => getSectionProgress(progress, exercise.id, difficulty))
+    .filter((section): section is SectionProgress => Boolean(section));
+  const mastered = sections.filter(isMastered).length;
+  const levels = exercise.difficulties.length;
+
+  return {
+    exercise,
+    levels,
+    attempted: sections.length,
+    passed: sections.filter(section => section.passedAt).length,
+    mastered,
+    answerViewed: sections.filter(section => section.answerViewedAt).length,
+    neededHints: sections.filter(section => (section.hintsRevealed ?? 0) > 0).length,
+    percent: levels === 0 ? 0 : Math.round((mastered / levels) * 100)
+  };
+};
+
+// The current streak survives until the end of the day after the last session
+export const getStreaks = (progress: LearnerProgress, today: Date = new Date()): Streaks => {
+  const days = [...new Set(progress.activeDays)].map(toDayNumber).sort((left, right) => left - right);
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    run = index > 0 && day - days[index - 1] === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  const lastDay = days[days.length - 1];
+  const isRunning = lastDay !== undefined && toDayNumber(toDayKey(today)) - lastDay <= 1;
+
+  return { current: isRunning ? run : 0, longest, activeDays: days.length };
+};
+
+export const serializeProgress = (progress: LearnerProgress): string => {
+  return `${JSON.stringify(progress, null, 2)}\n`;
+};
+
+const isTimestamp = (value: unknown): boolean => {
+  return typeof value === 'string' && !Number.isNaN(Date.parse(value));
+};
+
+const isSectionProgress = (value: unknown): value is SectionProgress => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { attemptedAt, passedAt, answerViewedAt, hintsRevealed } = value as Record<string, unknown>;
+  return isTimestamp(attemptedAt)
+    && (passedAt === undefined || isTimestamp(passedAt))
+    && (answerViewedAt === undefined || isTimestamp(answerViewedAt))
+    && (hintsRevealed === undefined || (Number.isInteger(hintsRevealed) && (hintsRevealed as number) >= 0));
+};
+
+const isQuizAnswerRecord = (value: unknown): value is QuizAnswerRecord => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { attempts, correct, lastCorrect, lastAnsweredAt } = value as Record<string, unknown>;
+  return Number.isInteger(attempts) && Number.isInteger(correct)
+    && (correct as number) <= (attempts as number)
+    && typeof lastCorrect === 'boolean'
+    && isTimestamp(lastAnsweredAt);
+};
+
+// Imported files come from other people - reject anything that is not a progress file up front
+export const parseProgress = (text: string): LearnerProgress => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Progress file is not valid JSON');
+  }
+
+  const candidate = data as Partial<LearnerProgress> | null;
+  if (typeof candidate !== 'object' || candidate === null || candidate.version !== 1) {
+    throw new Error('Not a progress file (expected "version": 1)');
+  }
+
+  const { sections, activeDays } = candidate;
+  if (!Array.isArray(activeDays) || !activeDays.every(day => typeof day === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(day))) {
+    throw new Error('Progress file has an invalid "activeDays" list');
+  }
+
+  if (typeof sections !== 'object' || sections === null) {
+    throw new Error('Progress file has no "sections"');
+  }
+
+  Object.entries(sections).forEach(([exerciseId, levels]) => {
+    Object.entries(levels ?? {}).forEach(([difficulty, section]) => {
+      if (!DIFFICULTY_ORDER.includes(difficulty as Difficulty) || !isSectionProgress(section)) {
+        throw new Error(`Progress file has an invalid entry for ${exerciseId} ${difficulty}`);
+      }
+    });
+  });
+
+  const { quiz } = candidate;
+  if (quiz !== undefined) {
+    if (typeof quiz !== 'object' || quiz === null) throw new Error('Progress file has an invalid "quiz"');
+    Object.entries(quiz).forEach(([questionId, record]) => {
+      if (!isQuizAnswerRecord(record)) throw new Error(`Progress file has an invalid quiz entry for ${questionId}`);
+    });
+  }
+
+  return { version: 1, sections, activeDays, ...(quiz && { quiz }) };
+};
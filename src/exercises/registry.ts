@@ -0,0 +1,56 @@
+// Exercise registry - the single index of every tests/answers pair
+// Built from the raw file contents at bundle time, so adding a file is all it takes to register it
+
+import type { Difficulty, Exercise, ExerciseSection } from '../types';
+import { DIFFICULTY_ORDER, buildExerciseRegistry } from './parseExercise';
+
+const exerciseSources = import.meta.glob<string>(
+  ['/tests/*-test.tsx', '/answers/*-answer.tsx'],
+  { query: '?raw', import: 'default', eager: true }
+);
+
+export const exercises: Exercise[] = buildExerciseRegistry(
+  Object.fromEntries(
+    Object.entries(exerciseSources).map(([path, source]) => [path.replace(/^\//, ''), source])
+  )
+);
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: '🟢 Easy',
+  medium: '🟡 Medium',
+  hard: '🔴 Hard',
+  bonus: '🔥 Bonus'
+};
+
+export const getExercise = (id: string): Exercise | undefined => {
+  return exercises.find(exercise => exercise.id === id);
+};
+
+export const getSection = (
+  exercise: Exercise,
+  difficulty: Difficulty,
+  side: 'test' | 'answer' = 'test'
+): ExerciseSection | undefined => {
+  return exercise[side].sections.find(section => section.difficulty === difficulty);
+};
+
+// Bonus material only exists in answers/, so levels come from both sides of the pair
+export const getAvailableDifficulties = (exercise: Exercise): Difficulty[] => {
+  return DIFFICULTY_ORDER.filter(difficulty =>
+    getSection(exercise, difficulty, 'test') || getSection(exercise, difficulty, 'answer')
+  );
+};
+
+export const getSectionSource = (
+  exercise: Exercise,
+  difficulty: Difficulty,
+  side: 'test' | 'answer' = 'test'
+): string | undefined => {
+  const section = getSection(exercise, difficulty, side);
+  if (!section) return undefined;
+
+  return exercise[side].source
+    .split(/\r?\n/)
+    .slice(section.startLine - 1, section.endLine)
+    .join('\n');
+};
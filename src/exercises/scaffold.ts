@@ -0,0 +1,176 @@
+// Scaffolding for a new exercise: a tests/answers pair and its spec suite, laid out the way parseExercise reads them
+// Titles and goals come from principles.md, so a new exercise starts out named after the principle it teaches
+
+import type { Difficulty } from '../types';
+import { parsePrinciples } from '../principles/parsePrinciples';
+import { DIFFICULTY_ORDER } from './parseExercise';
+
+export interface PrincipleEntry {
+  title: string;
+  category: string;
+  // The "What it means" paragraph - it becomes the exercise's GOAL line
+  meaning?: string;
+}
+
+export interface ScaffoldFile {
+  path: string;
+  source: string;
+}
+
+export interface ExerciseScaffold {
+  id: string;
+  test: ScaffoldFile;
+  answer: ScaffoldFile;
+  spec: ScaffoldFile;
+}
+
+export const EXERCISE_ID_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// Problem levels, as the README describes them to learners - bonus material only exists in answers/
+const LEVEL_DESCRIPTIONS: Partial<Record<Difficulty, string>> = {
+  easy: 'a simple, obvious violation',
+  medium: 'a more complex scenario with multiple issues',
+  hard: 'real-world complexity with interconnected problems'
+};
+
+const PROBLEM_LEVELS = DIFFICULTY_ORDER.filter(difficulty => LEVEL_DESCRIPTIONS[difficulty]);
+
+const normalize = (text: string): string => {
+  return text.toLowerCase().replace(/[’']/g, '').replace(/[^a-z0-9]+/g, ' ').trim();
+};
+
+export const toExerciseId = (title: string): string => normalize(title).replace(/ /g, '-');
+
+const toComponentPrefix = (id: string): string => {
+  return id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join('');
+};
+
+const getComponentName = (id: string, difficulty: Difficulty): string => {
+  return `${toComponentPrefix(id)}${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)}`;
+};
+
+// Every `### ` heading in principles.md, with the `## ` section it sits in
+export const findPrinciples = (markdown: string): PrincipleEntry[] => {
+  return parsePrinciples(markdown).categories.flatMap(category =>
+    category.principles.map(principle => ({ title: principle.title, category: category.title, meaning: principle.meaning }))
+  );
+};
+
+// Matches a heading title ("Use Reducers for Complex State") or the id it would get ("use-reducers-for-complex-state")
+export const findPrinciple = (markdown: string, query: string): PrincipleEntry | undefined => {
+  return findPrinciples(markdown).find(principle =>
+    normalize(principle.title) === normalize(query) || toExerciseId(principle.title) === query.toLowerCase()
+  );
+};
+
+const buildTestSource = (principle: PrincipleEntry, id: string): string => {
+  const sections = PROBLEM_LEVELS.map(difficulty => {
+    const name = getComponentName(id, difficulty);
+    return `// ===== ${difficulty.toUpperCase()} =====
+// Problem: TODO - ${LEVEL_DESCRIPTIONS[difficulty]}, in one line (the app and "npm run study -- start" show it)
+export function ${name}() {
+  return <p>TODO: the ${difficulty} problem code</p>;
+}
+
+// HINT nudge: TODO - where to look, without naming the fix
+// HINT concept: TODO - the idea behind the fix
+// HINT shape: TODO - the outline of the fix (indented lines below become code)
+//   TODO
+`;
+  });
+
+  return `// ${principle.title.toUpperCase()} TEST
+// Fix the code violations below - each example TODO: the mistake every example makes
+// GOAL: ${principle.meaning ?? 'TODO: what the principle asks for, in one line'}
+
+${sections.join('\n')}`;
+};
+
+const buildAnswerSource = (principle: PrincipleEntry, id: string): string => {
+  const sections = PROBLEM_LEVELS.map(difficulty => {
+    const name = getComponentName(id, difficulty);
+    return `// ===== ${difficulty.toUpperCase()} - FIXED =====
+// ✅ SOLUTION: TODO - the fix in one line (shown with the answer)
+// WHY: TODO - why the fix matters (shown with the answer)
+export function ${name}() {
+  return <p>TODO: the fixed ${difficulty} code</p>;
+}
+`;
+  });
+
+  return `// ${principle.title.toUpperCase()} - CORRECT IMPLEMENTATIONS
+// This file shows how to TODO: the fix every example applies
+
+${sections.join('\n')}
+// ===== BONUS: TODO Advanced Pattern =====
+// 🔥 TODO - a pattern that goes further than the fixes above
+export function ${getComponentName(id, 'bonus')}() {
+  return <p>TODO: the bonus pattern</p>;
+}
+
+/*
+KEY PRINCIPLES DEMONSTRATED:
+
+1. **TODO**: The idea each fix relies on
+   - ✅ What to do
+   - ❌ What to avoid
+*/
+`;
+};
+
+const buildSpecSource = (principle: PrincipleEntry, id: string): string => {
+  const suites = PROBLEM_LEVELS.map(difficulty => {
+    const name = getComponentName(id, difficulty);
+    return `  describe('${difficulty}: ${name}', () => {
+    it('renders', () => {
+      const ${name} = exercise.component('${name}');
+      render(<${name} />);
+    });
+
+    it.todo('TODO: what a user observes once ${name} is fixed - it must fail on tests/ and pass on answers/');
+  });`;
+  });
+
+  return `// ${principle.title}: TODO - the behavior every fixed version shows
+
+import { describe, it } from 'vitest';
+import { render } from '@testing-library/react';
+import { describeExercise } from './support/exercise';
+
+describeExercise('${id}', exercise => {
+${suites.join('\n\n')}
+});
+`;
+};
+
+export const buildExerciseScaffold = (principle: PrincipleEntry, id: string = toExerciseId(principle.title)): ExerciseScaffold => {
+  if (!EXERCISE_ID_PATTERN.test(id)) {
+    throw new Error(`"${id}" is not a valid exercise id - use lowercase words separated by dashes, e.g. "use-reducers"`);
+  }
+
+  return {
+    id,
+    test: { path: `tests/${id}-test.tsx`, source: buildTestSource(principle, id) },
+    answer: { path: `answers/${id}-answer.tsx`, source: buildAnswerSource(principle, id) },
+    spec: { path: `specs/${id}.spec.tsx`, source: buildSpecSource(principle, id) }
+  };
+};
+
+// The README's structure tree lists every exercise file under tests/ and answers/ - new ones go last
+export const addToReadmeTree = (readme: string, id: string): string => {
+  const lines = readme.split('\n');
+
+  [['tests/', `${id}-test.tsx`], ['answers/', `${id}-answer.tsx`]].forEach(([folder, file]) => {
+    const folderIndex = lines.findIndex(line => line.startsWith(`├── ${folder} `));
+    if (folderIndex === -1) return;
+
+    let last = folderIndex;
+    while (lines[last + 1]?.startsWith('│   ')) last++;
+    if (lines.slice(folderIndex + 1, last + 1).some(line => line.endsWith(` ${file}`))) return;
+
+    if (last > folderIndex) lines[last] = lines[last].replace('│   └── ', '│   ├── ');
+    lines.splice(last + 1, 0, `│   └── ${file}`);
+  });
+
+  return lines.join('\n');
+};
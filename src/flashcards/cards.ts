@@ -0,0 +1,41 @@
+// Flashcards built from principles.md: one for each principle's key takeaways, one for its bad/good code contrast
+
+import type { CodeExample, Flashcard, PrinciplesDocument } from '../types';
+
+const isBad = (example: CodeExample) => example.label?.includes('❌') ?? false;
+const isGood = (example: CodeExample) => example.label?.includes('✅') ?? false;
+
+export const buildFlashcards = (document: PrinciplesDocument): Flashcard[] => {
+  return document.categories.flatMap(category =>
+    category.principles.flatMap(principle => {
+      const base = { principleAnchor: principle.anchor, principle: principle.title, category: category.title };
+      const cards: Flashcard[] = [];
+
+      if (principle.takeaways.length > 0) {
+        cards.push({
+          ...base,
+          id: `${principle.anchor}:takeaways`,
+          kind: 'takeaways',
+          prompt: `${principle.title} - what are the key takeaways?`,
+          answerItems: principle.takeaways
+        });
+      }
+
+      const bad = principle.examples.find(isBad);
+      const good = principle.examples.find(isGood);
+      if (bad && good) {
+        cards.push({
+          ...base,
+          id: `${principle.anchor}:contrast`,
+          kind: 'contrast',
+          prompt: `What is wrong here, and how does "${principle.title}" fix it?`,
+          promptCode: bad,
+          answerItems: principle.meaning ? [principle.meaning] : [],
+          answerCode: good
+        });
+      }
+
+      return cards;
+    })
+  );
+};
@@ -0,0 +1,6 @@
+// Every flashcard the app can show, built once from the parsed principles.md
+
+import { principlesDocument } from '../principles/document';
+import { buildFlashcards } from './cards';
+
+export const flashcards = buildFlashcards(principlesDocument);
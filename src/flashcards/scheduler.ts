@@ -0,0 +1,106 @@
+// SM-2 scheduling for the flashcards, and the review file kept in localStorage
+// Pure functions over a plain JSON object, like learner progress - the hook only decides where it is stored
+
+import type { CardReview, Flashcard, FlashcardReviews, ReviewGrade } from '../types';
+import { toDayKey } from '../exercises/progress';
+
+export interface ReviewQueue {
+  due: Flashcard[];
+  fresh: Flashcard[];
+  // The earliest day a card comes back once today's queue is done
+  nextDueDay?: string;
+}
+
+const INITIAL_EASE = 2.5;
+const MINIMUM_EASE = 1.3;
+// New cards introduced per day, so a fresh deck of 80 cards does not land in one sitting
+export const NEW_CARDS_PER_DAY = 10;
+
+export const createReviews = (): FlashcardReviews => ({ version: 1, cards: {} });
+
+export const addDays = (dayKey: string, days: number): string => {
+  const [year, month, day] = dayKey.split('-').map(Number);
+  return toDayKey(new Date(year, month - 1, day + days));
+};
+
+// SM-2 (Wozniak, 1990): a forgotten card (grade < 3) starts over and comes back today; the ease factor tracks how hard it is
+export const scheduleReview = (previous: CardReview | undefined, grade: ReviewGrade, now: Date): CardReview => {
+  const today = toDayKey(now);
+  const previousEase = previous?.easeFactor ?? INITIAL_EASE;
+  const easeFactor = Math.max(MINIMUM_EASE, previousEase + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)));
+
+  let repetitions = 0;
+  let interval = 0;
+  if (grade >= 3) {
+    repetitions = (previous?.repetitions ?? 0) + 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round((previous?.interval ?? 1) * previousEase);
+  }
+
+  return {
+    repetitions,
+    interval,
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    dueDay: addDays(today, interval),
+    introducedDay: previous?.introducedDay ?? today,
+    lastReviewedAt: now.toISOString()
+  };
+};
+
+export const recordReview = (
+  reviews: FlashcardReviews,
+  cardId: string,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): FlashcardReviews => {
+  return { ...reviews, cards: { ...reviews.cards, [cardId]: scheduleReview(reviews.cards[cardId], grade, now) } };
+};
+
+// Due cards oldest first (a card failed a moment ago goes to the back), then today's share of new cards in document order
+export const getReviewQueue = (cards: Flashcard[], reviews: FlashcardReviews, today: string): ReviewQueue => {
+  const due = cards
+    .filter(card => reviews.cards[card.id] && reviews.cards[card.id].dueDay <= today)
+    .sort((left, right) => {
+      const leftReview = reviews.cards[left.id];
+      const rightReview = reviews.cards[right.id];
+      return leftReview.dueDay.localeCompare(rightReview.dueDay)
+        || leftReview.lastReviewedAt.localeCompare(rightReview.lastReviewedAt);
+    });
+
+  const introducedToday = Object.values(reviews.cards).filter(review => review.introducedDay === today).length;
+  const fresh = cards
+    .filter(card => !reviews.cards[card.id])
+    .slice(0, Math.max(0, NEW_CARDS_PER_DAY - introducedToday));
+
+  const nextDueDay = cards
+    .map(card => reviews.cards[card.id]?.dueDay)
+    .filter((day): day is string => day !== undefined && day > today)
+    .sort()[0];
+
+  return { due, fresh, nextDueDay };
+};
+
+export const serializeReviews = (reviews: FlashcardReviews): string => JSON.stringify(reviews);
+
+const isCardReview = (value: unknown): value is CardReview => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { repetitions, interval, easeFactor, dueDay, introducedDay, lastReviewedAt } = value as Record<string, unknown>;
+  const isDay = (day: unknown) => typeof day === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(day);
+  return Number.isInteger(repetitions) && Number.isInteger(interval)
+    && typeof easeFactor === 'number' && easeFactor >= MINIMUM_EASE
+    && isDay(dueDay) && isDay(introducedDay)
+    && typeof lastReviewedAt === 'string' && !Number.isNaN(Date.parse(lastReviewedAt));
+};
+
+export const parseReviews = (text: string): FlashcardReviews => {
+  const data = JSON.parse(text) as Partial<FlashcardReviews> | null;
+  if (typeof data !== 'object' || data === null || data.version !== 1 || typeof data.cards !== 'object' || data.cards === null) {
+    throw new Error('Not a flashcard review file (expected "version": 1)');
+  }
+
+  Object.entries(data.cards).forEach(([cardId, review]) => {
+    if (!isCardReview(review)) throw new Error(`Flashcard review for ${cardId} is invalid`);
+  });
+  return { version: 1, cards: data.cards };
+};
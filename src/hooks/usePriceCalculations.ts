@@ -1,49 +1,20 @@
 // Example custom hook that demonstrates over-abstraction
-// This shows unnecessary separation of related price logic
+// This shows unnecessary separation of related price logic - a price view over useProductCatalog
 
-import { useState, useMemo } from 'react';
+import type { Product } from '../types';
+import { type CatalogOptions, useProductCatalog } from './useProductCatalog';
 
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  brand: string;
-  price: number;
-  rating: number;
-}
-
-export const usePriceCalculations = (products: Product[]) => {
-  const [minPrice, setMinPrice] = useState(0);
-  const [maxPrice, setMaxPrice] = useState(1000);
-
-  const priceFilteredProducts = useMemo(() => {
-    return products.filter(product => 
-      product.price >= minPrice && product.price <= maxPrice
-    );
-  }, [products, minPrice, maxPrice]);
-
-  const priceRange = useMemo(() => {
-    if (products.length === 0) return { min: 0, max: 1000 };
-    
-    const prices = products.map(p => p.price);
-    return {
-      min: Math.min(...prices),
-      max: Math.max(...prices)
-    };
-  }, [products]);
-
-  const averagePrice = useMemo(() => {
-    if (products.length === 0) return 0;
-    return products.reduce((sum, p) => sum + p.price, 0) / products.length;
-  }, [products]);
+export const usePriceCalculations = (products: Product[], options: CatalogOptions = {}) => {
+  const { query, results, facets, averagePrice, setMinPrice, setMaxPrice } = useProductCatalog(products, { maxPrice: 1000 }, options);
 
   return {
-    minPrice,
-    maxPrice,
+    minPrice: query.minPrice,
+    // Without an upper bound every product is listed, so the highest price in the catalog is the honest maximum to show
+    maxPrice: query.maxPrice ?? facets.priceRange.max,
     setMinPrice,
     setMaxPrice,
-    priceFilteredProducts,
-    priceRange,
+    priceFilteredProducts: results,
+    priceRange: facets.priceRange,
     averagePrice
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,122 @@
+// Product catalog hook - category, brand, price and sort kept in one reducer-managed query
+// Returns the products that match it, in order, along with the facets to build filter controls from
+
+import { useEffect, useMemo, useReducer, useRef, useState, type Dispatch } from 'react';
+import type { CatalogFacets, CatalogQuery, Product, SortOption } from '../types';
+import {
+  type CatalogAction,
+  DEFAULT_CATALOG_QUERY,
+  SORT_OPTIONS,
+  catalogReducer,
+  getAveragePrice,
+  getCatalogFacets,
+  runCatalogQuery
+} from '../catalog/catalogQuery';
+import { CATALOG_PARAMS, keepOfferedOptions, mergeCatalogQuery, parseCatalogQuery } from '../catalog/urlQuery';
+
+export interface CatalogOptions {
+  // Mirror the query in the URL's query string: it is read on mount, written on change and restored on back/forward
+  syncUrl?: boolean;
+}
+
+// Picking a category, brand or sort order is a step worth going back to; typing a price is not,
+// so price changes replace the current history entry instead of adding one per keystroke
+const isPriceOnlyChange = (previous: CatalogQuery, next: CatalogQuery) => {
+  return (Object.keys(CATALOG_PARAMS) as Array<keyof CatalogQuery>).every(field =>
+    field === 'minPrice' || field === 'maxPrice' || previous[field] === next[field]
+  );
+};
+
+const useUrlSync = (
+  enabled: boolean,
+  query: CatalogQuery,
+  base: CatalogQuery,
+  // Undefined until there are products, as there is nothing to check the URL's categories and brands against before that
+  facets: CatalogFacets | undefined,
+  dispatch: Dispatch<CatalogAction>
+) => {
+  const previousQuery = useRef(query);
+  // A query read back from the URL on back/forward is already in it - writing it again would cut off forward history
+  const restoredQuery = useRef<CatalogQuery>();
+  // A query corrected once products arrive fixes the current entry rather than adding a step to go back to
+  const correctedQuery = useRef<CatalogQuery>();
+  const isValidated = useRef(false);
+
+  useEffect(() => {
+    const previous = previousQuery.current;
+    previousQuery.current = query;
+    if (!enabled || previous === query || query === restoredQuery.current) return;
+
+    const search = mergeCatalogQuery(window.location.search, previous, query, base);
+    if (search === window.location.search) return;
+
+    const url = `${window.location.pathname}${search}${window.location.hash}`;
+    if (query === correctedQuery.current || isPriceOnlyChange(previous, query)) {
+      window.history.replaceState(window.history.state, '', url);
+    } else {
+      window.history.pushState(window.history.state, '', url);
+    }
+  }, [enabled, query, base]);
+
+  // Products that load after mount were not there when the URL was read, so its categories and brands are checked now
+  useEffect(() => {
+    if (!enabled || !facets || isValidated.current) return;
+    isValidated.current = true;
+
+    const offered = keepOfferedOptions(query, facets);
+    if (offered === query) return;
+    correctedQuery.current = offered;
+    dispatch({ type: 'replace', query: offered });
+  }, [enabled, query, facets, dispatch]);
+
+  useEffect(() => {
+    if (!enabled) return undefined;
+
+    const handlePopState = () => {
+      restoredQuery.current = parseCatalogQuery(window.location.search, { base, facets });
+      dispatch({ type: 'replace', query: restoredQuery.current });
+    };
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, [enabled, base, facets, dispatch]);
+};
+
+export const useProductCatalog = (
+  products: Product[],
+  initialQuery: Partial<CatalogQuery> = {},
+  { syncUrl = false }: CatalogOptions = {}
+) => {
+  // The starting query is what an absent URL parameter means, so it must not change between renders
+  const [base] = useState<CatalogQuery>(() => ({ ...DEFAULT_CATALOG_QUERY, ...initialQuery }));
+  const [query, dispatch] = useReducer(catalogReducer, base, initial =>
+    syncUrl && typeof window !== 'undefined'
+      ? parseCatalogQuery(window.location.search, {
+          base: initial,
+          facets: products.length > 0 ? getCatalogFacets(products) : undefined
+        })
+      : initial
+  );
+  const facets = useMemo(() => getCatalogFacets(products, query), [products, query]);
+
+  useUrlSync(syncUrl, query, base, products.length > 0 ? facets : undefined, dispatch);
+
+  const results = useMemo(() => runCatalogQuery(products, query), [products, query]);
+  const averagePrice = useMemo(() => getAveragePrice(products), [products]);
+
+  return {
+    query,
+    results,
+    facets,
+    averagePrice,
+    sortOptions: SORT_OPTIONS,
+    setCategories: (categories: string[]) => dispatch({ type: 'set-categories', categories }),
+    setBrands: (brands: string[]) => dispatch({ type: 'set-brands', brands }),
+    setMinPrice: (minPrice: number) => dispatch({ type: 'set-min-price', minPrice }),
+    setMaxPrice: (maxPrice?: number) => dispatch({ type: 'set-max-price', maxPrice }),
+    setMinRating: (minRating: number) => dispatch({ type: 'set-min-rating', minRating }),
+    setInStockOnly: (inStockOnly: boolean) => dispatch({ type: 'set-in-stock-only', inStockOnly }),
+    setOnSaleOnly: (onSaleOnly: boolean) => dispatch({ type: 'set-on-sale-only', onSaleOnly }),
+    setSortBy: (sortBy?: SortOption) => dispatch({ type: 'set-sort', sortBy }),
+    clearFilters: () => dispatch({ type: 'clear-filters' })
+  };
+};
@@ -1,42 +1,36 @@
 // Example custom hook that demonstrates over-abstraction
-// This shows splitting related functionality unnecessarily
+// This shows splitting related functionality unnecessarily - a view of the filters in useProductCatalog
 
-import { useState, useMemo } from 'react';
+import type { Product } from '../types';
+import { type CatalogOptions, useProductCatalog } from './useProductCatalog';
 
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  brand: string;
-  price: number;
-  rating: number;
-}
-
-export const useProductFilters = (products: Product[]) => {
-  const [categoryFilter, setCategoryFilter] = useState('');
-  const [brandFilter, setBrandFilter] = useState('');
-
-  const filteredProducts = useMemo(() => {
-    return products
-      .filter(product => !categoryFilter || product.category === categoryFilter)
-      .filter(product => !brandFilter || product.brand === brandFilter);
-  }, [products, categoryFilter, brandFilter]);
-
-  const categories = useMemo(() => {
-    return [...new Set(products.map(p => p.category))];
-  }, [products]);
-
-  const brands = useMemo(() => {
-    return [...new Set(products.map(p => p.brand))];
-  }, [products]);
+export const useProductFilters = (products: Product[], options: CatalogOptions = {}) => {
+  const {
+    query,
+    results,
+    facets,
+    setCategories,
+    setBrands,
+    setMinRating,
+    setInStockOnly,
+    setOnSaleOnly,
+    clearFilters
+  } = useProductCatalog(products, {}, options);
 
   return {
-    categoryFilter,
-    setCategoryFilter,
-    brandFilter,
-    setBrandFilter,
-    filteredProducts,
-    categories,
-    brands
+    categoryFilters: query.categories,
+    setCategoryFilters: setCategories,
+    brandFilters: query.brands,
+    setBrandFilters: setBrands,
+    minRating: query.minRating,
+    setMinRating,
+    inStockOnly: query.inStockOnly,
+    setInStockOnly,
+    onSaleOnly: query.onSaleOnly,
+    setOnSaleOnly,
+    clearFilters,
+    filteredProducts: results,
+    categories: facets.categories,
+    brands: facets.brands
   };
-};
\ No newline at end of file
+};
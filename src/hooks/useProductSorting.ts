@@ -1,53 +1,20 @@
 // Example custom hook that demonstrates over-abstraction
-// This shows unnecessary separation of sorting logic
+// This shows unnecessary separation of sorting logic - a sort view over useProductCatalog
 
-import { useState, useMemo } from 'react';
+import type { Product } from '../types';
+import { isSortOption } from '../catalog/catalogQuery';
+import { type CatalogOptions, useProductCatalog } from './useProductCatalog';
 
-interface Product {
-  id: string;
-  name: string;
-  category: string;
-  brand: string;
-  price: number;
-  rating: number;
-}
-
-type SortOption = 'name' | 'price-low' | 'price-high' | 'rating';
-
-export const useProductSorting = (products: Product[]) => {
-  const [sortBy, setSortBy] = useState<SortOption>('name');
-  
-  const setSortByString = (sortBy: string) => {
-    setSortBy(sortBy as SortOption);
-  };
-
-  const sortedProducts = useMemo(() => {
-    const sorted = [...products];
-    
-    switch (sortBy) {
-      case 'price-low':
-        return sorted.sort((a, b) => a.price - b.price);
-      case 'price-high':
-        return sorted.sort((a, b) => b.price - a.price);
-      case 'rating':
-        return sorted.sort((a, b) => b.rating - a.rating);
-      case 'name':
-      default:
-        return sorted.sort((a, b) => a.name.localeCompare(b.name));
-    }
-  }, [products, sortBy]);
-
-  const sortOptions = [
-    { value: 'name', label: 'Sort by Name' },
-    { value: 'price-low', label: 'Price: Low to High' },
-    { value: 'price-high', label: 'Price: High to Low' },
-    { value: 'rating', label: 'Sort by Rating' }
-  ] as const;
+export const useProductSorting = (products: Product[], options: CatalogOptions = {}) => {
+  const { query, results, sortOptions, setSortBy } = useProductCatalog(products, { sortBy: 'name' }, options);
 
   return {
-    sortBy,
-    setSortBy: setSortByString,
-    sortedProducts,
+    sortBy: query.sortBy ?? 'name',
+    // SortDropdown hands back the <select>'s string; anything that is not a sort option is ignored
+    setSortBy: (sortBy: string) => {
+      if (isSortOption(sortBy)) setSortBy(sortBy);
+    },
+    sortedProducts: results,
     sortOptions
   };
-};
\ No newline at end of file
+};
@@ -13,10 +13,24 @@ export * from './components/PriceRange';
 export * from './hooks/useProductFilters';
 export * from './hooks/usePriceCalculations';
 export * from './hooks/useProductSorting';
+export * from './hooks/useProductCatalog';
+
+// Catalog
+export * from './catalog/catalogQuery';
+export * from './catalog/urlQuery';
+export * from './catalog/pricing';
 
 // Utils
 export * from './utils/userHelpers';
 export * from './utils/errorFormatting';
 
 // Validators
-export * from './validators/userValidation';
\ No newline at end of file
+export * from './validators/userValidation';
+
+// Exercises
+export * from './exercises/parseExercise';
+export * from './exercises/registry';
+
+// Mock API
+export * from './mockApi/createMockApi';
+export * from './mockApi/mockFetch';
@@ -0,0 +1,76 @@
+// Mock API core shared by the Vite dev middleware and the fetch interceptor used in tests
+// Adds configurable latency and injected failures on top of the route table
+
+import type { ValidationError } from '../types';
+import { failure, handleMockRequest, type MockRequest, type MockResponse } from './routes';
+
+export type MockLatency = number | { min: number; max: number };
+
+export interface MockFailure {
+  status: number;
+  message?: string;
+  errors?: ValidationError[];
+}
+
+export interface MockApiOptions {
+  // Delay before every response, in milliseconds
+  latency?: MockLatency;
+  // Share of requests (0-1) that fail with a 500, to exercise error and retry paths
+  failureRate?: number;
+  // Forced responses keyed by "METHOD /api/path", e.g. { 'GET /api/data': { status: 503 } }
+  failures?: Record<string, MockFailure>;
+  random?: () => number;
+}
+
+export interface MockApi {
+  handle: (request: Omit<MockRequest, 'params'>) => Promise<MockResponse>;
+}
+
+export const DEFAULT_MOCK_API_OPTIONS: Required<Omit<MockApiOptions, 'failures'>> = {
+  latency: { min: 200, max: 800 },
+  failureRate: 0,
+  random: Math.random
+};
+
+const STATUS_MESSAGES: Record<number, string> = {
+  400: 'Bad request',
+  401: 'Unauthorized',
+  404: 'Not found',
+  422: 'Validation failed',
+  429: 'Too many requests',
+  500: 'Internal server error',
+  503: 'Service unavailable'
+};
+
+const resolveLatency = (latency: MockLatency, random: () => number): number => {
+  if (typeof latency === 'number') return latency;
+  return Math.round(latency.min + random() * (latency.max - latency.min));
+};
+
+const wait = (milliseconds: number) => new Promise<void>(resolve => setTimeout(resolve, milliseconds));
+
+export const createMockApi = (options: MockApiOptions = {}): MockApi => {
+  const { latency, failureRate, random } = { ...DEFAULT_MOCK_API_OPTIONS, ...options };
+
+  if (failureRate < 0 || failureRate > 1) {
+    throw new Error(`failureRate must be between 0 and 1, received ${failureRate}`);
+  }
+
+  return {
+    handle: async request => {
+      const delay = resolveLatency(latency, random);
+      if (delay > 0) await wait(delay);
+
+      const forced = options.failures?.[`${request.method.toUpperCase()} ${request.path}`];
+      if (forced) {
+        return failure(forced.status, forced.message ?? STATUS_MESSAGES[forced.status] ?? 'Request failed', forced.errors);
+      }
+
+      if (failureRate > 0 && random() < failureRate) {
+        return failure(500, 'Simulated server failure');
+      }
+
+      return handleMockRequest(request);
+    }
+  };
+};
@@ -0,0 +1,210 @@
+// Realistic sample data served by the mock API and passed to exercise previews
+// Shapes follow src/types, widened with the extra fields the exercises read
+
+import type { Product, User } from '../types';
+import { validateDiscount } from '../catalog/pricing';
+
+const DAY = 24 * 60 * 60 * 1000;
+const daysFromNow = (days: number): string => new Date(Date.now() + days * DAY).toISOString();
+
+export interface MockUser extends User {
+  name: string;
+  role: 'admin' | 'manager' | 'developer' | 'designer';
+  isActive: boolean;
+  lastLoginDate: string;
+}
+
+export interface MockProduct extends Product {
+  description: string;
+  inventory: number;
+  imageUrl: string;
+  images: { url: string; alt: string }[];
+}
+
+export interface MockPost {
+  id: string;
+  userId: string;
+  title: string;
+  content: string;
+  createdAt: string;
+}
+
+export interface MockProject {
+  id: string;
+  name: string;
+  description: string;
+  status: 'planning' | 'active' | 'completed' | 'cancelled';
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  startDate: string;
+  dueDate?: string;
+  completedAt?: string;
+  ownerId: string;
+  createdAt: string;
+}
+
+export interface MockTask {
+  id: string;
+  name: string;
+  title: string;
+  description: string;
+  projectId: string;
+  assignedTo: string;
+  status: 'todo' | 'in-progress' | 'review' | 'completed';
+  priority: 'low' | 'medium' | 'high' | 'critical';
+  completed: boolean;
+  createdAt: string;
+  dueDate?: string;
+  completedAt?: string;
+  estimatedHours?: number;
+}
+
+export interface MockOrder {
+  id: string;
+  customerName: string;
+  total: number;
+  status: 'pending' | 'fulfilled' | 'cancelled';
+  createdAt: string;
+}
+
+const createUser = (
+  id: string,
+  firstName: string,
+  lastName: string,
+  role: MockUser['role'],
+  details: Partial<MockUser> = {}
+): MockUser => ({
+  id,
+  firstName,
+  lastName,
+  name: `${firstName} ${lastName}`,
+  email: `${firstName}.${lastName}@example.com`.toLowerCase(),
+  phone: '555-0100',
+  address: '42 Market Street, Springfield',
+  badges: ['verified'],
+  createdAt: daysFromNow(-400),
+  subscriptionLevel: 'pro',
+  role,
+  isActive: true,
+  lastLoginDate: daysFromNow(-2),
+  ...details
+});
+
+export const users: MockUser[] = [
+  createUser('user-1', 'Ada', 'Lovelace', 'admin', { subscriptionLevel: 'premium' }),
+  createUser('user-2', 'Grace', 'Hopper', 'manager'),
+  createUser('user-3', 'Alan', 'Turing', 'developer', { badges: [], lastLoginDate: daysFromNow(-45) }),
+  createUser('user-4', 'Margaret', 'Hamilton', 'designer', { subscriptionLevel: 'basic', phone: undefined }),
+  createUser('user-5', 'Linus', 'Torvalds', 'developer', { isActive: false, lastLoginDate: daysFromNow(-90) })
+];
+
+const createProduct = (
+  id: string,
+  name: string,
+  category: string,
+  brand: string,
+  price: number,
+  rating: number,
+  details: Partial<MockProduct> = {}
+): MockProduct => {
+  const product: MockProduct = {
+    id,
+    name,
+    category,
+    brand,
+    price,
+    rating,
+    inStock: true,
+    description: `${brand} ${name} - a dependable pick in ${category.toLowerCase()}.`,
+    inventory: 25,
+    imageUrl: `/images/${id}.jpg`,
+    images: [{ url: `/images/${id}.jpg`, alt: name }],
+    ...details
+  };
+  // Every product the app shows comes from here, so a bad discount fails on load rather than in a render
+  validateDiscount(product);
+  return product;
+};
+
+export const products: MockProduct[] = [
+  createProduct('prod-1', 'Noise-Cancelling Headphones', 'Electronics', 'Sonic', 249.99, 4.7, { discount: 15 }),
+  createProduct('prod-2', 'Mechanical Keyboard', 'Electronics', 'KeyCraft', 129, 4.5),
+  createProduct('prod-3', '4K Monitor', 'Electronics', 'ViewMax', 399.5, 4.2, { inventory: 0, inStock: false }),
+  createProduct('prod-4', 'Trail Running Shoes', 'Sports', 'Stride', 89.95, 4.4, { discount: 20 }),
+  createProduct('prod-5', 'Yoga Mat', 'Sports', 'Zenfit', 35, 4.1),
+  createProduct('prod-6', 'Chef Knife', 'Kitchen', 'Edge', 74.5, 4.8),
+  createProduct('prod-7', 'Pour-Over Coffee Set', 'Kitchen', 'Brewly', 48, 3.9, { inventory: 3 }),
+  createProduct('prod-8', 'Hardcover Notebook', 'Office', 'Paperline', 14.99, 4.6),
+  createProduct('prod-9', 'Ergonomic Chair', 'Office', 'SitWell', 289, 3.6, { discount: 10, inventory: 0, inStock: false }),
+  createProduct('prod-10', 'Smart Watch', 'Electronics', 'Sonic', 199, 4.0)
+];
+
+export const posts: MockPost[] = [
+  { id: 'post-1', userId: 'user-1', title: 'Deriving state instead of syncing it', content: 'Most useEffect calls that set state can be replaced with a calculation during render.', createdAt: daysFromNow(-1) },
+  { id: 'post-2', userId: 'user-1', title: 'Why status beats booleans', content: 'A single status value makes impossible states impossible.', createdAt: daysFromNow(-12) },
+  { id: 'post-3', userId: 'user-2', title: 'Composition in practice', content: 'Children and slots keep components flexible without prop explosions.', createdAt: daysFromNow(-3) },
+  { id: 'post-4', userId: 'user-3', title: 'Testing behaviour', content: 'Assert on what the user sees, not on implementation details.', createdAt: daysFromNow(-30) }
+];
+
+export const projects: MockProject[] = [
+  { id: 'proj-1', name: 'Checkout Redesign', description: 'Simplify the payment flow', status: 'active', priority: 'high', startDate: daysFromNow(-30), dueDate: daysFromNow(14), ownerId: 'user-2', createdAt: daysFromNow(-30) },
+  { id: 'proj-2', name: 'Design System', description: 'Shared component library', status: 'active', priority: 'medium', startDate: daysFromNow(-60), dueDate: daysFromNow(-5), ownerId: 'user-4', createdAt: daysFromNow(-60) },
+  { id: 'proj-3', name: 'Analytics Migration', description: 'Move tracking to the new pipeline', status: 'completed', priority: 'low', startDate: daysFromNow(-120), completedAt: daysFromNow(-10), ownerId: 'user-1', createdAt: daysFromNow(-120) },
+  { id: 'proj-4', name: 'Mobile App', description: 'Native shell for the storefront', status: 'planning', priority: 'critical', startDate: daysFromNow(7), ownerId: 'user-2', createdAt: daysFromNow(-2) }
+];
+
+const createTask = (
+  id: string,
+  title: string,
+  projectId: string,
+  assignedTo: string,
+  status: MockTask['status'],
+  priority: MockTask['priority'],
+  details: Partial<MockTask> = {}
+): MockTask => ({
+  id,
+  name: title,
+  title,
+  description: `${title} for ${projectId}`,
+  projectId,
+  assignedTo,
+  status,
+  priority,
+  completed: status === 'completed',
+  createdAt: daysFromNow(-20),
+  estimatedHours: 8,
+  ...details
+});
+
+export const tasks: MockTask[] = [
+  createTask('task-1', 'Audit payment form', 'proj-1', 'user-3', 'completed', 'high', { completedAt: daysFromNow(-3) }),
+  createTask('task-2', 'Replace boolean flags with status', 'proj-1', 'user-3', 'in-progress', 'high', { dueDate: daysFromNow(0.5) }),
+  createTask('task-3', 'Card form validation', 'proj-1', 'user-5', 'todo', 'medium', { dueDate: daysFromNow(10) }),
+  createTask('task-4', 'Button variants', 'proj-2', 'user-4', 'review', 'medium', { dueDate: daysFromNow(-2) }),
+  createTask('task-5', 'Modal composition API', 'proj-2', 'user-4', 'completed', 'low', { completedAt: daysFromNow(-8) }),
+  createTask('task-6', 'Event schema', 'proj-3', 'user-1', 'completed', 'low', { completedAt: daysFromNow(-12) }),
+  createTask('task-7', 'Navigation prototype', 'proj-4', 'user-2', 'todo', 'critical', { dueDate: daysFromNow(1) })
+];
+
+export const orders: MockOrder[] = [
+  { id: '1001', customerName: 'Ada Lovelace', total: 249.99, status: 'pending', createdAt: daysFromNow(-0.2) },
+  { id: '1002', customerName: 'Grace Hopper', total: 89.95, status: 'fulfilled', createdAt: daysFromNow(-1) },
+  { id: '1003', customerName: 'Alan Turing', total: 412.5, status: 'cancelled', createdAt: daysFromNow(-2) }
+];
+
+export const analytics = {
+  totalRevenue: 48210.75,
+  activeUsers: 1284,
+  ordersToday: 37
+};
+
+export const weather = {
+  temp: 21,
+  condition: 'Partly cloudy',
+  location: 'Springfield'
+};
+
+export const sampleData = {
+  id: 'data-1',
+  items: ['status', 'instead', 'of', 'booleans'],
+  fetchedAt: daysFromNow(0)
+};
@@ -0,0 +1,64 @@
+// Fetch interceptor that answers /api/* requests in-process - used by tests, where no dev server runs
+// Anything outside /api/ is passed through to the original fetch
+
+import { createMockApi, type MockApiOptions } from './createMockApi';
+
+interface FetchHost {
+  fetch: typeof fetch;
+  location?: { origin: string };
+}
+
+export const parseRequestBody = (text: string, contentType: string | null): unknown => {
+  if (!text) return undefined;
+
+  if (contentType?.includes('application/x-www-form-urlencoded')) {
+    return Object.fromEntries(new URLSearchParams(text));
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Tests get instant responses unless they ask for latency
+export const createMockFetch = (
+  originalFetch: typeof fetch,
+  options: MockApiOptions = {},
+  origin = 'http://localhost'
+): typeof fetch => {
+  const api = createMockApi({ latency: 0, ...options });
+
+  return async (input, init) => {
+    const request = new Request(typeof input === 'string' ? new URL(input, origin) : input, init);
+    const url = new URL(request.url);
+
+    if (!url.pathname.startsWith('/api/')) {
+      return originalFetch(input, init);
+    }
+
+    const response = await api.handle({
+      method: request.method,
+      path: url.pathname,
+      query: url.searchParams,
+      headers: request.headers,
+      body: parseRequestBody(await request.text(), request.headers.get('Content-Type'))
+    });
+
+    return new Response(JSON.stringify(response.body), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  };
+};
+
+// Returns an uninstall function that restores the original fetch
+export const installMockFetch = (options: MockApiOptions = {}, host: FetchHost = globalThis): (() => void) => {
+  const originalFetch = host.fetch;
+  host.fetch = createMockFetch(originalFetch.bind(host), options, host.location?.origin);
+
+  return () => {
+    host.fetch = originalFetch;
+  };
+};
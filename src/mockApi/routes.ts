@@ -0,0 +1,255 @@
+// Route table for the mock API behind the exercises' fetch('/api/...') calls
+// Reads return the payload shape the exercise components already consume;
+// errors and fire-and-forget mutations use the ApiResponse envelope from src/types
+
+import type { ApiResponse, ValidationError } from '../types';
+import { analytics, orders, posts, products, projects, sampleData, tasks, users, weather, type MockUser } from './fixtures';
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  params: Record<string, string>;
+  query: URLSearchParams;
+  headers: Headers;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status: number;
+  body: unknown;
+}
+
+export interface MockRoute {
+  method: string;
+  pattern: string;
+  handle: (request: MockRequest) => MockResponse;
+}
+
+type RequestBody = Record<string, unknown>;
+
+const ok = <T>(data: T, status = 200): MockResponse => ({ status, body: data });
+
+const success = <T>(data: T, message: string): MockResponse => {
+  const body: ApiResponse<T> = { success: true, data, message };
+  return { status: 200, body };
+};
+
+export const failure = (status: number, message: string, errors?: ValidationError[]): MockResponse => {
+  const body: ApiResponse<null> = { success: false, data: null, message, errors };
+  return { status, body };
+};
+
+const asRecord = (value: unknown): RequestBody => {
+  return value && typeof value === 'object' ? value as RequestBody : {};
+};
+
+const EMAIL_PATTERN = /\S+@\S+\.\S+/;
+
+// Collects one error per failing field, in the order the fields are listed
+const validate = (body: RequestBody, rules: Record<string, (value: unknown) => string | null>): ValidationError[] => {
+  return Object.entries(rules)
+    .map(([field, rule]) => ({ field, message: rule(body[field]) }))
+    .filter((error): error is ValidationError => error.message !== null);
+};
+
+const required = (label: string) => (value: unknown) =>
+  typeof value === 'string' && value.trim() ? null : `${label} is required`;
+
+const email = (value: unknown) => {
+  if (typeof value !== 'string' || !value.trim()) return 'Email is required';
+  return EMAIL_PATTERN.test(value) ? null : 'Email is invalid';
+};
+
+const rejectInvalid = (errors: ValidationError[], onValid: () => MockResponse): MockResponse => {
+  return errors.length > 0 ? failure(422, 'Validation failed', errors) : onValid();
+};
+
+const findUser = (id: string) => users.find(user => user.id === id);
+
+const withUser = (id: string, respond: (user: MockUser) => MockResponse): MockResponse => {
+  const user = findUser(id);
+  return user ? respond(user) : failure(404, `User ${id} not found`);
+};
+
+const sortProducts = (list: typeof products, sort: string | null) => {
+  const sorted = [...list];
+  switch (sort) {
+    case 'price':
+    case 'price-low':
+      return sorted.sort((a, b) => a.price - b.price);
+    case 'price-high':
+      return sorted.sort((a, b) => b.price - a.price);
+    case 'rating':
+      return sorted.sort((a, b) => b.rating - a.rating);
+    default:
+      return sorted.sort((a, b) => a.name.localeCompare(b.name));
+  }
+};
+
+export const routes: MockRoute[] = [
+  { method: 'GET', pattern: '/api/data', handle: () => ok(sampleData) },
+  { method: 'GET', pattern: '/api/weather', handle: () => ok(weather) },
+  { method: 'POST', pattern: '/api/track', handle: () => success(null, 'Event tracked') },
+
+  {
+    method: 'GET',
+    pattern: '/api/products',
+    handle: ({ query }) => {
+      const search = query.get('search');
+      const category = query.get('category');
+
+      // Search responses are wrapped, catalog listings are plain arrays - both shapes appear in the exercises
+      if (search !== null) {
+        const term = search.toLowerCase();
+        const matches = products.filter(product =>
+          product.name.toLowerCase().includes(term) || product.category.toLowerCase().includes(term)
+        );
+        return ok({ products: matches, total: matches.length });
+      }
+
+      const inCategory = !category || category === 'all'
+        ? products
+        : products.filter(product => product.category.toLowerCase() === category.toLowerCase());
+      return ok(sortProducts(inCategory, query.get('sort')));
+    }
+  },
+
+  { method: 'GET', pattern: '/api/user', handle: () => ok(users[0]) },
+  { method: 'GET', pattern: '/api/users', handle: () => ok(users) },
+  {
+    method: 'POST',
+    pattern: '/api/users',
+    handle: ({ body }) => {
+      const fields = asRecord(body);
+      return rejectInvalid(
+        validate(fields, { name: required('Name'), email }),
+        () => ok({ id: `user-${users.length + 1}`, isActive: true, ...fields }, 201)
+      );
+    }
+  },
+  { method: 'DELETE', pattern: '/api/users/bulk', handle: () => success(null, 'Users deleted') },
+  { method: 'DELETE', pattern: '/api/users/bulk-delete', handle: () => success(null, 'Users deleted') },
+  { method: 'GET', pattern: '/api/users/:id', handle: ({ params }) => withUser(params.id, ok) },
+  {
+    method: 'GET',
+    pattern: '/api/users/:id/posts',
+    handle: ({ params }) => withUser(params.id, user => ok(posts.filter(post => post.userId === user.id)))
+  },
+  {
+    method: 'PUT',
+    pattern: '/api/users/:id',
+    handle: ({ params, body }) => withUser(params.id, user => ok({ ...user, ...asRecord(body) }))
+  },
+  {
+    method: 'PATCH',
+    pattern: '/api/users/:id',
+    handle: ({ params, body }) => withUser(params.id, user => ok({ ...user, ...asRecord(body) }))
+  },
+  { method: 'DELETE', pattern: '/api/users/:id', handle: ({ params }) => withUser(params.id, () => success(null, 'User deleted')) },
+  { method: 'POST', pattern: '/api/users/:id/activate', handle: ({ params }) => withUser(params.id, user => ok({ ...user, isActive: true })) },
+  { method: 'POST', pattern: '/api/users/:id/deactivate', handle: ({ params }) => withUser(params.id, user => ok({ ...user, isActive: false })) },
+  {
+    method: 'POST',
+    pattern: '/api/users/:id/reset-password',
+    handle: ({ params }) => withUser(params.id, user => success(null, `Password reset sent to ${user.email}`))
+  },
+
+  { method: 'GET', pattern: '/api/projects', handle: () => ok(projects) },
+  { method: 'GET', pattern: '/api/tasks', handle: () => ok(tasks) },
+
+  {
+    method: 'POST',
+    pattern: '/api/contact',
+    handle: ({ body }) => {
+      const fields = asRecord(body);
+      return rejectInvalid(
+        validate(fields, { email, message: required('Message') }),
+        () => success(null, 'Message sent')
+      );
+    }
+  },
+  {
+    method: 'POST',
+    pattern: '/api/register',
+    handle: ({ body }) => {
+      const personalInfo = asRecord(asRecord(body).personalInfo);
+      const errors = validate(personalInfo, {
+        firstName: required('First name'),
+        lastName: required('Last name'),
+        email
+      }).map(error => ({ ...error, field: `personalInfo.${error.field}` }));
+
+      return rejectInvalid(errors, () => ok({ user: { ...users[0], ...personalInfo, preferences: {} }, token: 'mock-token' }, 201));
+    }
+  },
+  {
+    method: 'POST',
+    pattern: '/api/auth/login',
+    handle: ({ body }) => {
+      const fields = asRecord(body);
+      const errors = validate(fields, { email, password: required('Password') });
+      if (errors.length > 0) return failure(422, 'Validation failed', errors);
+
+      const user = users.find(candidate => candidate.email === fields.email);
+      return user ? ok({ user, token: 'mock-token' }) : failure(401, 'Invalid email or password');
+    }
+  },
+  {
+    method: 'GET',
+    pattern: '/api/auth/verify',
+    handle: ({ headers }) => headers.get('Authorization')?.startsWith('Bearer ')
+      ? ok(users[0])
+      : failure(401, 'Missing or invalid token')
+  },
+
+  { method: 'GET', pattern: '/api/admin/users', handle: () => ok(users) },
+  { method: 'GET', pattern: '/api/admin/orders', handle: () => ok(orders) },
+  { method: 'GET', pattern: '/api/admin/analytics', handle: () => ok(analytics) },
+  {
+    method: 'POST',
+    pattern: '/api/admin/users/:id/:action',
+    handle: ({ params }) => withUser(params.id, user => success({ id: user.id, action: params.action }, `User ${params.action} applied`))
+  },
+  {
+    method: 'POST',
+    pattern: '/api/admin/orders/:id/:action',
+    handle: ({ params }) => {
+      const order = orders.find(candidate => candidate.id === params.id);
+      return order
+        ? success({ id: order.id, action: params.action }, `Order ${params.action} applied`)
+        : failure(404, `Order ${params.id} not found`);
+    }
+  }
+];
+
+export const matchRoute = (method: string, path: string) => {
+  const pathSegments = path.split('/').filter(Boolean);
+
+  for (const route of routes) {
+    if (route.method !== method.toUpperCase()) continue;
+
+    const patternSegments = route.pattern.split('/').filter(Boolean);
+    if (patternSegments.length !== pathSegments.length) continue;
+
+    const params: Record<string, string> = {};
+    const isMatch = patternSegments.every((segment, index) => {
+      if (segment.startsWith(':')) {
+        params[segment.slice(1)] = decodeURIComponent(pathSegments[index]);
+        return true;
+      }
+      return segment === pathSegments[index];
+    });
+
+    if (isMatch) return { route, params };
+  }
+
+  return null;
+};
+
+export const handleMockRequest = (request: Omit<MockRequest, 'params'>): MockResponse => {
+  const match = matchRoute(request.method, request.path);
+  if (!match) {
+    return failure(404, `No mock route for ${request.method} ${request.path}`);
+  }
+  return match.route.handle({ ...request, params: match.params });
+};
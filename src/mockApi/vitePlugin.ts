@@ -0,0 +1,64 @@
+// Vite plugin serving the mock API from the dev and preview servers
+// The exercise previews call /api/* over real HTTP, so latency and failures show up in the network tab
+
+import type { IncomingMessage } from 'node:http';
+import type { Connect, Plugin } from 'vite';
+import { createMockApi, type MockApiOptions } from './createMockApi';
+import { parseRequestBody } from './mockFetch';
+
+const readRequestText = (request: IncomingMessage): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    request.setEncoding('utf8');
+    request.on('data', chunk => {
+      text += chunk;
+    });
+    request.on('end', () => resolve(text));
+    request.on('error', reject);
+  });
+};
+
+const toHeaders = (request: IncomingMessage): Headers => {
+  const headers = new Headers();
+  Object.entries(request.headers).forEach(([name, value]) => {
+    if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+  });
+  return headers;
+};
+
+export const mockApiPlugin = (options: MockApiOptions = {}): Plugin => {
+  const api = createMockApi(options);
+
+  const middleware: Connect.NextHandleFunction = (request, response, next) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    if (!url.pathname.startsWith('/api/')) {
+      next();
+      return;
+    }
+
+    readRequestText(request)
+      .then(text => api.handle({
+        method: request.method ?? 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        headers: toHeaders(request),
+        body: parseRequestBody(text, request.headers['content-type'] ?? null)
+      }))
+      .then(result => {
+        response.statusCode = result.status;
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify(result.body));
+      })
+      .catch(next);
+  };
+
+  return {
+    name: 'design-principles-mock-api',
+    configureServer(server) {
+      server.middlewares.use(middleware);
+    },
+    configurePreviewServer(server) {
+      server.middlewares.use(middleware);
+    }
+  };
+};
@@ -0,0 +1,113 @@
+// Renders the live components of one exercise level inside the preview iframe
+// Reads ?exercise=<id>&difficulty=<level>&side=test|answer from the URL
+
+import { useEffect, useState, type ComponentType } from 'react';
+import type { Difficulty } from '../types';
+import { getExercise, getSection } from '../exercises/registry';
+import { getPreviewProps } from './previewProps';
+import { PreviewErrorBoundary } from './PreviewErrorBoundary';
+
+type ExerciseModule = Record<string, unknown>;
+
+type ModuleState =
+  | { status: 'loading' }
+  | { status: 'ready'; module: ExerciseModule }
+  | { status: 'error'; message: string };
+
+const exerciseModules = import.meta.glob<ExerciseModule>(['/tests/*-test.tsx', '/answers/*-answer.tsx']);
+
+interface PreviewAppProps {
+  exerciseId: string;
+  difficulty: Difficulty;
+  side: 'test' | 'answer';
+}
+
+export function PreviewApp({ exerciseId, difficulty, side }: PreviewAppProps) {
+  const [moduleState, setModuleState] = useState<ModuleState>({ status: 'loading' });
+
+  const exercise = getExercise(exerciseId);
+  const section = exercise ? getSection(exercise, difficulty, side) : undefined;
+  const loadModule = exercise ? exerciseModules[`/${exercise[side].path}`] : undefined;
+
+  useEffect(() => {
+    if (!loadModule) return;
+
+    let isCurrent = true;
+    loadModule()
+      .then(module => isCurrent && setModuleState({ status: 'ready', module }))
+      .catch((error: Error) => isCurrent && setModuleState({ status: 'error', message: error.message }));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [loadModule]);
+
+  if (!exercise || !section || !loadModule) {
+    return <p className="preview-message">No {side} code for {exerciseId} ({difficulty}).</p>;
+  }
+
+  if (moduleState.status === 'loading') {
+    return <p className="preview-message">Loading {exercise[side].path}...</p>;
+  }
+
+  if (moduleState.status === 'error') {
+    return <p className="preview-message" role="alert">Could not load {exercise[side].path}: {moduleState.message}</p>;
+  }
+
+  const components = section.components.map(name => ({
+    name,
+    Component: moduleState.module[name] as ComponentType<Record<string, unknown>> | undefined,
+    props: getPreviewProps(exerciseId, name)
+  }));
+
+  // Components that need props without a preview fixture are shown through the components that render them
+  const previewable = components.filter(({ Component, props }) =>
+    typeof Component === 'function' && (props !== undefined || (!isClassComponent(Component) && Component.length === 0))
+  );
+  const skipped = components.filter(component => !previewable.includes(component));
+
+  return (
+    <div className="preview-app">
+      {previewable.map(({ name, Component, props }) => (
+        <PreviewItem key={name} name={name} Component={Component!} props={props ?? {}} />
+      ))}
+
+      {skipped.length > 0 && (
+        <p className="preview-message">
+          Rendered through the components above: {skipped.map(({ name }) => name).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
+
+interface PreviewItemProps {
+  name: string;
+  Component: ComponentType<Record<string, unknown>>;
+  props: Record<string, unknown>;
+}
+
+function PreviewItem({ name, Component, props }: PreviewItemProps) {
+  const [mountCount, setMountCount] = useState(0);
+  const remount = () => setMountCount(count => count + 1);
+
+  return (
+    <section className="preview-item">
+      <header className="preview-item-header">
+        <h2>&lt;{name} /&gt;</h2>
+        <button type="button" className="btn btn-secondary btn-small" onClick={remount}>
+          Remount
+        </button>
+      </header>
+      <div className="preview-item-body">
+        <PreviewErrorBoundary key={mountCount} componentName={name} onReset={remount}>
+          <Component {...props} />
+        </PreviewErrorBoundary>
+      </div>
+    </section>
+  );
+}
+
+function isClassComponent(Component: ComponentType<Record<string, unknown>>): boolean {
+  return Boolean((Component as { prototype?: { isReactComponent?: unknown } }).prototype?.isReactComponent);
+}
@@ -0,0 +1,41 @@
+// Catches render errors from a single exercise component so one crash never takes down the others
+
+import React from 'react';
+
+interface PreviewErrorBoundaryProps {
+  componentName: string;
+  onReset: () => void;
+  children: React.ReactNode;
+}
+
+interface PreviewErrorBoundaryState {
+  error: Error | null;
+}
+
+export class PreviewErrorBoundary extends React.Component<PreviewErrorBoundaryProps, PreviewErrorBoundaryState> {
+  state: PreviewErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): PreviewErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, errorInfo: React.ErrorInfo) {
+    console.error(`${this.props.componentName} crashed in the preview:`, error, errorInfo.componentStack);
+  }
+
+  render() {
+    if (this.state.error) {
+      return (
+        <div className="preview-error" role="alert">
+          <h3>💥 {this.props.componentName} crashed</h3>
+          <pre>{this.state.error.message}</pre>
+          <button type="button" className="btn btn-secondary btn-small" onClick={this.props.onReset}>
+            Remount
+          </button>
+        </div>
+      );
+    }
+
+    return this.props.children;
+  }
+}
@@ -0,0 +1,24 @@
+import React from 'react'
+import ReactDOM from 'react-dom/client'
+import type { Difficulty } from '../types'
+import { PreviewApp } from './PreviewApp'
+import '../index.css'
+import '../styles.css'
+import './preview.css'
+
+// /api/* is answered by the mock API dev middleware; the admin dashboard also expects to be logged in
+if (!localStorage.getItem('authToken')) {
+  localStorage.setItem('authToken', 'mock-token')
+}
+
+const params = new URLSearchParams(window.location.search)
+
+ReactDOM.createRoot(document.getElementById('root')!).render(
+  <React.StrictMode>
+    <PreviewApp
+      exerciseId={params.get('exercise') ?? ''}
+      difficulty={(params.get('difficulty') ?? 'easy') as Difficulty}
+      side={params.get('side') === 'answer' ? 'answer' : 'test'}
+    />
+  </React.StrictMode>,
+)
@@ -0,0 +1,52 @@
+// Props for exercise components that cannot render on their own
+// Keyed by exercise id, then component name - shared by the problem and answer versions
+
+import { products, projects, tasks, users } from '../mockApi/fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const analyticsData = Array.from({ length: 30 }, (_, index) => ({
+  timestamp: new Date(Date.now() - index * DAY).toISOString(),
+  revenue: 1200 + ((index * 137) % 500),
+  users: 80 + ((index * 31) % 40),
+  conversions: 10 + ((index * 7) % 9)
+}));
+
+export const previewProps: Record<string, Record<string, Record<string, unknown>>> = {
+  'copy-over-abstraction': {
+    LoadingSpinner: {},
+    PrimaryButton: { children: 'Save changes', onClick: () => {} },
+    DangerButton: { children: 'Delete account', confirmText: 'Are you sure?', onClick: () => {} }
+  },
+  'defensive-programming': {
+    UserProfile: { user: users[0] }
+  },
+  'derivable-state': {
+    ShoppingCart: { items: [{ id: 1, price: 25 }, { id: 2, price: 15 }] },
+    UserProfile: { user: users[0] },
+    ProjectDashboard: { projects, users, tasks },
+    AdvancedAnalyticsDashboard: { rawData: analyticsData }
+  },
+  'locality-of-behavior': {
+    UserGreeting: { user: users[0] },
+    ProductListing: { products }
+  },
+  'ui-pure-function': {
+    RandomQuote: {
+      quotes: [
+        { text: 'Simplicity is prerequisite for reliability.', author: 'Edsger W. Dijkstra' },
+        { text: 'Make it work, make it right, make it fast.', author: 'Kent Beck' },
+        { text: 'The best code is no code at all.', author: 'Jeff Atwood' }
+      ]
+    },
+    TimeBasedGreeting: { userName: users[0].firstName },
+    DashboardWidget: { userId: users[0].id, widgetType: 'weather' },
+    StableObjectComponent: { items: [{ name: 'alpha' }, { name: 'beta' }] },
+    SideEffectComponent: { data: { id: 'preview', theme: 'light' } },
+    ComponentWithStableId: { name: 'preview' }
+  }
+};
+
+export const getPreviewProps = (exerciseId: string, componentName: string): Record<string, unknown> | undefined => {
+  return previewProps[exerciseId]?.[componentName];
+};
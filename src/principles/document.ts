@@ -0,0 +1,28 @@
+// The parsed principles.md and the exercise that practises each principle
+// Read at bundle time like the exercise registry, so the reference pages always match the file
+
+import principlesSource from '../../principles.md?raw';
+import type { Exercise, Principle, PrincipleCategory } from '../types';
+import { exercises } from '../exercises/registry';
+import { matchPrincipleExercise } from './exerciseLinks';
+import { parsePrinciples } from './parsePrinciples';
+
+export const principlesDocument = parsePrinciples(principlesSource);
+
+export const findPrincipleExercise = (principle: Principle): Exercise | undefined => {
+  return matchPrincipleExercise(principle, exercises);
+};
+
+export const findCategory = (anchor: string): PrincipleCategory | undefined => {
+  return principlesDocument.categories.find(category => category.anchor === anchor);
+};
+
+export const findPrinciple = (anchor: string): Principle | undefined => {
+  return principlesDocument.categories
+    .flatMap(category => category.principles)
+    .find(principle => principle.anchor === anchor);
+};
+
+export const isPrincipleAnchor = (anchor: string): boolean => {
+  return findCategory(anchor) !== undefined || findPrinciple(anchor) !== undefined;
+};
@@ -0,0 +1,33 @@
+// Which exercise practises which principle - matched on title words, as the two are named independently
+
+import type { Exercise, Principle, PrincipleCategory } from '../types';
+
+// Words that exercise titles and principle headings spell differently ("Copy over Abstraction" vs "Copy > Abstraction")
+const FILLER_WORDS = new Set(['a', 'an', 'and', 'as', 'is', 'of', 'or', 'over', 'the', 'to', 'for']);
+
+const toWords = (title: string): string[] => {
+  return title
+    .toLowerCase()
+    .replace(/[’']/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !FILLER_WORDS.has(word));
+};
+
+// An exercise practises a principle when every word of its title appears in the heading ("Boolean Hell" -> "Avoid Boolean Hell")
+export const matchPrincipleExercise = (principle: Principle, exercises: Exercise[]): Exercise | undefined => {
+  const headingWords = new Set(toWords(principle.title));
+  return exercises.find(exercise => {
+    const words = toWords(exercise.principle);
+    return words.length > 0 && words.every(word => headingWords.has(word));
+  });
+};
+
+export const findExerciseCategory = (
+  exercise: Exercise,
+  categories: PrincipleCategory[],
+  exercises: Exercise[]
+): PrincipleCategory | undefined => {
+  return categories.find(category =>
+    category.principles.some(principle => matchPrincipleExercise(principle, exercises) === exercise)
+  );
+};
@@ -0,0 +1,264 @@
+// Parses principles.md into categories, principles and the table of contents
+// Anchors follow GitHub's heading slugs, so the links written for GitHub resolve the same way in the app
+
+import type {
+  CodeExample,
+  InlineNode,
+  Principle,
+  PrincipleBlock,
+  PrincipleCategory,
+  PrinciplesDocument,
+  TocEntry
+} from '../types';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^(`{3,}|~{3,})\s*([\w-]*)/;
+const LIST_ITEM_PATTERN = /^(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const LABEL_PATTERN = /^\*\*([^*]+)\*\*\s*$/;
+const RULE_PATTERN = /^(?:-{3,}|\*{3,}|_{3,})\s*$/;
+const INLINE_PATTERN = /`([^`]+)`|\*\*(.+?)\*\*|\*([^*\s][^*]*)\*|\[([^\]]+)\]\(([^)\s]*)\)/g;
+const NUMBERED_TITLE_PATTERN = /^(\d+)\.\s+(.+)$/;
+const ICON_PATTERN = /^([^\p{L}\p{N}[]+?)\s+(.+)$/u;
+const TOC_LINK_PATTERN = /^\[(.+)\]\(([^)\s]*)\)$/;
+
+const MEANING_LABEL = 'What it means';
+const TAKEAWAYS_LABEL = 'Key Takeaways';
+const TOC_HEADING = 'Table of Contents';
+
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let position = 0;
+
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > position) nodes.push({ kind: 'text', text: text.slice(position, index) });
+
+    const [, code, strong, emphasis, linkText, href] = match;
+    if (code !== undefined) nodes.push({ kind: 'code', text: code });
+    else if (strong !== undefined) nodes.push({ kind: 'strong', text: strong });
+    else if (emphasis !== undefined) nodes.push({ kind: 'emphasis', text: emphasis });
+    else nodes.push({ kind: 'link', text: linkText, href });
+
+    position = index + match[0].length;
+  }
+
+  if (position < text.length) nodes.push({ kind: 'text', text: text.slice(position) });
+  return nodes;
+};
+
+export const toPlainText = (nodes: InlineNode[]): string => nodes.map(node => node.text).join('');
+
+// GitHub's slug: lowercase, drop everything but letters, marks, numbers, `_`, `-` and spaces, spaces become dashes
+export const slugify = (heading: string): string => {
+  return heading.toLowerCase().replace(/[^\p{L}\p{M}\p{N}\p{Pc} -]/gu, '').replace(/ /g, '-');
+};
+
+// Repeated headings get -1, -2... in document order, exactly as GitHub numbers them
+export const createSlugger = () => {
+  const occurrences = new Map<string, number>();
+
+  return (heading: string): string => {
+    const original = slugify(heading);
+    let slug = original;
+    while (occurrences.has(slug)) {
+      const count = (occurrences.get(original) ?? 0) + 1;
+      occurrences.set(original, count);
+      slug = `${original}-${count}`;
+    }
+    occurrences.set(slug, 0);
+    return slug;
+  };
+};
+
+const splitIcon = (title: string): { icon?: string; title: string } => {
+  const match = ICON_PATTERN.exec(title);
+  return match ? { icon: match[1], title: match[2] } : { title };
+};
+
+// Paragraphs, bold labels, lists and code fences - the only blocks principles.md uses
+const parseBlocks = (lines: string[], firstLine: number): PrincipleBlock[] => {
+  const blocks: PrincipleBlock[] = [];
+  let paragraph: string[] = [];
+  let list: { ordered: boolean; items: string[] } | undefined;
+
+  const flush = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', content: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+    if (list) {
+      blocks.push({ kind: 'list', ordered: list.ordered, items: list.items.map(parseInline) });
+      list = undefined;
+    }
+  };
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+    const fence = FENCE_PATTERN.exec(line.trim());
+
+    if (fence) {
+      flush();
+      const closing = lines.findIndex((candidate, position) => position > index && candidate.trim().startsWith(fence[1]));
+      const end = closing === -1 ? lines.length : closing;
+      const previous = blocks[blocks.length - 1];
+      blocks.push({
+        kind: 'code',
+        language: fence[2] || 'text',
+        code: lines.slice(index + 1, end).join('\n'),
+        line: firstLine + index + 1,
+        label: previous?.kind === 'label' ? previous.text.replace(/:\s*$/, '') : undefined
+      });
+      index = end;
+      continue;
+    }
+
+    const trimmed = line.trim();
+    const label = LABEL_PATTERN.exec(trimmed);
+    const item = LIST_ITEM_PATTERN.exec(trimmed);
+
+    if (trimmed === '' || RULE_PATTERN.test(trimmed)) {
+      flush();
+    } else if (label) {
+      flush();
+      blocks.push({ kind: 'label', text: label[1].trim() });
+    } else if (item) {
+      const ordered = item[2] !== undefined;
+      if (paragraph.length > 0 || list?.ordered !== ordered) flush();
+      list ??= { ordered, items: [] };
+      list.items.push(item[3].trim());
+    } else if (list && /^\s/.test(line)) {
+      list.items[list.items.length - 1] += ` ${trimmed}`;
+    } else {
+      if (list) flush();
+      paragraph.push(trimmed);
+    }
+  }
+
+  flush();
+  return blocks;
+};
+
+// The text of the block that follows a label such as **🔍 What it means:**
+const findAfterLabel = (blocks: PrincipleBlock[], labelText: string): PrincipleBlock | undefined => {
+  const index = blocks.findIndex(block => block.kind === 'label' && block.text.includes(labelText));
+  return index === -1 ? undefined : blocks[index + 1];
+};
+
+const buildPrinciple = (
+  heading: string,
+  anchor: string,
+  categoryAnchor: string,
+  line: number,
+  blocks: PrincipleBlock[]
+): Principle => {
+  const numbered = NUMBERED_TITLE_PATTERN.exec(heading);
+  const meaning = findAfterLabel(blocks, MEANING_LABEL);
+  const takeaways = findAfterLabel(blocks, TAKEAWAYS_LABEL);
+
+  return {
+    anchor,
+    number: numbered ? Number(numbered[1]) : undefined,
+    title: numbered ? numbered[2] : heading,
+    categoryAnchor,
+    line,
+    blocks,
+    meaning: meaning?.kind === 'paragraph' ? toPlainText(meaning.content) : undefined,
+    takeaways: takeaways?.kind === 'list' ? takeaways.items.map(toPlainText) : [],
+    examples: blocks.filter((block): block is CodeExample => block.kind === 'code')
+  };
+};
+
+const parseTocEntry = (text: string, line: number): TocEntry | undefined => {
+  const link = TOC_LINK_PATTERN.exec(text);
+  return link ? { title: toPlainText(parseInline(link[1])), target: link[2], line, children: [] } : undefined;
+};
+
+interface Heading {
+  level: number;
+  text: string;
+  anchor: string;
+  // 0-based index into the file's lines
+  index: number;
+}
+
+const findHeadings = (lines: string[]): Heading[] => {
+  const slug = createSlugger();
+  const headings: Heading[] = [];
+  let fence: string | undefined;
+
+  lines.forEach((line, index) => {
+    const fenceMatch = FENCE_PATTERN.exec(line.trim());
+    if (fenceMatch) {
+      if (!fence) fence = fenceMatch[1];
+      else if (line.trim().startsWith(fence)) fence = undefined;
+      return;
+    }
+    if (fence) return;
+
+    const match = HEADING_PATTERN.exec(line);
+    if (!match) return;
+    const text = match[2];
+    headings.push({ level: match[1].length, text, anchor: slug(toPlainText(parseInline(text))), index });
+  });
+
+  return headings;
+};
+
+export const parsePrinciples = (markdown: string): PrinciplesDocument => {
+  const lines = markdown.split(/\r?\n/);
+  const headings = findHeadings(lines);
+  const document: PrinciplesDocument = { title: '', intro: [], toc: [], categories: [] };
+
+  const bodyOf = (position: number) => {
+    const start = headings[position].index + 1;
+    const end = headings[position + 1]?.index ?? lines.length;
+    return parseBlocks(lines.slice(start, end), start + 1);
+  };
+
+  const tocStart = headings.findIndex(heading => heading.level === 2 && heading.text.includes(TOC_HEADING));
+  let inToc = false;
+
+  headings.forEach((heading, position) => {
+    const line = heading.index + 1;
+
+    if (heading.level === 1) {
+      document.title = heading.text;
+      document.intro = bodyOf(position);
+      return;
+    }
+
+    // TOC entries are the linked `## ` headings after "Table of Contents", with the numbered links under each
+    if (position === tocStart) {
+      inToc = true;
+      return;
+    }
+    if (inToc && heading.level === 2) {
+      const entry = parseTocEntry(splitIcon(heading.text).title, line);
+      if (entry) {
+        const end = headings[position + 1]?.index ?? lines.length;
+        lines.slice(heading.index + 1, end).forEach((candidate, offset) => {
+          const item = LIST_ITEM_PATTERN.exec(candidate.trim());
+          const child = item && parseTocEntry(item[3].trim(), line + offset + 1);
+          if (child) entry.children.push(child);
+        });
+        document.toc.push(entry);
+        return;
+      }
+      inToc = false;
+    }
+    if (inToc) return;
+
+    if (heading.level === 2) {
+      const { icon, title } = splitIcon(heading.text);
+      document.categories.push({ anchor: heading.anchor, icon, title, line, intro: bodyOf(position), principles: [] });
+      return;
+    }
+
+    const category: PrincipleCategory | undefined = document.categories[document.categories.length - 1];
+    if (heading.level === 3 && category) {
+      category.principles.push(buildPrinciple(heading.text, heading.anchor, category.anchor, line, bodyOf(position)));
+    }
+  });
+
+  return document;
+};
@@ -0,0 +1,46 @@
+// Checks that every table-of-contents link in principles.md lands on a section
+// A broken link only shows up as a dead click on GitHub, so the build reports it instead
+
+import type { PrinciplesDocument, TocEntry } from '../types';
+
+interface Section {
+  anchor: string;
+  title: string;
+}
+
+const normalize = (title: string): string => {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+};
+
+const describeTarget = (entry: TocEntry, sections: Section[], kind: string): string | undefined => {
+  const anchor = entry.target.replace(/^#/, '');
+  if (entry.target.startsWith('#') && sections.some(section => section.anchor === anchor)) return undefined;
+
+  const problem = entry.target === ''
+    ? `TOC entry "${entry.title}" has an empty link`
+    : `TOC entry "${entry.title}" links to "${entry.target}" - no ${kind} has that anchor`;
+  const match = sections.find(section => normalize(section.title) === normalize(entry.title));
+  return match ? `${problem} (did you mean "#${match.anchor}"?)` : problem;
+};
+
+// One "principles.md:<line>: ..." message per TOC entry that does not resolve
+export const validatePrinciples = (document: PrinciplesDocument, path = 'principles.md'): string[] => {
+  const categories: Section[] = document.categories;
+  const problems: string[] = [];
+
+  document.toc.forEach(entry => {
+    const categoryProblem = describeTarget(entry, categories, 'category');
+    if (categoryProblem) problems.push(`${path}:${entry.line}: ${categoryProblem}`);
+
+    // Numbered entries point at principles of the category they are listed under, or anywhere if that link is broken
+    const category = categoryProblem ? undefined : document.categories.find(candidate => `#${candidate.anchor}` === entry.target);
+    const principles: Section[] = (category ? [category] : document.categories).flatMap(candidate => candidate.principles);
+
+    entry.children.forEach(child => {
+      const principleProblem = describeTarget(child, principles, 'principle');
+      if (principleProblem) problems.push(`${path}:${child.line}: ${principleProblem}`);
+    });
+  });
+
+  return problems;
+};
@@ -0,0 +1,37 @@
+// Vite plugin validating principles.md - a TOC link without a section fails the build and warns in dev
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { parsePrinciples } from './parsePrinciples';
+import { validatePrinciples } from './validatePrinciples';
+
+const PRINCIPLES_FILE = 'principles.md';
+
+export const principlesPlugin = (): Plugin => {
+  let path = resolve(PRINCIPLES_FILE);
+  let isBuild = false;
+
+  const validate = (): string[] => validatePrinciples(parsePrinciples(readFileSync(path, 'utf8')), PRINCIPLES_FILE);
+
+  return {
+    name: 'design-principles-principles-md',
+    configResolved(config) {
+      path = resolve(config.root, PRINCIPLES_FILE);
+      isBuild = config.command === 'build';
+    },
+    buildStart() {
+      this.addWatchFile(path);
+      const problems = validate();
+      if (problems.length === 0) return;
+
+      const message = `principles.md has broken table of contents links:\n${problems.join('\n')}`;
+      if (isBuild) this.error(message);
+      this.warn(message);
+    },
+    handleHotUpdate({ file, server }) {
+      if (file !== path) return;
+      validate().forEach(problem => server.config.logger.warn(problem, { timestamp: true }));
+    }
+  };
+};
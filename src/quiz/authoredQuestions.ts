@@ -0,0 +1,154 @@
+// Hand-written quiz questions - mostly the Quick Reference's decision framework, which is prose in principles.md
+// principleAnchor is the heading anchor in principles.md; validateQuestions in generateQuestions.ts rejects one that does not exist
+
+import type { QuizQuestion } from '../types';
+
+const DECISION_FRAMEWORK = 'decision-framework';
+
+export const AUTHORED_QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'extract-used-in-many-places',
+    kind: 'multiple-choice',
+    prompt: 'A date-formatting function is pasted into four components and is easy to test on its own. What does the decision framework say?',
+    choices: [
+      'Extract it - it is used in 3+ places and isolating it helps testing',
+      'Keep the copies - co-location always wins',
+      'Move it into a context provider so every component can reach it',
+      'Leave one copy and import it from that component into the others'
+    ],
+    answer: 0,
+    explanation: 'Two or more "yes" answers (3+ places, helps testing) mean extract.',
+    principleAnchor: DECISION_FRAMEWORK
+  },
+  {
+    id: 'extract-one-yes-only',
+    kind: 'multiple-choice',
+    prompt: 'A sorting rule is used in one component. Naming it would make the intent clearer, but it does not help testing. Extract or co-locate?',
+    choices: [
+      'Extract - clearer intent is reason enough',
+      'Co-locate - only one of the three questions is a yes',
+      'Extract - every named function belongs in utils/',
+      'Co-locate - logic should never be extracted before it is used twice'
+    ],
+    answer: 1,
+    explanation: 'The framework extracts on two or more yes answers; with one, keep the logic next to the component.',
+    principleAnchor: DECISION_FRAMEWORK
+  },
+  {
+    id: 'copy-similar-different-purpose',
+    kind: 'multiple-choice',
+    prompt: 'The sign-up form and the billing form look almost the same, but they validate and submit completely different data. What should you do?',
+    choices: [
+      'Build one configurable <Form> with a prop for every difference',
+      'Copy - they are similar-looking but have different purposes',
+      'Abstract - two similar components always deserve a shared base',
+      'Make the billing form extend the sign-up form'
+    ],
+    answer: 1,
+    explanation: 'Similar-looking but different-purpose components are the first "copy" case.',
+    principleAnchor: DECISION_FRAMEWORK
+  },
+  {
+    id: 'copy-one-off-layout',
+    kind: 'multiple-choice',
+    prompt: 'The settings page needs a layout nothing else uses. Where does it belong?',
+    choices: [
+      'In a generic <Layout> with a "variant" prop for settings',
+      'In the design system, in case another page needs it',
+      'Written out in the settings page - one-off layouts are copied, not abstracted',
+      'In a higher-order component wrapping the settings page'
+    ],
+    answer: 2,
+    principleAnchor: DECISION_FRAMEWORK
+  },
+  {
+    id: 'abstract-complex-shared-logic',
+    kind: 'multiple-choice',
+    prompt: 'Checkout, sign-up and profile editing share the same address validation, with many edge cases. When is abstracting it right?',
+    choices: [
+      'Never - abstractions add more complexity than they remove',
+      'Only once a fourth screen needs it',
+      'Now - it is genuine reuse across 3+ components and complex logic that benefits from isolation',
+      'Only if all three screens render the same markup'
+    ],
+    answer: 2,
+    principleAnchor: DECISION_FRAMEWORK
+  },
+  {
+    id: 'random-value-during-render',
+    kind: 'spot-the-violation',
+    prompt: 'What is wrong with this component?',
+    code: `function RandomQuote({ quotes }) {
+  const randomIndex = Math.floor(Math.random() * quotes.length);
+  return <p>{quotes[randomIndex].text}</p>;
+}`,
+    choices: [
+      'Nothing - the quote is chosen once when the component mounts',
+      'It picks a new quote on every render instead of keeping one in state',
+      'It should use a class component for random values',
+      'quotes should be stored in state instead of received as a prop'
+    ],
+    answer: 1,
+    explanation: 'Render output must depend only on props and state. useState(() => Math.floor(...)) picks the index once.',
+    principleAnchor: '1-ui-is-a-pure-function-of-state'
+  },
+  {
+    id: 'index-as-key',
+    kind: 'spot-the-violation',
+    prompt: 'Items can be reordered and deleted. What will go wrong?',
+    code: `function TodoList({ todos }) {
+  return (
+    <ul>
+      {todos.map((todo, index) => (
+        <TodoItem key={index} todo={todo} />
+      ))}
+    </ul>
+  );
+}`,
+    choices: [
+      'Nothing - every key is unique',
+      'React will throw because keys must be strings',
+      'Index keys move state and DOM between items when the list changes order',
+      'TodoItem re-renders twice on every change'
+    ],
+    answer: 2,
+    explanation: 'Keys have to identify the item, not its position - use todo.id.',
+    principleAnchor: '6-keys-in-lists'
+  },
+  {
+    id: 'mutually-exclusive-booleans',
+    kind: 'multiple-choice',
+    prompt: 'A component tracks isLoading, isSuccess and isError. Which change removes the impossible combinations?',
+    choices: [
+      'Add an isIdle flag so every state has a boolean',
+      'Wrap the three flags in one object',
+      'Replace them with a single status: \'idle\' | \'loading\' | \'success\' | \'error\'',
+      'Reset all three flags at the start of every request'
+    ],
+    answer: 2,
+    principleAnchor: '5-avoid-boolean-hell'
+  },
+  {
+    id: 'effect-copies-props',
+    kind: 'spot-the-violation',
+    prompt: 'What should happen to fullName?',
+    code: `function Greeting({ firstName, lastName }) {
+  const [fullName, setFullName] = useState('');
+
+  useEffect(() => {
+    setFullName(\`\${firstName} \${lastName}\`);
+  }, [firstName, lastName]);
+
+  return <h1>Hello, {fullName}</h1>;
+}`,
+    choices: [
+      'Compute it during render - it is derived from props',
+      'Add fullName to the dependency list',
+      'Move the effect into a custom hook',
+      'Use useLayoutEffect so it updates before paint'
+    ],
+    answer: 0,
+    explanation: 'State that only mirrors other values renders stale once and can drift - derive it instead.',
+    principleAnchor: '6-make-state-derivable-whenever-possible'
+  }
+];
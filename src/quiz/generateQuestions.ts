@@ -0,0 +1,136 @@
+// Quiz questions generated from the exercises, plus the checks every question has to pass
+// A problem section becomes "spot the violation", its fixed section "which principle does this fix illustrate"
+
+import type { Difficulty, Exercise, ExerciseFile, ExerciseSection, PrinciplesDocument, QuizQuestion } from '../types';
+import { matchPrincipleExercise } from '../principles/exerciseLinks';
+
+const DISTRACTOR_COUNT = 3;
+// Longer sections do not fit a quiz card; the exercise itself is the place for them
+const MAX_SNIPPET_LINES = 80;
+// Comments that give the answer away: the section's own header and ✅/❌/🔥 annotations
+const GIVEAWAY_COMMENT = /^\s*\/\/\s*(?:Problem:|WHY:|GOAL:|✅|❌|🔥|Problematic)/;
+
+interface LinkedPrinciple {
+  anchor: string;
+  title: string;
+  exercise: Exercise;
+}
+
+// Same input, same order - questions must not reshuffle between renders or between the app and a reload
+const hash = (text: string): number => {
+  let value = 7;
+  for (const character of text) value = (Math.imul(value, 31) + character.charCodeAt(0)) >>> 0;
+  return value;
+};
+
+const stableShuffle = <T>(items: T[], seed: string, key: (item: T) => string): T[] => {
+  return [...items].sort((left, right) => hash(`${seed}:${key(left)}`) - hash(`${seed}:${key(right)}`));
+};
+
+const readSnippet = (file: ExerciseFile, section: ExerciseSection): string | undefined => {
+  const lines = file.source
+    .split(/\r?\n/)
+    .slice(section.startLine, section.endLine)
+    .filter(line => !GIVEAWAY_COMMENT.test(line))
+    .map(line => line.replace(/\s*\/\/\s*(?:✅|❌).*$/, ''));
+  const code = lines.join('\n').trim();
+  return code && lines.length <= MAX_SNIPPET_LINES ? code : undefined;
+};
+
+const buildChoices = (correct: LinkedPrinciple, principles: LinkedPrinciple[], seed: string) => {
+  const distractors = stableShuffle(principles.filter(principle => principle !== correct), seed, principle => principle.title)
+    .slice(0, DISTRACTOR_COUNT);
+  const choices = stableShuffle([correct, ...distractors], `${seed}#`, principle => principle.title).map(principle => principle.title);
+  return { choices, answer: choices.indexOf(correct.title) };
+};
+
+// Exercises without a principles.md section are left out - a wrong answer would have nowhere to link to
+export const generateExerciseQuestions = (exercises: Exercise[], document: PrinciplesDocument): QuizQuestion[] => {
+  const principles: LinkedPrinciple[] = document.categories.flatMap(category =>
+    category.principles.flatMap(principle => {
+      const exercise = matchPrincipleExercise(principle, exercises);
+      return exercise ? [{ anchor: principle.anchor, title: principle.title, exercise }] : [];
+    })
+  );
+
+  return principles.flatMap(principle => {
+    const { exercise } = principle;
+    const questions: QuizQuestion[] = [];
+
+    const addQuestion = (
+      kind: 'spot-the-violation' | 'which-principle',
+      difficulty: Difficulty,
+      code: string,
+      explanation: string | undefined
+    ) => {
+      const id = `${exercise.id}:${difficulty}:${kind}`;
+      questions.push({
+        id,
+        kind,
+        prompt: kind === 'spot-the-violation'
+          ? 'Which principle does this code violate?'
+          : 'Which principle does this fix illustrate?',
+        code,
+        ...buildChoices(principle, principles, id),
+        explanation,
+        principleAnchor: principle.anchor,
+        exerciseId: exercise.id,
+        difficulty
+      });
+    };
+
+    exercise.test.sections.forEach(section => {
+      const code = readSnippet(exercise.test, section);
+      if (code) addQuestion('spot-the-violation', section.difficulty, code, section.problem);
+    });
+    exercise.answer.sections.forEach(section => {
+      const code = readSnippet(exercise.answer, section);
+      if (code) addQuestion('which-principle', section.difficulty, code, section.solution ?? section.why);
+    });
+
+    return questions;
+  });
+};
+
+// Authored questions are checked like exercise files: a broken one stops the app instead of quietly misgrading
+export const validateQuestions = (questions: QuizQuestion[], document: PrinciplesDocument): QuizQuestion[] => {
+  const anchors = new Set(document.categories.flatMap(category => category.principles.map(principle => principle.anchor)));
+  const ids = new Set<string>();
+
+  questions.forEach(question => {
+    if (ids.has(question.id)) throw new Error(`Quiz question "${question.id}" is defined twice`);
+    ids.add(question.id);
+
+    if (!Number.isInteger(question.answer) || question.answer < 0 || question.answer >= question.choices.length) {
+      throw new Error(`Quiz question "${question.id}": answer ${question.answer} is not one of its ${question.choices.length} choices`);
+    }
+    if (new Set(question.choices).size !== question.choices.length) {
+      throw new Error(`Quiz question "${question.id}" lists the same choice twice`);
+    }
+    if (!anchors.has(question.principleAnchor)) {
+      throw new Error(`Quiz question "${question.id}": principles.md has no section "#${question.principleAnchor}"`);
+    }
+  });
+
+  return questions;
+};
+
+// A fresh round - questions answered wrong last time come first, then ones never seen, then the rest
+export const pickQuizRound = (
+  questions: QuizQuestion[],
+  answeredCorrectly: (questionId: string) => boolean | undefined,
+  count: number,
+  random: () => number = Math.random
+): QuizQuestion[] => {
+  const priority = (question: QuizQuestion): number => {
+    const lastCorrect = answeredCorrectly(question.id);
+    if (lastCorrect === false) return 0;
+    return lastCorrect === undefined ? 1 : 2;
+  };
+
+  return questions
+    .map(question => ({ question, priority: priority(question), order: random() }))
+    .sort((left, right) => left.priority - right.priority || left.order - right.order)
+    .slice(0, count)
+    .map(({ question }) => question);
+};
@@ -0,0 +1,11 @@
+// Every quiz question the app can ask: the authored ones and those generated from the exercise registry
+
+import { exercises } from '../exercises/registry';
+import { principlesDocument } from '../principles/document';
+import { AUTHORED_QUESTIONS } from './authoredQuestions';
+import { generateExerciseQuestions, validateQuestions } from './generateQuestions';
+
+export const quizQuestions = validateQuestions(
+  [...AUTHORED_QUESTIONS, ...generateExerciseQuestions(exercises, principlesDocument)],
+  principlesDocument
+);
@@ -0,0 +1,243 @@
+// Search over principles.md and the exercises: the index is built once when bundling, queries run in the browser
+// Terms match exactly, by prefix while typing, or within one or two typos
+
+import type {
+  Exercise,
+  PrincipleBlock,
+  PrinciplesDocument,
+  SearchDocument,
+  SearchFilters,
+  SearchIndex,
+  SearchResult,
+  SnippetPart
+} from '../types';
+import { DIFFICULTY_ORDER } from '../exercises/parseExercise';
+import { findExerciseCategory } from '../principles/exerciseLinks';
+import { toPlainText } from '../principles/parsePrinciples';
+
+const EXPLANATION_PATTERN = /^\s*\/\/\s*((?:✅|🔥).*)$/;
+const CAMEL_CASE_BOUNDARY = /(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+// Weights per kind of term match - a title hit counts the same again
+const EXACT_MATCH = 3;
+const PREFIX_MATCH = 2;
+const FUZZY_MATCH = 1;
+
+// Words, plus the parts of camelCase names, so "cart" finds ShoppingCart
+export const tokenize = (text: string): string[] => {
+  return text.split(/[^\p{L}\p{N}]+/u).filter(Boolean).flatMap(word => {
+    const parts = word.split(CAMEL_CASE_BOUNDARY);
+    const terms = parts.length > 1 ? [word, ...parts] : [word];
+    return terms.map(term => term.toLowerCase());
+  });
+};
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+const blockText = (block: PrincipleBlock): string => {
+  switch (block.kind) {
+    case 'paragraph':
+      return toPlainText(block.content);
+    case 'label':
+      return block.text;
+    case 'list':
+      return block.items.map(toPlainText).join('. ');
+    case 'code':
+      return block.code;
+  }
+};
+
+const buildPrincipleDocuments = (principles: PrinciplesDocument): SearchDocument[] => {
+  return principles.categories.flatMap(category =>
+    category.principles.map(principle => ({
+      source: 'principle' as const,
+      title: principle.title,
+      text: collapse(principle.blocks.map(blockText).join(' ')),
+      category: category.title,
+      target: { page: 'principle' as const, anchor: principle.anchor }
+    }))
+  );
+};
+
+const buildExerciseDocuments = (exercise: Exercise, category: string | undefined): SearchDocument[] => {
+  const documents: SearchDocument[] = [];
+  const seenComponents = new Set<string>();
+  const answerLines = exercise.answer.source.split(/\r?\n/);
+
+  DIFFICULTY_ORDER.forEach(difficulty => {
+    const target = { page: 'exercise' as const, exerciseId: exercise.id, difficulty };
+    const problem = exercise.test.sections.find(section => section.difficulty === difficulty);
+    const answer = exercise.answer.sections.find(section => section.difficulty === difficulty);
+
+    if (problem?.problem) {
+      documents.push({ source: 'problem', title: exercise.principle, text: problem.problem, category, difficulty, target });
+    }
+
+    [problem, answer].forEach((section, index) => {
+      section?.components.forEach(component => {
+        if (seenComponents.has(component)) return;
+        seenComponents.add(component);
+        const path = index === 0 ? exercise.test.path : exercise.answer.path;
+        documents.push({ source: 'component', title: component, text: `${component} in ${path}`, category, difficulty, target });
+      });
+    });
+
+    if (answer) {
+      const explanations = answerLines
+        .slice(answer.startLine - 1, answer.endLine)
+        .map(line => EXPLANATION_PATTERN.exec(line)?.[1])
+        .filter((line): line is string => line !== undefined);
+      if (explanations.length > 0) {
+        documents.push({
+          source: 'answer',
+          title: exercise.principle,
+          text: collapse(explanations.join(' · ')),
+          category,
+          difficulty,
+          target
+        });
+      }
+    }
+  });
+
+  return documents;
+};
+
+export const buildSearchIndex = (principles: PrinciplesDocument, exercises: Exercise[]): SearchIndex => {
+  const documents = [
+    ...buildPrincipleDocuments(principles),
+    ...exercises.flatMap(exercise =>
+      buildExerciseDocuments(exercise, findExerciseCategory(exercise, principles.categories, exercises)?.title)
+    )
+  ];
+
+  const terms: Record<string, number[]> = {};
+  documents.forEach((document, position) => {
+    new Set(tokenize(`${document.title} ${document.text}`)).forEach(term => {
+      (terms[term] ??= []).push(position);
+    });
+  });
+
+  const categories = principles.categories
+    .filter(category => category.principles.length > 0)
+    .map(category => category.title);
+
+  return { documents, terms, categories };
+};
+
+// Edit distance with swapped neighbours as one edit ("unoin" -> "union"), giving up once it is over the limit
+const isWithinEdits = (left: string, right: string, limit: number): boolean => {
+  if (Math.abs(left.length - right.length) > limit) return false;
+
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: right.length + 1 }, (_, index) => index);
+  for (let row = 1; row <= left.length; row++) {
+    const current = [row];
+    for (let column = 1; column <= right.length; column++) {
+      const cost = left[row - 1] === right[column - 1] ? 0 : 1;
+      current[column] = Math.min(previous[column] + 1, current[column - 1] + 1, previous[column - 1] + cost);
+      if (row > 1 && column > 1 && left[row - 1] === right[column - 2] && left[row - 2] === right[column - 1]) {
+        current[column] = Math.min(current[column], beforePrevious[column - 2] + 1);
+      }
+    }
+    if (Math.min(...current) > limit) return false;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[right.length] <= limit;
+};
+
+const scoreTerm = (queryTerm: string, term: string): number => {
+  if (term === queryTerm) return EXACT_MATCH;
+  if (term.startsWith(queryTerm)) return PREFIX_MATCH;
+  if (queryTerm.length < 4) return 0;
+
+  // A typo while still typing: "unoin" is close to the start of "unions"
+  const limit = queryTerm.length >= 8 ? 2 : 1;
+  const start = term.slice(0, queryTerm.length);
+  return isWithinEdits(queryTerm, term, limit) || isWithinEdits(queryTerm, start, limit) ? FUZZY_MATCH : 0;
+};
+
+const escapePattern = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A window of the text around the first matched term, with every matched term marked
+export const buildSnippet = (text: string, matchedTerms: string[]): SnippetPart[] => {
+  if (matchedTerms.length === 0) return [{ text: text.slice(0, SNIPPET_LENGTH), highlight: false }];
+
+  const pattern = new RegExp(matchedTerms.map(escapePattern).sort((a, b) => b.length - a.length).join('|'), 'gi');
+  const first = text.search(pattern);
+  let start = first > SNIPPET_LEAD ? first - SNIPPET_LEAD : 0;
+  if (start > 0) start = text.indexOf(' ', start) + 1 || start;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const window = text.slice(start, end);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', highlight: false });
+  let position = 0;
+  for (const match of window.matchAll(pattern)) {
+    const index = match.index ?? 0;
+    if (index > position) parts.push({ text: window.slice(position, index), highlight: false });
+    parts.push({ text: match[0], highlight: true });
+    position = index + match[0].length;
+  }
+  if (position < window.length) parts.push({ text: window.slice(position), highlight: false });
+  if (end < text.length) parts.push({ text: '…', highlight: false });
+  return parts;
+};
+
+// Every query word has to match some term in a document; better and title matches rank higher
+export const searchIndex = (
+  index: SearchIndex,
+  query: string,
+  filters: SearchFilters = {},
+  limit = 20
+): SearchResult[] => {
+  const queryTerms = [...new Set(tokenize(query))];
+  if (queryTerms.length === 0) return [];
+
+  const indexTerms = Object.keys(index.terms);
+  const scores = new Map<number, { score: number; matchedTerms: string[] }>();
+
+  queryTerms.forEach((queryTerm, position) => {
+    const best = new Map<number, { score: number; terms: string[] }>();
+    indexTerms.forEach(term => {
+      const score = scoreTerm(queryTerm, term);
+      if (score === 0) return;
+      index.terms[term].forEach(documentIndex => {
+        const entry = best.get(documentIndex) ?? { score: 0, terms: [] };
+        entry.score = Math.max(entry.score, score);
+        entry.terms.push(term);
+        best.set(documentIndex, entry);
+      });
+    });
+
+    // Documents missing an earlier word are already out
+    best.forEach((entry, documentIndex) => {
+      const current = scores.get(documentIndex);
+      if (position > 0 && !current) return;
+      scores.set(documentIndex, {
+        score: (current?.score ?? 0) + entry.score,
+        matchedTerms: [...(current?.matchedTerms ?? []), ...entry.terms]
+      });
+    });
+    [...scores.keys()].forEach(documentIndex => {
+      if (!best.has(documentIndex)) scores.delete(documentIndex);
+    });
+  });
+
+  return [...scores.entries()]
+    .map(([documentIndex, match]) => ({ document: index.documents[documentIndex], ...match }))
+    .filter(({ document }) =>
+      (!filters.category || document.category === filters.category) &&
+      (!filters.difficulty || document.difficulty === filters.difficulty)
+    )
+    .map(({ document, score, matchedTerms }) => {
+      const titleTerms = new Set(tokenize(document.title));
+      const titleBonus = matchedTerms.some(term => titleTerms.has(term)) ? EXACT_MATCH : 0;
+      return { document, score: score + titleBonus, snippet: buildSnippet(document.text, matchedTerms) };
+    })
+    .sort((left, right) => right.score - left.score)
+    .slice(0, limit);
+};
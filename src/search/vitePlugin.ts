@@ -0,0 +1,55 @@
+// Vite plugin serving the search index as `virtual:search-index`
+// The index is built from the files on disk when the module loads, and rebuilt when one of them is saved
+
+import { readFileSync, readdirSync } from 'node:fs';
+import { relative, resolve } from 'node:path';
+import type { Plugin } from 'vite';
+import { buildExerciseRegistry } from '../exercises/parseExercise';
+import { parsePrinciples } from '../principles/parsePrinciples';
+import { buildSearchIndex } from './searchIndex';
+
+const MODULE_ID = 'virtual:search-index';
+const RESOLVED_ID = `\0${MODULE_ID}`;
+const EXERCISE_FOLDERS: Array<[string, RegExp]> = [['tests', /-test\.tsx$/], ['answers', /-answer\.tsx$/]];
+
+export const searchIndexPlugin = (): Plugin => {
+  let root = process.cwd();
+
+  const listSourceFiles = (): string[] => [
+    resolve(root, 'principles.md'),
+    ...EXERCISE_FOLDERS.flatMap(([folder, pattern]) =>
+      readdirSync(resolve(root, folder)).filter(file => pattern.test(file)).map(file => resolve(root, folder, file))
+    )
+  ];
+
+  // Same paths as the registry's import.meta.glob, so exercise ids come out identical
+  const buildIndex = () => {
+    const [principlesPath, ...exercisePaths] = listSourceFiles();
+    const exercises = buildExerciseRegistry(Object.fromEntries(
+      exercisePaths.map(path => [relative(root, path).split('\\').join('/'), readFileSync(path, 'utf8')])
+    ));
+    return buildSearchIndex(parsePrinciples(readFileSync(principlesPath, 'utf8')), exercises);
+  };
+
+  return {
+    name: 'design-principles-search-index',
+    configResolved(config) {
+      root = config.root;
+    },
+    resolveId(id) {
+      return id === MODULE_ID ? RESOLVED_ID : undefined;
+    },
+    load(id) {
+      if (id !== RESOLVED_ID) return undefined;
+      listSourceFiles().forEach(path => this.addWatchFile(path));
+      return `export default ${JSON.stringify(buildIndex())};`;
+    },
+    handleHotUpdate({ file, server, modules }) {
+      if (!listSourceFiles().includes(file)) return undefined;
+      const indexModule = server.moduleGraph.getModuleById(RESOLVED_ID);
+      if (!indexModule) return undefined;
+      server.moduleGraph.invalidateModule(indexModule);
+      return [...modules, indexModule];
+    }
+  };
+};
@@ -20,6 +20,7 @@ export interface Product {
   brand: string;
   price: number;
   rating: number;
+  // Percent off `price`, from 0 to 100 - see src/catalog/pricing.ts
   discount?: number;
   inStock?: boolean;
 }
@@ -45,4 +46,307 @@ export interface ApiResponse<T = any> {
   success: boolean;
   message?: string;
   errors?: ValidationError[];
-}
\ No newline at end of file
+}
+
+// Exercise registry types - describe each tests/answers pair
+
+export type Difficulty = 'easy' | 'medium' | 'hard' | 'bonus';
+
+// Hints go from a nudge, to the concept behind the fix, to the rough shape of the code
+export type HintLevel = 'nudge' | 'concept' | 'shape';
+
+export interface SectionHint {
+  level: HintLevel;
+  text: string;
+  code?: string;
+}
+
+export interface ExerciseSection {
+  difficulty: Difficulty;
+  heading: string;
+  startLine: number;
+  endLine: number;
+  components: string[];
+  problem?: string;
+  solution?: string;
+  why?: string;
+  // Authored "// HINT <level>:" lines at the end of the section - endLine stops before them
+  hints: SectionHint[];
+}
+
+export interface ExerciseFile {
+  path: string;
+  title: string;
+  summary: string;
+  goal?: string;
+  source: string;
+  sections: ExerciseSection[];
+}
+
+export interface Exercise {
+  id: string;
+  principle: string;
+  goal: string;
+  test: ExerciseFile;
+  answer: ExerciseFile;
+  difficulties: Difficulty[];
+}
+
+// Learner progress types - shared by the app (localStorage) and the study CLI (JSON file)
+
+export type ProgressEvent = 'attempted' | 'passed' | 'answer-viewed';
+
+export type SectionStatus = 'not-started' | ProgressEvent;
+
+// ISO timestamps of the first time each event happened - the status is derived from them
+export interface SectionProgress {
+  attemptedAt: string;
+  passedAt?: string;
+  answerViewedAt?: string;
+  // How many hints were revealed - the most ever shown, so mentors see who needed help
+  hintsRevealed?: number;
+}
+
+// How a learner has done on one quiz question so far
+export interface QuizAnswerRecord {
+  attempts: number;
+  correct: number;
+  lastCorrect: boolean;
+  lastAnsweredAt: string;
+}
+
+export interface LearnerProgress {
+  version: 1;
+  sections: Record<string, Partial<Record<Difficulty, SectionProgress>>>;
+  // Local calendar days (YYYY-MM-DD) with any recorded activity, oldest first
+  activeDays: string[];
+  // By question id - absent in progress files from before the quiz
+  quiz?: Record<string, QuizAnswerRecord>;
+}
+
+// Principles reference types - the document model parsed from principles.md
+
+export type InlineNode =
+  | { kind: 'text' | 'strong' | 'emphasis' | 'code'; text: string }
+  | { kind: 'link'; text: string; href: string };
+
+export type PrincipleBlock =
+  | { kind: 'paragraph'; content: InlineNode[] }
+  // A paragraph that is only a bold label, e.g. **✅ Good:** - it introduces the blocks after it
+  | { kind: 'label'; text: string }
+  | { kind: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { kind: 'code'; language: string; code: string; line: number; label?: string };
+
+export type CodeExample = Extract<PrincipleBlock, { kind: 'code' }>;
+
+export interface Principle {
+  anchor: string;
+  number?: number;
+  title: string;
+  categoryAnchor: string;
+  line: number;
+  blocks: PrincipleBlock[];
+  // The "🔍 What it means" paragraph
+  meaning?: string;
+  // The "📌 Key Takeaways" list
+  takeaways: string[];
+  examples: CodeExample[];
+}
+
+export interface PrincipleCategory {
+  anchor: string;
+  icon?: string;
+  title: string;
+  line: number;
+  // Text between the category heading and its first principle
+  intro: PrincipleBlock[];
+  principles: Principle[];
+}
+
+export interface TocEntry {
+  title: string;
+  // The link target as written, e.g. "#1-keys-in-lists" - empty when the link has none
+  target: string;
+  line: number;
+  children: TocEntry[];
+}
+
+export interface PrinciplesDocument {
+  title: string;
+  intro: PrincipleBlock[];
+  toc: TocEntry[];
+  categories: PrincipleCategory[];
+}
+
+// Search index types - built from principles.md and the exercise files when the app is bundled
+
+export type SearchSource = 'principle' | 'problem' | 'component' | 'answer';
+
+export type SearchTarget =
+  | { page: 'principle'; anchor: string }
+  | { page: 'exercise'; exerciseId: string; difficulty: Difficulty };
+
+export interface SearchDocument {
+  source: SearchSource;
+  title: string;
+  // Whitespace collapsed to single spaces, so snippets read as one line
+  text: string;
+  // The principles.md category the principle or exercise belongs to
+  category?: string;
+  difficulty?: Difficulty;
+  target: SearchTarget;
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  // Every lowercase term to the documents (by position) that contain it
+  terms: Record<string, number[]>;
+  categories: string[];
+}
+
+export interface SearchFilters {
+  category?: string;
+  difficulty?: Difficulty;
+}
+
+export interface SnippetPart {
+  text: string;
+  highlight: boolean;
+}
+
+export interface SearchResult {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+// Quiz types - authored questions and ones generated from the exercises share one shape
+
+export type QuizQuestionKind = 'multiple-choice' | 'spot-the-violation' | 'which-principle';
+
+export interface QuizQuestion {
+  id: string;
+  kind: QuizQuestionKind;
+  prompt: string;
+  // A snippet to read before answering
+  code?: string;
+  choices: string[];
+  // Index of the right choice
+  answer: number;
+  explanation?: string;
+  // The principles.md anchor a wrong answer links back to
+  principleAnchor: string;
+  exerciseId?: string;
+  difficulty?: Difficulty;
+}
+
+// Flashcard types - cards come from principles.md, review state stays in this browser
+
+export type FlashcardKind = 'takeaways' | 'contrast';
+
+export interface Flashcard {
+  // `<principle anchor>:<kind>`, so reviews survive edits to the card text
+  id: string;
+  kind: FlashcardKind;
+  principleAnchor: string;
+  principle: string;
+  category: string;
+  prompt: string;
+  promptCode?: CodeExample;
+  answerItems: string[];
+  answerCode?: CodeExample;
+}
+
+// SM-2 grades: 0-2 means forgotten, 3 recalled with effort, 5 effortless
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface CardReview {
+  repetitions: number;
+  // Days until the next review
+  interval: number;
+  easeFactor: number;
+  // Local calendar days (YYYY-MM-DD)
+  dueDay: string;
+  introducedDay: string;
+  lastReviewedAt: string;
+}
+
+export interface FlashcardReviews {
+  version: 1;
+  cards: Record<string, CardReview>;
+}
+
+// Solution diff types - how a learner's components differ structurally from the reference answer
+
+export type DiffAnnotationKind = 'extra-state' | 'effect-sync' | 'mutation' | 'extra-prop';
+
+export interface DiffAnnotation {
+  kind: DiffAnnotationKind;
+  message: string;
+  // Line in the learner's file
+  line: number;
+}
+
+export interface ComponentDiff {
+  name: string;
+  // matched: both sides define it; missing: only the answer does; unmatched: only the learner's code does
+  status: 'matched' | 'missing' | 'unmatched';
+  // Same code as the answer once formatting and comments are ignored
+  identical: boolean;
+  line?: number;
+  annotations: DiffAnnotation[];
+}
+
+export interface SolutionDiff {
+  components: ComponentDiff[];
+}
+
+// By exercise id and level, for the problem code currently in tests/
+export type SolutionDiffs = Record<string, Partial<Record<Difficulty, SolutionDiff>>>;
+
+// Product catalog types - one query decides which products are listed and in what order
+
+export type SortOption = 'name' | 'price-low' | 'price-high' | 'rating';
+
+export interface CatalogQuery {
+  // A product matches when it is in any of the selected categories and brands - none selected matches all
+  categories: string[];
+  brands: string[];
+  minPrice: number;
+  // No upper bound when left out
+  maxPrice?: number;
+  // Stars out of 5; 0 matches every rating
+  minRating: number;
+  // Only an explicit `inStock: false` counts as out of stock - products that do not track stock stay listed
+  inStockOnly: boolean;
+  onSaleOnly: boolean;
+  // Products keep the order they came in when left out
+  sortBy?: SortOption;
+}
+
+export interface PriceBounds {
+  min: number;
+  max: number;
+}
+
+// What a product actually costs once its discount is taken off
+export interface ProductPricing {
+  listPrice: number;
+  effectivePrice: number;
+  savings: number;
+  savingsPercent: number;
+  onSale: boolean;
+}
+
+// How many products an option would match, counted against every other active filter
+export interface FacetOption {
+  value: string;
+  count: number;
+}
+
+// What the products on offer can be narrowed down by - every option, including those that match nothing right now
+export interface CatalogFacets {
+  categories: FacetOption[];
+  brands: FacetOption[];
+  priceRange: PriceBounds;
+}
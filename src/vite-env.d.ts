@@ -0,0 +1,11 @@
+/// <reference types="vite/client" />
+
+declare module 'virtual:search-index' {
+  const index: import('@/types').SearchIndex;
+  export default index;
+}
+
+declare module 'virtual:solution-diffs' {
+  const diffs: import('@/types').SolutionDiffs;
+  export default diffs;
+}
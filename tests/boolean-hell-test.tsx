@@ -6,7 +6,7 @@ import { useState } from 'react';
 
 // ===== EASY =====
 // Problem: Multiple booleans for loading states
-function DataFetcher() {
+export function DataFetcher() {
   const [isLoading, setIsLoading] = useState(false);
   const [isSuccess, setIsSuccess] = useState(false);
   const [isError, setIsError] = useState(false);
@@ -40,9 +40,17 @@ function DataFetcher() {
   );
 }
 
+// HINT nudge: Can isLoading and isSuccess ever be true at the same time? Look at how many setters every branch of fetchData has to call.
+// HINT concept: Mutually exclusive states belong in one value - a single status can only ever be one thing at a time.
+// HINT shape: One status instead of three flags:
+//   type DataStatus = 'idle' | 'loading' | 'success' | 'error';
+//   const [status, setStatus] = useState<DataStatus>('idle');
+//   // ...
+//   {status === 'loading' && <p>Loading...</p>}
+
 // ===== MEDIUM =====
 // Problem: Complex form validation with multiple boolean states
-function PaymentForm() {
+export function PaymentForm() {
   const [cardNumber, setCardNumber] = useState('');
   const [expiryDate, setExpiryDate] = useState('');
   const [cvv, setCvv] = useState('');
@@ -154,9 +162,17 @@ function PaymentForm() {
   );
 }
 
+// HINT nudge: Each field has an isValid and an isInvalid flag, and submission has several more - which combinations are impossible?
+// HINT concept: Give each independent concern its own union: one per field for validation, one for the submission.
+// HINT shape: A union per concern:
+//   type FieldValidation = 'pending' | 'valid' | 'invalid';
+//   type SubmissionStatus = 'idle' | 'submitting' | 'success' | 'error' | 'retrying';
+//   const [cardValidation, setCardValidation] = useState<FieldValidation>('pending');
+//   const [submissionStatus, setSubmissionStatus] = useState<SubmissionStatus>('idle');
+
 // ===== HARD =====
 // Problem: Complex multi-step wizard with boolean chaos
-function MultiStepWizard() {
+export function MultiStepWizard() {
   // Step management booleans
   const [isStep1Active, setIsStep1Active] = useState(true);
   const [isStep2Active, setIsStep2Active] = useState(false);
@@ -333,4 +349,15 @@ async function saveWizardData() {
   return new Promise((resolve, reject) => {
     setTimeout(() => Math.random() > 0.3 ? resolve({}) : reject('Save failed'), 1000);
   });
-}
\ No newline at end of file
+}
+
+// HINT nudge: Try listing which booleans change together when the user clicks Next - they are one piece of state in disguise.
+// HINT concept: A multi-step flow is a state machine: the step, its validation and the wizard status move together, so keep them in one object with typed values.
+// HINT shape: One state object for the whole wizard:
+//   type WizardStep = 1 | 2 | 3 | 4;
+//   type WizardStatus = 'active' | 'navigating' | 'submitting' | 'completed' | 'failed';
+//   interface WizardState {
+//     currentStep: WizardStep;
+//     status: WizardStatus;
+//     stepValidation: Record<WizardStep, 'pending' | 'valid' | 'invalid'>;
+//   }
\ No newline at end of file
@@ -15,7 +15,7 @@ interface AlertProps {
   onClose?: () => void;
 }
 
-function Alert({ type, title, message, showIcon, showCloseButton, onClose }: AlertProps) {
+export function Alert({ type, title, message, showIcon, showCloseButton, onClose }: AlertProps) {
   const icons = {
     success: '✅',
     error: '❌', 
@@ -38,7 +38,7 @@ function Alert({ type, title, message, showIcon, showCloseButton, onClose }: Ale
 }
 
 // Usage of the problematic Alert
-function AlertExamples() {
+export function AlertExamples() {
   return (
     <div>
       <Alert 
@@ -59,6 +59,15 @@ function AlertExamples() {
   );
 }
 
+// HINT nudge: What happens the first time someone needs a link or a button inside the alert message?
+// HINT concept: Let callers pass JSX as children instead of strings through props - the component provides the frame, the caller the content.
+// HINT shape: Children and small sub-components:
+//   <Alert type="success">
+//     <Alert.Icon>✅</Alert.Icon>
+//     <Alert.Title>Success!</Alert.Title>
+//     <Alert.Message>Your changes have been saved.</Alert.Message>
+//   </Alert>
+
 // ===== MEDIUM =====
 // Problem: Modal component with too many configuration props
 interface ModalProps {
@@ -81,7 +90,7 @@ interface ModalProps {
   footerClassName?: string;
 }
 
-function Modal({
+export function Modal({
   isOpen,
   onClose,
   title,
@@ -142,7 +151,7 @@ function Modal({
 }
 
 // Problematic usage of Modal
-function ModalExamples() {
+export function ModalExamples() {
   const [showModal, setShowModal] = useState(false);
 
   return (
@@ -194,6 +203,15 @@ function ModalExamples() {
   );
 }
 
+// HINT nudge: Count the props that only exist to decide what goes in the header, body and footer.
+// HINT concept: Compound components: Modal owns the overlay and closing, and slots such as Modal.Header and Modal.Footer take any children.
+// HINT shape: Slots instead of configuration:
+//   <Modal isOpen={isOpen} onClose={close}>
+//     <Modal.Header onClose={close}>Delete item?</Modal.Header>
+//     <Modal.Body>...</Modal.Body>
+//     <Modal.Footer>...</Modal.Footer>
+//   </Modal>
+
 // ===== HARD =====
 // Problem: Complex form builder with extensive configuration
 interface FormField {
@@ -230,7 +248,7 @@ interface FormBuilderProps {
   saveProgressText?: string;
 }
 
-function FormBuilder({
+export function FormBuilder({
   fields,
   onSubmit,
   submitButtonText = 'Submit',
@@ -375,7 +393,7 @@ function FormBuilder({
 }
 
 // Problematic usage of FormBuilder
-function FormExamples() {
+export function FormExamples() {
   const formFields: FormField[] = [
     {
       name: 'email',
@@ -426,4 +444,13 @@ function FormExamples() {
       buttonGroupClassName="form-actions"
     />
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: The field config array keeps growing options for layout, validation and conditional fields - what would a new kind of field cost?
+// HINT concept: Compose forms from small pieces (Form, fields, inputs) and write each form in JSX, instead of describing it in one configuration object.
+// HINT shape: Building blocks composed per form:
+//   <Form onSubmit={handleSubmit}>
+//     <Form.Field label="Email" error={errors.email}>
+//       <Input type="email" name="email" />
+//     </Form.Field>
+//   </Form>
\ No newline at end of file
@@ -14,7 +14,7 @@ interface StatusItemProps {
   onEdit: () => void;
 }
 
-function StatusItem({ type, value, isVerified, onVerify, onEdit }: StatusItemProps) {
+export function StatusItem({ type, value, isVerified, onVerify, onEdit }: StatusItemProps) {
   const getIcon = () => {
     switch (type) {
       case 'email': return '📧';
@@ -68,7 +68,7 @@ function StatusItem({ type, value, isVerified, onVerify, onEdit }: StatusItemPro
 }
 
 // Usage of the over-abstracted component
-function UserVerificationStatus() {
+export function UserVerificationStatus() {
   return (
     <div>
       <StatusItem 
@@ -96,6 +96,13 @@ function UserVerificationStatus() {
   );
 }
 
+// HINT nudge: Look at how many props and branches StatusItem needs to cover email, phone and address - do they really behave the same?
+// HINT concept: Components that only look alike but serve different purposes are cheaper to copy than to abstract.
+// HINT shape: One plain component per verification type:
+//   export function EmailVerificationItem({ email, isVerified, onVerify, onEdit }) { ... }
+//   export function PhoneVerificationItem({ phone, isVerified, onVerify, onEdit }) { ... }
+//   export function AddressVerificationItem({ address, isVerified, onVerify, onEdit }) { ... }
+
 // ===== MEDIUM =====
 // Problem: Over-engineered form field abstraction used in only 2-3 places
 interface FormFieldConfig {
@@ -114,7 +121,7 @@ interface FormFieldConfig {
   autoComplete?: string;
 }
 
-function DynamicFormField({ 
+export function DynamicFormField({ 
   config, 
   value, 
   onChange, 
@@ -190,7 +197,7 @@ function DynamicFormField({
 }
 
 // Only used in one place - over-abstracted!
-function ContactForm() {
+export function ContactForm() {
   const [formData, setFormData] = useState({
     name: '',
     email: '',
@@ -271,6 +278,17 @@ function ContactForm() {
   );
 }
 
+// HINT nudge: How many places use DynamicFormField, and how much of its code handles cases ContactForm never needs?
+// HINT concept: An abstraction used in one or two places costs more than it saves - write the fields out where they are used.
+// HINT shape: Plain inputs inside the form:
+//   <form onSubmit={handleSubmit} className="contact-form">
+//     <label>
+//       Name
+//       <input name="name" value={formData.name} onChange={handleChange} />
+//     </label>
+//     {errors.name && <span className="error">{errors.name}</span>}
+//   </form>
+
 // ===== HARD =====
 // Problem: Massively over-abstracted dashboard widget system
 interface WidgetConfig {
@@ -329,7 +347,7 @@ interface WidgetConfig {
   }>;
 }
 
-function UniversalWidget({ 
+export function UniversalWidget({ 
   config, 
   data, 
   onRefresh, 
@@ -500,7 +518,7 @@ function UniversalWidget({
 }
 
 // Over-complex usage - only 3 widgets but massive abstraction overhead
-function Dashboard() {
+export function Dashboard() {
   const widgetConfigs: WidgetConfig[] = [
     {
       id: 'sales-chart',
@@ -574,4 +592,11 @@ function Dashboard() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: UniversalWidget switches on its type in almost every line - what do the sales chart and the orders table actually share?
+// HINT concept: When every variant has its own data, actions and layout, specific components stay simpler than one universal one.
+// HINT shape: A component per widget, composed by the dashboard:
+//   export function SalesChart({ data, onRefresh }) { ... }
+//   export function UserCountWidget({ data, onRefresh }) { ... }
+//   export function RecentOrdersWidget({ data, onExport }) { ... }
\ No newline at end of file
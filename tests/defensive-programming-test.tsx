@@ -7,7 +7,7 @@ import type { User, Product } from '../src/types';
 
 // ===== EASY =====
 // Problem: No validation or error handling for props
-function UserProfile({ user }) {
+export function UserProfile({ user }) {
   return (
     <div className="user-profile">
       <h1>{user.firstName} {user.lastName}</h1>
@@ -25,7 +25,7 @@ function UserProfile({ user }) {
 }
 
 // Usage that will crash
-function App() {
+export function App() {
   const [user, setUser] = useState(null);
   
   useEffect(() => {
@@ -36,9 +36,16 @@ function App() {
   return <UserProfile user={user} />;
 }
 
+// HINT nudge: Render UserProfile with user={null}, or with a user whose name is missing - which line throws first?
+// HINT concept: Check inputs at the boundary: handle a missing user explicitly and give every optional field a sensible fallback.
+// HINT shape: Guard first, then fall back per field:
+//   if (!user) return <div className="user-profile-error">No user data available</div>;
+//   const firstName = user.firstName?.trim() || 'Unknown';
+//   const email = user.email?.trim() || 'No email provided';
+
 // ===== MEDIUM =====
 // Problem: No error handling in data fetching and processing
-function ProductSearch() {
+export function ProductSearch() {
   const [searchTerm, setSearchTerm] = useState('');
   const [products, setProducts] = useState([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -102,9 +109,18 @@ function ProductSearch() {
   );
 }
 
+// HINT nudge: What does the user see when the request fails, returns a non-OK status or returns something that is not an array?
+// HINT concept: Every network call needs loading, error and empty states, and the response has to be checked before it is used.
+// HINT shape: Check the response and keep an error state:
+//   const [error, setError] = useState<string | null>(null);
+//   // ...
+//   if (!response.ok) throw new Error(`Search failed (${response.status})`);
+//   const data = await response.json();
+//   setProducts(Array.isArray(data) ? data : []);
+
 // ===== HARD =====
 // Problem: Complex form with no validation, error handling, or edge case management
-function ComplexRegistrationForm() {
+export function ComplexRegistrationForm() {
   const [formData, setFormData] = useState({
     personalInfo: {
       firstName: '',
@@ -384,4 +400,14 @@ async function fetchUser(): Promise<User | null> {
   ];
   
   return responses[Math.floor(Math.random() * responses.length)];
-}
\ No newline at end of file
+}
+
+// HINT nudge: Submit the form empty, twice in a row, or with the network down - what happens each time?
+// HINT concept: Validate every field before submitting, block double submission and show errors next to the fields they belong to.
+// HINT shape: Validate the current step before moving on or submitting:
+//   const validateStep = (step: number): Record<string, string> => {
+//     const stepErrors: Record<string, string> = {};
+//     if (step === 1 && !formData.personalInfo.email.includes('@')) stepErrors.email = 'Enter a valid email address';
+//     return stepErrors;
+//   };
+//   if (isSubmitting) return;
\ No newline at end of file
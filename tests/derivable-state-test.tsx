@@ -11,7 +11,7 @@ type ShoppingCartItem = {
 
 // ===== EASY =====
 // Problem: Storing derived values in state
-function ShoppingCart({ items }: {   items: ShoppingCartItem[] }) {
+export function ShoppingCart({ items }: {   items: ShoppingCartItem[] }) {
   const [cartItems, setCartItems] = useState(items);
   const [itemCount, setItemCount] = useState(items.length);
   const [totalPrice, setTotalPrice] = useState(0);
@@ -48,9 +48,16 @@ type User = {
   createdAt?: string;
 };
 
+// HINT nudge: itemCount and totalPrice are updated alongside cartItems every time - what happens if one update is forgotten?
+// HINT concept: Anything that can be computed from existing state is not state - compute it during render.
+// HINT shape: Keep cartItems, compute the rest:
+//   const [cartItems, setCartItems] = useState(items);
+//   const itemCount = cartItems.length;
+//   const totalPrice = cartItems.reduce((sum, item) => sum + item.price, 0);
+
 // ===== MEDIUM =====
 // Problem: Complex derived state with multiple useEffects
-function UserProfile({ user }: { user: User }) {
+export function UserProfile({ user }: { user: User }) {
   const [userData, setUserData] = useState(user);
   const [displayName, setDisplayName] = useState('');
   const [isVerified, setIsVerified] = useState(false);
@@ -99,9 +106,16 @@ function UserProfile({ user }: { user: User }) {
   );
 }
 
+// HINT nudge: Every useEffect here only copies something out of userData into another piece of state.
+// HINT concept: Values that depend entirely on the user data should be derived during render; useMemo only where the calculation is costly.
+// HINT shape: Derive instead of syncing:
+//   const [userData, setUserData] = useState(user);
+//   const isVerified = userData.badges?.includes('verified') ?? false;
+//   const membershipTier = useMemo(() => getTier(userData), [userData]);
+
 // ===== HARD =====
 // Problem: Derived state with complex interdependencies
-function ProjectDashboard({ projects, users, tasks }) {
+export function ProjectDashboard({ projects, users, tasks }) {
   const [projectData, setProjectData] = useState(projects);
   const [userData, setUserData] = useState(users);
   const [taskData, setTaskData] = useState(tasks);
@@ -192,4 +206,12 @@ function ProjectDashboard({ projects, users, tasks }) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: Which pieces of state could you delete and still render everything from projects, users and tasks?
+// HINT concept: Keep only the three source arrays in state; the statistics are derived from them, memoized because they are expensive.
+// HINT shape: Source arrays in state, statistics memoized:
+//   const [taskData, setTaskData] = useState(tasks);
+//   const projectStats = useMemo(() => {
+//     // count tasks per project from taskData
+//   }, [projectData, taskData]);
\ No newline at end of file
@@ -6,7 +6,7 @@ import React, { useState, useEffect } from 'react';
 
 // ===== EASY =====
 // Problem: Directly mutating state arrays and objects
-function TodoList() {
+export function TodoList() {
   const [todos, setTodos] = useState([
     { id: 1, text: 'Learn React', completed: false },
     { id: 2, text: 'Build an app', completed: false }
@@ -73,9 +73,17 @@ function TodoList() {
   );
 }
 
+// HINT nudge: Look for push, splice and direct property assignment on todos - does React see a new array afterwards?
+// HINT concept: State updates must produce new arrays and objects; React compares references, so mutating in place can skip re-renders.
+// HINT shape: New arrays and objects on every update:
+//   setTodos(previous => [...previous, newTodo]);
+//   setTodos(previous => previous.map(todo =>
+//     todo.id === id ? { ...todo, completed: !todo.completed } : todo
+//   ));
+
 // ===== MEDIUM =====
 // Problem: Mutating nested objects and arrays in complex state
-function ShoppingCart() {
+export function ShoppingCart() {
   const [cart, setCart] = useState({
     items: [],
     customer: {
@@ -260,9 +268,19 @@ function ShoppingCart() {
   );
 }
 
+// HINT nudge: The cart updates reach into nested items and discounts - which of those lines change an object React already has?
+// HINT concept: Copy every level you change: the cart, the array inside it and the item inside that.
+// HINT shape: Spread each level on the way down:
+//   setCart(previous => ({
+//     ...previous,
+//     items: previous.items.map(item =>
+//       item.productId === productId ? { ...item, quantity } : item
+//     )
+//   }));
+
 // ===== HARD =====
 // Problem: Complex state management with deep mutations and side effects
-function ProjectManager() {
+export function ProjectManager() {
   const [projects, setProjects] = useState([]);
   const [users, setUsers] = useState([]);
   const [tasks, setTasks] = useState([]);
@@ -503,4 +521,12 @@ function ProjectManager() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: Projects, users and tasks point at each other - follow what else gets mutated when a task is assigned.
+// HINT concept: Keep entities in flat arrays linked by id, update them immutably, and derive the joined views during render.
+// HINT shape: Flat state plus derived relationships:
+//   const [tasks, setTasks] = useState<Task[]>([]);
+//   const reassignTask = (taskId: string, userId: string) =>
+//     setTasks(previous => previous.map(task => (task.id === taskId ? { ...task, assignedTo: userId } : task)));
+//   const projectsWithStats = useMemo(() => projects.map(project => withStats(project, tasks)), [projects, tasks]);
\ No newline at end of file
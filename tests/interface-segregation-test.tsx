@@ -16,7 +16,7 @@ interface UserCardProps {
   className?: string;
 }
 
-function UserCard({ 
+export function UserCard({ 
   user, 
   showEditButton = true, 
   showDeleteButton = true, 
@@ -44,7 +44,7 @@ function UserCard({
 }
 
 // Usage demonstrating the problem
-function UserManagement() {
+export function UserManagement() {
   const [users, setUsers] = useState<User[]>([]);
   
   return (
@@ -61,6 +61,17 @@ function UserManagement() {
   );
 }
 
+// HINT nudge: UserCard receives the whole user - which of its fields does it actually read?
+// HINT concept: A component should depend only on what it uses: list those fields as props instead of taking the full object.
+// HINT shape: A focused props interface:
+//   interface UserCardProps {
+//     id: string;
+//     name: string;
+//     email: string;
+//     avatar?: string;
+//     onEdit?: (id: string) => void;
+//   }
+
 // ===== MEDIUM =====
 // Problem: Dashboard widget component with massive props interface
 interface DashboardWidgetProps {
@@ -119,7 +130,7 @@ interface DashboardWidgetProps {
 }
 
 // Simple stats widget that only needs a fraction of these props
-function StatsWidget(props: DashboardWidgetProps) {
+export function StatsWidget(props: DashboardWidgetProps) {
   // This widget only uses: title, user.id, analytics.stats, onRefresh
   // But receives 30+ props it doesn't need
   
@@ -139,7 +150,7 @@ function StatsWidget(props: DashboardWidgetProps) {
 }
 
 // Chart widget that uses different props than stats widget
-function ChartWidget(props: DashboardWidgetProps) {
+export function ChartWidget(props: DashboardWidgetProps) {
   // This widget only uses: title, analytics.chartData, showExportButton, onExport
   // But receives 30+ props it doesn't need
   
@@ -157,7 +168,7 @@ function ChartWidget(props: DashboardWidgetProps) {
 }
 
 // Recent orders widget with yet different prop usage
-function RecentOrdersWidget(props: DashboardWidgetProps) {
+export function RecentOrdersWidget(props: DashboardWidgetProps) {
   // This widget only uses: title, orders, user.permissions
   // But receives 30+ props it doesn't need
   
@@ -180,7 +191,7 @@ function RecentOrdersWidget(props: DashboardWidgetProps) {
 }
 
 // Usage showing how all widgets get the same massive props object
-function Dashboard() {
+export function Dashboard() {
   const dashboardData = {
     user: {} as User,
     products: [] as Product[],
@@ -223,6 +234,18 @@ function Dashboard() {
   );
 }
 
+// HINT nudge: Which props of the dashboard widget does a stats widget never touch? And a chart?
+// HINT concept: Split the mega interface into a small shared base and one interface per widget type.
+// HINT shape: A base interface and one per widget:
+//   interface BaseWidgetProps {
+//     title: string;
+//     className?: string;
+//   }
+//   interface StatsWidgetProps extends BaseWidgetProps {
+//     value: number;
+//     onRefresh?: () => void;
+//   }
+
 // ===== HARD =====
 // Problem: Complex form component with unfocused interface
 interface MegaFormProps {
@@ -315,7 +338,7 @@ interface MegaFormProps {
 }
 
 // Simple contact form that only needs a fraction of these props
-function ContactFormSimple(props: MegaFormProps) {
+export function ContactFormSimple(props: MegaFormProps) {
   // This form only uses: title, personalInfo (firstName, email), onSave
   // But receives 50+ props it doesn't need
   
@@ -352,7 +375,7 @@ function ContactFormSimple(props: MegaFormProps) {
 }
 
 // Business registration form that uses different props
-function BusinessRegistrationForm(props: MegaFormProps) {
+export function BusinessRegistrationForm(props: MegaFormProps) {
   // This form only uses: title, businessInfo, addressInfo, onSave, showProgressBar
   // But receives 50+ props it doesn't need
   
@@ -399,7 +422,7 @@ function BusinessRegistrationForm(props: MegaFormProps) {
 }
 
 // Payment form that uses yet different props
-function PaymentFormComplex(props: MegaFormProps) {
+export function PaymentFormComplex(props: MegaFormProps) {
   // This form only uses: title, paymentInfo, onPaymentInfoChange, onSave
   // But receives 50+ props it doesn't need
   
@@ -449,7 +472,7 @@ function PaymentFormComplex(props: MegaFormProps) {
 }
 
 // Usage showing how all forms get the same massive props object
-function FormExamples() {
+export function FormExamples() {
   const allFormData = {
     personalInfo: { firstName: 'John', lastName: 'Doe', email: 'john@example.com' },
     businessInfo: { companyName: 'Acme Corp' },
@@ -490,4 +513,15 @@ function FormExamples() {
       />
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: The form component takes props for contact, business and payment forms at once - how many does a contact form need?
+// HINT concept: One focused component and interface per kind of form, sharing only a small base.
+// HINT shape: Specific forms over one mega form:
+//   interface BaseFormProps {
+//     onSubmit: (data: unknown) => void;
+//     disabled?: boolean;
+//   }
+//   interface ContactFormProps extends BaseFormProps {
+//     showPhoneField?: boolean;
+//   }
\ No newline at end of file
@@ -9,16 +9,24 @@ import type { User, Product } from '../src/types';
 // Problem: Simple helper extracted too early
 import { formatUserName } from '../src/utils/userHelpers';
 
-function UserGreeting({ user }: { user: User }) {
+export function UserGreeting({ user }: { user: User }) {
   return <h1>Hello, {formatUserName(user.firstName, user.lastName)}!</h1>;
 }
 
+// HINT nudge: Where else is formatUserName used?
+// HINT concept: Logic used in one place reads best right where it is used - extract only once there is real reuse.
+// HINT shape: Inline the formatting:
+//   export function UserGreeting({ user }) {
+//     const displayName = `${user.firstName} ${user.lastName}`.trim();
+//     return <h1>Hello, {displayName}!</h1>;
+//   }
+
 // ===== MEDIUM =====
 // Problem: Business logic scattered across multiple files
 import { validateEmail, validatePassword, validateAge } from '../src/validators/userValidation';
 import { formatErrorMessage } from '../src/utils/errorFormatting';
 
-function RegistrationForm() {
+export function RegistrationForm() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [age, setAge] = useState('');
@@ -68,6 +76,19 @@ function RegistrationForm() {
   );
 }
 
+// HINT nudge: To understand why the form shows an error, how many other modules do you have to open?
+// HINT concept: This validation belongs to this form's requirements, so keep it inside the form component.
+// HINT shape: Validation next to the form that uses it:
+//   export function RegistrationForm() {
+//     const [errors, setErrors] = useState({});
+//
+//     const validate = () => {
+//       const nextErrors = {};
+//       if (!email.includes('@')) nextErrors.email = 'Enter a valid email address';
+//       return nextErrors;
+//     };
+//   }
+
 // ===== HARD =====
 // Problem: Complex component split across multiple files with shared state management
 import { useProductFilters } from '../src/hooks/useProductFilters';
@@ -78,12 +99,13 @@ import { FilterSidebar } from '../src/components/FilterSidebar';
 import { SortDropdown } from '../src/components/SortDropdown';
 import { PriceRange } from '../src/components/PriceRange';
 
-function ProductListing({ products }: { products: Product[] }) {
+export function ProductListing({ products }: { products: Product[] }) {
   const {
-    categoryFilter,
-    setCategoryFilter,
-    brandFilter,
-    setBrandFilter,
+    categoryFilters,
+    setCategoryFilters,
+    brandFilters,
+    setBrandFilters,
+    clearFilters,
     filteredProducts
   } = useProductFilters(products);
 
@@ -105,10 +127,11 @@ function ProductListing({ products }: { products: Product[] }) {
     <div className="product-listing">
       <div className="filters">
         <FilterSidebar 
-          categoryFilter={categoryFilter}
-          setCategoryFilter={setCategoryFilter}
-          brandFilter={brandFilter}
-          setBrandFilter={setBrandFilter}
+          categoryFilters={categoryFilters}
+          setCategoryFilters={setCategoryFilters}
+          brandFilters={brandFilters}
+          setBrandFilters={setBrandFilters}
+          clearFilters={clearFilters}
         />
         <PriceRange 
           minPrice={minPrice}
@@ -129,4 +152,15 @@ function ProductListing({ products }: { products: Product[] }) {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: Filtering, sorting and price formatting live in separate modules but serve one list - trace one filter change through them.
+// HINT concept: Features that make up one user experience should live in one cohesive component.
+// HINT shape: Filters, sorting and display together:
+//   export function ProductListing({ products }) {
+//     const [categoryFilter, setCategoryFilter] = useState('');
+//     const [sortBy, setSortBy] = useState('name');
+//     const visibleProducts = products
+//       .filter(product => !categoryFilter || product.category === categoryFilter)
+//       .sort(compareBy(sortBy));
+//   }
\ No newline at end of file
@@ -6,7 +6,7 @@ import React, { useState, useEffect } from 'react';
 
 // ===== EASY =====
 // Problem: Storing derived values that can be calculated from other state
-function UserDashboard() {
+export function UserDashboard() {
   const [user, setUser] = useState(null);
   const [posts, setPosts] = useState([]);
   
@@ -93,9 +93,16 @@ function UserDashboard() {
   );
 }
 
+// HINT nudge: Several state values are set right after user and posts arrive - are any of them new information?
+// HINT concept: Keep only the fetched data (and loading/error) in state; counts, flags and groupings are derived from it.
+// HINT shape: Minimal state, derived values:
+//   const [user, setUser] = useState<User | null>(null);
+//   const [posts, setPosts] = useState<Post[]>([]);
+//   const recentPosts = useMemo(() => posts.slice(0, 5), [posts]);
+
 // ===== MEDIUM =====  
 // Problem: Complex shopping cart with excessive state tracking
-function ShoppingCartComplex() {
+export function ShoppingCartComplex() {
   // Core state
   const [items, setItems] = useState([]);
   const [couponCode, setCouponCode] = useState('');
@@ -332,9 +339,19 @@ function ShoppingCartComplex() {
   );
 }
 
+// HINT nudge: Subtotal, tax, discount and shipping are all state kept in sync by effects - which of them could the user set directly?
+// HINT concept: Store what the user chooses (items, coupon, shipping method) and compute the totals from it.
+// HINT shape: User choices in state, one memoized calculation:
+//   const [items, setItems] = useState<CartItem[]>([]);
+//   const [couponCode, setCouponCode] = useState('');
+//   const cartCalculations = useMemo(() => {
+//     const subtotal = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+//     return { subtotal };
+//   }, [items, couponCode]);
+
 // ===== HARD =====
 // Problem: Project management system with enormous state surface area
-function ProjectManagementSystem() {
+export function ProjectManagementSystem() {
   // Core data
   const [projects, setProjects] = useState([]);
   const [tasks, setTasks] = useState([]);
@@ -544,4 +561,12 @@ function ProjectManagementSystem() {
       {/* More complex UI that depends on all the derived state... */}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: Count the state variables. Which ones are copies or summaries of projects, tasks and users?
+// HINT concept: Store base entities and the user selection; relationships and statistics are computed from them.
+// HINT shape: Base entities plus derived analytics:
+//   const [projects, setProjects] = useState<Project[]>([]);
+//   const [tasks, setTasks] = useState<Task[]>([]);
+//   const [selectedProjectId, setSelectedProjectId] = useState<string | null>(null);
+//   const analytics = useMemo(() => computeAnalytics(projects, tasks, users), [projects, tasks, users]);
\ No newline at end of file
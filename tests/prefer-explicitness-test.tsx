@@ -14,7 +14,7 @@ type User = {
   // Add other fields as needed
 };
 
-function UserManagement() {
+export function UserManagement() {
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(false);
 
@@ -169,9 +169,16 @@ function UserManagement() {
   );
 }
 
+// HINT nudge: Read a call to the generic handler - can you tell what it does without opening it?
+// HINT concept: Name each action: one explicit function per operation is self-documenting and safe to change.
+// HINT shape: Specific, named functions:
+//   const activateUser = (userId: string) => updateUser(userId, { isActive: true });
+//   const deactivateUser = (userId: string) => updateUser(userId, { isActive: false });
+//   <button onClick={() => deactivateUser(user.id)}>Deactivate</button>
+
 // ===== MEDIUM =====
 // Problem: Over-generic form component that tries to handle every possible use case
-function GenericForm({ 
+export function GenericForm({ 
   config, 
   onSubmit, 
   onFieldChange,
@@ -494,7 +501,7 @@ function GenericForm({
 }
 
 // Usage showing how complex the configuration becomes
-function ContactFormExample() {
+export function ContactFormExample() {
   const formConfig = {
     title: 'Contact Form',
     description: 'Please fill out all required fields',
@@ -600,6 +607,18 @@ function ContactFormExample() {
   );
 }
 
+// HINT nudge: Which parts of GenericForm does the contact form use, and which exist for forms nobody has written yet?
+// HINT concept: Write specific forms with their own fields and validation instead of one form driven by a schema.
+// HINT shape: A form that says what it is:
+//   interface ContactFormData {
+//     name: string;
+//     email: string;
+//     message: string;
+//   }
+//   export function ContactForm() {
+//     const [formData, setFormData] = useState<ContactFormData>({ name: '', email: '', message: '' });
+//   }
+
 // ===== HARD =====
 // Problem: Over-engineered state management system that tries to be everything
 class GenericStateManager {
@@ -856,7 +875,7 @@ class GenericStateManager {
 }
 
 // Usage showing how complex and unclear this becomes
-function AppWithGenericStateManager() {
+export function AppWithGenericStateManager() {
   const [stateManager] = useState(() => new GenericStateManager({
     initialState: {
       users: [],
@@ -924,4 +943,11 @@ function AppWithGenericStateManager() {
       </button>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: The generic state manager accepts any key and any action - how would you find every place that changes the users?
+// HINT concept: Give each domain its own explicit state manager with named operations instead of one manager for everything.
+// HINT shape: One manager per domain:
+//   const [userManager] = useState(() => new UserStateManager());
+//   const [productManager] = useState(() => new ProductStateManager());
+//   useEffect(() => userManager.subscribe(state => setUsers(state.users)), [userManager]);
\ No newline at end of file
@@ -6,7 +6,7 @@ import React, { useState, useEffect } from 'react';
 
 // ===== EASY =====
 // Problem: Form that completely breaks without JavaScript
-function ContactFormBroken() {
+export function ContactFormBroken() {
   const [email, setEmail] = useState('');
   const [message, setMessage] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -74,9 +74,18 @@ function ContactFormBroken() {
   );
 }
 
+// HINT nudge: Turn JavaScript off in your head - can this form still be submitted?
+// HINT concept: Start from a real <form> with action and method, and add JavaScript on top as an enhancement.
+// HINT shape: A form that works without JavaScript:
+//   <form action="/api/contact" method="POST" onSubmit={isJSEnabled ? handleSubmit : undefined}>
+//     <input type="email" name="email" required />
+//     <textarea name="message" required />
+//     <button type="submit">Send</button>
+//   </form>
+
 // ===== MEDIUM =====
 // Problem: Interactive elements that don't use proper HTML elements
-function ProductCatalog() {
+export function ProductCatalog() {
   const [products, setProducts] = useState([]);
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [sortBy, setSortBy] = useState('name');
@@ -214,9 +223,17 @@ function ProductCatalog() {
   );
 }
 
+// HINT nudge: Which of the clickable things are divs or spans? Try reaching them with the keyboard.
+// HINT concept: Use semantic elements - links, buttons, forms, selects - so the basics work and assistive technology understands them.
+// HINT shape: Semantic controls with a server fallback:
+//   <form method="POST" action="/api/cart/add">
+//     <input type="hidden" name="productId" value={product.id} />
+//     <button type="submit">Add to Cart</button>
+//   </form>
+
 // ===== HARD =====
 // Problem: Complex dashboard that's completely JavaScript-dependent
-function AdminDashboard() {
+export function AdminDashboard() {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [user, setUser] = useState(null);
   const [activeTab, setActiveTab] = useState('users');
@@ -471,4 +488,14 @@ function AdminDashboard() {
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: Without JavaScript this dashboard renders nothing at all - which parts could be plain HTML?
+// HINT concept: Render a semantic structure first (links for tabs, forms for actions) and enhance it client-side once JavaScript runs.
+// HINT shape: Links and forms first, JavaScript on top:
+//   <nav>
+//     <a href="?tab=users" onClick={isJSEnabled ? selectTab('users') : undefined}>Users</a>
+//   </nav>
+//   <form method="POST" action={`/admin/users/${user.id}/delete`}>
+//     <button type="submit">Delete</button>
+//   </form>
\ No newline at end of file
@@ -6,7 +6,7 @@ import React, { useState, useRef, useEffect } from 'react';
 
 // ===== EASY =====
 // Problem: Using Math.random() directly in render
-function RandomQuote({ quotes }) {
+export function RandomQuote({ quotes }) {
   const randomIndex = Math.floor(Math.random() * quotes.length);
   const selectedQuote = quotes[randomIndex];
 
@@ -21,9 +21,16 @@ function RandomQuote({ quotes }) {
   );
 }
 
+// HINT nudge: Render RandomQuote twice with the same quotes - do you get the same output?
+// HINT concept: Render must depend only on props and state; pick the random value once and keep it in state.
+// HINT shape: A lazily initialized state value:
+//   const [selectedIndex, setSelectedIndex] = useState(() =>
+//     Math.floor(Math.random() * quotes.length)
+//   );
+
 // ===== MEDIUM =====
 // Problem: Using Date.now() and other time-based values in render
-function TimeBasedGreeting({ userName }) {
+export function TimeBasedGreeting({ userName }) {
   const currentHour = new Date().getHours();
   const timestamp = Date.now();
   const isWeekend = new Date().getDay() === 0 || new Date().getDay() === 6;
@@ -57,9 +64,18 @@ function TimeBasedGreeting({ userName }) {
   );
 }
 
+// HINT nudge: new Date() runs on every render - what does the greeting show if the component re-renders at a different time?
+// HINT concept: The current time is an input, not a render-time calculation: keep it in state and update it from an effect.
+// HINT shape: Time in state, updated by an interval:
+//   const [currentTime, setCurrentTime] = useState(() => new Date());
+//   useEffect(() => {
+//     const timer = setInterval(() => setCurrentTime(new Date()), 60_000);
+//     return () => clearInterval(timer);
+//   }, []);
+
 // ===== HARD =====
 // Problem: Complex component with multiple sources of non-determinism and side effects
-function DashboardWidget({ userId, widgetType }) {
+export function DashboardWidget({ userId, widgetType }) {
   const componentId = `widget-${Math.random().toString(36).substr(2, 9)}`;
   const renderTime = new Date().toISOString();
   const renderCount = ++window.renderCounter || (window.renderCounter = 1);
@@ -174,7 +190,7 @@ function DashboardWidget({ userId, widgetType }) {
 }
 
 // Additional problematic patterns
-function ProblematicPatterns() {
+export function ProblematicPatterns() {
   // More examples of non-deterministic render logic
   
   // Problem: Accessing external mutable state
@@ -240,4 +256,14 @@ function ProblematicPatterns() {
       <ObjectCreationComponent items={[{ name: 'Item 1' }, { name: 'Item 2' }]} />
     </div>
   );
-}
\ No newline at end of file
+}
+
+// HINT nudge: List everything the render reads besides props and state - random numbers, the clock, globals - and everything it writes.
+// HINT concept: Non-deterministic values go into state and side effects into useEffect; render only turns props and state into JSX.
+// HINT shape: Values chosen once, subscriptions in effects:
+//   const [componentId] = useState(() => `widget-${Math.random().toString(36).slice(2, 11)}`);
+//   useEffect(() => {
+//     const handleResize = () => setScreenDimensions({ width: window.innerWidth, height: window.innerHeight });
+//     window.addEventListener('resize', handleResize);
+//     return () => window.removeEventListener('resize', handleResize);
+//   }, []);
\ No newline at end of file
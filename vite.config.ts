@@ -1,10 +1,25 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
+import { mockApiPlugin } from './src/mockApi/vitePlugin'
+import { principlesPlugin } from './src/principles/vitePlugin'
+import { searchIndexPlugin } from './src/search/vitePlugin'
+import { solutionDiffPlugin } from './src/diff/vitePlugin'
 
 // https://vitejs.dev/config/
 export default defineConfig({
-  plugins: [react()],
+  plugins: [
+    react(),
+    // Tune latency/failureRate/failures here to exercise the loading, error and retry paths
+    mockApiPlugin({ latency: { min: 200, max: 800 } }),
+    // Every table of contents link in principles.md must land on a section - broken ones fail `vite build`
+    principlesPlugin(),
+    // Builds the Ctrl+K search index from principles.md, tests/ and answers/
+    searchIndexPlugin(),
+    // Diffs each level's problem against its answer for the exercise view's "Compare with the Answer"
+    solutionDiffPlugin(),
+  ],
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
@@ -12,8 +27,23 @@ export default defineConfig({
       '@/answers': path.resolve(__dirname, './answers'),
     },
   },
+  build: {
+    rollupOptions: {
+      input: {
+        main: path.resolve(__dirname, 'index.html'),
+        preview: path.resolve(__dirname, 'preview.html'),
+      },
+    },
+  },
   server: {
     port: 3000,
     open: true,
   },
+  // Behavioral specs grade answers/ by default; `--mode learner` grades the edited files in tests/
+  // Specs in folders such as specs/catalog/ unit-test the src/ module of the same name
+  test: {
+    environment: 'jsdom',
+    include: ['specs/**/*.spec.{ts,tsx}'],
+    setupFiles: ['specs/setup.ts'],
+  },
 })
\ No newline at end of file